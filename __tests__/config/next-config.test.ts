@@ -5,7 +5,7 @@
  * with Cloud Run deployment. Validates that:
  * - Output mode is set to 'standalone' for Docker optimization
  * - Static export mode is not enabled
- * - Image optimization is enabled (not unoptimized)
+ * - Image optimization is enabled (not unoptimized) for Firebase Storage images
  * - Cache headers are configured for static assets
  * 
  * Validates Requirements: 1.1, 1.2, 1.3, 1.5
@@ -38,6 +38,21 @@ describe('Next.js Configuration', () => {
     it('should have images configuration defined', () => {
       expect(nextConfig.images).toBeDefined();
     });
+
+    it('should allow Firebase Storage images over HTTPS', () => {
+      const hostnames = nextConfig.images.remotePatterns.map((pattern: any) => pattern.hostname);
+
+      expect(hostnames).toEqual(
+        expect.arrayContaining(['storage.googleapis.com', 'firebasestorage.googleapis.com'])
+      );
+      nextConfig.images.remotePatterns.forEach((pattern: any) => {
+        expect(pattern.protocol).toBe('https');
+      });
+    });
+
+    it('should serve modern image formats', () => {
+      expect(nextConfig.images.formats).toEqual(expect.arrayContaining(['image/avif', 'image/webp']));
+    });
   });
 
   describe('Cache Headers', () => {
@@ -0,0 +1,135 @@
+/**
+ * Security Rules Tests
+ *
+ * This file tests the Firestore and Storage security rules to ensure:
+ * - Admin data (projects, revisions, profile, reply templates, media, audit
+ *   log) can only be written by the admin API (Admin SDK), never by clients
+ * - Inquiries can only be created by the contact endpoint (Admin SDK), so
+ *   clients cannot skip its spam checks, rate limit and IP hashing
+ * - Inquiries are read by admins only and changed through the admin API
+ * - Project and temp images can only be uploaded through the admin API
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Returns the index of the brace closing the one at `open`
+ */
+function closingBrace(rules: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < rules.length; i++) {
+    if (rules[i] === '{') depth++;
+    if (rules[i] === '}') depth--;
+    if (depth === 0) {
+      return i;
+    }
+  }
+  throw new Error('Unbalanced braces in rules');
+}
+
+/**
+ * Returns the body of the `match <pattern> { ... }` block in a rules file,
+ * without comments and without the match blocks nested in it
+ */
+function matchBlock(rules: string, pattern: string): string {
+  const source = rules.replace(/\/\/.*$/gm, '');
+  const start = source.indexOf(`match ${pattern} {`);
+  if (start === -1) {
+    throw new Error(`No match block for ${pattern}`);
+  }
+  // Path wildcards such as {inquiryId} follow a slash; the block brace follows a space
+  const open = source.indexOf(' {', start) + 1;
+  let body = source.slice(open + 1, closingBrace(source, open));
+
+  let nested = body.indexOf('match ');
+  while (nested !== -1) {
+    const nestedOpen = body.indexOf(' {', nested) + 1;
+    body = body.slice(0, nested) + body.slice(closingBrace(body, nestedOpen) + 1);
+    nested = body.indexOf('match ');
+  }
+  return body;
+}
+
+/**
+ * Returns the condition of the `allow` statement covering `operation` in a block
+ */
+function allowCondition(block: string, operation: string): string | undefined {
+  const statements = Array.from(block.matchAll(/allow ([a-z, ]+):\s*if ([\s\S]*?);/g));
+  const statement = statements.find(([, operations]) =>
+    operations
+      .split(',')
+      .map(op => op.trim())
+      .some(op => op === operation || (op === 'write' && operation !== 'read'))
+  );
+  return statement?.[2].replace(/\s+/g, ' ').trim();
+}
+
+describe('Firestore Security Rules', () => {
+  let rules: string;
+
+  beforeAll(() => {
+    rules = fs.readFileSync(path.join(process.cwd(), 'firestore.rules'), 'utf-8');
+  });
+
+  describe('Inquiries', () => {
+    test('should deny client creates, which go through the contact endpoint', () => {
+      expect(allowCondition(matchBlock(rules, '/inquiries/{inquiryId}'), 'create')).toBe('false');
+    });
+
+    test('should deny client updates and deletes', () => {
+      const inquiries = matchBlock(rules, '/inquiries/{inquiryId}');
+
+      expect(allowCondition(inquiries, 'update')).toBe('false');
+      expect(allowCondition(inquiries, 'delete')).toBe('false');
+    });
+
+    test('should only let admins read inquiries', () => {
+      expect(allowCondition(matchBlock(rules, '/inquiries/{inquiryId}'), 'read')).toBe("hasRole('viewer')");
+    });
+  });
+
+  describe('Admin Data', () => {
+    test.each([
+      '/projects/{projectId}',
+      '/revisions/{revisionId}',
+      '/messages/{messageId}',
+      '/profile/main',
+      '/replyTemplates/{templateId}',
+      '/media/{mediaId}',
+      '/auditLog/{entryId}',
+      '/rateLimits/{bucketId}',
+    ])('should deny client writes to %s', (pattern) => {
+      const block = matchBlock(rules, pattern);
+
+      expect(allowCondition(block, 'create')).toBe('false');
+      expect(allowCondition(block, 'update')).toBe('false');
+      expect(allowCondition(block, 'delete')).toBe('false');
+    });
+  });
+});
+
+describe('Storage Security Rules', () => {
+  let rules: string;
+
+  beforeAll(() => {
+    rules = fs.readFileSync(path.join(process.cwd(), 'storage.rules'), 'utf-8');
+  });
+
+  test.each(['/projects/{allPaths=**}', '/temp/{allPaths=**}', '/profile/{allPaths=**}'])(
+    'should deny client uploads to %s, which go through the admin API',
+    (pattern) => {
+      const block = matchBlock(rules, pattern);
+
+      expect(allowCondition(block, 'create')).toBe('false');
+      expect(allowCondition(block, 'update')).toBe('false');
+      expect(allowCondition(block, 'delete')).toBe('false');
+    }
+  );
+
+  test('should keep project and profile files public and temp images for editors', () => {
+    expect(allowCondition(matchBlock(rules, '/projects/{allPaths=**}'), 'read')).toBe('true');
+    expect(allowCondition(matchBlock(rules, '/profile/{allPaths=**}'), 'read')).toBe('true');
+    expect(allowCondition(matchBlock(rules, '/temp/{allPaths=**}'), 'read')).toBe("hasRole('editor')");
+  });
+});
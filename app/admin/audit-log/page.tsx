@@ -0,0 +1,37 @@
+/**
+ * Admin Audit Log Page
+ *
+ * Lists every change made through the admin API and by the scheduled
+ * functions: who made it, what changed and where the request came from.
+ * The log is append-only and cannot be edited from here.
+ *
+ * This page is protected by the AdminLayout component which handles
+ * authentication checks and redirects,
+ * and is only shown to the owner.
+ */
+
+'use client';
+
+import AdminLayout from '@/components/AdminLayout';
+import AuditLogList from '@/components/AuditLogList';
+
+export default function AdminAuditLogPage() {
+  return (
+    <AdminLayout requiredRole="owner">
+      <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Audit Log
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Every change to projects, inquiries, the profile and uploads. Select an entry to see what changed.
+          </p>
+        </div>
+
+        {/* Audit Log List Component */}
+        <AuditLogList />
+      </div>
+    </AdminLayout>
+  );
+}
@@ -1,20 +1,91 @@
 /**
  * Admin Dashboard Page
- * 
+ *
  * Main landing page for authenticated admin users.
- * Displays overview statistics and quick access to admin functions.
- * 
+ * Displays live project and inquiry statistics from the admin stats endpoint,
+ * a weekly inquiries trend chart, and quick access to the admin functions
+ * the user's role allows.
+ *
  * This page is protected by the AdminLayout component which handles
  * authentication checks and redirects.
- * 
+ *
  * Requirements: 11.1
  */
 
 'use client';
 
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
 import AdminLayout from '@/components/AdminLayout';
+import ErrorMessage from '@/components/ErrorMessage';
+import InquiryTrendChart from '@/components/InquiryTrendChart';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { fetchDashboardStats } from '@/lib/adminApi';
+import { hasRole } from '@/lib/roles';
+import type { DashboardStats } from '@/types';
+
+interface StatCardProps {
+  label: string;
+  value: number | undefined;
+  icon: string;
+  href?: string;
+}
+
+/**
+ * Single statistic card; shows "-" while statistics are loading
+ */
+function StatCard({ label, value, icon, href }: StatCardProps) {
+  const content = (
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+          {label}
+        </p>
+        <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">
+          {value ?? '-'}
+        </p>
+      </div>
+      <div className="text-4xl">{icon}</div>
+    </div>
+  );
+
+  const className =
+    'block bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700';
+
+  return href ? (
+    <Link href={href} className={`${className} hover:border-blue-300 dark:hover:border-blue-700 transition-colors`}>
+      {content}
+    </Link>
+  ) : (
+    <div className={className}>{content}</div>
+  );
+}
 
 export default function AdminDashboardPage() {
+  const { user, role } = useAuth();
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Loads dashboard statistics from the admin API
+   */
+  const loadStats = useCallback(async () => {
+    try {
+      setError(null);
+      setStats(await fetchDashboardStats());
+    } catch (err: any) {
+      console.error('Error loading dashboard stats:', err);
+      setError(err?.message || 'Failed to load statistics. Please try again.');
+    }
+  }, []);
+
+  // Wait for the signed-in user so the request carries an ID token
+  useEffect(() => {
+    if (user) {
+      loadStats();
+    }
+  }, [user, loadStats]);
+
   return (
     <AdminLayout>
       <div className="max-w-7xl mx-auto">
@@ -28,67 +99,37 @@ export default function AdminDashboardPage() {
           </p>
         </div>
 
-        {/* Quick Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          {/* Projects Card */}
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                  Total Projects
-                </p>
-                <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">
-                  -
-                </p>
-              </div>
-              <div className="text-4xl">💼</div>
-            </div>
+        {error && (
+          <div className="mb-8">
+            <ErrorMessage message={error} onRetry={loadStats} />
           </div>
+        )}
 
-          {/* Published Projects Card */}
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                  Published
-                </p>
-                <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">
-                  -
-                </p>
-              </div>
-              <div className="text-4xl">✅</div>
-            </div>
-          </div>
+        {/* Project Stats Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+          <StatCard label="Total Projects" value={stats?.projects.total} icon="💼" href="/admin/projects" />
+          <StatCard label="Published" value={stats?.projects.published} icon="✅" />
+          <StatCard label="Drafts" value={stats?.projects.draft} icon="📝" />
+          <StatCard label="Featured" value={stats?.projects.featured} icon="⭐" />
+        </div>
 
-          {/* Inquiries Card */}
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                  Inquiries
-                </p>
-                <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">
-                  -
-                </p>
-              </div>
-              <div className="text-4xl">📧</div>
-            </div>
-          </div>
+        {/* Inquiry Stats Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <StatCard label="Inquiries" value={stats?.inquiries.total} icon="📧" href="/admin/inquiries" />
+          <StatCard label="Unread" value={stats?.inquiries.unread} icon="🔔" href="/admin/inquiries" />
+          <StatCard label="Awaiting Reply" value={stats?.inquiries.unreplied} icon="💬" href="/admin/inquiries" />
+        </div>
 
-          {/* Unread Inquiries Card */}
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                  Unread
-                </p>
-                <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">
-                  -
-                </p>
-              </div>
-              <div className="text-4xl">🔔</div>
-            </div>
-          </div>
+        {/* Inquiries Trend */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700 mb-8">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+            Inquiries per Week
+          </h2>
+          {stats ? (
+            <InquiryTrendChart data={stats.inquiries.perWeek} />
+          ) : (
+            <div className="h-40 animate-pulse bg-gray-100 dark:bg-gray-900 rounded" />
+          )}
         </div>
 
         {/* Quick Actions */}
@@ -97,28 +138,33 @@ export default function AdminDashboardPage() {
             Quick Actions
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <button className="flex items-center justify-center px-4 py-3 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors">
-              <span className="mr-2">➕</span>
-              Create New Project
-            </button>
-            <button className="flex items-center justify-center px-4 py-3 bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 rounded-lg hover:bg-green-100 dark:hover:bg-green-900/30 transition-colors">
-              <span className="mr-2">📝</span>
-              Edit Profile
-            </button>
-            <button className="flex items-center justify-center px-4 py-3 bg-purple-50 dark:bg-purple-900/20 text-purple-600 dark:text-purple-400 rounded-lg hover:bg-purple-100 dark:hover:bg-purple-900/30 transition-colors">
-              <span className="mr-2">📊</span>
-              View Analytics
-            </button>
+            {hasRole(role, 'editor') && (
+              <Link
+                href="/admin/projects/new"
+                className="flex items-center justify-center px-4 py-3 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors"
+              >
+                <span className="mr-2">➕</span>
+                Create New Project
+              </Link>
+            )}
+            {hasRole(role, 'owner') && (
+              <Link
+                href="/admin/profile"
+                className="flex items-center justify-center px-4 py-3 bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 rounded-lg hover:bg-green-100 dark:hover:bg-green-900/30 transition-colors"
+              >
+                <span className="mr-2">📝</span>
+                Edit Profile
+              </Link>
+            )}
+            <Link
+              href="/admin/inquiries"
+              className="flex items-center justify-center px-4 py-3 bg-purple-50 dark:bg-purple-900/20 text-purple-600 dark:text-purple-400 rounded-lg hover:bg-purple-100 dark:hover:bg-purple-900/30 transition-colors"
+            >
+              <span className="mr-2">📬</span>
+              View Inquiries
+            </Link>
           </div>
         </div>
-
-        {/* Info Notice */}
-        <div className="mt-8 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-          <p className="text-sm text-blue-800 dark:text-blue-300">
-            <span className="font-semibold">Note:</span> This is a placeholder dashboard. 
-            Statistics and functionality will be implemented in subsequent tasks.
-          </p>
-        </div>
       </div>
     </AdminLayout>
   );
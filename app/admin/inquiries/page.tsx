@@ -0,0 +1,44 @@
+/**
+ * Admin Inquiries Page
+ * 
+ * Inbox for contact form inquiries with read/replied workflow.
+ * Lists inquiries newest-first with filters and pagination.
+ * 
+ * This page is protected by the AdminLayout component which handles
+ * authentication checks and redirects.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import AdminLayout from '@/components/AdminLayout';
+import InquiriesList from '@/components/InquiriesList';
+
+export default function AdminInquiriesPage() {
+  return (
+    <AdminLayout>
+      <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Inquiries
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">
+              Messages submitted through the contact form. Open an inquiry to read it in full and reply.
+            </p>
+          </div>
+          <Link
+            href="/admin/reply-templates"
+            className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
+          >
+            Reply templates →
+          </Link>
+        </div>
+
+        {/* Inquiries List Component */}
+        <InquiriesList />
+      </div>
+    </AdminLayout>
+  );
+}
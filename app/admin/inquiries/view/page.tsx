@@ -0,0 +1,52 @@
+/**
+ * Admin Inquiry Detail Page
+ * 
+ * Shows a single inquiry with read/replied controls.
+ * Uses query parameter (?id=xxx) to identify which inquiry to display.
+ * 
+ * This page is protected by the AdminLayout component which handles
+ * authentication checks and redirects.
+ */
+
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import AdminLayout from '@/components/AdminLayout';
+import InquiryDetail from '@/components/InquiryDetail';
+
+function InquiryDetailContent() {
+  const searchParams = useSearchParams();
+  const inquiryId = searchParams.get('id') || '';
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {inquiryId ? (
+        <InquiryDetail inquiryId={inquiryId} />
+      ) : (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          No inquiry ID provided. Please select an inquiry from the inbox.
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function InquiryDetailPage() {
+  return (
+    <AdminLayout>
+      <Suspense fallback={
+        <div className="max-w-4xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-1/4 mb-4"></div>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+              <div className="h-64 bg-gray-100 dark:bg-gray-900 rounded"></div>
+            </div>
+          </div>
+        </div>
+      }>
+        <InquiryDetailContent />
+      </Suspense>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Admin Media Library Page
+ *
+ * Browses every image uploaded through the admin API, edits alt text and
+ * deletes uploads no project uses, so orphaned files do not pile up in
+ * Storage. Images are indexed by the upload endpoint (see
+ * functions/src/utils/media.ts). Owners can also preview the scheduled
+ * Storage cleanup.
+ *
+ * This page is protected by the AdminLayout component which handles
+ * authentication checks and redirects.
+ */
+
+'use client';
+
+import AdminLayout from '@/components/AdminLayout';
+import MediaLibrary from '@/components/MediaLibrary';
+import StorageCleanupPreview from '@/components/StorageCleanupPreview';
+
+export default function AdminMediaPage() {
+  return (
+    <AdminLayout>
+      <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Media Library
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Images uploaded for projects. Images used by a project, including projects in the trash, cannot be deleted.
+          </p>
+        </div>
+
+        {/* Media Library Component */}
+        <MediaLibrary />
+
+        {/* Storage Cleanup Dry Run (owners) */}
+        <div className="mt-8">
+          <StorageCleanupPreview />
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Admin Privacy Requests Page
+ *
+ * Exports or erases everything stored about an inquiry sender, for GDPR
+ * data subject requests. Older inquiries are anonymised automatically by
+ * the retention policy (see functions/src/utils/privacy.ts).
+ *
+ * This page is protected by the AdminLayout component which handles
+ * authentication checks and redirects,
+ * and is only shown to the owner.
+ */
+
+'use client';
+
+import AdminLayout from '@/components/AdminLayout';
+import PrivacyRequests from '@/components/PrivacyRequests';
+
+export default function AdminPrivacyPage() {
+  return (
+    <AdminLayout requiredRole="owner">
+      <div className="max-w-3xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Privacy Requests
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Export or delete every inquiry and reply stored for a sender&apos;s email address.
+          </p>
+        </div>
+
+        {/* Privacy Requests Component */}
+        <PrivacyRequests />
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * Admin Profile Page
+ * 
+ * Page for editing the portfolio owner's profile in the admin interface.
+ * Uses the ProfileForm component, which saves through the admin profile API.
+ * 
+ * This page is protected by the AdminLayout component which handles
+ * authentication checks and redirects,
+ * and is only shown to the owner.
+ */
+
+'use client';
+
+import AdminLayout from '@/components/AdminLayout';
+import ProfileForm from '@/components/ProfileForm';
+
+export default function AdminProfilePage() {
+  return (
+    <AdminLayout requiredRole="owner">
+      <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Profile
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Update your bio, social links, skills, avatar, resume and work experience.
+          </p>
+        </div>
+
+        {/* Profile Form */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+          <ProfileForm />
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -4,22 +4,30 @@
  * Page for editing existing portfolio projects in the admin interface.
  * Uses query parameter (?id=xxx) to identify which project to edit.
  * 
+ * Below the form, the revision history panel shows every recorded change
+ * and can restore an earlier version. It also works for deleted projects,
+ * which can be undeleted from here.
+ * 
  * This page is protected by the AdminLayout component which handles
- * authentication checks and redirects.
+ * authentication checks and redirects, and is
+ * only shown to users with the editor role or above.
  * 
  * Requirements: 11.1, 11.2, 11.3, 11.5
  */
 
 'use client';
 
-import { Suspense } from 'react';
+import { Suspense, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import AdminLayout from '../../../../components/AdminLayout';
 import ProjectForm from '../../../../components/ProjectForm';
+import ProjectHistory from '../../../../components/ProjectHistory';
 
 function EditProjectContent() {
   const searchParams = useSearchParams();
   const projectId = searchParams.get('id') || '';
+  // Bumped after a restore so the form reloads the restored project
+  const [formVersion, setFormVersion] = useState(0);
 
   return (
     <div className="max-w-7xl mx-auto">
@@ -36,20 +44,33 @@ function EditProjectContent() {
       {/* Project Form */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
         {projectId ? (
-          <ProjectForm projectId={projectId} />
+          <ProjectForm key={formVersion} projectId={projectId} />
         ) : (
           <div className="text-center py-8 text-gray-500 dark:text-gray-400">
             No project ID provided. Please select a project to edit.
           </div>
         )}
       </div>
+
+      {/* Revision History */}
+      {projectId && (
+        <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+            Revision History
+          </h2>
+          <ProjectHistory
+            projectId={projectId}
+            onRestored={() => setFormVersion(version => version + 1)}
+          />
+        </div>
+      )}
     </div>
   );
 }
 
 export default function EditProjectPage() {
   return (
-    <AdminLayout>
+    <AdminLayout requiredRole="editor">
       <Suspense fallback={
         <div className="max-w-7xl mx-auto">
           <div className="animate-pulse">
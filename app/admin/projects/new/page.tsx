@@ -5,7 +5,8 @@
  * Uses the ProjectForm component in create mode.
  * 
  * This page is protected by the AdminLayout component which handles
- * authentication checks and redirects.
+ * authentication checks and redirects, and is
+ * only shown to users with the editor role or above.
  * 
  * Requirements: 11.1, 11.2, 11.3, 11.5
  */
@@ -17,7 +18,7 @@ import ProjectForm from '../../../../components/ProjectForm';
 
 export default function NewProjectPage() {
   return (
-    <AdminLayout>
+    <AdminLayout requiredRole="editor">
       <div className="max-w-7xl mx-auto">
         {/* Page Header */}
         <div className="mb-8">
@@ -11,6 +11,7 @@
  * - Lists all projects with status indicators (Published/Draft, Featured)
  * - Edit and delete controls for each project
  * - Create new project button
+ * - Deleted projects move to the trash (see /admin/trash)
  * - Loading and error states
  * 
  * Import paths: Uses relative imports for better compatibility across different
@@ -0,0 +1,42 @@
+/**
+ * Admin Reply Templates Page
+ *
+ * Manages the saved replies offered when answering an inquiry from the
+ * inquiry detail view.
+ *
+ * This page is protected by the AdminLayout component which handles
+ * authentication checks and redirects.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import AdminLayout from '@/components/AdminLayout';
+import ReplyTemplatesManager from '@/components/ReplyTemplatesManager';
+
+export default function AdminReplyTemplatesPage() {
+  return (
+    <AdminLayout>
+      <div className="max-w-4xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <Link
+            href="/admin/inquiries"
+            className="inline-block mb-4 text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            ← Back to inbox
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Reply Templates
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Saved replies for common responses, available when replying to an inquiry.
+          </p>
+        </div>
+
+        {/* Reply Templates Component */}
+        <ReplyTemplatesManager />
+      </div>
+    </AdminLayout>
+  );
+}
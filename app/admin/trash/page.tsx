@@ -0,0 +1,37 @@
+/**
+ * Admin Trash Page
+ *
+ * Lists deleted projects and inquiries so they can be restored or deleted
+ * forever. Anything left in the trash is purged automatically after
+ * TRASH_RETENTION_DAYS.
+ *
+ * This page is protected by the AdminLayout component which handles
+ * authentication checks and redirects.
+ */
+
+'use client';
+
+import AdminLayout from '@/components/AdminLayout';
+import TrashList from '@/components/TrashList';
+import { TRASH_RETENTION_DAYS } from '@/lib/adminApi';
+
+export default function AdminTrashPage() {
+  return (
+    <AdminLayout>
+      <div className="max-w-7xl mx-auto">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Trash
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Deleted projects and inquiries. Items are permanently deleted after {TRASH_RETENTION_DAYS} days.
+          </p>
+        </div>
+
+        {/* Trash List Component */}
+        <TrashList />
+      </div>
+    </AdminLayout>
+  );
+}
@@ -4,24 +4,38 @@
  * Dynamic route for displaying individual project details.
  * Uses Server-Side Rendering (SSR) for optimal performance and SEO.
  * 
+ * The route segment accepts a project slug or document ID. Requests by ID or
+ * by a slug the project had before it was renamed are permanently redirected
+ * to /projects/<current slug>, so shared links keep working.
+ * 
+ * With a `preview` query parameter the page renders the project by document
+ * ID even if it is an unpublished draft, provided the signed preview token
+ * is valid (see lib/preview.ts). Previews show a banner, are marked noindex
+ * and are never redirected to the slug URL.
+ * 
  * Features:
  * - Server-side rendering with fresh data on every request
  * - Full project information display
- * - Image gallery with lightbox functionality
+ * - Responsive image gallery with blurred placeholders (next/image), alt
+ *   text and captions
  * - Live demo and GitHub repository links
  * - Back navigation to projects page
  * - Responsive layout
  * - Analytics tracking for project views
  * - SEO optimization with structured data
+ * - Draft previews through signed, expiring links
  * 
  * Requirements: 2.3, 6.2, 8.1, 8.2, 8.4, 8.7, 10.3
  */
 
 import { Metadata } from 'next';
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
 import Link from 'next/link';
 import Layout from '@/components/Layout';
+import ProjectImage from '@/components/ProjectImage';
+import { findImageMetadata } from '@/lib/images';
 import { fetchAllProjects, fetchProjectById, fetchProfile } from '@/lib/firestore';
+import { fetchProjectPreview } from '@/lib/preview';
 import type { Project } from '@/types';
 
 /**
@@ -35,7 +49,7 @@ export async function generateStaticParams() {
     const projects = await fetchAllProjects();
     
     return projects.map((project) => ({
-      id: project.id,
+      id: project.slug,
     }));
   } catch (error) {
     console.error('Error generating static paths:', error);
@@ -43,20 +57,57 @@ export async function generateStaticParams() {
   }
 }
 
+/**
+ * Route props shared by the page and its metadata
+ * - preview: signed token from an admin preview link
+ */
+interface ProjectPageProps {
+  params: { id: string };
+  searchParams: { preview?: string | string[] };
+}
+
+/**
+ * Reads the preview token from the query string, if there is exactly one
+ */
+function getPreviewToken(searchParams: ProjectPageProps['searchParams']): string | undefined {
+  return typeof searchParams.preview === 'string' && searchParams.preview
+    ? searchParams.preview
+    : undefined;
+}
+
+/**
+ * Loads the project for the route: through the API when previewing, otherwise
+ * published projects only from Firestore
+ */
+async function loadProject(params: ProjectPageProps['params'], previewToken?: string): Promise<Project | null> {
+  return previewToken
+    ? fetchProjectPreview(params.id, previewToken)
+    : fetchProjectById(params.id);
+}
+
 /**
  * Generate metadata for SEO optimization
  * Includes unique title, description, Open Graph tags, Twitter Card tags,
- * canonical URL, and structured data (JSON-LD) for CreativeWork schema
+ * canonical URL, and structured data (JSON-LD) for CreativeWork schema.
+ * Previews are excluded from search engines.
  * 
  * Requirements: 8.1, 8.2, 8.4, 8.7
  */
 export async function generateMetadata({ 
-  params 
-}: { 
-  params: { id: string } 
-}): Promise<Metadata> {
+  params,
+  searchParams,
+}: ProjectPageProps): Promise<Metadata> {
+  const previewToken = getPreviewToken(searchParams);
+
   try {
-    const project = await fetchProjectById(params.id);
+    const project = await loadProject(params, previewToken);
+
+    if (previewToken) {
+      return {
+        title: project ? `Preview: ${project.title}` : 'Preview Unavailable',
+        robots: { index: false, follow: false },
+      };
+    }
     
     if (!project) {
       return {
@@ -68,7 +119,7 @@ export async function generateMetadata({
     const siteName = 'Portfolio';
     const title = `${project.title} | ${siteName}`;
     const description = project.description;
-    const url = `/projects/${project.id}`;
+    const url = `/projects/${project.slug}`;
 
     return {
       title,
@@ -100,6 +151,7 @@ export async function generateMetadata({
     return {
       title: 'Project',
       description: 'Project details',
+      ...(previewToken && { robots: { index: false, follow: false } }),
     };
   }
 }
@@ -112,17 +164,17 @@ export async function generateMetadata({
  */
 export default async function ProjectDetailPage({
   params,
-}: {
-  params: { id: string };
-}) {
+  searchParams,
+}: ProjectPageProps) {
+  const previewToken = getPreviewToken(searchParams);
   let project: Project | null = null;
   let profile = undefined;
 
   try {
-    // Fetch project by ID
-    project = await fetchProjectById(params.id);
+    // Fetch project by slug or ID, or by ID with a preview token
+    project = await loadProject(params, previewToken);
     
-    // Return 404 if project not found or not published
+    // Return 404 if project not found or not published, or the preview link is invalid
     if (!project) {
       notFound();
     }
@@ -138,6 +190,13 @@ export default async function ProjectDetailPage({
     notFound();
   }
 
+  // Called outside the try block: redirects work by throwing, which the catch would swallow.
+  // Next.js sends permanent redirects as 308, the method-preserving form of 301.
+  // Preview links address the project by ID and stay on that URL.
+  if (!previewToken && params.id !== project.slug) {
+    permanentRedirect(`/projects/${project.slug}`);
+  }
+
   return (
     <Layout profile={profile}>
       {/* Structured Data for SEO - CreativeWork schema */}
@@ -150,7 +209,7 @@ export default async function ProjectDetailPage({
             name: project.title,
             description: project.description,
             image: project.thumbnail,
-            url: typeof window !== 'undefined' ? `${window.location.origin}/projects/${project.id}` : '',
+            url: typeof window !== 'undefined' ? `${window.location.origin}/projects/${project.slug}` : '',
             author: {
               '@type': 'Person',
               name: profile?.name || 'Portfolio Owner',
@@ -163,6 +222,20 @@ export default async function ProjectDetailPage({
       />
 
       <article className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        {/* Preview Banner - only for signed preview links */}
+        {previewToken && (
+          <div
+            role="status"
+            className="max-w-5xl mx-auto mb-8 px-4 py-3 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200"
+          >
+            <span className="font-semibold">Preview</span>
+            {' — '}
+            {project.published
+              ? 'You are viewing this project through a preview link.'
+              : 'This project is not published yet. Only people with this link can see it, until the link expires.'}
+          </div>
+        )}
+
         {/* Back Navigation */}
         <div className="max-w-5xl mx-auto mb-8">
           <Link
@@ -253,35 +326,28 @@ export default async function ProjectDetailPage({
           </div>
         </header>
 
-        {/* Project Image Gallery - Using gradient placeholders for consistency */}
+        {/* Project Image Gallery */}
         {project.images && project.images.length > 0 && (
           <section className="max-w-5xl mx-auto mb-12">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {project.images.map((_image, index) => {
-                // Generate deterministic gradient based on project title and image index
-                // This ensures consistent colors across page loads
-                const gradients = [
-                  'from-blue-400 via-purple-500 to-pink-500',
-                  'from-green-400 via-teal-500 to-blue-500',
-                  'from-yellow-400 via-orange-500 to-red-500',
-                  'from-purple-400 via-pink-500 to-red-500',
-                  'from-indigo-400 via-blue-500 to-cyan-500',
-                  'from-pink-400 via-rose-500 to-orange-500',
-                ];
-                
-                // Use title hash + index to select gradient
-                const hash = project.title.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-                const gradientIndex = (hash + index) % gradients.length;
-                const gradient = gradients[gradientIndex];
-                
-                return (
-                  <div
-                    key={index}
-                    className={`relative aspect-video rounded-lg overflow-hidden shadow-lg hover:shadow-xl transition-shadow duration-200 bg-gradient-to-br ${gradient}`}
-                    aria-label={`${project.title} screenshot ${index + 1}`}
+              {project.images.map((image, index) => (
+                <figure key={image.url}>
+                  <ProjectImage
+                    src={image.url}
+                    alt={image.alt || `${project.title} screenshot ${index + 1}`}
+                    sizes="(min-width: 1024px) 496px, (min-width: 768px) 50vw, 100vw"
+                    metadata={findImageMetadata(project, image.url)}
+                    className="aspect-video rounded-lg shadow-lg hover:shadow-xl transition-shadow duration-200"
+                    keepAspectRatio
+                    priority={index < 2}
                   />
-                );
-              })}
+                  {image.caption && (
+                    <figcaption className="mt-2 text-sm text-center text-gray-600 dark:text-gray-400">
+                      {image.caption}
+                    </figcaption>
+                  )}
+                </figure>
+              ))}
             </div>
           </section>
         )}
@@ -370,21 +436,23 @@ export default async function ProjectDetailPage({
         </div>
       </article>
 
-      {/* Analytics tracking script - tracks project view event */}
-      <script
-        dangerouslySetInnerHTML={{
-          __html: `
-            if (typeof window !== 'undefined' && window.gtag) {
-              window.gtag('event', 'project_view', {
-                'event_category': 'engagement',
-                'event_label': '${project.title}',
-                'project_id': '${project.id}',
-                'project_category': '${project.category}'
-              });
-            }
-          `,
-        }}
-      />
+      {/* Analytics tracking script - tracks project view event (not for previews) */}
+      {!previewToken && (
+        <script
+          dangerouslySetInnerHTML={{
+            __html: `
+              if (typeof window !== 'undefined' && window.gtag) {
+                window.gtag('event', 'project_view', {
+                  'event_category': 'engagement',
+                  'event_label': '${project.title}',
+                  'project_id': '${project.id}',
+                  'project_category': '${project.category}'
+                });
+              }
+            `,
+          }}
+        />
+      )}
     </Layout>
   );
 }
@@ -8,6 +8,9 @@
  * Key features:
  * - Protected route with automatic authentication check
  * - Redirects unauthenticated users to login page
+ * - Role-based access: pages can require a minimum admin role, nav links
+ *   the user cannot open are hidden, and the role is provided to child
+ *   components through useAdminRole so they can hide actions
  * - Sidebar navigation for admin sections
  * - Logout button with confirmation
  * - Responsive design with mobile menu support
@@ -22,10 +25,15 @@ import { useEffect, useState, ReactNode } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/lib/hooks/useAuth';
+import { AdminRoleContext } from '@/lib/hooks/useAdminRole';
+import { hasRole } from '@/lib/roles';
+import type { AdminRole } from '@/types';
 import LoadingSpinner from './LoadingSpinner';
 
 interface AdminLayoutProps {
   children: ReactNode;
+  /** Least privileged role allowed to see the page (default: viewer) */
+  requiredRole?: AdminRole;
 }
 
 /**
@@ -35,6 +43,7 @@ interface NavItem {
   label: string;
   href: string;
   icon: string;
+  requiredRole: AdminRole;
 }
 
 /**
@@ -46,7 +55,11 @@ interface NavItem {
  * The component checks authentication state on mount and redirects to login if needed.
  * It also provides a sidebar with navigation links to different admin sections.
  * 
+ * Signed-in users without an admin role, or whose role is below the page's
+ * `requiredRole`, see an access message instead of the page content.
+ * 
  * @param children - Child components to render within the admin layout
+ * @param requiredRole - Least privileged role allowed to see the page
  * 
  * @example
  * ```tsx
@@ -61,19 +74,23 @@ interface NavItem {
  * }
  * ```
  */
-export default function AdminLayout({ children }: AdminLayoutProps) {
+export default function AdminLayout({ children, requiredRole = 'viewer' }: AdminLayoutProps) {
   const router = useRouter();
   const pathname = usePathname();
-  const { user, loading, logout } = useAuth();
+  const { user, role, loading, logout } = useAuth();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
   // Navigation items for the sidebar
   const navItems: NavItem[] = [
-    { label: 'Dashboard', href: '/admin/dashboard', icon: '📊' },
-    { label: 'Projects', href: '/admin/projects', icon: '💼' },
-    { label: 'Inquiries', href: '/admin/inquiries', icon: '📧' },
-    { label: 'Profile', href: '/admin/profile', icon: '👤' },
+    { label: 'Dashboard', href: '/admin/dashboard', icon: '📊', requiredRole: 'viewer' },
+    { label: 'Projects', href: '/admin/projects', icon: '💼', requiredRole: 'viewer' },
+    { label: 'Inquiries', href: '/admin/inquiries', icon: '📧', requiredRole: 'viewer' },
+    { label: 'Media', href: '/admin/media', icon: '🖼️', requiredRole: 'viewer' },
+    { label: 'Trash', href: '/admin/trash', icon: '🗑️', requiredRole: 'viewer' },
+    { label: 'Profile', href: '/admin/profile', icon: '👤', requiredRole: 'owner' },
+    { label: 'Audit Log', href: '/admin/audit-log', icon: '📜', requiredRole: 'owner' },
+    { label: 'Privacy', href: '/admin/privacy', icon: '🔒', requiredRole: 'owner' },
   ];
 
   /**
@@ -200,8 +217,9 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
 
           {/* Navigation Links */}
           <nav className="flex-1 px-4 py-6 space-y-2 overflow-y-auto">
-            {navItems.map((item) => {
-              const isActive = pathname === item.href;
+            {navItems.filter((item) => hasRole(role, item.requiredRole)).map((item) => {
+              // Nested routes (e.g. /admin/inquiries/view) keep their section highlighted
+              const isActive = pathname === item.href || pathname?.startsWith(`${item.href}/`);
               
               return (
                 <Link
@@ -233,6 +251,9 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
               <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
                 {user.email}
               </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 capitalize">
+                {role ?? 'No admin role'}
+              </p>
             </div>
             
             <button
@@ -297,7 +318,23 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
       {/* Main Content */}
       <main className="lg:ml-64 min-h-screen">
         <div className="pt-16 lg:pt-0 px-4 sm:px-6 lg:px-8 py-8">
-          {children}
+          {hasRole(role, requiredRole) ? (
+            <AdminRoleContext.Provider value={role}>
+              {children}
+            </AdminRoleContext.Provider>
+          ) : (
+            <div className="max-w-xl mx-auto mt-12 bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center border border-gray-200 dark:border-gray-700">
+              <div className="text-6xl mb-4">🔒</div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                Access Denied
+              </h1>
+              <p className="text-gray-600 dark:text-gray-400">
+                {role
+                  ? `This page requires the ${requiredRole} role. You are signed in as a ${role}.`
+                  : 'Your account does not have an admin role. Ask the site owner to grant you access.'}
+              </p>
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,415 @@
+/**
+ * AuditLogList Component
+ *
+ * Displays the admin audit log: every change made through the admin API or
+ * by the scheduled functions, newest first. Entries are read-only.
+ *
+ * Key features:
+ * - Fetches entries from the admin audit log API (owner role only)
+ * - Filters by action, target type, target ID and actor email
+ * - Page-based pagination with previous/next controls
+ * - Expands an entry to show the fields that changed, before and after
+ * - Loading, error and empty states
+ */
+
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { fetchAuditLog, AuditLogParams } from '@/lib/adminApi';
+import type { AuditAction, AuditLogEntry, AuditTargetType } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+const PAGE_SIZE = 50;
+
+const ACTIONS: AuditAction[] = [
+  'project.create',
+  'project.update',
+  'project.delete',
+  'project.restore',
+  'project.purge',
+  'project.reorder',
+  'project.preview',
+  'inquiry.update',
+  'inquiry.delete',
+  'inquiry.restore',
+  'inquiry.purge',
+  'inquiry.reply',
+  'inquiry.anonymise',
+  'inquiry.erase',
+  'inquiry.export',
+  'profile.update',
+  'image.upload',
+  'image.update',
+  'image.delete',
+  'image.move',
+  'image.purge',
+  'document.upload',
+  'document.delete',
+  'replyTemplate.create',
+  'replyTemplate.update',
+  'replyTemplate.delete',
+];
+
+const TARGET_TYPES: AuditTargetType[] = ['project', 'inquiry', 'profile', 'image', 'document', 'replyTemplate'];
+
+/**
+ * Filters as edited in the form; empty strings disable a filter
+ */
+interface FilterState {
+  action: AuditAction | '';
+  targetType: AuditTargetType | '';
+  targetId: string;
+  actor: string;
+}
+
+const EMPTY_FILTERS: FilterState = { action: '', targetType: '', targetId: '', actor: '' };
+
+/**
+ * Converts the filter form into API query options
+ */
+function toParams(filters: FilterState): AuditLogParams {
+  return {
+    action: filters.action || undefined,
+    targetType: filters.targetType || undefined,
+    targetId: filters.targetId.trim() || undefined,
+    actor: filters.actor.trim() || undefined,
+  };
+}
+
+/**
+ * Names who made a change; scheduled functions record the uid "scheduler"
+ */
+function formatActor(actor: AuditLogEntry['actor']): string {
+  if (actor.uid === 'scheduler') {
+    return 'Scheduler';
+  }
+  return actor.email || actor.uid || 'unknown user';
+}
+
+/**
+ * Formats an entry timestamp for display
+ */
+function formatDateTime(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Formats a snapshot value for display
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return '—';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Lists the fields whose values differ between the before and after snapshots
+ * Timestamps written on every change are left out.
+ */
+function changedFields(entry: AuditLogEntry): string[] {
+  const before = entry.before || {};
+  const after = entry.after || {};
+
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => field !== 'updatedAt')
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .sort();
+}
+
+export default function AuditLogList() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [draftFilters, setDraftFilters] = useState<FilterState>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Loads the current page of entries with the applied filters
+   */
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await fetchAuditLog({ ...toParams(filters), page, pageSize: PAGE_SIZE });
+
+      setEntries(result.data);
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+    } catch (err: any) {
+      console.error('Error loading audit log:', err);
+      setError(err?.message || 'Failed to load the audit log. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  /**
+   * Applies the edited filters and returns to the first page
+   */
+  const handleApplyFilters = (e: FormEvent) => {
+    e.preventDefault();
+    setFilters(draftFilters);
+    setPage(1);
+  };
+
+  const handleClearFilters = () => {
+    setDraftFilters(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  const isFiltered = Object.values(filters).some(value => value !== '');
+
+  const inputClassName =
+    'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <form onSubmit={handleApplyFilters} className="flex flex-col lg:flex-row lg:items-end gap-3">
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Action
+          <select
+            value={draftFilters.action}
+            onChange={e => setDraftFilters(prev => ({ ...prev, action: e.target.value as FilterState['action'] }))}
+            className={inputClassName}
+          >
+            <option value="">All</option>
+            {ACTIONS.map(action => (
+              <option key={action} value={action}>
+                {action}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Target type
+          <select
+            value={draftFilters.targetType}
+            onChange={e =>
+              setDraftFilters(prev => ({ ...prev, targetType: e.target.value as FilterState['targetType'] }))
+            }
+            className={inputClassName}
+          >
+            <option value="">All</option>
+            {TARGET_TYPES.map(type => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Target ID
+          <input
+            type="text"
+            value={draftFilters.targetId}
+            onChange={e => setDraftFilters(prev => ({ ...prev, targetId: e.target.value }))}
+            placeholder="Document ID"
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Actor
+          <input
+            type="email"
+            value={draftFilters.actor}
+            onChange={e => setDraftFilters(prev => ({ ...prev, actor: e.target.value }))}
+            placeholder="admin@example.com"
+            className={inputClassName}
+          />
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Apply
+          </button>
+          {isFiltered && (
+            <button
+              type="button"
+              onClick={handleClearFilters}
+              className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <div className="py-8">
+          <ErrorMessage message={error} />
+          <button
+            onClick={loadEntries}
+            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center border border-gray-200 dark:border-gray-700">
+          <div className="text-6xl mb-4">📜</div>
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            No Audit Entries
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            {isFiltered
+              ? 'No entries match the selected filters.'
+              : 'Changes made in the admin area will be recorded here.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Audit Log Table */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden border border-gray-200 dark:border-gray-700">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Time
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Actor
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Action
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Target
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      IP
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {entries.map(entry => {
+                    const isExpanded = expandedId === entry.id;
+                    const fields = isExpanded ? changedFields(entry) : [];
+
+                    return [
+                      <tr
+                        key={entry.id}
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                        className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                        aria-expanded={isExpanded}
+                      >
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {formatDateTime(entry.createdAt)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
+                          {formatActor(entry.actor)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className="inline-flex items-center px-2 py-1 text-xs font-mono rounded bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+                            {entry.action}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 break-all">
+                          {entry.target.type}
+                          {entry.target.id && <span className="font-mono"> {entry.target.id}</span>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500 dark:text-gray-400">
+                          {entry.ip || '—'}
+                        </td>
+                      </tr>,
+                      isExpanded && (
+                        <tr key={`${entry.id}-details`} className="bg-gray-50 dark:bg-gray-900/50">
+                          <td colSpan={5} className="px-6 py-4">
+                            {fields.length === 0 ? (
+                              <p className="text-sm text-gray-600 dark:text-gray-400">
+                                {entry.redacted
+                                  ? 'Details redacted for privacy: the inquiry was anonymised or erased.'
+                                  : 'No field changes recorded for this entry.'}
+                              </p>
+                            ) : (
+                              <table className="min-w-full text-sm">
+                                <thead>
+                                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                                    <th className="pr-4 pb-2">Field</th>
+                                    <th className="pr-4 pb-2">Before</th>
+                                    <th className="pb-2">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="align-top">
+                                  {fields.map(field => (
+                                    <tr key={field}>
+                                      <td className="pr-4 py-1 font-medium text-gray-900 dark:text-white">{field}</td>
+                                      <td className="pr-4 py-1">
+                                        <pre className="whitespace-pre-wrap break-all text-red-700 dark:text-red-400">
+                                          {formatValue(entry.before?.[field])}
+                                        </pre>
+                                      </td>
+                                      <td className="py-1">
+                                        <pre className="whitespace-pre-wrap break-all text-green-700 dark:text-green-400">
+                                          {formatValue(entry.after?.[field])}
+                                        </pre>
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      ),
+                    ];
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+            <span>
+              Showing {(page - 1) * PAGE_SIZE + 1}–{(page - 1) * PAGE_SIZE + entries.length} of{' '}
+              {total} {total === 1 ? 'entry' : 'entries'}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(p => p - 1)}
+                disabled={page === 1}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(p => p + 1)}
+                disabled={!hasMore}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
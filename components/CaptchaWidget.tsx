@@ -0,0 +1,119 @@
+/**
+ * CaptchaWidget Component
+ *
+ * Renders the CAPTCHA challenge for the contact form when one is configured
+ * with NEXT_PUBLIC_CAPTCHA_PROVIDER ("turnstile" or "recaptcha") and
+ * NEXT_PUBLIC_CAPTCHA_SITE_KEY. The functions must be configured with the
+ * matching CAPTCHA_PROVIDER and CAPTCHA_SECRET_KEY (see functions/.env).
+ *
+ * Features:
+ * - Loads the provider's script only on pages that show the widget
+ * - Cloudflare Turnstile or Google reCAPTCHA v2 (checkbox)
+ * - Reports the token to the parent, and null when it expires
+ * - Resets when `resetKey` changes, e.g. after a submission
+ */
+
+'use client';
+
+import Script from 'next/script';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+type CaptchaProvider = 'turnstile' | 'recaptcha';
+
+/**
+ * Subset of the Turnstile and reCAPTCHA browser APIs used here; both
+ * libraries expose the same render/reset shape
+ */
+interface CaptchaApi {
+  render(
+    container: HTMLElement,
+    options: {
+      sitekey: string;
+      callback: (token: string) => void;
+      'expired-callback': () => void;
+      theme?: 'auto' | 'light' | 'dark';
+    }
+  ): string | number;
+  reset(widgetId?: string | number): void;
+  ready?: (callback: () => void) => void;
+}
+
+declare global {
+  interface Window {
+    turnstile?: CaptchaApi;
+    grecaptcha?: CaptchaApi;
+  }
+}
+
+const SCRIPT_URLS: Record<CaptchaProvider, string> = {
+  turnstile: 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit',
+  recaptcha: 'https://www.google.com/recaptcha/api.js?render=explicit',
+};
+
+const provider = process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER as CaptchaProvider | undefined;
+const siteKey = process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY;
+
+/**
+ * Whether a CAPTCHA is configured, so submissions need a token
+ */
+export const CAPTCHA_ENABLED = !!siteKey && (provider === 'turnstile' || provider === 'recaptcha');
+
+interface CaptchaWidgetProps {
+  onVerify: (token: string | null) => void;
+  resetKey?: number;
+}
+
+export default function CaptchaWidget({ onVerify, resetKey = 0 }: CaptchaWidgetProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const widgetIdRef = useRef<string | number | null>(null);
+  const [scriptReady, setScriptReady] = useState(false);
+
+  /**
+   * Renders the widget once the provider's script has loaded
+   */
+  const renderWidget = useCallback(() => {
+    const api = provider === 'turnstile' ? window.turnstile : window.grecaptcha;
+
+    if (!api || !containerRef.current || widgetIdRef.current !== null || !siteKey) {
+      return;
+    }
+
+    widgetIdRef.current = api.render(containerRef.current, {
+      sitekey: siteKey,
+      callback: (token) => onVerify(token),
+      'expired-callback': () => onVerify(null),
+      ...(provider === 'turnstile' ? { theme: 'auto' as const } : {}),
+    });
+  }, [onVerify]);
+
+  useEffect(() => {
+    if (!scriptReady) {
+      return;
+    }
+    // reCAPTCHA finishes initialising after its script loads
+    if (provider === 'recaptcha' && window.grecaptcha?.ready) {
+      window.grecaptcha.ready(renderWidget);
+    } else {
+      renderWidget();
+    }
+  }, [scriptReady, renderWidget]);
+
+  useEffect(() => {
+    const api = provider === 'turnstile' ? window.turnstile : window.grecaptcha;
+    if (resetKey > 0 && api && widgetIdRef.current !== null) {
+      api.reset(widgetIdRef.current);
+      onVerify(null);
+    }
+  }, [resetKey, onVerify]);
+
+  if (!CAPTCHA_ENABLED || !provider) {
+    return null;
+  }
+
+  return (
+    <>
+      <Script src={SCRIPT_URLS[provider]} strategy="afterInteractive" onReady={() => setScriptReady(true)} />
+      <div ref={containerRef} />
+    </>
+  );
+}
@@ -5,18 +5,38 @@
  * Uses React Hook Form for form management and validation.
  * 
  * Features:
- * - Form validation for all fields (name, email, subject, message)
+ * - Form validation for all fields (name, email, subject, message, type)
+ * - Inquiry type select; company, budget and timeline fields appear for the
+ *   types that ask for them (INQUIRY_TYPE_FIELDS in lib/validation)
  * - Loading state during submission
  * - Success and error message display
  * - Form clearing on successful submission
  * - Rate limiting feedback
+ * - Spam protection: a hidden honeypot field, the time the form was open
+ *   and, when configured, a CAPTCHA challenge (see CaptchaWidget)
  */
 
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { ContactFormData } from '@/types';
+import { apiUrl } from '@/lib/api';
+import {
+  INQUIRY_DETAIL_MAX_LENGTHS,
+  INQUIRY_TYPE_FIELDS,
+  INQUIRY_TYPE_LABELS,
+  INQUIRY_TYPES,
+  isInquiryType,
+  validateContactForm,
+} from '@/lib/validation';
+import CaptchaWidget, { CAPTCHA_ENABLED } from './CaptchaWidget';
+
+/**
+ * Form values, including the honeypot field people never see
+ * (HONEYPOT_FIELD in functions/src/utils/spam.ts)
+ */
+type ContactFormValues = ContactFormData & { website: string };
 
 interface ContactFormProps {
   onSuccess?: () => void;
@@ -29,25 +49,53 @@ export default function ContactForm({ onSuccess, onError }: ContactFormProps) {
     type: 'success' | 'error' | null;
     message: string;
   }>({ type: null, message: '' });
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [captchaResetKey, setCaptchaResetKey] = useState(0);
+  // When the form was shown; the API drops submissions sent implausibly fast
+  const openedAt = useRef(Date.now());
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
-  } = useForm<ContactFormData>();
+    setError,
+    watch,
+  } = useForm<ContactFormValues>();
+
+  const selectedType = watch('type');
+  const detailFields = isInquiryType(selectedType) ? INQUIRY_TYPE_FIELDS[selectedType] : [];
+
+  const onSubmit = async (data: ContactFormValues) => {
+    // Same rules as the API; catches details too long for the chosen type
+    const validationErrors = validateContactForm(data);
+    const invalidFields = Object.keys(validationErrors) as (keyof typeof validationErrors)[];
+    if (invalidFields.length > 0) {
+      invalidFields.forEach(field => {
+        setError(field, { type: 'validate', message: validationErrors[field] });
+      });
+      return;
+    }
+
+    if (CAPTCHA_ENABLED && !captchaToken) {
+      setSubmitStatus({ type: 'error', message: 'Please complete the CAPTCHA challenge.' });
+      return;
+    }
 
-  const onSubmit = async (data: ContactFormData) => {
     setIsSubmitting(true);
     setSubmitStatus({ type: null, message: '' });
 
     try {
-      const response = await fetch('/api/v1/contact', {
+      const response = await fetch(apiUrl('contact'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...data,
+          fillTime: Date.now() - openedAt.current,
+          captchaToken: captchaToken ?? undefined,
+        }),
       });
 
       const result = await response.json();
@@ -62,6 +110,7 @@ export default function ContactForm({ onSuccess, onError }: ContactFormProps) {
         message: result.message || 'Thank you for your message! I\'ll get back to you soon.',
       });
       reset(); // Clear form
+      openedAt.current = Date.now();
       onSuccess?.();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
@@ -71,6 +120,10 @@ export default function ContactForm({ onSuccess, onError }: ContactFormProps) {
       });
       onError?.(error instanceof Error ? error : new Error(errorMessage));
     } finally {
+      // Tokens are single use, so every attempt needs a new challenge
+      if (CAPTCHA_ENABLED) {
+        setCaptchaResetKey(key => key + 1);
+      }
       setIsSubmitting(false);
     }
   };
@@ -143,6 +196,131 @@ export default function ContactForm({ onSuccess, onError }: ContactFormProps) {
         )}
       </div>
 
+      {/* Inquiry Type Field */}
+      <div>
+        <label
+          htmlFor="type"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+        >
+          What is this about? <span className="text-red-500">*</span>
+        </label>
+        <select
+          id="type"
+          {...register('type', { required: 'Please choose what your inquiry is about' })}
+          className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+            errors.type
+              ? 'border-red-500 dark:border-red-500'
+              : 'border-gray-300 dark:border-gray-600'
+          } bg-white dark:bg-gray-800 text-gray-900 dark:text-white`}
+          disabled={isSubmitting}
+        >
+          <option value="">Choose one...</option>
+          {INQUIRY_TYPES.map(type => (
+            <option key={type} value={type}>
+              {INQUIRY_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        {errors.type && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400" role="alert">
+            {errors.type.message}
+          </p>
+        )}
+      </div>
+
+      {/* Optional details for the chosen type */}
+      {detailFields.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {/* Company Field */}
+          {detailFields.includes('company') && (
+            <div>
+              <label
+                htmlFor="company"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Company
+              </label>
+              <input
+                id="company"
+                type="text"
+                {...register('company')}
+                maxLength={INQUIRY_DETAIL_MAX_LENGTHS.company}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+                errors.company
+                  ? 'border-red-500 dark:border-red-500'
+                  : 'border-gray-300 dark:border-gray-600'
+              } bg-white dark:bg-gray-800 text-gray-900 dark:text-white`}
+                placeholder="Company or organisation"
+                disabled={isSubmitting}
+              />
+              {errors.company && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400" role="alert">
+                  {errors.company.message}
+                </p>
+              )}
+            </div>
+          )}
+          {/* Budget Field */}
+          {detailFields.includes('budget') && (
+            <div>
+              <label
+                htmlFor="budget"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Budget
+              </label>
+              <input
+                id="budget"
+                type="text"
+                {...register('budget')}
+                maxLength={INQUIRY_DETAIL_MAX_LENGTHS.budget}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+                errors.budget
+                  ? 'border-red-500 dark:border-red-500'
+                  : 'border-gray-300 dark:border-gray-600'
+              } bg-white dark:bg-gray-800 text-gray-900 dark:text-white`}
+                placeholder="e.g. $5k–10k"
+                disabled={isSubmitting}
+              />
+              {errors.budget && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400" role="alert">
+                  {errors.budget.message}
+                </p>
+              )}
+            </div>
+          )}
+          {/* Timeline Field */}
+          {detailFields.includes('timeline') && (
+            <div>
+              <label
+                htmlFor="timeline"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Timeline
+              </label>
+              <input
+                id="timeline"
+                type="text"
+                {...register('timeline')}
+                maxLength={INQUIRY_DETAIL_MAX_LENGTHS.timeline}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors ${
+                errors.timeline
+                  ? 'border-red-500 dark:border-red-500'
+                  : 'border-gray-300 dark:border-gray-600'
+              } bg-white dark:bg-gray-800 text-gray-900 dark:text-white`}
+                placeholder="e.g. Starting in March"
+                disabled={isSubmitting}
+              />
+              {errors.timeline && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400" role="alert">
+                  {errors.timeline.message}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Subject Field */}
       <div>
         <label
@@ -209,6 +387,15 @@ export default function ContactForm({ onSuccess, onError }: ContactFormProps) {
         )}
       </div>
 
+      {/* Honeypot: hidden from people and screen readers, filled in by bots */}
+      <div className="absolute -left-[9999px] h-px w-px overflow-hidden" aria-hidden="true">
+        <label htmlFor="website">Website</label>
+        <input id="website" type="text" tabIndex={-1} autoComplete="off" {...register('website')} />
+      </div>
+
+      {/* CAPTCHA (only when configured) */}
+      <CaptchaWidget onVerify={setCaptchaToken} resetKey={captchaResetKey} />
+
       {/* Submit Status Messages */}
       {submitStatus.type && (
         <div
@@ -0,0 +1,261 @@
+/**
+ * ExperienceEditor Component
+ *
+ * Structured editor for the profile's work experience entries.
+ * Used by ProfileForm to edit the `Experience[]` array.
+ *
+ * Key features:
+ * - Add, remove and reorder experience entries
+ * - Month pickers for start/end dates with a "current role" toggle
+ * - Per-entry list of responsibilities with add/remove controls
+ * - Field-level validation messages keyed by "experience[i].field"
+ */
+
+'use client';
+
+import type { Experience } from '@/types';
+
+interface ExperienceEditorProps {
+  value: Experience[];
+  onChange: (experience: Experience[]) => void;
+  errors?: Record<string, string>;
+}
+
+/**
+ * Empty experience entry used when adding a new role
+ */
+const emptyExperience: Experience = {
+  company: '',
+  position: '',
+  location: '',
+  startDate: '',
+  endDate: 'present',
+  responsibilities: [''],
+};
+
+const inputClassName =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+export default function ExperienceEditor({ value, onChange, errors = {} }: ExperienceEditorProps) {
+  /**
+   * Replaces a single entry with updated fields
+   */
+  const updateEntry = (index: number, changes: Partial<Experience>) => {
+    onChange(value.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  /**
+   * Moves an entry up (-1) or down (+1) in the list
+   */
+  const moveEntry = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= value.length) return;
+
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeEntry = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const addEntry = () => {
+    onChange([{ ...emptyExperience, responsibilities: [''] }, ...value]);
+  };
+
+  const updateResponsibility = (index: number, itemIndex: number, text: string) => {
+    const responsibilities = value[index].responsibilities.map((item, i) =>
+      i === itemIndex ? text : item
+    );
+    updateEntry(index, { responsibilities });
+  };
+
+  const addResponsibility = (index: number) => {
+    updateEntry(index, { responsibilities: [...value[index].responsibilities, ''] });
+  };
+
+  const removeResponsibility = (index: number, itemIndex: number) => {
+    updateEntry(index, {
+      responsibilities: value[index].responsibilities.filter((_, i) => i !== itemIndex),
+    });
+  };
+
+  /**
+   * Renders the validation message for a field of an entry, if any
+   */
+  const fieldError = (index: number, field: keyof Experience) => {
+    const message = errors[`experience[${index}].${field}`];
+    return message ? <p className="mt-1 text-sm text-red-500">{message}</p> : null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <button
+        type="button"
+        onClick={addEntry}
+        className="px-4 py-2 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors font-medium"
+      >
+        ➕ Add Experience
+      </button>
+
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No experience entries yet.</p>
+      )}
+
+      {value.map((entry, index) => {
+        const isCurrent = entry.endDate === 'present';
+
+        return (
+          <fieldset
+            key={index}
+            className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <legend className="text-sm font-semibold text-gray-900 dark:text-white">
+                {entry.position || entry.company || `Experience ${index + 1}`}
+              </legend>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => moveEntry(index, -1)}
+                  disabled={index === 0}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Move experience up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveEntry(index, 1)}
+                  disabled={index === value.length - 1}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Move experience down"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeEntry(index)}
+                  className="px-2 py-1 text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md hover:bg-red-100 dark:hover:bg-red-900/30"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Company <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={entry.company}
+                  onChange={e => updateEntry(index, { company: e.target.value })}
+                  className={inputClassName}
+                />
+                {fieldError(index, 'company')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Position <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={entry.position}
+                  onChange={e => updateEntry(index, { position: e.target.value })}
+                  className={inputClassName}
+                />
+                {fieldError(index, 'position')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Location
+                </label>
+                <input
+                  type="text"
+                  value={entry.location}
+                  onChange={e => updateEntry(index, { location: e.target.value })}
+                  className={inputClassName}
+                  placeholder="City, Country or Remote"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Start <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="month"
+                    value={entry.startDate}
+                    onChange={e => updateEntry(index, { startDate: e.target.value })}
+                    className={inputClassName}
+                  />
+                  {fieldError(index, 'startDate')}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    End
+                  </label>
+                  <input
+                    type="month"
+                    value={isCurrent ? '' : entry.endDate}
+                    onChange={e => updateEntry(index, { endDate: e.target.value })}
+                    disabled={isCurrent}
+                    className={`${inputClassName} disabled:opacity-50`}
+                  />
+                  <label className="mt-1 flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={isCurrent}
+                      onChange={e => updateEntry(index, { endDate: e.target.checked ? 'present' : '' })}
+                      className="mr-2 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    Current role
+                  </label>
+                  {fieldError(index, 'endDate')}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Responsibilities
+              </label>
+              <div className="space-y-2">
+                {entry.responsibilities.map((item, itemIndex) => (
+                  <div key={itemIndex} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={item}
+                      onChange={e => updateResponsibility(index, itemIndex, e.target.value)}
+                      className={inputClassName}
+                      placeholder="Describe a responsibility or achievement"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeResponsibility(index, itemIndex)}
+                      className="px-3 text-red-600 dark:text-red-400 hover:text-red-800"
+                      aria-label={`Remove responsibility ${itemIndex + 1}`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => addResponsibility(index)}
+                className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                + Add responsibility
+              </button>
+              {fieldError(index, 'responsibilities')}
+            </div>
+          </fieldset>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,451 @@
+/**
+ * InquiriesList Component
+ *
+ * Displays the admin inquiries inbox with pagination and status filters.
+ * Provides quick read/replied toggles and deletion for spam.
+ *
+ * Key features:
+ * - Fetches inquiries newest-first from the admin inquiries API
+ * - Filters by read and replied status flags and by inquiry type
+ * - Optionally groups the current page by inquiry type
+ * - Page-based pagination with previous/next controls
+ * - Highlights unread inquiries
+ * - Marks inquiries flagged as possible spam
+ * - Opens the inquiry detail view on click
+ * - Delete button with confirmation dialog (deleted inquiries move to the trash)
+ * - Flag and delete actions only for editors and owners
+ * - Loading, error and empty states
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  fetchInquiries,
+  updateInquiryFlags,
+  deleteInquiry,
+  TRASH_RETENTION_DAYS,
+} from '@/lib/adminApi';
+import { useAdminRole } from '@/lib/hooks/useAdminRole';
+import { INQUIRY_TYPE_LABELS, INQUIRY_TYPES } from '@/lib/validation';
+import type { Inquiry, InquiryType } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+const PAGE_SIZE = 20;
+
+/**
+ * Filter value for a boolean status flag ('all' disables the filter)
+ */
+type FlagFilter = 'all' | 'true' | 'false';
+
+/**
+ * Converts a filter select value into an API query value
+ */
+function toFlagParam(filter: FlagFilter): boolean | undefined {
+  return filter === 'all' ? undefined : filter === 'true';
+}
+
+export default function InquiriesList() {
+  const router = useRouter();
+  const canEdit = useAdminRole().can('editor');
+  const [inquiries, setInquiries] = useState<Inquiry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [readFilter, setReadFilter] = useState<FlagFilter>('all');
+  const [repliedFilter, setRepliedFilter] = useState<FlagFilter>('all');
+  const [typeFilter, setTypeFilter] = useState<InquiryType | 'all'>('all');
+  const [groupByType, setGroupByType] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  /**
+   * Loads the current page of inquiries with the active filters
+   */
+  const loadInquiries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await fetchInquiries({
+        page,
+        pageSize: PAGE_SIZE,
+        read: toFlagParam(readFilter),
+        replied: toFlagParam(repliedFilter),
+        type: typeFilter === 'all' ? undefined : typeFilter,
+      });
+
+      setInquiries(result.data);
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+    } catch (err: any) {
+      console.error('Error loading inquiries:', err);
+      setError(err?.message || 'Failed to load inquiries. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, readFilter, repliedFilter, typeFilter]);
+
+  useEffect(() => {
+    loadInquiries();
+  }, [loadInquiries]);
+
+  /**
+   * Changes a filter and returns to the first page
+   */
+  const handleReadFilterChange = (value: FlagFilter) => {
+    setReadFilter(value);
+    setPage(1);
+  };
+
+  const handleRepliedFilterChange = (value: FlagFilter) => {
+    setRepliedFilter(value);
+    setPage(1);
+  };
+
+  const handleTypeFilterChange = (value: InquiryType | 'all') => {
+    setTypeFilter(value);
+    setPage(1);
+  };
+
+  // Grouping only reorders the current page; a single group when it is off
+  const groups = groupByType
+    ? INQUIRY_TYPES.map(type => ({ type, inquiries: inquiries.filter(inquiry => inquiry.type === type) }))
+        .filter(group => group.inquiries.length > 0)
+    : [{ type: 'other' as InquiryType, inquiries }];
+
+  /**
+   * Toggles a status flag and replaces the inquiry in local state
+   */
+  const handleToggle = async (inquiry: Inquiry, flag: 'read' | 'replied') => {
+    try {
+      setBusyId(inquiry.id);
+      const updated = await updateInquiryFlags(inquiry.id, { [flag]: !inquiry[flag] });
+      setInquiries(prev => prev.map(i => (i.id === updated.id ? updated : i)));
+    } catch (err) {
+      console.error('Error updating inquiry:', err);
+      alert('Failed to update inquiry. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  /**
+   * Handles inquiry deletion with confirmation
+   */
+  const handleDelete = async (inquiry: Inquiry) => {
+    const confirmed = window.confirm(
+      `Move the inquiry "${inquiry.subject}" from ${inquiry.name} to the trash? ` +
+        `You can restore it from the Trash page for ${TRASH_RETENTION_DAYS} days.`
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      setBusyId(inquiry.id);
+      await deleteInquiry(inquiry.id);
+      await loadInquiries();
+    } catch (err) {
+      console.error('Error deleting inquiry:', err);
+      alert('Failed to delete inquiry. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  /**
+   * Formats date for display
+   */
+  const formatDate = (date: Date): string => {
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    }).format(date);
+  };
+
+  /**
+   * Renders one inquiry as a table row
+   */
+  const renderRow = (inquiry: Inquiry) => (
+    <tr
+      key={inquiry.id}
+      onClick={() => router.push(`/admin/inquiries/view?id=${inquiry.id}`)}
+      className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+    >
+      {/* Sender */}
+      <td className="px-6 py-4">
+        <div className="flex items-center">
+          {!inquiry.read && (
+            <span
+              className="mr-2 h-2 w-2 rounded-full bg-blue-600 flex-shrink-0"
+              aria-label="Unread"
+            />
+          )}
+          <div>
+            <div
+              className={`text-sm text-gray-900 dark:text-white ${
+                inquiry.read ? '' : 'font-semibold'
+              }`}
+            >
+              {inquiry.name}
+            </div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              {inquiry.email}
+            </div>
+          </div>
+        </div>
+      </td>
+
+      {/* Subject and message preview */}
+      <td className="px-6 py-4">
+        <div
+          className={`text-sm text-gray-900 dark:text-white ${
+            inquiry.read ? '' : 'font-semibold'
+          }`}
+        >
+          {inquiry.subject}
+        </div>
+        <div className="text-sm text-gray-500 dark:text-gray-400 line-clamp-1">
+          {inquiry.message}
+        </div>
+      </td>
+
+      {/* Type */}
+      <td className="px-6 py-4 whitespace-nowrap">
+        <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+          {INQUIRY_TYPE_LABELS[inquiry.type]}
+        </span>
+        {inquiry.company && (
+          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">{inquiry.company}</div>
+        )}
+      </td>
+
+      {/* Received Date */}
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+        {formatDate(inquiry.timestamp)}
+      </td>
+
+      {/* Status */}
+      <td className="px-6 py-4 whitespace-nowrap space-x-1">
+        {inquiry.flagged && (
+          <span
+            className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-400"
+            title={inquiry.spamReasons.join(', ')}
+          >
+            Possible spam
+          </span>
+        )}
+        {inquiry.replied ? (
+          <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400">
+            ✓ Replied
+          </span>
+        ) : (
+          <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-400">
+            Awaiting reply
+          </span>
+        )}
+      </td>
+
+      {/* Actions */}
+      {canEdit && (
+        <td
+          className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium"
+          onClick={e => e.stopPropagation()}
+        >
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => handleToggle(inquiry, 'read')}
+              disabled={busyId === inquiry.id}
+              className="px-3 py-1.5 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {inquiry.read ? 'Mark Unread' : 'Mark Read'}
+            </button>
+            <button
+              onClick={() => handleToggle(inquiry, 'replied')}
+              disabled={busyId === inquiry.id}
+              className="px-3 py-1.5 bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 rounded-md hover:bg-green-100 dark:hover:bg-green-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {inquiry.replied ? 'Mark Unreplied' : 'Mark Replied'}
+            </button>
+            <button
+              onClick={() => handleDelete(inquiry)}
+              disabled={busyId === inquiry.id}
+              className="px-3 py-1.5 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={`Delete inquiry from ${inquiry.name}`}
+            >
+              Delete
+            </button>
+          </div>
+        </td>
+      )}
+    </tr>
+  );
+
+  const selectClassName =
+    'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          Read status
+          <select
+            value={readFilter}
+            onChange={e => handleReadFilterChange(e.target.value as FlagFilter)}
+            className={selectClassName}
+          >
+            <option value="all">All</option>
+            <option value="false">Unread</option>
+            <option value="true">Read</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          Reply status
+          <select
+            value={repliedFilter}
+            onChange={e => handleRepliedFilterChange(e.target.value as FlagFilter)}
+            className={selectClassName}
+          >
+            <option value="all">All</option>
+            <option value="false">Not replied</option>
+            <option value="true">Replied</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          Type
+          <select
+            value={typeFilter}
+            onChange={e => handleTypeFilterChange(e.target.value as InquiryType | 'all')}
+            className={selectClassName}
+          >
+            <option value="all">All</option>
+            {INQUIRY_TYPES.map(type => (
+              <option key={type} value={type}>
+                {INQUIRY_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={groupByType}
+            onChange={e => setGroupByType(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Group by type
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <div className="py-8">
+          <ErrorMessage message={error} />
+          <button
+            onClick={loadInquiries}
+            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      ) : inquiries.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center border border-gray-200 dark:border-gray-700">
+          <div className="text-6xl mb-4">📭</div>
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            No Inquiries
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            {readFilter === 'all' && repliedFilter === 'all' && typeFilter === 'all'
+              ? 'Messages sent through the contact form will appear here.'
+              : 'No inquiries match the selected filters.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Inquiries Table */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden border border-gray-200 dark:border-gray-700">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      From
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Subject
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Type
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Received
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Status
+                    </th>
+                    {canEdit && (
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {groups.map(group => [
+                    groupByType && (
+                      <tr key={`group-${group.type}`} className="bg-gray-50 dark:bg-gray-900/50">
+                        <th
+                          colSpan={canEdit ? 6 : 5}
+                          className="px-6 py-2 text-left text-sm font-semibold text-gray-700 dark:text-gray-300"
+                        >
+                          {INQUIRY_TYPE_LABELS[group.type]} ({group.inquiries.length})
+                        </th>
+                      </tr>
+                    ),
+                    ...group.inquiries.map(renderRow),
+                  ])}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+            <span>
+              Showing {(page - 1) * PAGE_SIZE + 1}–{(page - 1) * PAGE_SIZE + inquiries.length} of{' '}
+              {total} {total === 1 ? 'inquiry' : 'inquiries'}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(p => p - 1)}
+                disabled={page === 1}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(p => p + 1)}
+                disabled={!hasMore}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+/**
+ * InquiryDetail Component
+ *
+ * Displays a single inquiry in the admin interface with its full message
+ * and controls for the read/replied workflow.
+ *
+ * Key features:
+ * - Fetches the inquiry from the admin inquiries API
+ * - Automatically marks unread inquiries as read when opened by an editor or owner
+ * - Shows the inquiry type with the company, budget and timeline given
+ * - Toggle controls for read and replied flags
+ * - Shows why an inquiry was flagged as possible spam, with a "Not Spam" action
+ * - Shows whether the owner notification and acknowledgement emails were sent
+ * - Conversation thread with every reply sent from the admin UI
+ * - Reply composer with saved reply templates for editors and owners; the
+ *   reply is emailed and the inquiry marked as replied
+ * - Link to reply from an email app instead, pre-filled with the subject
+ * - Delete button with confirmation dialog (deleted inquiries move to the trash)
+ * - Flag and delete actions only for editors and owners
+ * - Loading and error states
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import {
+  fetchInquiry,
+  fetchInquiryMessages,
+  updateInquiryFlags,
+  deleteInquiry,
+  TRASH_RETENTION_DAYS,
+} from '@/lib/adminApi';
+import { useAdminRole } from '@/lib/hooks/useAdminRole';
+import { INQUIRY_TYPE_LABELS } from '@/lib/validation';
+import type { EmailDelivery, EmailDeliveryStatus, Inquiry, InquiryMessage } from '@/types';
+import InquiryReplyForm from './InquiryReplyForm';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+const DELIVERY_STYLES: Record<EmailDeliveryStatus, { label: string; className: string }> = {
+  sent: { label: 'Sent', className: 'text-green-700 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'text-red-700 dark:text-red-400' },
+  skipped: { label: 'Not sent', className: 'text-gray-500 dark:text-gray-400' },
+};
+
+/**
+ * One line of the email delivery summary
+ */
+function DeliveryLine({ label, delivery }: { label: string; delivery: EmailDelivery }) {
+  const style = DELIVERY_STYLES[delivery.status];
+
+  return (
+    <li>
+      {label}: <span className={`font-medium ${style.className}`}>{style.label}</span>
+      {delivery.error && <span className="text-gray-500 dark:text-gray-400"> ({delivery.error})</span>}
+    </li>
+  );
+}
+
+interface InquiryDetailProps {
+  inquiryId: string;
+}
+
+export default function InquiryDetail({ inquiryId }: InquiryDetailProps) {
+  const router = useRouter();
+  const canEdit = useAdminRole().can('editor');
+  const [inquiry, setInquiry] = useState<Inquiry | null>(null);
+  const [messages, setMessages] = useState<InquiryMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  /**
+   * Loads the inquiry and its replies, and marks it as read on first view
+   * Viewers cannot change inquiries, so it stays unread for them.
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadInquiry = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [fetched, thread] = await Promise.all([fetchInquiry(inquiryId), fetchInquiryMessages(inquiryId)]);
+        let loaded = fetched;
+        if (!loaded.read && canEdit) {
+          loaded = await updateInquiryFlags(inquiryId, { read: true });
+        }
+
+        if (!cancelled) {
+          setInquiry(loaded);
+          setMessages(thread);
+        }
+      } catch (err: any) {
+        console.error('Error loading inquiry:', err);
+        if (!cancelled) {
+          setError(err?.message || 'Failed to load inquiry. Please try again.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadInquiry();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [inquiryId, canEdit]);
+
+  /**
+   * Toggles a status flag on the inquiry
+   */
+  const handleToggle = async (flag: 'read' | 'replied' | 'flagged') => {
+    if (!inquiry) return;
+
+    try {
+      setSaving(true);
+      setInquiry(await updateInquiryFlags(inquiry.id, { [flag]: !inquiry[flag] }));
+    } catch (err) {
+      console.error('Error updating inquiry:', err);
+      alert('Failed to update inquiry. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Adds a sent reply to the thread
+   */
+  const handleReplySent = (reply: InquiryMessage, updated: Inquiry) => {
+    setMessages(current => [...current, reply]);
+    setInquiry(updated);
+  };
+
+  /**
+   * Handles inquiry deletion with confirmation
+   */
+  const handleDelete = async () => {
+    if (!inquiry) return;
+
+    const confirmed = window.confirm(
+      `Move the inquiry "${inquiry.subject}" from ${inquiry.name} to the trash? ` +
+        `You can restore it from the Trash page for ${TRASH_RETENTION_DAYS} days.`
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await deleteInquiry(inquiry.id);
+      router.push('/admin/inquiries');
+    } catch (err) {
+      console.error('Error deleting inquiry:', err);
+      alert('Failed to delete inquiry. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error || !inquiry) {
+    return (
+      <div className="py-8">
+        <ErrorMessage message={error || 'Inquiry not found'} />
+        <Link
+          href="/admin/inquiries"
+          className="inline-block mt-4 text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          ← Back to inbox
+        </Link>
+      </div>
+    );
+  }
+
+  const replyHref = `mailto:${inquiry.email}?subject=${encodeURIComponent(`Re: ${inquiry.subject}`)}`;
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/inquiries"
+        className="inline-block text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        ← Back to inbox
+      </Link>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 pb-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">
+              {inquiry.subject}
+            </h2>
+            {inquiry.anonymisedAt ? (
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                Sender details removed by the retention policy on{' '}
+                {inquiry.anonymisedAt.toLocaleDateString('en-US', { dateStyle: 'long' })}
+              </p>
+            ) : (
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                From <span className="font-medium text-gray-900 dark:text-white">{inquiry.name}</span>{' '}
+                &lt;
+                <a href={`mailto:${inquiry.email}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                  {inquiry.email}
+                </a>
+                &gt;
+              </p>
+            )}
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              {inquiry.timestamp.toLocaleString('en-US', {
+                dateStyle: 'long',
+                timeStyle: 'short',
+              })}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+              {INQUIRY_TYPE_LABELS[inquiry.type]}
+            </span>
+            {inquiry.replied ? (
+              <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400">
+                ✓ Replied
+              </span>
+            ) : (
+              <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-400">
+                Awaiting reply
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Spam flag */}
+        {inquiry.flagged && (
+          <div className="mt-4 p-4 rounded-lg bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 text-sm text-orange-800 dark:text-orange-300">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+              <div>
+                <p className="font-medium">This inquiry looks like spam</p>
+                {inquiry.spamReasons.length > 0 && (
+                  <ul className="mt-1 list-disc list-inside">
+                    {inquiry.spamReasons.map(reason => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {canEdit && (
+                <button
+                  onClick={() => handleToggle('flagged')}
+                  disabled={saving}
+                  className="px-3 py-1.5 bg-white dark:bg-gray-800 border border-orange-300 dark:border-orange-700 rounded-md hover:bg-orange-100 dark:hover:bg-orange-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Not Spam
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Details for the inquiry type */}
+        {(inquiry.company || inquiry.budget || inquiry.timeline) && (
+          <dl className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            {([
+              ['Company', inquiry.company],
+              ['Budget', inquiry.budget],
+              ['Timeline', inquiry.timeline],
+            ] as const).filter(([, value]) => value).map(([label, value]) => (
+              <div key={label}>
+                <dt className="font-medium text-gray-500 dark:text-gray-400">{label}</dt>
+                <dd className="text-gray-900 dark:text-white">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {/* Message */}
+        <p className="py-6 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+          {inquiry.message}
+        </p>
+
+        {/* Replies */}
+        {messages.length > 0 && (
+          <div className="pb-6 space-y-4">
+            {messages.map(message => (
+              <div
+                key={message.id}
+                className="ml-4 sm:ml-8 p-4 rounded-lg bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-900"
+              >
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {message.sentBy.email || 'Admin'}
+                  </span>{' '}
+                  replied on{' '}
+                  {message.createdAt.toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })}
+                </p>
+                <p className="mt-1 text-sm font-medium text-gray-900 dark:text-white">{message.subject}</p>
+                <p className="mt-2 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{message.body}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Email notifications */}
+        {inquiry.notifications && (
+          <div className="pb-4 text-sm text-gray-600 dark:text-gray-400">
+            <p className="font-medium text-gray-700 dark:text-gray-300">Email notifications</p>
+            <ul className="mt-1 space-y-0.5">
+              <DeliveryLine label="Owner notification" delivery={inquiry.notifications.owner} />
+              <DeliveryLine label="Acknowledgement to sender" delivery={inquiry.notifications.acknowledgement} />
+            </ul>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          {!inquiry.anonymisedAt && (
+            <a
+              href={replyHref}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors font-medium text-center"
+            >
+              Reply in Email App
+            </a>
+          )}
+          {canEdit && (
+            <>
+              <button
+                onClick={() => handleToggle('replied')}
+                disabled={saving}
+                className="px-4 py-2 bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 rounded-lg hover:bg-green-100 dark:hover:bg-green-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {inquiry.replied ? 'Mark as Not Replied' : 'Mark as Replied'}
+              </button>
+              <button
+                onClick={() => handleToggle('read')}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {inquiry.read ? 'Mark as Unread' : 'Mark as Read'}
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={saving}
+                className="sm:ml-auto px-4 py-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {canEdit && !inquiry.anonymisedAt && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+          <InquiryReplyForm inquiry={inquiry} onSent={handleReplySent} />
+        </div>
+      )}
+    </div>
+  );
+}
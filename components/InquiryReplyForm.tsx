@@ -0,0 +1,139 @@
+/**
+ * InquiryReplyForm Component
+ *
+ * Compose box for replying to an inquiry from the admin inquiry detail view.
+ * The reply is emailed to the sender through the functions' mail transport
+ * and added to the inquiry's thread.
+ *
+ * Key features:
+ * - Subject pre-filled with "Re: <inquiry subject>"
+ * - Saved reply templates, with {{name}} and {{subject}} filled in from the
+ *   inquiry, inserted for editing before sending
+ * - Link to manage the templates
+ * - Sending state and error alerts
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchReplyTemplates, sendInquiryReply } from '@/lib/adminApi';
+import type { Inquiry, InquiryMessage, ReplyTemplate } from '@/types';
+
+interface InquiryReplyFormProps {
+  inquiry: Inquiry;
+  onSent: (reply: InquiryMessage, inquiry: Inquiry) => void;
+}
+
+/**
+ * Fills the {{name}} and {{subject}} placeholders of a reply template
+ */
+function fillPlaceholders(text: string, inquiry: Inquiry): string {
+  return text.replace(/\{\{\s*(name|subject)\s*\}\}/g, (_match, key: 'name' | 'subject') => inquiry[key]);
+}
+
+export default function InquiryReplyForm({ inquiry, onSent }: InquiryReplyFormProps) {
+  const defaultSubject = `Re: ${inquiry.subject}`;
+  const [subject, setSubject] = useState(defaultSubject);
+  const [body, setBody] = useState('');
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([]);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetchReplyTemplates()
+      .then(setTemplates)
+      .catch((err) => console.error('Error loading reply templates:', err));
+  }, []);
+
+  /**
+   * Replaces the draft with a template
+   */
+  const handleTemplateChange = (templateId: string) => {
+    const template = templates.find((item) => item.id === templateId);
+    if (!template) {
+      return;
+    }
+    if (body.trim() && !window.confirm('Replace the current draft with this template?')) {
+      return;
+    }
+    setSubject(template.subject ? fillPlaceholders(template.subject, inquiry) : defaultSubject);
+    setBody(fillPlaceholders(template.body, inquiry));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!body.trim()) {
+      alert('Please write a reply before sending.');
+      return;
+    }
+
+    try {
+      setSending(true);
+      const result = await sendInquiryReply(inquiry.id, { subject: subject.trim() || undefined, body });
+      setBody('');
+      setSubject(defaultSubject);
+      onSent(result.reply, result.inquiry);
+    } catch (err: any) {
+      console.error('Error sending reply:', err);
+      alert(err?.message || 'Failed to send reply. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Reply to {inquiry.name}
+        </h3>
+        <div className="flex items-center gap-3 text-sm">
+          <select
+            value=""
+            onChange={(e) => handleTemplateChange(e.target.value)}
+            disabled={sending || templates.length === 0}
+            aria-label="Insert reply template"
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+          >
+            <option value="">{templates.length === 0 ? 'No saved replies' : 'Insert saved reply…'}</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          <Link href="/admin/reply-templates" className="text-blue-600 dark:text-blue-400 hover:underline">
+            Manage
+          </Link>
+        </div>
+      </div>
+
+      <input
+        type="text"
+        value={subject}
+        onChange={(e) => setSubject(e.target.value)}
+        maxLength={200}
+        aria-label="Reply subject"
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      />
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={6}
+        maxLength={10000}
+        placeholder={`Write your reply to ${inquiry.email}…`}
+        aria-label="Reply message"
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      />
+
+      <button
+        type="submit"
+        disabled={sending}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {sending ? 'Sending...' : 'Send Reply'}
+      </button>
+    </form>
+  );
+}
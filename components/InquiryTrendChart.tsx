@@ -0,0 +1,54 @@
+/**
+ * InquiryTrendChart Component
+ *
+ * Small bar chart of inquiries received per week on the admin dashboard.
+ * Rendered with plain elements and Tailwind classes, so no charting library
+ * is needed for a handful of bars.
+ *
+ * Features:
+ * - One bar per week, scaled to the busiest week
+ * - Week start labels and per-bar counts
+ * - Accessible summary via aria-label on each bar
+ */
+
+'use client';
+
+interface InquiryTrendChartProps {
+  data: { weekStart: Date; count: number }[];
+}
+
+export default function InquiryTrendChart({ data }: InquiryTrendChartProps) {
+  const max = Math.max(1, ...data.map(week => week.count));
+
+  const formatWeek = (date: Date): string =>
+    new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(date);
+
+  return (
+    <div className="flex items-end gap-2 h-40" role="list">
+      {data.map(week => {
+        const label = `Week of ${formatWeek(week.weekStart)}: ${week.count} ${
+          week.count === 1 ? 'inquiry' : 'inquiries'
+        }`;
+
+        return (
+          <div
+            key={week.weekStart.toISOString()}
+            className="flex-1 flex flex-col items-center justify-end h-full"
+            role="listitem"
+            aria-label={label}
+            title={label}
+          >
+            <span className="text-xs text-gray-600 dark:text-gray-400 mb-1">{week.count}</span>
+            <div
+              className="w-full rounded-t bg-blue-500 dark:bg-blue-400 min-h-[2px]"
+              style={{ height: `${(week.count / max) * 100}%` }}
+            />
+            <span className="mt-2 text-[10px] text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              {formatWeek(week.weekStart)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+/**
+ * MediaLibrary Component
+ *
+ * Browses the images and resume PDFs uploaded through the admin API, indexed
+ * in the media collection. Used on the admin Media page to manage uploads,
+ * and inside MediaPicker to choose an existing image for a project.
+ *
+ * Key features:
+ * - Grid of uploads, newest first, with size, dimensions and usage
+ * - Search by file name, alt text or path, and an "unused only" filter
+ * - Alt text editing (editors and owners)
+ * - Delete button for images no project uses, with confirmation dialog
+ * - Pick mode: only images are listed, and clicking one selects it instead
+ * - Resume PDFs are shown as links, without alt text
+ * - Loading, error and empty states
+ *
+ * Props:
+ * - onSelect: Called with the chosen image; enables pick mode (optional)
+ */
+
+'use client';
+
+import { KeyboardEvent, useCallback, useEffect, useState } from 'react';
+import { deleteMedia, fetchMedia, updateMediaAlt } from '@/lib/adminApi';
+import { useAdminRole } from '@/lib/hooks/useAdminRole';
+import { mediaImageMetadata } from '@/lib/images';
+import type { MediaAsset } from '@/types';
+import ProjectImage from './ProjectImage';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+const PAGE_SIZE = 24;
+
+interface MediaLibraryProps {
+  onSelect?: (asset: MediaAsset) => void;
+}
+
+/**
+ * Whether a media entry is a document (a resume PDF) rather than an image
+ */
+function isDocument(asset: MediaAsset): boolean {
+  return asset.contentType === 'application/pdf';
+}
+
+/**
+ * Formats a byte count for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function MediaLibrary({ onSelect }: MediaLibraryProps) {
+  const { can } = useAdminRole();
+  const pickMode = !!onSelect;
+  const canEdit = can('editor') && !pickMode;
+
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [unusedOnly, setUnusedOnly] = useState(false);
+  const [altDrafts, setAltDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  /**
+   * Loads the current page of media
+   */
+  const loadMedia = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await fetchMedia({
+        page,
+        pageSize: PAGE_SIZE,
+        q: search || undefined,
+        type: pickMode ? 'image' : undefined,
+        unused: unusedOnly ? true : undefined,
+      });
+      setAssets(result.data);
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+    } catch (err: any) {
+      console.error('Error loading media:', err);
+      setError(err?.message || 'Failed to load media. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search, unusedOnly, pickMode]);
+
+  useEffect(() => {
+    loadMedia();
+  }, [loadMedia]);
+
+  /**
+   * Applies the search box and starts again from the first page
+   */
+  const handleSearch = () => {
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  /**
+   * Searches on Enter; the library is not a form since MediaPicker renders
+   * it inside the project form
+   */
+  const handleSearchKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSearch();
+    }
+  };
+
+  /**
+   * Saves an edited alt text
+   */
+  const handleSaveAlt = async (asset: MediaAsset) => {
+    try {
+      setBusyId(asset.id);
+      const updated = await updateMediaAlt(asset.id, altDrafts[asset.id] ?? asset.alt);
+      setAssets(current => current.map(item => (item.id === updated.id ? updated : item)));
+      setAltDrafts(current => {
+        const drafts = { ...current };
+        delete drafts[asset.id];
+        return drafts;
+      });
+    } catch (err: any) {
+      console.error('Error saving alt text:', err);
+      alert(err?.message || 'Failed to save alt text. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  /**
+   * Permanently deletes an unused image after confirmation
+   */
+  const handleDelete = async (asset: MediaAsset) => {
+    const confirmed = window.confirm(
+      `Permanently delete "${asset.name}" and its files from Storage? This action cannot be undone.`
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      setBusyId(asset.id);
+      await deleteMedia(asset.id);
+      setAssets(current => current.filter(item => item.id !== asset.id));
+      setTotal(current => current - 1);
+    } catch (err: any) {
+      console.error('Error deleting media:', err);
+      alert(err?.message || 'Failed to delete media. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="flex flex-1 gap-2">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder="Search by name, alt text or path"
+            aria-label="Search media"
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="button"
+            onClick={handleSearch}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Search
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={unusedOnly}
+            onChange={(e) => {
+              setPage(1);
+              setUnusedOnly(e.target.checked);
+            }}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          Unused only
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <div className="py-8">
+          <ErrorMessage message={error} />
+          <button
+            type="button"
+            onClick={loadMedia}
+            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      ) : assets.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center border border-gray-200 dark:border-gray-700">
+          <div className="text-6xl mb-4">🖼️</div>
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+            No Images Found
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            {search || unusedOnly
+              ? 'No uploads match these filters.'
+              : 'Images uploaded from the project form appear here.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+            {assets.map(asset => {
+              const altDraft = altDrafts[asset.id] ?? asset.alt;
+              const preview = isDocument(asset) ? (
+                <a
+                  href={asset.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex aspect-video items-center justify-center bg-gray-100 dark:bg-gray-700 text-4xl"
+                  title={`Open ${asset.name}`}
+                >
+                  📄
+                </a>
+              ) : (
+                <ProjectImage
+                  src={asset.url}
+                  alt={asset.alt || asset.name}
+                  sizes="(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw"
+                  metadata={mediaImageMetadata(asset)}
+                  className="aspect-video"
+                />
+              );
+
+              return (
+                <div
+                  key={asset.id}
+                  className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden border border-gray-200 dark:border-gray-700"
+                >
+                  {onSelect ? (
+                    <button
+                      type="button"
+                      onClick={() => onSelect(asset)}
+                      className="block w-full focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      title={`Use ${asset.name}`}
+                    >
+                      {preview}
+                    </button>
+                  ) : (
+                    preview
+                  )}
+
+                  <div className="p-3 space-y-2 text-xs text-gray-600 dark:text-gray-400">
+                    <p className="font-medium text-sm text-gray-900 dark:text-white truncate" title={asset.path}>
+                      {asset.name}
+                    </p>
+                    <p>
+                      {asset.width && asset.height ? `${asset.width}×${asset.height} · ` : ''}
+                      {formatSize(asset.size)}
+                    </p>
+                    <p>
+                      {isDocument(asset) ? (
+                        'Resume PDF'
+                      ) : asset.references.length === 0 ? (
+                        <span className="text-yellow-700 dark:text-yellow-400">Unused</span>
+                      ) : (
+                        `Used by ${asset.references.length} project${asset.references.length === 1 ? '' : 's'}`
+                      )}
+                    </p>
+
+                    {canEdit ? (
+                      <div className="space-y-2">
+                        {!isDocument(asset) && (
+                          <input
+                            type="text"
+                            value={altDraft}
+                            maxLength={300}
+                            onChange={(e) => setAltDrafts(current => ({ ...current, [asset.id]: e.target.value }))}
+                            placeholder="Alt text"
+                            aria-label={`Alt text for ${asset.name}`}
+                            className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                          />
+                        )}
+                        <div className="flex gap-2">
+                          {altDraft !== asset.alt && (
+                            <button
+                              type="button"
+                              onClick={() => handleSaveAlt(asset)}
+                              disabled={busyId === asset.id}
+                              className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                            >
+                              Save
+                            </button>
+                          )}
+                          {asset.references.length === 0 && (
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(asset)}
+                              disabled={busyId === asset.id}
+                              className="px-2 py-1 text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ) : (
+                      asset.alt && <p className="italic truncate" title={asset.alt}>{asset.alt}</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+            <span>
+              Showing {(page - 1) * PAGE_SIZE + 1}–{(page - 1) * PAGE_SIZE + assets.length} of{' '}
+              {total} {total === 1 ? 'upload' : 'uploads'}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setPage(p => p - 1)}
+                disabled={page === 1}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={() => setPage(p => p + 1)}
+                disabled={!hasMore}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
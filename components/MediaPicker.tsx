@@ -0,0 +1,73 @@
+/**
+ * MediaPicker Component
+ *
+ * Dialog for choosing an image already in the media library, so uploads can
+ * be reused across projects instead of uploaded again. Rendered by
+ * ProjectForm for the thumbnail and the gallery.
+ *
+ * Props:
+ * - title: Dialog heading
+ * - onSelect: Called with the chosen image; the dialog closes afterwards
+ * - onClose: Called when the dialog is dismissed
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import MediaLibrary from './MediaLibrary';
+import type { MediaAsset } from '@/types';
+
+interface MediaPickerProps {
+  title: string;
+  onSelect: (asset: MediaAsset) => void;
+  onClose: () => void;
+}
+
+export default function MediaPicker({ title, onSelect, onClose }: MediaPickerProps) {
+  /**
+   * Closes the dialog on Escape
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="media-picker-title"
+        className="w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-gray-50 dark:bg-gray-900 rounded-lg shadow-xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="media-picker-title" className="text-xl font-semibold text-gray-900 dark:text-white">
+            {title}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+        <MediaLibrary
+          onSelect={(asset) => {
+            onSelect(asset);
+            onClose();
+          }}
+        />
+      </div>
+    </div>
+  );
+}
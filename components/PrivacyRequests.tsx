@@ -0,0 +1,124 @@
+/**
+ * PrivacyRequests Component
+ *
+ * Handles data subject requests from inquiry senders ("send me my data",
+ * "delete my data"), keyed by the email address they wrote from.
+ *
+ * Key features:
+ * - Exports every inquiry and reply stored for the address as a JSON download
+ * - Permanently erases them, including trashed inquiries, after confirmation
+ * - Reports how many inquiries were exported or erased
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { eraseSenderData, exportSenderData } from '@/lib/adminApi';
+
+/**
+ * Offers an export as a JSON file download
+ */
+function downloadJson(filename: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function PrivacyRequests() {
+  const [email, setEmail] = useState('');
+  const [working, setWorking] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  const trimmedEmail = email.trim();
+
+  const handleExport = async () => {
+    try {
+      setWorking(true);
+      setResult(null);
+      const data = await exportSenderData(trimmedEmail);
+      if (data.inquiries.length === 0) {
+        setResult(`Nothing is stored for ${trimmedEmail}.`);
+        return;
+      }
+      downloadJson(`inquiries-${trimmedEmail.replace(/[^a-z0-9]+/gi, '-')}.json`, data);
+      setResult(`Exported ${data.inquiries.length} ${data.inquiries.length === 1 ? 'inquiry' : 'inquiries'} for ${trimmedEmail}.`);
+    } catch (err: any) {
+      console.error('Error exporting sender data:', err);
+      alert(err?.message || 'Failed to export data. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (!window.confirm(
+      `Permanently delete every inquiry and reply from ${trimmedEmail}, including any in the trash? This cannot be undone.`
+    )) {
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setResult(null);
+      const deleted = await eraseSenderData(trimmedEmail);
+      setResult(
+        deleted === 0
+          ? `Nothing is stored for ${trimmedEmail}.`
+          : `Deleted ${deleted} ${deleted === 1 ? 'inquiry' : 'inquiries'} from ${trimmedEmail}.`
+      );
+    } catch (err: any) {
+      console.error('Error erasing sender data:', err);
+      alert(err?.message || 'Failed to delete data. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700 space-y-4">
+      <div>
+        <label htmlFor="privacy-email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Sender email
+        </label>
+        <input
+          id="privacy-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="sender@example.com"
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Matches the address as entered and in lower case.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={handleExport}
+          disabled={working || !trimmedEmail}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export Data
+        </button>
+        <button
+          onClick={handleErase}
+          disabled={working || !trimmedEmail}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Delete Data
+        </button>
+      </div>
+
+      {result && (
+        <p role="status" className="text-sm text-gray-700 dark:text-gray-300">
+          {result}
+        </p>
+      )}
+    </div>
+  );
+}
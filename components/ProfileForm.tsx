@@ -0,0 +1,558 @@
+/**
+ * ProfileForm Component
+ *
+ * Form component for editing the portfolio owner's profile in the admin interface.
+ * Covers every `Profile` field and saves through the authenticated admin API,
+ * which validates the data and stamps `updatedAt`.
+ *
+ * Key features:
+ * - Personal details: name, title, bio, email
+ * - Social links: LinkedIn, GitHub, Twitter
+ * - Skills tag editor
+ * - Avatar image upload with preview
+ * - Resume PDF upload
+ * - Structured work experience editor (ExperienceEditor)
+ * - Client-side validation mirroring the server rules
+ * - Refreshes the cached public profile after saving
+ */
+
+'use client';
+
+import { useState, useEffect, FormEvent, ChangeEvent } from 'react';
+import { mutate } from 'swr';
+import { fetchProfile } from '@/lib/firestore';
+import { updateProfile, uploadDocument, uploadImage, UPLOAD_IMAGE_TYPES } from '@/lib/adminApi';
+import { isValidEmail } from '@/lib/validation';
+import type { ProfileInput } from '@/types';
+import ExperienceEditor from './ExperienceEditor';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+/**
+ * Initial empty form state
+ */
+const initialFormData: ProfileInput = {
+  name: '',
+  title: '',
+  bio: '',
+  email: '',
+  linkedin: '',
+  github: '',
+  twitter: '',
+  resumeUrl: '',
+  avatar: '',
+  skills: [],
+  experience: [],
+};
+
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024; // 5MB
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Validates profile form data with the same rules as the updateProfile function
+ * Returns errors keyed by field name (experience errors use "experience[i].field")
+ */
+function validateProfileForm(data: ProfileInput): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const isUrl = (value: string) => /^https?:\/\/\S+$/.test(value.trim());
+
+  if (!data.name.trim()) errors.name = 'Name is required';
+  if (!data.title.trim()) errors.title = 'Title is required';
+  if (!data.bio.trim()) errors.bio = 'Bio is required';
+
+  if (!data.email.trim()) {
+    errors.email = 'Email is required';
+  } else if (!isValidEmail(data.email.trim())) {
+    errors.email = 'Email must be a valid email address';
+  }
+
+  if (!data.linkedin.trim()) {
+    errors.linkedin = 'LinkedIn URL is required';
+  } else if (!isUrl(data.linkedin)) {
+    errors.linkedin = 'LinkedIn URL must start with http:// or https://';
+  }
+
+  if (data.github && !isUrl(data.github)) {
+    errors.github = 'GitHub URL must start with http:// or https://';
+  }
+  if (data.twitter && !isUrl(data.twitter)) {
+    errors.twitter = 'Twitter URL must start with http:// or https://';
+  }
+
+  if (!data.resumeUrl) errors.resumeUrl = 'Resume is required';
+  if (!data.avatar) errors.avatar = 'Avatar is required';
+
+  (data.experience || []).forEach((entry, index) => {
+    const prefix = `experience[${index}]`;
+    if (!entry.company.trim()) errors[`${prefix}.company`] = 'Company is required';
+    if (!entry.position.trim()) errors[`${prefix}.position`] = 'Position is required';
+    if (!MONTH_PATTERN.test(entry.startDate)) {
+      errors[`${prefix}.startDate`] = 'Start date is required';
+    }
+    if (entry.endDate !== 'present' && !MONTH_PATTERN.test(entry.endDate)) {
+      errors[`${prefix}.endDate`] = 'End date is required unless this is your current role';
+    } else if (entry.endDate !== 'present' && entry.endDate < entry.startDate) {
+      errors[`${prefix}.endDate`] = 'End date must not be before start date';
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * ProfileForm component for editing the portfolio owner's profile
+ */
+export default function ProfileForm() {
+  // Form state
+  const [formData, setFormData] = useState<ProfileInput>(initialFormData);
+  const [skillInput, setSkillInput] = useState(''); // Temporary input for adding skills
+
+  // UI state
+  const [loadingProfile, setLoadingProfile] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState<'avatar' | 'resume' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastSaved, setLastSaved] = useState<Date | null>(null);
+
+  // Validation state
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+
+  /**
+   * Loads the current profile on mount
+   */
+  const loadProfile = async () => {
+    try {
+      setLoadingProfile(true);
+      setError(null);
+
+      const profile = await fetchProfile();
+      setFormData({
+        name: profile.name || '',
+        title: profile.title || '',
+        bio: profile.bio || '',
+        email: profile.email || '',
+        linkedin: profile.linkedin || '',
+        github: profile.github || '',
+        twitter: profile.twitter || '',
+        resumeUrl: profile.resumeUrl || '',
+        avatar: profile.avatar || '',
+        skills: profile.skills || [],
+        experience: profile.experience || [],
+      });
+      setLastSaved(profile.updatedAt);
+    } catch (err) {
+      console.error('Error loading profile:', err);
+      setError('Failed to load profile. Please try again.');
+    } finally {
+      setLoadingProfile(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  /**
+   * Removes the validation error for a field once it is edited
+   */
+  const clearFieldError = (name: string) => {
+    if (validationErrors[name]) {
+      setValidationErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors[name];
+        return newErrors;
+      });
+    }
+  };
+
+  /**
+   * Handles text input changes
+   */
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    clearFieldError(name);
+  };
+
+  /**
+   * Adds a skill tag
+   */
+  const handleAddSkill = () => {
+    const skill = skillInput.trim();
+    if (skill && !formData.skills.includes(skill)) {
+      setFormData(prev => ({ ...prev, skills: [...prev.skills, skill] }));
+      setSkillInput('');
+    }
+  };
+
+  /**
+   * Removes a skill tag
+   */
+  const handleRemoveSkill = (skill: string) => {
+    setFormData(prev => ({ ...prev, skills: prev.skills.filter(s => s !== skill) }));
+  };
+
+  /**
+   * Handles skill input key press (Enter to add)
+   */
+  const handleSkillKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAddSkill();
+    }
+  };
+
+  /**
+   * Handles avatar image upload through the admin API, which stores it in
+   * the profile folder and indexes it in the media library
+   */
+  const handleAvatarUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!UPLOAD_IMAGE_TYPES.includes(file.type)) {
+      alert('Please select a JPEG, PNG or WebP image');
+      return;
+    }
+
+    if (file.size > MAX_UPLOAD_SIZE) {
+      alert('Image size must be less than 5MB');
+      return;
+    }
+
+    try {
+      setUploading('avatar');
+      const upload = await uploadImage(file, 'profile');
+      setFormData(prev => ({ ...prev, avatar: upload.url }));
+      clearFieldError('avatar');
+    } catch (err: any) {
+      console.error('Error uploading avatar:', err);
+      alert(err?.message || 'Failed to upload avatar. Please try again.');
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  /**
+   * Handles resume PDF upload through the admin API, which stores it in the
+   * profile folder and indexes it in the media library
+   */
+  const handleResumeUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.type !== 'application/pdf') {
+      alert('Please select a PDF file');
+      return;
+    }
+
+    if (file.size > MAX_UPLOAD_SIZE) {
+      alert('Resume size must be less than 5MB');
+      return;
+    }
+
+    try {
+      setUploading('resume');
+      const upload = await uploadDocument(file);
+      setFormData(prev => ({ ...prev, resumeUrl: upload.url }));
+      clearFieldError('resumeUrl');
+    } catch (err: any) {
+      console.error('Error uploading resume:', err);
+      alert(err?.message || 'Failed to upload resume. Please try again.');
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    // Prevent double submission
+    if (saving) {
+      return;
+    }
+
+    const errors = validateProfileForm(formData);
+    setValidationErrors(errors);
+
+    if (Object.keys(errors).length > 0) {
+      setError('Please fix the validation errors');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const saved = await updateProfile(formData);
+
+      // Refresh the SWR cache used by useProfile on public pages
+      await mutate('profile', saved, { revalidate: false });
+
+      setLastSaved(saved.updatedAt);
+      alert('Profile updated successfully');
+    } catch (err: any) {
+      console.error('Error saving profile:', err);
+      setError(err?.message || 'Failed to save profile. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Loading state while fetching profile data
+  if (loadingProfile) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const inputClassName = (field: string) =>
+    `w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white ${
+      validationErrors[field] ? 'border-red-500' : 'border-gray-300'
+    }`;
+
+  const fileInputClassName = `block w-full text-sm text-gray-500 dark:text-gray-400
+    file:mr-4 file:py-2 file:px-4
+    file:rounded-lg file:border-0
+    file:text-sm file:font-medium
+    file:bg-blue-50 file:text-blue-700
+    hover:file:bg-blue-100
+    dark:file:bg-blue-900/30 dark:file:text-blue-400
+    dark:hover:file:bg-blue-900/50
+    disabled:opacity-50 disabled:cursor-not-allowed`;
+
+  /**
+   * Renders a labelled text input bound to a profile field
+   */
+  const renderTextField = (
+    name: keyof ProfileInput,
+    label: string,
+    options: { type?: string; placeholder?: string; required?: boolean } = {}
+  ) => (
+    <div>
+      <label htmlFor={name} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {label} {options.required && <span className="text-red-500">*</span>}
+      </label>
+      <input
+        type={options.type || 'text'}
+        id={name}
+        name={name}
+        value={(formData[name] as string) || ''}
+        onChange={handleInputChange}
+        className={inputClassName(name)}
+        placeholder={options.placeholder}
+      />
+      {validationErrors[name] && (
+        <p className="mt-1 text-sm text-red-500">{validationErrors[name]}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <form onSubmit={handleSubmit} className="space-y-8">
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4">
+            <ErrorMessage message={error} onRetry={formData.name ? undefined : loadProfile} />
+          </div>
+        )}
+
+        {/* Personal Details */}
+        <section className="space-y-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Personal Details</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderTextField('name', 'Name', { required: true })}
+            {renderTextField('title', 'Professional Title', { required: true })}
+          </div>
+          <div>
+            <label htmlFor="bio" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Bio <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              id="bio"
+              name="bio"
+              value={formData.bio}
+              onChange={handleInputChange}
+              rows={6}
+              className={inputClassName('bio')}
+            />
+            {validationErrors.bio && (
+              <p className="mt-1 text-sm text-red-500">{validationErrors.bio}</p>
+            )}
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              {formData.bio.length} characters
+            </p>
+          </div>
+        </section>
+
+        {/* Contact and Social Links */}
+        <section className="space-y-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Contact &amp; Social Links</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderTextField('email', 'Email', { type: 'email', required: true })}
+            {renderTextField('linkedin', 'LinkedIn URL', {
+              type: 'url',
+              required: true,
+              placeholder: 'https://www.linkedin.com/in/username/',
+            })}
+            {renderTextField('github', 'GitHub URL', {
+              type: 'url',
+              placeholder: 'https://github.com/username',
+            })}
+            {renderTextField('twitter', 'Twitter URL', {
+              type: 'url',
+              placeholder: 'https://twitter.com/username',
+            })}
+          </div>
+        </section>
+
+        {/* Avatar and Resume */}
+        <section className="space-y-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Avatar &amp; Resume</h2>
+
+          <div>
+            <label htmlFor="avatar" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Avatar <span className="text-red-500">*</span>
+            </label>
+            {formData.avatar && (
+              <img
+                src={formData.avatar}
+                alt="Avatar preview"
+                className="mb-3 w-24 h-24 object-cover rounded-full border border-gray-300 dark:border-gray-600"
+              />
+            )}
+            <input
+              type="file"
+              id="avatar"
+              accept={UPLOAD_IMAGE_TYPES.join(',')}
+              onChange={handleAvatarUpload}
+              disabled={uploading !== null}
+              className={fileInputClassName}
+            />
+            {validationErrors.avatar && (
+              <p className="mt-1 text-sm text-red-500">{validationErrors.avatar}</p>
+            )}
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Square images work best. Max size: 5MB
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="resume" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Resume (PDF) <span className="text-red-500">*</span>
+            </label>
+            {formData.resumeUrl && (
+              <a
+                href={formData.resumeUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block mb-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                View current resume
+              </a>
+            )}
+            <input
+              type="file"
+              id="resume"
+              accept="application/pdf"
+              onChange={handleResumeUpload}
+              disabled={uploading !== null}
+              className={fileInputClassName}
+            />
+            {validationErrors.resumeUrl && (
+              <p className="mt-1 text-sm text-red-500">{validationErrors.resumeUrl}</p>
+            )}
+          </div>
+
+          {uploading && (
+            <div className="flex items-center gap-2 text-blue-600 dark:text-blue-400">
+              <LoadingSpinner />
+              <span className="text-sm">Uploading {uploading}...</span>
+            </div>
+          )}
+        </section>
+
+        {/* Skills */}
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Skills</h2>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              id="skillInput"
+              value={skillInput}
+              onChange={e => setSkillInput(e.target.value)}
+              onKeyPress={handleSkillKeyPress}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              placeholder="Enter a skill (e.g., SwiftUI)"
+              aria-label="New skill"
+            />
+            <button
+              type="button"
+              onClick={handleAddSkill}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Add
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {formData.skills.map(skill => (
+              <span
+                key={skill}
+                className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-400"
+              >
+                {skill}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveSkill(skill)}
+                  className="ml-2 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                  aria-label={`Remove ${skill}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        </section>
+
+        {/* Experience */}
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Experience</h2>
+          <ExperienceEditor
+            value={formData.experience || []}
+            onChange={experience => setFormData(prev => ({ ...prev, experience }))}
+            errors={validationErrors}
+          />
+        </section>
+
+        {/* Form Actions */}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 pt-6 border-t border-gray-200 dark:border-gray-700">
+          {lastSaved && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Last updated {lastSaved.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={saving || uploading !== null}
+            className="sm:ml-auto px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+          >
+            {saving ? (
+              <>
+                <LoadingSpinner />
+                <span className="ml-2">Saving...</span>
+              </>
+            ) : (
+              'Save Profile'
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
  * ProjectCard Component
  * 
  * Displays a portfolio project in either grid or list layout.
- * Uses gradient placeholders for visual consistency without images.
+ * Shows the project's thumbnail as a responsive image with a blurred
+ * placeholder, or a gradient for projects without one.
  * 
  * Key responsibilities:
  * - Render project information (title, description, technologies)
@@ -10,6 +11,7 @@
  * - Display technology tags with overflow handling
  * - Provide hover effects and transitions
  * - Link to project detail pages
+ * - Render the thumbnail through ProjectImage (next/image srcset)
  * - Generate consistent gradient colors based on project title
  * 
  * Props:
@@ -18,12 +20,15 @@
  * 
  * Dependencies:
  * - Next.js Link for client-side navigation
+ * - ProjectImage and lib/images for the thumbnail
  * - Project type from types module
  * 
  * Requirements: 2.2, 2.3
  */
 
 import Link from 'next/link';
+import ProjectImage from './ProjectImage';
+import { findImageMetadata } from '@/lib/images';
 import type { Project } from '@/types';
 
 interface ProjectCardProps {
@@ -54,16 +59,27 @@ export default function ProjectCard({ project, variant = 'grid' }: ProjectCardPr
   };
 
   const gradientClass = getGradientColors(project.title);
+  const thumbnailMetadata = project.thumbnail ? findImageMetadata(project, project.thumbnail) : undefined;
 
   if (variant === 'list') {
     return (
-      <Link href={`/projects/${project.id}`}>
+      <Link href={`/projects/${project.slug}`}>
         <article className="flex flex-col md:flex-row bg-white dark:bg-gray-800 rounded-lg shadow-md hover:shadow-xl transition-shadow duration-300 overflow-hidden border border-gray-200 dark:border-gray-700">
-          {/* Gradient Placeholder */}
-          <div 
-            className={`w-full md:w-64 h-48 md:h-auto flex-shrink-0 bg-gradient-to-br ${gradientClass}`}
-            aria-label={`${project.title} visual`}
-          />
+          {/* Thumbnail, or a gradient placeholder without one */}
+          {project.thumbnail ? (
+            <ProjectImage
+              src={project.thumbnail}
+              alt={`${project.title} thumbnail`}
+              sizes="(min-width: 768px) 256px, 100vw"
+              metadata={thumbnailMetadata}
+              className="w-full md:w-64 h-48 md:h-auto flex-shrink-0"
+            />
+          ) : (
+            <div 
+              className={`w-full md:w-64 h-48 md:h-auto flex-shrink-0 bg-gradient-to-br ${gradientClass}`}
+              aria-label={`${project.title} visual`}
+            />
+          )}
 
           {/* Content */}
           <div className="flex-1 p-6">
@@ -98,13 +114,23 @@ export default function ProjectCard({ project, variant = 'grid' }: ProjectCardPr
 
   // Grid variant (default)
   return (
-    <Link href={`/projects/${project.id}`}>
+    <Link href={`/projects/${project.slug}`}>
       <article className="bg-white dark:bg-gray-800 rounded-lg shadow-md hover:shadow-xl transition-shadow duration-300 overflow-hidden border border-gray-200 dark:border-gray-700">
-        {/* Gradient Placeholder */}
-        <div 
-          className={`w-full h-48 bg-gradient-to-br ${gradientClass}`}
-          aria-label={`${project.title} visual`}
-        />
+        {/* Thumbnail, or a gradient placeholder without one */}
+        {project.thumbnail ? (
+          <ProjectImage
+            src={project.thumbnail}
+            alt={`${project.title} thumbnail`}
+            sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+            metadata={thumbnailMetadata}
+            className="w-full h-48"
+          />
+        ) : (
+          <div 
+            className={`w-full h-48 bg-gradient-to-br ${gradientClass}`}
+            aria-label={`${project.title} visual`}
+          />
+        )}
 
         {/* Content */}
         <div className="p-6">
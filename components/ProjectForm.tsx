@@ -8,12 +8,19 @@
  * Key features:
  * - Create new projects or edit existing ones
  * - All project fields: title, description, fullDescription, technologies, category, URLs
- * - Image upload with preview (thumbnail and gallery images)
+ * - Image upload with preview (thumbnail and gallery images), keeping each
+ *   upload's dimensions and blurred placeholder for the public pages
+ * - Choosing an existing image from the media library instead of uploading
+ * - Gallery editor for each image's alt text and caption and the gallery order,
+ *   warning about images without alt text
  * - Toggle controls for featured and published status
+ * - Optional publish/unpublish date-time pickers applied by the publish scheduler
  * - Save as draft or publish buttons
  * - Form validation with error messages
  * - Loading states during submission
  * - Success/error feedback
+ * - Saves and uploads images through the admin API, which validates every change
+ *   and records it in the revision history and audit log
  * 
  * Requirements: 11.1, 11.2, 11.3, 11.5
  */
@@ -22,11 +29,14 @@
 
 import { useState, useEffect, FormEvent, ChangeEvent } from 'react';
 import { useRouter } from 'next/navigation';
-import { collection, doc, addDoc, updateDoc, getDoc, serverTimestamp } from 'firebase/firestore';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { db, storage } from '@/lib/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { createProject, updateProject, uploadImage, UPLOAD_IMAGE_TYPES } from '@/lib/adminApi';
+import { mediaImageMetadata, normalizeGalleryImages } from '@/lib/images';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
+import MediaPicker from './MediaPicker';
+import type { GalleryImage, ImageMetadata, MediaAsset, ProjectWarnings, UploadedImage } from '@/types';
 
 interface ProjectFormProps {
   projectId?: string; // If provided, form is in edit mode
@@ -43,7 +53,8 @@ interface ProjectFormData {
   description: string;
   fullDescription: string;
   thumbnail: string;
-  images: string[];
+  images: GalleryImage[];         // `order` is set from the list position on save
+  imageMetadata: ImageMetadata[]; // Pruned to the images in use by the API
   technologies: string[];
   category: string;
   liveUrl: string;
@@ -51,6 +62,8 @@ interface ProjectFormData {
   featured: boolean;
   published: boolean;
   order: number;
+  publishAt: string;   // datetime-local value in the browser's time zone, '' when unscheduled
+  unpublishAt: string; // datetime-local value in the browser's time zone, '' when unscheduled
 }
 
 /**
@@ -62,6 +75,7 @@ const initialFormData: ProjectFormData = {
   fullDescription: '',
   thumbnail: '',
   images: [],
+  imageMetadata: [],
   technologies: [],
   category: '',
   liveUrl: '',
@@ -69,8 +83,39 @@ const initialFormData: ProjectFormData = {
   featured: false,
   published: false,
   order: 0,
+  publishAt: '',
+  unpublishAt: '',
 };
 
+/**
+ * Keeps the metadata stored on the project from an upload response
+ */
+function toImageMetadata({ url, width, height, color, placeholder }: UploadedImage): ImageMetadata {
+  return { url, width, height, color, placeholder };
+}
+
+/**
+ * Creates a gallery entry for a newly added image
+ */
+function toGalleryImage(url: string, alt: string = ''): GalleryImage {
+  return { url, alt, caption: '', order: 0 };
+}
+
+/**
+ * Formats a date as the local "YYYY-MM-DDTHH:mm" value used by datetime-local inputs
+ */
+function toDateTimeLocal(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+/**
+ * Converts a datetime-local value back into a Date (null when empty)
+ */
+function fromDateTimeLocal(value: string): Date | null {
+  return value ? new Date(value) : null;
+}
+
 /**
  * ProjectForm component for creating and editing projects
  * 
@@ -94,6 +139,7 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
   const [loadingProject, setLoadingProject] = useState(isEditMode);
   const [error, setError] = useState<string | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [pickerTarget, setPickerTarget] = useState<'thumbnail' | 'gallery' | null>(null);
   
   // Validation state
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
@@ -129,7 +175,8 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
         description: data.description || '',
         fullDescription: data.fullDescription || '',
         thumbnail: data.thumbnail || '',
-        images: data.images || [],
+        images: normalizeGalleryImages(data.images),
+        imageMetadata: data.imageMetadata || [],
         technologies: data.technologies || [],
         category: data.category || '',
         liveUrl: data.liveUrl || '',
@@ -137,6 +184,8 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
         featured: data.featured || false,
         published: data.published || false,
         order: data.order || 0,
+        publishAt: data.publishAt ? toDateTimeLocal(data.publishAt.toDate()) : '',
+        unpublishAt: data.unpublishAt ? toDateTimeLocal(data.unpublishAt.toDate()) : '',
       });
     } catch (err) {
       console.error('Error loading project:', err);
@@ -207,15 +256,8 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
     }
   };
 
-  /**
-   * Uploads an image to Firebase Storage
-   */
-  const uploadImage = async (file: File, path: string): Promise<string> => {
-    const storageRef = ref(storage, path);
-    await uploadBytes(storageRef, file);
-    const downloadURL = await getDownloadURL(storageRef);
-    return downloadURL;
-  };
+  // Images for a project that has not been saved yet go to the temp folder
+  const uploadFolder = projectId ? 'projects' : 'temp';
 
   /**
    * Handles thumbnail image upload
@@ -225,8 +267,8 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
     if (!file) return;
 
     // Validate file type
-    if (!file.type.startsWith('image/')) {
-      alert('Please select an image file');
+    if (!UPLOAD_IMAGE_TYPES.includes(file.type)) {
+      alert('Please select a JPEG, PNG or WebP image');
       return;
     }
 
@@ -238,11 +280,13 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
 
     try {
       setUploadingImage(true);
-      const timestamp = Date.now();
-      const path = `projects/${projectId || 'temp'}/thumbnail_${timestamp}.${file.name.split('.').pop()}`;
-      const url = await uploadImage(file, path);
+      const upload = await uploadImage(file, uploadFolder);
       
-      setFormData(prev => ({ ...prev, thumbnail: url }));
+      setFormData(prev => ({
+        ...prev,
+        thumbnail: upload.url,
+        imageMetadata: [...prev.imageMetadata, toImageMetadata(upload)],
+      }));
       
       // Clear validation error
       if (validationErrors.thumbnail) {
@@ -252,9 +296,9 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
           return newErrors;
         });
       }
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error uploading thumbnail:', err);
-      alert('Failed to upload thumbnail. Please try again.');
+      alert(err?.message || 'Failed to upload thumbnail. Please try again.');
     } finally {
       setUploadingImage(false);
     }
@@ -270,8 +314,8 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
     // Validate file types and sizes
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      if (!file.type.startsWith('image/')) {
-        alert(`File ${file.name} is not an image`);
+      if (!UPLOAD_IMAGE_TYPES.includes(file.type)) {
+        alert(`File ${file.name} is not a JPEG, PNG or WebP image`);
         return;
       }
       if (file.size > 5 * 1024 * 1024) {
@@ -282,38 +326,87 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
 
     try {
       setUploadingImage(true);
-      const uploadPromises: Promise<string>[] = [];
-      
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const timestamp = Date.now();
-        const path = `projects/${projectId || 'temp'}/image_${timestamp}_${i}.${file.name.split('.').pop()}`;
-        uploadPromises.push(uploadImage(file, path));
-      }
-      
-      const urls = await Promise.all(uploadPromises);
+      const uploads = await Promise.all(Array.from(files).map(file => uploadImage(file, uploadFolder)));
       setFormData(prev => ({
         ...prev,
-        images: [...prev.images, ...urls],
+        images: [...prev.images, ...uploads.map(upload => toGalleryImage(upload.url))],
+        imageMetadata: [...prev.imageMetadata, ...uploads.map(toImageMetadata)],
       }));
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error uploading gallery images:', err);
-      alert('Failed to upload images. Please try again.');
+      alert(err?.message || 'Failed to upload images. Please try again.');
     } finally {
       setUploadingImage(false);
     }
   };
 
+  /**
+   * Uses an image chosen in the media library as the thumbnail or adds it
+   * to the gallery, with the library's alt text
+   */
+  const handlePickMedia = (asset: MediaAsset) => {
+    const metadata = mediaImageMetadata(asset);
+
+    setFormData(prev => {
+      if (pickerTarget === 'gallery' && prev.images.some(image => image.url === asset.url)) {
+        return prev;
+      }
+      return {
+        ...prev,
+        thumbnail: pickerTarget === 'thumbnail' ? asset.url : prev.thumbnail,
+        images: pickerTarget === 'gallery' ? [...prev.images, toGalleryImage(asset.url, asset.alt)] : prev.images,
+        imageMetadata: metadata ? [...prev.imageMetadata, metadata] : prev.imageMetadata,
+      };
+    });
+
+    if (pickerTarget === 'thumbnail' && validationErrors.thumbnail) {
+      setValidationErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors.thumbnail;
+        return newErrors;
+      });
+    }
+  };
+
   /**
    * Removes a gallery image
    */
   const handleRemoveImage = (url: string) => {
     setFormData(prev => ({
       ...prev,
-      images: prev.images.filter(img => img !== url),
+      images: prev.images.filter(image => image.url !== url),
+      imageMetadata: prev.imageMetadata.filter(entry => entry.url !== url),
+    }));
+  };
+
+  /**
+   * Updates the alt text or caption of a gallery image
+   */
+  const handleGalleryTextChange = (url: string, field: 'alt' | 'caption', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      images: prev.images.map(image => (image.url === url ? { ...image, [field]: value } : image)),
     }));
   };
 
+  /**
+   * Moves a gallery image one place earlier (-1) or later (1)
+   */
+  const handleMoveImage = (index: number, direction: -1 | 1) => {
+    setFormData(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.images.length) {
+        return prev;
+      }
+      const images = [...prev.images];
+      [images[index], images[target]] = [images[target], images[index]];
+      return { ...prev, images };
+    });
+  };
+
+  // Alt text is not required, but images without it are flagged here and by the API
+  const imagesWithoutAlt = formData.images.filter(image => !image.alt.trim()).length;
+
   /**
    * Validates form data
    */
@@ -344,6 +437,12 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
       errors.technologies = 'At least one technology is required';
     }
 
+    const publishAt = fromDateTimeLocal(formData.publishAt);
+    const unpublishAt = fromDateTimeLocal(formData.unpublishAt);
+    if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+      errors.unpublishAt = 'Unpublish time must be after the publish time';
+    }
+
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -369,33 +468,32 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
       setLoading(true);
       setError(null);
 
-      // Prepare data for Firestore
+      // Timestamps and the slug are set by the API
+      // Publishing now replaces any scheduled publish time
       const projectData = {
         ...formData,
+        images: formData.images.map((image, order) => ({ ...image, order })),
         published: publishNow ? true : formData.published,
-        updatedAt: serverTimestamp(),
+        publishAt: publishNow ? null : fromDateTimeLocal(formData.publishAt),
+        unpublishAt: fromDateTimeLocal(formData.unpublishAt),
       };
 
+      let warnings: ProjectWarnings | undefined;
       if (isEditMode && projectId) {
         // Update existing project
-        const projectRef = doc(db, 'projects', projectId);
-        await updateDoc(projectRef, projectData);
+        ({ warnings } = await updateProject(projectId, projectData));
       } else {
         // Create new project
-        await addDoc(collection(db, 'projects'), {
-          ...projectData,
-          createdAt: serverTimestamp(),
-        });
+        ({ warnings } = await createProject(projectData));
       }
 
-      // Success feedback
-      alert(
-        isEditMode
-          ? 'Project updated successfully'
-          : publishNow
-          ? 'Project published successfully'
-          : 'Project saved as draft'
-      );
+      // Success feedback, with anything the API flagged but saved anyway
+      const message = isEditMode
+        ? 'Project updated successfully'
+        : publishNow
+        ? 'Project published successfully'
+        : 'Project saved as draft';
+      alert(warnings?.images ? `${message}\n\nWarning: ${warnings.images}` : message);
 
       // Call success callback or navigate
       if (onSuccess) {
@@ -403,9 +501,9 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
       } else {
         router.push('/admin/projects');
       }
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error saving project:', err);
-      setError('Failed to save project. Please try again.');
+      setError(err?.message || 'Failed to save project. Please try again.');
       setLoading(false);
     }
   };
@@ -603,7 +701,7 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
           <input
             type="file"
             id="thumbnail"
-            accept="image/*"
+            accept={UPLOAD_IMAGE_TYPES.join(',')}
             onChange={handleThumbnailUpload}
             disabled={uploadingImage}
             className="block w-full text-sm text-gray-500 dark:text-gray-400
@@ -616,6 +714,15 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
               dark:hover:file:bg-blue-900/50
               disabled:opacity-50 disabled:cursor-not-allowed"
           />
+
+          <button
+            type="button"
+            onClick={() => setPickerTarget('thumbnail')}
+            disabled={uploadingImage}
+            className="mt-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Choose from library
+          </button>
           
           {validationErrors.thumbnail && (
             <p className="mt-1 text-sm text-red-500">{validationErrors.thumbnail}</p>
@@ -632,32 +739,85 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
             Gallery Images
           </label>
           
+          {imagesWithoutAlt > 0 && (
+            <ErrorMessage
+              type="warning"
+              message={`${imagesWithoutAlt} gallery ${imagesWithoutAlt === 1 ? 'image has' : 'images have'} no alt text. Screen readers will only announce a generic description.`}
+              className="mb-3"
+            />
+          )}
+
           {formData.images.length > 0 && (
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 mb-3">
-              {formData.images.map((url, index) => (
-                <div key={index} className="relative group">
+            <ul className="space-y-3 mb-3">
+              {formData.images.map((image, index) => (
+                <li
+                  key={image.url}
+                  className="flex flex-col sm:flex-row gap-4 p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+                >
                   <img
-                    src={url}
-                    alt={`Gallery image ${index + 1}`}
-                    className="w-full h-32 object-cover rounded-lg border border-gray-300 dark:border-gray-600"
+                    src={image.url}
+                    alt={image.alt || `Gallery image ${index + 1}`}
+                    className="w-full sm:w-40 h-28 object-cover rounded-lg border border-gray-300 dark:border-gray-600"
                   />
-                  <button
-                    type="button"
-                    onClick={() => handleRemoveImage(url)}
-                    className="absolute top-2 right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-                    aria-label={`Remove image ${index + 1}`}
-                  >
-                    ×
-                  </button>
-                </div>
+                  <div className="flex-1 space-y-2">
+                    <input
+                      type="text"
+                      value={image.alt}
+                      maxLength={300}
+                      onChange={(e) => handleGalleryTextChange(image.url, 'alt', e.target.value)}
+                      placeholder="Alt text (describe the image)"
+                      aria-label={`Alt text for image ${index + 1}`}
+                      className={`w-full px-3 py-1.5 text-sm border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                        image.alt.trim() ? 'border-gray-300 dark:border-gray-600' : 'border-yellow-400 dark:border-yellow-600'
+                      }`}
+                    />
+                    <input
+                      type="text"
+                      value={image.caption}
+                      maxLength={500}
+                      onChange={(e) => handleGalleryTextChange(image.url, 'caption', e.target.value)}
+                      placeholder="Caption (optional)"
+                      aria-label={`Caption for image ${index + 1}`}
+                      className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div className="flex sm:flex-col gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleMoveImage(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label={`Move image ${index + 1} up`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMoveImage(index, 1)}
+                      disabled={index === formData.images.length - 1}
+                      className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label={`Move image ${index + 1} down`}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveImage(image.url)}
+                      className="px-2 py-1 text-sm text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded hover:bg-red-50 dark:hover:bg-red-900/20"
+                      aria-label={`Remove image ${index + 1}`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                </li>
               ))}
-            </div>
+            </ul>
           )}
           
           <input
             type="file"
             id="gallery"
-            accept="image/*"
+            accept={UPLOAD_IMAGE_TYPES.join(',')}
             multiple
             onChange={handleGalleryUpload}
             disabled={uploadingImage}
@@ -671,9 +831,18 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
               dark:hover:file:bg-blue-900/50
               disabled:opacity-50 disabled:cursor-not-allowed"
           />
+
+          <button
+            type="button"
+            onClick={() => setPickerTarget('gallery')}
+            disabled={uploadingImage}
+            className="mt-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Choose from library
+          </button>
           
           <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-            Upload multiple images for the project gallery. Max size per image: 5MB
+            Upload multiple images for the project gallery. Max size per image: 5MB. Images are shown in this order.
           </p>
         </div>
 
@@ -766,6 +935,51 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
           </label>
         </div>
 
+        {/* Publishing Schedule */}
+        <div className="grid gap-6 sm:grid-cols-2">
+          <div>
+            <label htmlFor="publishAt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Publish At
+            </label>
+            <input
+              type="datetime-local"
+              id="publishAt"
+              name="publishAt"
+              value={formData.publishAt}
+              onChange={handleInputChange}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              A draft is published automatically at this time
+            </p>
+          </div>
+          <div>
+            <label htmlFor="unpublishAt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Unpublish At
+            </label>
+            <input
+              type="datetime-local"
+              id="unpublishAt"
+              name="unpublishAt"
+              value={formData.unpublishAt}
+              onChange={handleInputChange}
+              className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-white ${
+                validationErrors.unpublishAt ? 'border-red-500' : 'border-gray-300'
+              }`}
+            />
+            {validationErrors.unpublishAt && (
+              <p className="mt-1 text-sm text-red-500">{validationErrors.unpublishAt}</p>
+            )}
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              A published project is hidden automatically at this time
+            </p>
+          </div>
+          <p className="sm:col-span-2 -mt-4 text-sm text-gray-500 dark:text-gray-400">
+            Times are in your time zone ({Intl.DateTimeFormat().resolvedOptions().timeZone}) and
+            are applied within a few minutes. Leave a field empty for no schedule.
+          </p>
+        </div>
+
         {/* Form Actions */}
         <div className="flex flex-col sm:flex-row gap-3 pt-6 border-t border-gray-200 dark:border-gray-700">
           <button
@@ -809,6 +1023,14 @@ export default function ProjectForm({ projectId, onSuccess, onCancel }: ProjectF
           </button>
         </div>
       </form>
+
+      {pickerTarget && (
+        <MediaPicker
+          title={pickerTarget === 'thumbnail' ? 'Choose Thumbnail' : 'Add Gallery Image'}
+          onSelect={handlePickMedia}
+          onClose={() => setPickerTarget(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,279 @@
+/**
+ * ProjectHistory Component
+ *
+ * Revision history panel for the admin edit page. Lists every recorded
+ * change to a project and shows the selected revision as a side-by-side
+ * before/after diff of the fields it changed.
+ *
+ * Features:
+ * - Revisions newest first with action, author and time
+ * - Side-by-side diff of the changed fields
+ * - Restore any revision, including bringing a project back from the trash
+ * - Loading, error and empty states
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchProjectRevisions, restoreProjectRevision } from '@/lib/adminApi';
+import type { ProjectRevision, ProjectRevisionAction } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+interface ProjectHistoryProps {
+  projectId: string;
+  onRestored?: () => void; // Called after a revision is restored
+}
+
+/**
+ * Badge label and colours for each kind of revision
+ */
+const ACTION_STYLES: Record<ProjectRevisionAction, { label: string; className: string }> = {
+  create: {
+    label: 'Created',
+    className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400',
+  },
+  update: {
+    label: 'Updated',
+    className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-400',
+  },
+  delete: {
+    label: 'Deleted',
+    className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-400',
+  },
+  restore: {
+    label: 'Restored',
+    className: 'bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-400',
+  },
+};
+
+/**
+ * Formats a field value from a revision for display
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(item => formatValue(item)).join('\n') : '—';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, null, 2);
+  }
+  return String(value);
+}
+
+/**
+ * Names who made a revision; the publish scheduler records the uid "scheduler"
+ */
+function formatActor(actor: ProjectRevision['actor']): string {
+  if (actor.uid === 'scheduler') {
+    return 'the publish schedule';
+  }
+  return actor.email || actor.uid || 'unknown user';
+}
+
+/**
+ * Formats a revision timestamp for display
+ */
+function formatDateTime(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(date);
+}
+
+export default function ProjectHistory({ projectId, onRestored }: ProjectHistoryProps) {
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  /**
+   * Loads the revision history and selects the newest revision
+   */
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchProjectRevisions(projectId);
+      setRevisions(data);
+      setSelectedId(data[0]?.id ?? null);
+    } catch (err: any) {
+      console.error('Error loading revisions:', err);
+      setError(err?.message || 'Failed to load revision history.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  /**
+   * Restores the project to a revision after confirmation
+   */
+  const handleRestore = async (revision: ProjectRevision) => {
+    const confirmed = window.confirm(
+      `Restore the version from ${formatDateTime(revision.createdAt)}? ` +
+        'The current version stays in the history.'
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      setRestoringId(revision.id);
+      const message = await restoreProjectRevision(projectId, revision.id);
+      alert(message);
+      await loadRevisions();
+      onRestored?.();
+    } catch (err: any) {
+      console.error('Error restoring revision:', err);
+      alert(err?.message || 'Failed to restore revision. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} />;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No revisions recorded yet. Changes saved from now on will appear here.
+      </p>
+    );
+  }
+
+  const isDeleted = revisions[0].action === 'delete';
+  const selected = revisions.find(revision => revision.id === selectedId) ?? revisions[0];
+  const changedFields = Object.entries(selected.changes);
+
+  return (
+    <div className="space-y-4">
+      {isDeleted && (
+        <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-800 dark:text-red-300">
+          This project is in the trash. Restore it from the Trash page or restore one of its revisions to bring it back.
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Revision List */}
+        <ul className="space-y-2 lg:max-h-[32rem] lg:overflow-y-auto">
+          {revisions.map(revision => {
+            const style = ACTION_STYLES[revision.action] ?? ACTION_STYLES.update;
+            const fieldCount = Object.keys(revision.changes).length;
+
+            return (
+              <li key={revision.id}>
+                <button
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    revision.id === selected.id
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${style.className}`}>
+                      {style.label}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDateTime(revision.createdAt)}
+                    </span>
+                  </div>
+                  <div className="mt-2 text-sm text-gray-700 dark:text-gray-300 truncate">
+                    By {formatActor(revision.actor)}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {fieldCount} {fieldCount === 1 ? 'field' : 'fields'} changed
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        {/* Selected Revision Diff */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {(ACTION_STYLES[selected.action] ?? ACTION_STYLES.update).label} by{' '}
+              {formatActor(selected.actor)}
+            </h3>
+            {selected.snapshot && (
+              <button
+                onClick={() => handleRestore(selected)}
+                disabled={restoringId !== null}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {restoringId === selected.id
+                  ? 'Restoring...'
+                  : selected.action === 'delete'
+                  ? 'Undelete'
+                  : 'Restore this version'}
+              </button>
+            )}
+          </div>
+
+          {changedFields.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No field changes recorded for this revision.
+            </p>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-32">
+                      Field
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Before
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      After
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {changedFields.map(([field, change]) => (
+                    <tr key={field} className="align-top">
+                      <td className="px-4 py-2 font-mono text-gray-700 dark:text-gray-300">{field}</td>
+                      <td className="px-4 py-2 whitespace-pre-wrap break-words bg-red-50 dark:bg-red-900/10 text-red-800 dark:text-red-300">
+                        {formatValue(change.before)}
+                      </td>
+                      <td className="px-4 py-2 whitespace-pre-wrap break-words bg-green-50 dark:bg-green-900/10 text-green-800 dark:text-green-300">
+                        {formatValue(change.after)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * ProjectImage Component
+ *
+ * Renders a project thumbnail or gallery image with next/image, filling its
+ * container with object-cover. While the image loads, the container shows
+ * the image's dominant colour and a blurred placeholder when the project has
+ * metadata for it (see lib/images.ts).
+ *
+ * Props:
+ * - src: Image URL
+ * - alt: Alternative text
+ * - sizes: Rendered widths for the srcset (e.g. '(min-width: 768px) 50vw, 100vw')
+ * - metadata: Stored metadata for the image (optional)
+ * - className: Classes for the container, which must give it a size
+ * - keepAspectRatio: Size the container to the image's own aspect ratio when
+ *   the metadata is known, overriding any aspect-* class (optional, default: false)
+ * - priority: Load eagerly, for images above the fold (optional, default: false)
+ *
+ * Dependencies:
+ * - next/image for responsive, optimized images
+ * - lib/images for optimizer support
+ */
+
+import Image from 'next/image';
+import { isOptimizableImage } from '@/lib/images';
+import type { ImageMetadata } from '@/types';
+
+interface ProjectImageProps {
+  src: string;
+  alt: string;
+  sizes: string;
+  metadata?: ImageMetadata;
+  className?: string;
+  keepAspectRatio?: boolean;
+  priority?: boolean;
+}
+
+export default function ProjectImage({
+  src,
+  alt,
+  sizes,
+  metadata,
+  className = '',
+  keepAspectRatio = false,
+  priority = false,
+}: ProjectImageProps) {
+  return (
+    <div
+      className={`relative overflow-hidden bg-gray-200 dark:bg-gray-700 ${className}`}
+      style={{
+        backgroundColor: metadata?.color,
+        aspectRatio: keepAspectRatio && metadata ? `${metadata.width} / ${metadata.height}` : undefined,
+      }}
+    >
+      <Image
+        src={src}
+        alt={alt}
+        fill
+        sizes={sizes}
+        priority={priority}
+        unoptimized={!isOptimizableImage(src)}
+        placeholder={metadata ? 'blur' : 'empty'}
+        blurDataURL={metadata?.placeholder}
+        className="object-cover"
+      />
+    </div>
+  );
+}
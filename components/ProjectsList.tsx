@@ -6,9 +6,17 @@
  * 
  * Key features:
  * - Fetches all projects from Firestore (including unpublished drafts)
- * - Displays projects in a table with status indicators
+ * - Displays projects in a table with status indicators, including
+ *   upcoming scheduled publish/unpublish times
  * - Edit button for each project (navigates to edit page)
- * - Delete button with confirmation dialog
+ * - Preview button for drafts that copies a signed, expiring link to the
+ *   project's public page
+ * - Delete button with confirmation dialog (deleted projects move to the
+ *   trash, where they can be restored)
+ * - Reorder mode with drag-and-drop (and move buttons for keyboard users)
+ *   that saves the new positions through the batch reorder endpoint
+ * - Create, edit, preview, delete and reorder actions only for editors and
+ *   owners; viewers get a read-only list
  * - Loading and error states
  * - Empty state when no projects exist
  * 
@@ -19,8 +27,11 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { collection, query, orderBy, getDocs, doc, deleteDoc } from 'firebase/firestore';
+import { collection, query, where, orderBy, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { useAdminRole } from '@/lib/hooks/useAdminRole';
+import { createPreviewLink, deleteProject, reorderProjects, TRASH_RETENTION_DAYS } from '@/lib/adminApi';
+import { normalizeGalleryImages } from '@/lib/images';
 import type { Project } from '@/types';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
@@ -41,24 +52,28 @@ function convertTimestamp(timestamp: any): Date {
 
 /**
  * Fetches all projects from Firestore (including unpublished drafts)
- * Unlike the public fetchAllProjects, this does not filter by published status
+ * Unlike the public fetchAllProjects, this does not filter by published status.
+ * Projects in the trash are left out; they are listed on the Trash page.
+ * Projects are listed in display order, newest first within the same position.
  */
 async function fetchAllProjectsAdmin(): Promise<Project[]> {
   try {
     const projectsRef = collection(db, 'projects');
-    const q = query(projectsRef, orderBy('createdAt', 'desc'));
+    const q = query(projectsRef, where('deletedAt', '==', null), orderBy('createdAt', 'desc'));
     
     const querySnapshot = await getDocs(q);
     
-    return querySnapshot.docs.map((doc) => {
+    const projects = querySnapshot.docs.map((doc) => {
       const data = doc.data();
       return {
         id: doc.id,
         title: data.title,
+        slug: data.slug || doc.id,
         description: data.description,
         fullDescription: data.fullDescription,
         thumbnail: data.thumbnail,
-        images: data.images || [],
+        images: normalizeGalleryImages(data.images),
+        imageMetadata: data.imageMetadata || [],
         technologies: data.technologies || [],
         category: data.category,
         liveUrl: data.liveUrl,
@@ -66,10 +81,16 @@ async function fetchAllProjectsAdmin(): Promise<Project[]> {
         featured: data.featured || false,
         published: data.published,
         order: data.order || 0,
+        publishAt: data.publishAt ? convertTimestamp(data.publishAt) : null,
+        unpublishAt: data.unpublishAt ? convertTimestamp(data.unpublishAt) : null,
         createdAt: convertTimestamp(data.createdAt),
         updatedAt: convertTimestamp(data.updatedAt),
       } as Project;
     });
+
+    // Sorted here rather than in the query so the createdAt order breaks ties
+    // without needing another composite index (Array.prototype.sort is stable)
+    return projects.sort((a, b) => a.order - b.order);
   } catch (error: any) {
     console.error('Firestore query error:', error);
     throw new Error(`Failed to fetch projects: ${error.message}`);
@@ -77,19 +98,27 @@ async function fetchAllProjectsAdmin(): Promise<Project[]> {
 }
 
 /**
- * Deletes a project from Firestore
+ * Returns a copy of the list with the item at `from` moved to `to`
  */
-async function deleteProjectFromFirestore(projectId: string): Promise<void> {
-  const projectRef = doc(db, 'projects', projectId);
-  await deleteDoc(projectRef);
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
 }
 
 export default function ProjectsList() {
   const router = useRouter();
+  const canEdit = useAdminRole().can('editor');
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const [reordering, setReordering] = useState(false);
+  const [draftOrder, setDraftOrder] = useState<Project[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [savingOrder, setSavingOrder] = useState(false);
 
   /**
    * Fetches projects on component mount
@@ -127,7 +156,7 @@ export default function ProjectsList() {
    */
   const handleDelete = async (projectId: string, projectTitle: string) => {
     const confirmed = window.confirm(
-      `Are you sure you want to delete "${projectTitle}"? This action cannot be undone.`
+      `Move "${projectTitle}" to the trash? You can restore it from the Trash page for ${TRASH_RETENTION_DAYS} days.`
     );
 
     if (!confirmed) {
@@ -136,21 +165,106 @@ export default function ProjectsList() {
 
     try {
       setDeletingId(projectId);
-      await deleteProjectFromFirestore(projectId);
+      await deleteProject(projectId);
       
       // Remove project from local state
       setProjects(projects.filter(p => p.id !== projectId));
       
       // Show success message
-      alert('Project deleted successfully');
-    } catch (err) {
+      alert('Project moved to trash');
+    } catch (err: any) {
       console.error('Error deleting project:', err);
-      alert('Failed to delete project. Please try again.');
+      alert(err?.message || 'Failed to delete project. Please try again.');
     } finally {
       setDeletingId(null);
     }
   };
 
+  /**
+   * Enters reorder mode with a working copy of the current order
+   */
+  const startReordering = () => {
+    setDraftOrder(projects);
+    setReordering(true);
+  };
+
+  /**
+   * Leaves reorder mode without saving
+   */
+  const cancelReordering = () => {
+    setReordering(false);
+    setDraftOrder([]);
+    setDraggedId(null);
+  };
+
+  /**
+   * Moves a project up (-1) or down (+1) in the working order
+   */
+  const moveProject = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draftOrder.length) return;
+    setDraftOrder(moveItem(draftOrder, index, target));
+  };
+
+  /**
+   * While dragging, moves the dragged project to the row under the cursor
+   */
+  const handleDragOver = (event: React.DragEvent, overId: string) => {
+    event.preventDefault();
+    if (!draggedId || draggedId === overId) return;
+
+    const from = draftOrder.findIndex(p => p.id === draggedId);
+    const to = draftOrder.findIndex(p => p.id === overId);
+    if (from === -1 || to === -1) return;
+
+    setDraftOrder(moveItem(draftOrder, from, to));
+  };
+
+  /**
+   * Saves the working order through the batch reorder endpoint
+   */
+  const saveOrder = async () => {
+    try {
+      setSavingOrder(true);
+      await reorderProjects(draftOrder.map(p => p.id));
+
+      setProjects(draftOrder.map((project, index) => ({ ...project, order: index })));
+      setReordering(false);
+      setDraftOrder([]);
+      alert('Project order saved');
+    } catch (err: any) {
+      console.error('Error saving project order:', err);
+      alert(err?.message || 'Failed to save project order. Please try again.');
+    } finally {
+      setSavingOrder(false);
+    }
+  };
+
+  /**
+   * Creates a preview link for a draft and copies it to the clipboard
+   * Falls back to a prompt with the link when clipboard access is denied.
+   */
+  const handlePreview = async (projectId: string) => {
+    try {
+      setPreviewingId(projectId);
+      const link = await createPreviewLink(projectId);
+      const url = `${window.location.origin}${link.url}`;
+      const expires = link.expiresAt.toLocaleString();
+
+      try {
+        await navigator.clipboard.writeText(url);
+        alert(`Preview link copied to the clipboard. It expires ${expires}.`);
+      } catch {
+        window.prompt(`Preview link (expires ${expires}):`, url);
+      }
+    } catch (err: any) {
+      console.error('Error creating preview link:', err);
+      alert(err?.message || 'Failed to create preview link. Please try again.');
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
   /**
    * Navigates to edit page for a project
    */
@@ -202,31 +316,70 @@ export default function ProjectsList() {
           No Projects Yet
         </h3>
         <p className="text-gray-600 dark:text-gray-400 mb-6">
-          Get started by creating your first project.
+          {canEdit ? 'Get started by creating your first project.' : 'Projects will appear here once an editor creates them.'}
         </p>
-        <button
-          onClick={() => router.push('/admin/projects/new')}
-          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-        >
-          Create Project
-        </button>
+        {canEdit && (
+          <button
+            onClick={() => router.push('/admin/projects/new')}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            Create Project
+          </button>
+        )}
       </div>
     );
   }
 
+  const visibleProjects = reordering ? draftOrder : projects;
+
   // Projects list
   return (
     <div className="space-y-4">
-      {/* Create New Project Button */}
-      <div className="flex justify-end mb-4">
-        <button
-          onClick={() => router.push('/admin/projects/new')}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center"
-        >
-          <span className="mr-2">➕</span>
-          Create New Project
-        </button>
-      </div>
+      {/* Toolbar */}
+      {canEdit && (
+        <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+          {reordering ? (
+            <>
+              <p className="mr-auto text-sm text-gray-600 dark:text-gray-400">
+                Drag projects to change the order they appear on the site.
+              </p>
+              <button
+                onClick={cancelReordering}
+                disabled={savingOrder}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveOrder}
+                disabled={savingOrder}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {savingOrder ? 'Saving...' : 'Save Order'}
+              </button>
+            </>
+          ) : (
+            <>
+              {projects.length > 1 && (
+                <button
+                  onClick={startReordering}
+                  className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors font-medium flex items-center"
+                >
+                  <span className="mr-2">↕</span>
+                  Reorder
+                </button>
+              )}
+              <button
+                onClick={() => router.push('/admin/projects/new')}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center"
+              >
+                <span className="mr-2">➕</span>
+                Create New Project
+              </button>
+            </>
+          )}
+        </div>
+      )}
 
       {/* Projects Table */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden border border-gray-200 dark:border-gray-700">
@@ -234,6 +387,11 @@ export default function ProjectsList() {
           <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
             <thead className="bg-gray-50 dark:bg-gray-900">
               <tr>
+                {reordering && (
+                  <th className="w-10 px-3 py-3">
+                    <span className="sr-only">Drag handle</span>
+                  </th>
+                )}
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Project
                 </th>
@@ -246,14 +404,32 @@ export default function ProjectsList() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Updated
                 </th>
-                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                  Actions
-                </th>
+                {canEdit && (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
               </tr>
             </thead>
             <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-              {projects.map((project) => (
-                <tr key={project.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+              {visibleProjects.map((project, index) => (
+                <tr
+                  key={project.id}
+                  draggable={reordering}
+                  onDragStart={reordering ? () => setDraggedId(project.id) : undefined}
+                  onDragOver={reordering ? (event) => handleDragOver(event, project.id) : undefined}
+                  onDragEnd={reordering ? () => setDraggedId(null) : undefined}
+                  className={`hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors ${
+                    reordering ? 'cursor-move' : ''
+                  } ${draggedId === project.id ? 'opacity-50' : ''}`}
+                >
+                  {/* Drag Handle */}
+                  {reordering && (
+                    <td className="px-3 py-4 text-gray-400 dark:text-gray-500 select-none" aria-hidden="true">
+                      ⋮⋮
+                    </td>
+                  )}
+
                   {/* Project Info */}
                   <td className="px-6 py-4">
                     <div className="flex items-center">
@@ -299,6 +475,16 @@ export default function ProjectsList() {
                           ⭐ Featured
                         </span>
                       )}
+                      {!project.published && project.publishAt && (
+                        <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-400">
+                          🕒 Publishes {formatDate(project.publishAt)}
+                        </span>
+                      )}
+                      {project.published && project.unpublishAt && (
+                        <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-400">
+                          🕒 Unpublishes {formatDate(project.unpublishAt)}
+                        </span>
+                      )}
                     </div>
                   </td>
 
@@ -308,28 +494,64 @@ export default function ProjectsList() {
                   </td>
 
                   {/* Actions */}
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <div className="flex justify-end gap-2">
-                      {/* Edit Button */}
-                      <button
-                        onClick={() => handleEdit(project.id)}
-                        className="px-3 py-1.5 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors font-medium"
-                        aria-label={`Edit ${project.title}`}
-                      >
-                        Edit
-                      </button>
-
-                      {/* Delete Button */}
-                      <button
-                        onClick={() => handleDelete(project.id, project.title)}
-                        disabled={deletingId === project.id}
-                        className="px-3 py-1.5 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-                        aria-label={`Delete ${project.title}`}
-                      >
-                        {deletingId === project.id ? 'Deleting...' : 'Delete'}
-                      </button>
-                    </div>
-                  </td>
+                  {canEdit && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {reordering ? (
+                        <div className="flex justify-end gap-2">
+                          {/* Move buttons for keyboard users */}
+                          <button
+                            onClick={() => moveProject(index, -1)}
+                            disabled={index === 0 || savingOrder}
+                            className="px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            aria-label={`Move ${project.title} up`}
+                          >
+                            ↑
+                          </button>
+                          <button
+                            onClick={() => moveProject(index, 1)}
+                            disabled={index === visibleProjects.length - 1 || savingOrder}
+                            className="px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            aria-label={`Move ${project.title} down`}
+                          >
+                            ↓
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex justify-end gap-2">
+                          {/* Edit Button */}
+                          <button
+                            onClick={() => handleEdit(project.id)}
+                            className="px-3 py-1.5 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors font-medium"
+                            aria-label={`Edit ${project.title}`}
+                          >
+                            Edit
+                          </button>
+
+                          {/* Preview Button - drafts only */}
+                          {!project.published && (
+                            <button
+                              onClick={() => handlePreview(project.id)}
+                              disabled={previewingId === project.id}
+                              className="px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                              aria-label={`Copy preview link for ${project.title}`}
+                            >
+                              {previewingId === project.id ? 'Creating...' : 'Preview'}
+                            </button>
+                          )}
+
+                          {/* Delete Button */}
+                          <button
+                            onClick={() => handleDelete(project.id, project.title)}
+                            disabled={deletingId === project.id}
+                            className="px-3 py-1.5 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                            aria-label={`Delete ${project.title}`}
+                          >
+                            {deletingId === project.id ? 'Deleting...' : 'Delete'}
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  )}
                 </tr>
               ))}
             </tbody>
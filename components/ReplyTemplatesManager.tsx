@@ -0,0 +1,260 @@
+/**
+ * ReplyTemplatesManager Component
+ *
+ * Lists the saved reply templates offered when replying to an inquiry, with
+ * a form to create and edit them.
+ *
+ * Key features:
+ * - Fetches templates from the admin reply templates API
+ * - Create, edit and delete (with confirmation) for editors and owners
+ * - Explains the {{name}} and {{subject}} placeholders
+ * - Loading, empty and error states
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  createReplyTemplate,
+  deleteReplyTemplate,
+  fetchReplyTemplates,
+  updateReplyTemplate,
+} from '@/lib/adminApi';
+import { useAdminRole } from '@/lib/hooks/useAdminRole';
+import type { ReplyTemplate, ReplyTemplateInput } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+const EMPTY_TEMPLATE: ReplyTemplateInput = { name: '', subject: '', body: '' };
+
+export default function ReplyTemplatesManager() {
+  const canEdit = useAdminRole().can('editor');
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // null when the form is closed, 'new' when creating, otherwise the template ID
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ReplyTemplateInput>(EMPTY_TEMPLATE);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setTemplates(await fetchReplyTemplates());
+      } catch (err: any) {
+        console.error('Error loading reply templates:', err);
+        setError(err?.message || 'Failed to load reply templates. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, []);
+
+  /**
+   * Opens the form for a new template or an existing one
+   */
+  const openForm = (template?: ReplyTemplate) => {
+    setEditingId(template ? template.id : 'new');
+    setDraft(template ? { name: template.name, subject: template.subject, body: template.body } : EMPTY_TEMPLATE);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_TEMPLATE);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!draft.name.trim() || !draft.body.trim()) {
+      alert('Please enter a name and a message.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (editingId === 'new') {
+        const created = await createReplyTemplate(draft);
+        setTemplates(current => [...current, created].sort((a, b) => a.name.localeCompare(b.name)));
+      } else if (editingId) {
+        const updated = await updateReplyTemplate(editingId, draft);
+        setTemplates(current =>
+          current.map(template => (template.id === updated.id ? updated : template))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      }
+      closeForm();
+    } catch (err: any) {
+      console.error('Error saving reply template:', err);
+      alert(err?.message || 'Failed to save reply template. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ReplyTemplate) => {
+    if (!window.confirm(`Delete the reply template "${template.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await deleteReplyTemplate(template.id);
+      setTemplates(current => current.filter(item => item.id !== template.id));
+      if (editingId === template.id) {
+        closeForm();
+      }
+    } catch (err: any) {
+      console.error('Error deleting reply template:', err);
+      alert(err?.message || 'Failed to delete reply template. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {canEdit && editingId === null && (
+        <button
+          onClick={() => openForm()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        >
+          + New Template
+        </button>
+      )}
+
+      {/* Template form */}
+      {editingId !== null && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700 space-y-4"
+        >
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {editingId === 'new' ? 'New Template' : 'Edit Template'}
+          </h2>
+          <div>
+            <label htmlFor="template-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Name *
+            </label>
+            <input
+              id="template-name"
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              maxLength={100}
+              placeholder="e.g. Not available right now"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+          <div>
+            <label htmlFor="template-subject" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Subject
+            </label>
+            <input
+              id="template-subject"
+              type="text"
+              value={draft.subject}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              maxLength={200}
+              placeholder='Leave empty to use "Re: {{subject}}"'
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+          <div>
+            <label htmlFor="template-body" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Message *
+            </label>
+            <textarea
+              id="template-body"
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={8}
+              maxLength={10000}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {'{{name}}'} and {'{{subject}}'} are replaced with the sender&apos;s name and the inquiry subject.
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+            <button
+              type="button"
+              onClick={closeForm}
+              disabled={saving}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors font-medium disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Template list */}
+      {templates.length === 0 ? (
+        <p className="py-8 text-center text-gray-600 dark:text-gray-400">
+          No saved replies yet.
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {templates.map(template => (
+            <li
+              key={template.id}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                <div>
+                  <h3 className="font-semibold text-gray-900 dark:text-white">{template.name}</h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Subject: {template.subject || 'Re: {{subject}}'}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => openForm(template)}
+                      disabled={saving}
+                      className="px-3 py-1.5 text-sm bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors font-medium disabled:opacity-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template)}
+                      disabled={saving}
+                      className="px-3 py-1.5 text-sm bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors font-medium disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+              <p className="mt-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{template.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+/**
+ * StorageCleanupPreview Component
+ *
+ * Shows, on the admin Media page, what the daily Storage cleanup would do if
+ * it ran now: temp images it would move under the project using them and
+ * unused uploads it would delete. Nothing is changed; the report is a dry
+ * run of the `cleanUpStorage` scheduled function. Rendered for owners only.
+ *
+ * Key features:
+ * - Loads the report on demand
+ * - Planned moves with the projects using each image
+ * - Planned deletions with file count, size and last change
+ * - Loading and error states
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { fetchStorageCleanupReport } from '@/lib/adminApi';
+import { useAdminRole } from '@/lib/hooks/useAdminRole';
+import type { StorageCleanupReport } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+/**
+ * Formats a date-time for display
+ */
+function formatDateTime(value: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(value));
+}
+
+/**
+ * Formats a byte count for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function StorageCleanupPreview() {
+  const { can } = useAdminRole();
+  const [report, setReport] = useState<StorageCleanupReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Loads the dry-run report
+   */
+  const handlePreview = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setReport(await fetchStorageCleanupReport());
+    } catch (err: any) {
+      console.error('Error loading cleanup report:', err);
+      setError(err?.message || 'Failed to load the cleanup report. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!can('owner')) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Storage Cleanup</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Runs daily: moves temp images into their project folder and deletes uploads nothing has used for 24 hours.
+            Unused images in this library are kept until you delete them.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={loading}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+        >
+          {report ? 'Refresh Preview' : 'Preview Cleanup'}
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {error && <ErrorMessage message={error} />}
+
+      {report && !loading && (
+        <div className="space-y-4 text-sm text-gray-700 dark:text-gray-300">
+          <p>
+            {report.uploads} {report.uploads === 1 ? 'upload' : 'uploads'} in Storage. A run now would move{' '}
+            {report.moves.length + report.remaining.moves} and delete{' '}
+            {report.deletions.length + report.remaining.deletions} (unused since before {formatDateTime(report.cutoff)}).
+            {(report.remaining.moves > 0 || report.remaining.deletions > 0) && ' Some are left for later runs.'}
+          </p>
+
+          {report.moves.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">Moves</h3>
+              <ul className="space-y-1">
+                {report.moves.map(move => (
+                  <li key={move.from} className="break-all">
+                    <code>{move.from}</code> → <code>{move.to}</code>{' '}
+                    <span className="text-gray-500 dark:text-gray-400">
+                      ({move.files} {move.files === 1 ? 'file' : 'files'}, used by {move.projects.join(', ')})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.deletions.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">Deletions</h3>
+              <ul className="space-y-1">
+                {report.deletions.map(deletion => (
+                  <li key={deletion.path} className="break-all">
+                    <code>{deletion.path}</code>{' '}
+                    <span className="text-gray-500 dark:text-gray-400">
+                      ({deletion.files} {deletion.files === 1 ? 'file' : 'files'}, {formatSize(deletion.size)}, last
+                      changed {formatDateTime(deletion.updatedAt)})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.moves.length === 0 && report.deletions.length === 0 && (
+            <p className="text-gray-500 dark:text-gray-400">Nothing to clean up.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+/**
+ * TrashList Component
+ *
+ * Lists deleted projects and inquiries on the admin Trash page. Items stay
+ * in the trash until restored, deleted forever from here, or removed by the
+ * scheduled purge after TRASH_RETENTION_DAYS.
+ *
+ * Key features:
+ * - Trashed projects and inquiries, most recently deleted first
+ * - Who deleted each item, when, and when it will be purged
+ * - Restore button that puts the item back where it was (editors and owners)
+ * - Delete Forever button with confirmation dialog (owner only)
+ * - Loading, error and empty states
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  fetchTrash,
+  restoreFromTrash,
+  purgeFromTrash,
+  TRASH_RETENTION_DAYS,
+} from '@/lib/adminApi';
+import { useAdminRole } from '@/lib/hooks/useAdminRole';
+import type { TrashContents, TrashEntry, TrashItemType } from '@/types';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+/**
+ * Row shown in one of the trash tables
+ */
+interface TrashRow {
+  entry: TrashEntry;
+  title: string;
+  subtitle: string;
+}
+
+/**
+ * Formats date for display
+ */
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  }).format(date);
+}
+
+export default function TrashList() {
+  const { can } = useAdminRole();
+  const [trash, setTrash] = useState<TrashContents>({ projects: [], inquiries: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  /**
+   * Loads the trashed projects and inquiries
+   */
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setTrash(await fetchTrash());
+    } catch (err: any) {
+      console.error('Error loading trash:', err);
+      setError(err?.message || 'Failed to load trash. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  /**
+   * Drops an item from local state once it has left the trash
+   */
+  const removeFromList = (type: TrashItemType, id: string) => {
+    setTrash(current => ({
+      projects: type === 'projects' ? current.projects.filter(item => item.id !== id) : current.projects,
+      inquiries: type === 'inquiries' ? current.inquiries.filter(item => item.id !== id) : current.inquiries,
+    }));
+  };
+
+  /**
+   * Restores an item from the trash
+   */
+  const handleRestore = async (type: TrashItemType, id: string) => {
+    try {
+      setBusyId(id);
+      await restoreFromTrash(type, id);
+      removeFromList(type, id);
+    } catch (err: any) {
+      console.error('Error restoring item:', err);
+      alert(err?.message || 'Failed to restore item. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  /**
+   * Permanently deletes an item after confirmation
+   */
+  const handlePurge = async (type: TrashItemType, id: string, title: string) => {
+    const confirmed = window.confirm(
+      `Permanently delete "${title}"?` +
+        (type === 'projects' ? ' Its revision history is deleted too.' : '') +
+        ' This action cannot be undone.'
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      setBusyId(id);
+      await purgeFromTrash(type, id);
+      removeFromList(type, id);
+    } catch (err: any) {
+      console.error('Error deleting item:', err);
+      alert(err?.message || 'Failed to delete item. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="py-8">
+        <ErrorMessage message={error} />
+        <button
+          onClick={loadTrash}
+          className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  if (trash.projects.length === 0 && trash.inquiries.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center border border-gray-200 dark:border-gray-700">
+        <div className="text-6xl mb-4">🗑️</div>
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+          Trash is Empty
+        </h3>
+        <p className="text-gray-600 dark:text-gray-400">
+          Deleted projects and inquiries stay here for {TRASH_RETENTION_DAYS} days.
+        </p>
+      </div>
+    );
+  }
+
+  /**
+   * Renders one table of trashed items
+   */
+  const renderSection = (type: TrashItemType, heading: string, rows: TrashRow[]) => (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden border border-gray-200 dark:border-gray-700">
+      <h2 className="px-6 py-4 text-lg font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700">
+        {heading} ({rows.length})
+      </h2>
+      {rows.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+          No {heading.toLowerCase()} in the trash.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Item
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Deleted
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Purged On
+                </th>
+                {can('editor') && (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {rows.map(({ entry, title, subtitle }) => (
+                <tr key={entry.id}>
+                  {/* Title */}
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">{title}</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">{subtitle}</div>
+                  </td>
+
+                  {/* Deleted Date and Author */}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {formatDate(entry.deletedAt)}
+                    {entry.deletedBy && <div className="text-xs">by {entry.deletedBy}</div>}
+                  </td>
+
+                  {/* Scheduled Purge Date */}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {formatDate(entry.purgeAt)}
+                  </td>
+
+                  {/* Actions */}
+                  {can('editor') && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleRestore(type, entry.id)}
+                          disabled={busyId === entry.id}
+                          className="px-3 py-1.5 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Restore
+                        </button>
+                        {can('owner') && (
+                          <button
+                            onClick={() => handlePurge(type, entry.id, title)}
+                            disabled={busyId === entry.id}
+                            className="px-3 py-1.5 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Delete Forever
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      {renderSection(
+        'projects',
+        'Projects',
+        trash.projects.map(project => ({
+          entry: project,
+          title: project.title,
+          subtitle: `/projects/${project.slug}`,
+        }))
+      )}
+      {renderSection(
+        'inquiries',
+        'Inquiries',
+        trash.inquiries.map(inquiry => ({
+          entry: inquiry,
+          title: inquiry.subject,
+          subtitle: `${inquiry.name} <${inquiry.email}>`,
+        }))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * ProjectForm Upload Tests
+ *
+ * Verifies that project images are uploaded through the admin API client
+ * (lib/adminApi.ts) rather than written to Firebase Storage by the browser,
+ * which storage.rules deny, and that the uploaded URLs are saved with the project.
+ */
+
+import '@testing-library/jest-dom';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { getDoc } from 'firebase/firestore';
+import { uploadBytes } from 'firebase/storage';
+import { updateProject, uploadImage } from '@/lib/adminApi';
+import ProjectForm from '../ProjectForm';
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: jest.fn() }),
+}));
+
+jest.mock('@/lib/firebase', () => ({ db: {} }));
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn(() => ({})),
+  getDoc: jest.fn(),
+}));
+
+// Direct Storage writes would be denied by storage.rules; the form must not make any
+jest.mock('firebase/storage', () => ({
+  ref: jest.fn(),
+  uploadBytes: jest.fn(),
+  getDownloadURL: jest.fn(),
+}));
+
+jest.mock('@/lib/adminApi', () => ({
+  UPLOAD_IMAGE_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
+  createProject: jest.fn(),
+  updateProject: jest.fn(async () => ({})),
+  uploadImage: jest.fn(),
+}));
+
+jest.mock('../MediaPicker', () => () => null);
+
+/**
+ * Upload endpoint response for a file
+ */
+function uploaded(name: string) {
+  return {
+    id: `media-${name}`,
+    url: `https://storage.googleapis.com/test-bucket/projects/1-${name}/full.webp`,
+    width: 1200,
+    height: 800,
+    color: '#336699',
+    placeholder: 'data:image/webp;base64,UklGRg==',
+  };
+}
+
+describe('ProjectForm - Image Uploads', () => {
+  let alert: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    alert = jest.spyOn(window, 'alert').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    alert.mockRestore();
+  });
+
+  it('uploads the thumbnail of a new project to the temp folder through the admin API', async () => {
+    (uploadImage as jest.Mock).mockResolvedValue(uploaded('cover'));
+    const file = new File(['image'], 'cover.png', { type: 'image/png' });
+
+    const { container } = render(<ProjectForm />);
+    fireEvent.change(container.querySelector('#thumbnail') as HTMLInputElement, { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(screen.getByAltText('Thumbnail preview')).toHaveAttribute('src', uploaded('cover').url);
+    });
+    expect(uploadImage).toHaveBeenCalledWith(file, 'temp');
+    expect(uploadBytes).not.toHaveBeenCalled();
+  });
+
+  it('uploads gallery images of a saved project and saves their URLs and metadata', async () => {
+    (getDoc as jest.Mock).mockResolvedValue({
+      exists: () => true,
+      data: () => ({
+        title: 'Project One',
+        description: 'Short description',
+        fullDescription: 'Full description',
+        thumbnail: 'https://example.com/thumb.png',
+        technologies: ['TypeScript'],
+        category: 'Web',
+      }),
+    });
+    (uploadImage as jest.Mock).mockResolvedValue(uploaded('screen'));
+    const file = new File(['image'], 'screen.png', { type: 'image/png' });
+
+    const { container } = render(<ProjectForm projectId="project-1" />);
+    await waitFor(() => expect(container.querySelector('#gallery')).toBeInTheDocument());
+    fireEvent.change(container.querySelector('#gallery') as HTMLInputElement, { target: { files: [file] } });
+    await waitFor(() => expect(screen.getByLabelText('Alt text for image 1')).toBeInTheDocument());
+
+    fireEvent.click(screen.getByText('Save as Draft'));
+
+    await waitFor(() => expect(updateProject).toHaveBeenCalled());
+    expect(uploadImage).toHaveBeenCalledWith(file, 'projects');
+    expect(uploadBytes).not.toHaveBeenCalled();
+    expect(updateProject).toHaveBeenCalledWith(
+      'project-1',
+      expect.objectContaining({
+        images: [{ url: uploaded('screen').url, alt: '', caption: '', order: 0 }],
+        imageMetadata: [expect.objectContaining({ url: uploaded('screen').url, width: 1200, height: 800 })],
+      })
+    );
+  });
+});
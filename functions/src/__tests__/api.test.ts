@@ -1,74 +1,153 @@
 /**
- * API Endpoints Integration Tests
- * 
- * Tests the Firebase Functions API endpoints to ensure they:
- * - Return correct HTTP status codes
- * - Return valid JSON responses
- * - Handle errors appropriately
- * - Implement CORS headers
- * 
- * Note: These tests use mocked Firestore data and don't require
- * the Firebase Emulator to be running.
+ * API Function Tests
+ *
+ * Sends requests to the exported `api` Cloud Function to ensure:
+ * - Routes resolve under both /api/v1 (Hosting rewrite) and /v1 (function URL)
+ * - Responses carry the expected status codes
+ * - CORS headers are set on every response, successful or not
+ * - Errors use the shared { error, code, timestamp } format
+ *
+ * The routes themselves are tested per router in ./api. Firestore, Storage
+ * and Auth are mocked in ./api/setup, so these tests don't require the
+ * Firebase Emulator to be running.
  */
 
-// Mock Firebase Admin before importing functions
-jest.mock('firebase-admin', () => {
-  const mockFirestore = {
-    collection: jest.fn(),
-  };
-
-  const mockStorage = {
-    bucket: jest.fn(() => ({
-      file: jest.fn(() => ({
-        save: jest.fn(),
-      })),
-      name: 'test-bucket',
-    })),
-  };
-
-  return {
-    apps: [],
-    initializeApp: jest.fn(),
-    firestore: jest.fn(() => mockFirestore),
-    storage: jest.fn(() => mockStorage),
-    auth: jest.fn(() => ({
-      verifyIdToken: jest.fn(),
-    })),
-    FieldValue: {
-      serverTimestamp: jest.fn(() => new Date()),
-    },
-  };
-});
+import type { RequestListener } from 'http';
+import request from 'supertest';
+import { mockAdd, mockVerifyIdToken, resetMocks } from './api/setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./api/setup').mockFirebaseAdmin);
+
+import { api } from '../index';
+
+// The Functions runtime calls the exported function with each HTTP request
+const handler = api as unknown as RequestListener;
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+const inquiry = {
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  subject: 'Project enquiry',
+  message: 'Would you be available for a short contract next month?',
+};
+
+describe('API Function', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Routing', () => {
+    it('should serve routes under /api/v1', async () => {
+      const response = await request(handler).get('/api/v1/projects');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(3);
+      expect(response.body.data[0]).toMatchObject({
+        id: 'project-1',
+        title: 'Project One',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should serve routes under /v1 when called through the function URL', async () => {
+      const response = await request(handler).get('/v1/projects');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(3);
+    });
+
+    it('should resolve route parameters', async () => {
+      const found = await request(handler).get('/api/v1/projects/project-1');
+      const missing = await request(handler).get('/api/v1/projects/missing');
 
-describe('API Endpoints', () => {
-  describe('Basic Structure', () => {
-    it('should export all required functions', () => {
-      const functions = require('../index');
-      
-      expect(functions.getProjects).toBeDefined();
-      expect(functions.getProjectById).toBeDefined();
-      expect(functions.getProfile).toBeDefined();
-      expect(functions.submitInquiry).toBeDefined();
-      expect(functions.createProject).toBeDefined();
-      expect(functions.updateProject).toBeDefined();
-      expect(functions.deleteProject).toBeDefined();
-      expect(functions.uploadImage).toBeDefined();
+      expect(found.status).toBe(200);
+      expect(found.body.project.id).toBe('project-1');
+      expect(missing.status).toBe(404);
+      expect(missing.body.code).toBe('NOT_FOUND');
+    });
+
+    it('should return 404 for unknown paths', async () => {
+      const response = await request(handler).get('/api/v1/unknown');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({
+        error: 'Endpoint not found',
+        code: 'NOT_FOUND',
+        timestamp: expect.stringMatching(ISO_TIMESTAMP),
+      });
     });
   });
 
-  describe('Function Types', () => {
-    it('should export functions as callable objects', () => {
-      const functions = require('../index');
-      
-      // Firebase Functions are function objects with additional properties
-      expect(typeof functions.getProjects).toBe('function');
-      expect(typeof functions.getProjectById).toBe('function');
-      expect(typeof functions.getProfile).toBe('function');
-      expect(typeof functions.submitInquiry).toBe('function');
-      expect(typeof functions.createProject).toBe('function');
-      expect(typeof functions.updateProject).toBe('function');
-      expect(typeof functions.deleteProject).toBe('function');
-      expect(typeof functions.uploadImage).toBe('function');
+  describe('CORS', () => {
+    it('should answer preflight requests without running the route', async () => {
+      const response = await request(handler).options('/api/v1/admin/inquiries');
+
+      expect(response.status).toBe(204);
+      expect(response.headers['access-control-allow-headers']).toContain('Authorization');
+      expect(mockVerifyIdToken).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['successful', () => request(handler).get('/api/v1/projects'), 200],
+      ['failed', () => request(handler).get('/api/v1/admin/stats'), 401],
+      ['unknown', () => request(handler).get('/api/v1/unknown'), 404],
+    ])('should set CORS headers on %s requests', async (_kind, send, status) => {
+      const response = await send();
+
+      expect(response.status).toBe(status);
+      expect(response.headers).toMatchObject({
+        'access-control-allow-origin': '*',
+        'access-control-allow-methods': 'GET, POST, PUT, DELETE, OPTIONS',
+        'access-control-allow-headers': 'Content-Type, Authorization',
+      });
+    });
+  });
+
+  describe('Error Responses', () => {
+    it('should use the shared error format for every status', async () => {
+      const unauthorized = await request(handler).get('/api/v1/admin/stats');
+      mockVerifyIdToken.mockResolvedValue({ uid: 'viewer-uid', role: 'viewer' });
+      const forbidden = await request(handler)
+        .put('/api/v1/admin/profile')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ name: 'Jane Doe' });
+      const notAllowed = await request(handler).put('/api/v1/contact');
+
+      expect(unauthorized.status).toBe(401);
+      expect(unauthorized.body).toEqual({
+        error: 'Authentication required',
+        code: 'UNAUTHORIZED',
+        timestamp: expect.stringMatching(ISO_TIMESTAMP),
+      });
+      expect(forbidden.status).toBe(403);
+      expect(forbidden.body).toEqual({
+        error: 'This action requires the owner role',
+        code: 'FORBIDDEN',
+        timestamp: expect.stringMatching(ISO_TIMESTAMP),
+      });
+      expect(notAllowed.status).toBe(405);
+      expect(notAllowed.body).toEqual({
+        error: 'Method Not Allowed',
+        code: 'METHOD_NOT_ALLOWED',
+        timestamp: expect.stringMatching(ISO_TIMESTAMP),
+      });
+    });
+
+    it('should report unexpected errors as 500s without their details', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockAdd.mockRejectedValueOnce(new Error('Firestore unavailable'));
+
+      const response = await request(handler).post('/api/v1/contact').send(inquiry);
+      consoleError.mockRestore();
+
+      expect(response.status).toBe(500);
+      expect(response.headers['content-type']).toMatch(/^application\/json/);
+      expect(response.body).toEqual({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+        timestamp: expect.stringMatching(ISO_TIMESTAMP),
+      });
     });
   });
 });
@@ -0,0 +1,548 @@
+/**
+ * Admin API Tests
+ *
+ * Tests the admin project and upload routes (see ../../api/admin.ts) to ensure:
+ * - Admin routes require authentication and a sufficient role
+ * - Slugs are unique and renames keep the previous slug
+ * - Projects are reordered in a single batch
+ * - Scheduled publish/unpublish times are validated and stored
+ * - Image uploads are multipart, sniffed by content and stored as a resized WebP
+ * - Project image metadata is validated and kept only for the project's own images
+ * - Gallery images are stored as entries, old URL lists still read, and
+ *   missing alt text is reported as a warning
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import sharp from 'sharp';
+import {
+  mockBatchCommit,
+  mockBatchSet,
+  mockBatchUpdate,
+  mockFileSave,
+  mockRecursiveDelete,
+  mockVerifyIdToken,
+  resetMocks,
+} from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+
+describe('Admin API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Admin Routes', () => {
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/v1/admin/stats');
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe('UNAUTHORIZED');
+      expect(mockVerifyIdToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid tokens', async () => {
+      mockVerifyIdToken.mockRejectedValue(new Error('invalid token'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const response = await request(app)
+        .put('/api/v1/admin/inquiries/inquiry-1')
+        .set('Authorization', 'Bearer bad-token')
+        .send({ read: true });
+
+      expect(response.status).toBe(401);
+      expect(mockVerifyIdToken).toHaveBeenCalledWith('bad-token');
+    });
+
+    it('should run handlers for authenticated requests', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', role: 'owner' });
+
+      const response = await request(app)
+        .put('/api/v1/admin/inquiries/inquiry-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ read: 'yes' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+      expect(response.body.details).toHaveProperty('read');
+    });
+
+    it('should reject users without an admin role', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'signed-up-uid', email: 'someone@example.com' });
+
+      const response = await request(app)
+        .get('/api/v1/admin/stats')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('FORBIDDEN');
+    });
+
+    it('should limit viewers to reading and editors to non-destructive changes', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'viewer-uid', role: 'viewer' });
+
+      const viewerRead = await request(app)
+        .get('/api/v1/admin/projects/project-1/revisions')
+        .set('Authorization', 'Bearer valid-token');
+      const viewerWrite = await request(app)
+        .delete('/api/v1/admin/projects/project-1')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(viewerRead.status).not.toBe(403);
+      expect(viewerWrite.status).toBe(403);
+
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+
+      const editorProfile = await request(app)
+        .put('/api/v1/admin/profile')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ name: 'Someone Else' });
+      const editorPurge = await request(app)
+        .delete('/api/v1/admin/trash/projects/trashed-project')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(editorProfile.status).toBe(403);
+      expect(editorPurge.status).toBe(403);
+      expect(mockBatchCommit).not.toHaveBeenCalled();
+      expect(mockRecursiveDelete).not.toHaveBeenCalled();
+    });
+
+    it('should generate a unique slug when creating a project', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', role: 'owner' });
+
+      const response = await request(app)
+        .post('/api/v1/admin/projects')
+        .set('Authorization', 'Bearer valid-token')
+        .send({
+          title: 'Project One',
+          description: 'Short description',
+          fullDescription: 'Full description',
+          thumbnail: 'https://example.com/thumb.png',
+          technologies: ['TypeScript'],
+          category: 'Web',
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.slug).toBe('project-one-2');
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-project' }),
+        expect.objectContaining({ slug: 'project-one-2', slugHistory: [] })
+      );
+    });
+
+    it('should reject slugs already used by another project', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', role: 'owner' });
+
+      const response = await request(app)
+        .put('/api/v1/admin/projects/project-2')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ slug: 'first-project' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toHaveProperty('slug');
+      expect(mockBatchCommit).not.toHaveBeenCalled();
+    });
+
+    it('should keep the previous slug in the history when a project is renamed', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', role: 'owner' });
+
+      const response = await request(app)
+        .put('/api/v1/admin/projects/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ title: 'Renamed Project' });
+
+      expect(response.status).toBe(200);
+      expect(mockBatchUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'project-1' }),
+        expect.objectContaining({
+          slug: 'renamed-project',
+          slugHistory: ['first-project', 'project-one'],
+        })
+      );
+    });
+
+    it('should reject blank required fields in partial updates', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+
+      const response = await request(app)
+        .put('/api/v1/admin/projects/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ title: '', description: '   ', category: '\n' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+      expect(Object.keys(response.body.details).sort()).toEqual(['category', 'description', 'title']);
+      expect(mockBatchUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject fields of the wrong type in partial updates', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+
+      const response = await request(app)
+        .put('/api/v1/admin/projects/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({
+          title: 42,
+          description: ['Short description'],
+          thumbnail: { url: 'https://example.com/thumb.png' },
+          category: true,
+          technologies: 'TypeScript',
+          liveUrl: 7,
+          featured: 'yes',
+          published: 1,
+          order: '2',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+      expect(Object.keys(response.body.details).sort()).toEqual([
+        'category',
+        'description',
+        'featured',
+        'liveUrl',
+        'order',
+        'published',
+        'technologies',
+        'thumbnail',
+        'title',
+      ]);
+      expect(mockBatchUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reorder projects in a single batch', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', role: 'owner' });
+
+      const response = await request(app)
+        .put('/api/v1/admin/projects/reorder')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ projectIds: ['project-3', 'project-1', 'project-2'] });
+
+      expect(response.status).toBe(200);
+      expect(mockBatchUpdate).toHaveBeenCalledTimes(3);
+      expect(mockBatchUpdate.mock.calls.map(([ref, data]) => [ref.id, data.order])).toEqual([
+        ['project-3', 0],
+        ['project-1', 1],
+        ['project-2', 2],
+      ]);
+      expect(mockBatchCommit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject reorders with duplicate or unknown projects', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', role: 'owner' });
+
+      const duplicate = await request(app)
+        .put('/api/v1/admin/projects/reorder')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ projectIds: ['project-1', 'project-1'] });
+      const unknown = await request(app)
+        .put('/api/v1/admin/projects/reorder')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ projectIds: ['project-1', 'missing'] });
+
+      expect(duplicate.status).toBe(400);
+      expect(unknown.status).toBe(404);
+      expect(unknown.body.details.projectIds).toBe('missing');
+      expect(mockBatchCommit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Scheduled Publishing', () => {
+    const newProject = {
+      title: 'Scheduled Project',
+      description: 'Short description',
+      fullDescription: 'Full description',
+      thumbnail: 'https://example.com/thumb.png',
+      technologies: ['TypeScript'],
+      category: 'Web',
+    };
+
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', email: 'admin@example.com', role: 'owner' });
+    });
+
+    it('should store publish and unpublish times as timestamps', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/projects')
+        .set('Authorization', 'Bearer valid-token')
+        .send({
+          ...newProject,
+          publishAt: '2030-01-01T09:00:00.000Z',
+          unpublishAt: '2030-02-01T09:00:00.000Z',
+        });
+
+      expect(response.status).toBe(201);
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-project' }),
+        expect.objectContaining({
+          published: false,
+          publishAt: new Date('2030-01-01T09:00:00.000Z'),
+          unpublishAt: new Date('2030-02-01T09:00:00.000Z'),
+        })
+      );
+    });
+
+    it('should reject unpublish times that are not after the publish time', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/projects')
+        .set('Authorization', 'Bearer valid-token')
+        .send({
+          ...newProject,
+          publishAt: '2030-02-01T09:00:00.000Z',
+          unpublishAt: '2030-01-01T09:00:00.000Z',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toHaveProperty('unpublishAt');
+      expect(mockBatchCommit).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid times and clear schedules set to null', async () => {
+      const invalidResponse = await request(app)
+        .put('/api/v1/admin/projects/project-2')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ publishAt: 'next tuesday' });
+
+      expect(invalidResponse.status).toBe(400);
+      expect(invalidResponse.body.details).toHaveProperty('publishAt');
+
+      const clearResponse = await request(app)
+        .put('/api/v1/admin/projects/project-2')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ publishAt: null });
+
+      expect(clearResponse.status).toBe(200);
+      expect(mockBatchUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'project-2' }),
+        expect.objectContaining({ publishAt: null })
+      );
+    });
+  });
+
+  describe('Image Uploads', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+    });
+
+    it('should store a single resized WebP and return the original dimensions', async () => {
+      const png = await sharp({
+        create: { width: 1000, height: 500, channels: 3, background: { r: 200, g: 80, b: 40 } },
+      }).png().toBuffer();
+      mockVerifyIdToken.mockResolvedValue({ uid: 'owner-uid', role: 'owner' });
+
+      const response = await request(app)
+        .post('/api/v1/admin/upload')
+        .set('Authorization', 'Bearer valid-token')
+        .field('folder', 'profile')
+        .attach('file', png, { filename: '../My Photo.png', contentType: 'image/png' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ width: 1000, height: 500, color: expect.stringMatching(/^#[0-9a-f]{6}$/) });
+      expect(response.body.placeholder).toMatch(/^data:image\/webp;base64,/);
+      expect(response.body).not.toHaveProperty('variants');
+      expect(response.body.url).toMatch(
+        /^https:\/\/storage\.googleapis\.com\/test-bucket\/profile\/\d+-my-photo\/full\.webp$/
+      );
+      expect(mockFileSave).toHaveBeenCalledTimes(1);
+      expect(mockFileSave).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        expect.objectContaining({ metadata: expect.objectContaining({ contentType: 'image/webp' }) })
+      );
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ action: 'image.upload', after: expect.objectContaining({ contentType: 'image/png' }) })
+      );
+    });
+
+    it('should reject files whose contents are not an image, whatever their declared type', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/upload')
+        .set('Authorization', 'Bearer valid-token')
+        .attach('file', Buffer.from('<script>alert(1)</script>'), { filename: 'photo.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_FILE_TYPE');
+      expect(mockFileSave).not.toHaveBeenCalled();
+    });
+
+    it('should reject JSON bodies and unknown folders', async () => {
+      const json = await request(app)
+        .post('/api/v1/admin/upload')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ fileData: 'aGVsbG8=', fileName: 'photo.png', mimeType: 'image/png' });
+      const folder = await request(app)
+        .post('/api/v1/admin/upload')
+        .set('Authorization', 'Bearer valid-token')
+        .field('folder', '../secrets')
+        .attach('file', Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 'photo.jpg');
+
+      expect(json.status).toBe(400);
+      expect(json.body.code).toBe('INVALID_REQUEST');
+      expect(folder.status).toBe(400);
+      expect(folder.body.code).toBe('INVALID_FOLDER');
+    });
+
+    it('should only let owners upload to the profile folder', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/upload')
+        .set('Authorization', 'Bearer valid-token')
+        .field('folder', 'profile')
+        .attach('file', Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 'photo.jpg');
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('FORBIDDEN');
+      expect(mockFileSave).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Project Image Metadata', () => {
+    const metadata = (url: string) => ({
+      url,
+      width: 1200,
+      height: 800,
+      color: '#336699',
+      placeholder: 'data:image/webp;base64,UklGRg==',
+    });
+
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+    });
+
+    it('should store metadata only for the thumbnail and gallery images', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/projects')
+        .set('Authorization', 'Bearer valid-token')
+        .send({
+          title: 'Pictured Project',
+          description: 'Short description',
+          fullDescription: 'Full description',
+          thumbnail: 'https://example.com/thumb.webp',
+          images: ['https://example.com/one.webp'],
+          imageMetadata: [
+            metadata('https://example.com/thumb.webp'),
+            metadata('https://example.com/one.webp'),
+            metadata('https://example.com/removed.webp'),
+          ],
+          technologies: ['TypeScript'],
+          category: 'Web',
+        });
+
+      expect(response.status).toBe(201);
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-project' }),
+        expect.objectContaining({
+          imageMetadata: [metadata('https://example.com/thumb.webp'), metadata('https://example.com/one.webp')],
+        })
+      );
+    });
+
+    it('should prune metadata when the images change and reject malformed entries', async () => {
+      const updated = await request(app)
+        .put('/api/v1/admin/projects/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ images: [], imageMetadata: [metadata('https://example.com/thumb.png'), metadata('https://example.com/gone.webp')] });
+      const invalid = await request(app)
+        .put('/api/v1/admin/projects/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ imageMetadata: [{ ...metadata('https://example.com/thumb.png'), placeholder: 'javascript:alert(1)' }] });
+
+      expect(updated.status).toBe(200);
+      expect(mockBatchUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'project-1' }),
+        expect.objectContaining({ imageMetadata: [metadata('https://example.com/thumb.png')] })
+      );
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.details).toHaveProperty('imageMetadata');
+    });
+  });
+
+  describe('Project Gallery Images', () => {
+    const project = {
+      title: 'Gallery Project',
+      description: 'Short description',
+      fullDescription: 'Full description',
+      thumbnail: 'https://example.com/thumb.webp',
+      technologies: ['TypeScript'],
+      category: 'Web',
+    };
+
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+    });
+
+    it('should store entries in order and accept plain URLs', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/projects')
+        .set('Authorization', 'Bearer valid-token')
+        .send({
+          ...project,
+          images: [
+            { url: 'https://example.com/two.webp', alt: ' Settings page ', caption: 'Dark mode', order: 5 },
+            { url: 'https://example.com/one.webp', alt: 'Dashboard', order: 1 },
+            'https://example.com/three.webp',
+          ],
+        });
+
+      expect(response.status).toBe(201);
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-project' }),
+        expect.objectContaining({
+          images: [
+            { url: 'https://example.com/one.webp', alt: 'Dashboard', caption: '', order: 0 },
+            { url: 'https://example.com/three.webp', alt: '', caption: '', order: 1 },
+            { url: 'https://example.com/two.webp', alt: 'Settings page', caption: 'Dark mode', order: 2 },
+          ],
+        })
+      );
+      expect(response.body.warnings).toEqual({ images: '1 gallery image has no alt text' });
+    });
+
+    it('should only warn about missing alt text for the images the project keeps', async () => {
+      const described = await request(app)
+        .put('/api/v1/admin/projects/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ images: [{ url: 'https://example.com/project-one-screen.png', alt: 'Home page' }] });
+      const unchanged = await request(app)
+        .put('/api/v1/admin/projects/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ description: 'New description' });
+
+      expect(described.status).toBe(200);
+      expect(described.body.warnings).toBeUndefined();
+      expect(unchanged.status).toBe(200);
+      expect(unchanged.body.warnings).toEqual({ images: '1 gallery image has no alt text' });
+    });
+
+    it('should reject malformed entries', async () => {
+      const responses = await Promise.all([
+        { images: 'https://example.com/one.webp' },
+        { images: [{ alt: 'No URL' }] },
+        { images: [{ url: 'https://example.com/one.webp', alt: 'x'.repeat(301) }] },
+        { images: [{ url: 'https://example.com/one.webp', order: -1 }] },
+      ].map(body =>
+        request(app)
+          .put('/api/v1/admin/projects/project-1')
+          .set('Authorization', 'Bearer valid-token')
+          .send(body)
+      ));
+
+      responses.forEach(response => {
+        expect(response.status).toBe(400);
+        expect(response.body.details).toHaveProperty('images');
+      });
+      expect(mockBatchUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should serve galleries stored as URLs as entries', async () => {
+      const response = await request(app).get('/api/v1/projects/project-one');
+
+      expect(response.status).toBe(200);
+      expect(response.body.project.images).toEqual([
+        { url: 'https://example.com/project-one-screen.png', alt: '', caption: '', order: 0 },
+      ]);
+    });
+  });
+});
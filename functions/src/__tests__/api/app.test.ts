@@ -0,0 +1,166 @@
+/**
+ * App Tests
+ *
+ * Tests the Express app behind the `api` function (see ../../app.ts) to ensure:
+ * - Routes resolve under both /api/v1 (Hosting rewrite) and /v1 (function URL)
+ * - CORS headers and OPTIONS preflight are handled for every route
+ * - Unsupported methods return 405 and unknown paths return 404
+ * - Errors use the shared { error, code, timestamp } format
+ * - Public routes are rate limited per client IP with Retry-After and X-RateLimit-* headers
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import { mockAdd, resetMocks } from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+import { createMemoryRateLimitStore } from '../../utils/rateLimit';
+
+describe('App', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Routing', () => {
+    it('should serve routes under /api/v1', async () => {
+      const response = await request(app).get('/api/v1/projects');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(3);
+      expect(response.body.data[0]).toMatchObject({
+        id: 'project-1',
+        title: 'Project One',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should serve routes under /v1 when called through the function URL', async () => {
+      const response = await request(app).get('/v1/projects');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(3);
+    });
+
+    it('should resolve route parameters', async () => {
+      const found = await request(app).get('/api/v1/projects/project-1');
+      const missing = await request(app).get('/api/v1/projects/missing');
+
+      expect(found.status).toBe(200);
+      expect(found.body.project.id).toBe('project-1');
+      expect(missing.status).toBe(404);
+      expect(missing.body.code).toBe('NOT_FOUND');
+    });
+
+    it('should return 404 for unknown paths', async () => {
+      const response = await request(app).get('/api/v1/unknown');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ code: 'NOT_FOUND' });
+      expect(response.body.timestamp).toBeDefined();
+    });
+  });
+
+  describe('Shared Middleware', () => {
+    it('should answer preflight requests with CORS headers', async () => {
+      const response = await request(app).options('/api/v1/admin/projects/project-1');
+
+      expect(response.status).toBe(204);
+      expect(response.headers['access-control-allow-origin']).toBe('*');
+      expect(response.headers['access-control-allow-headers']).toContain('Authorization');
+    });
+
+    it('should return 405 for unsupported methods', async () => {
+      const response = await request(app).delete('/api/v1/projects');
+
+      expect(response.status).toBe(405);
+      expect(response.body.code).toBe('METHOD_NOT_ALLOWED');
+      expect(response.headers['access-control-allow-origin']).toBe('*');
+    });
+
+    it('should reject malformed JSON bodies', async () => {
+      const response = await request(app)
+        .post('/api/v1/contact')
+        .set('Content-Type', 'application/json')
+        .send('{"name":');
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_REQUEST');
+    });
+
+    it('should return validation details in the shared error format', async () => {
+      const response = await request(app).post('/api/v1/contact').send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+      expect(response.body.details).toHaveProperty('email');
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    const inquiry = {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      subject: 'Project enquiry',
+      message: 'Would you be available for a short contract next month?',
+    };
+
+    it('should report the limit on public routes', async () => {
+      const response = await request(app).get('/api/v1/projects');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['x-ratelimit-limit']).toBe('120');
+      expect(response.headers['x-ratelimit-remaining']).toBe('119');
+      expect(response.headers['x-ratelimit-reset']).toBe('1');
+    });
+
+    it('should reject contact submissions over the limit with Retry-After', async () => {
+      for (let i = 0; i < 3; i++) {
+        const allowed = await request(app).post('/api/v1/contact').send(inquiry);
+        expect(allowed.status).toBe(200);
+      }
+
+      const limited = await request(app).post('/api/v1/contact').send(inquiry);
+
+      expect(limited.status).toBe(429);
+      expect(limited.body.code).toBe('RATE_LIMIT_EXCEEDED');
+      expect(limited.headers['retry-after']).toBe('1200');
+      expect(limited.headers['x-ratelimit-remaining']).toBe('0');
+      expect(mockAdd).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not let clients pick their bucket with X-Forwarded-For', async () => {
+      for (let i = 0; i < 3; i++) {
+        await request(app)
+          .post('/api/v1/contact')
+          .set('X-Forwarded-For', `10.0.0.${i}, 203.0.113.7`)
+          .send(inquiry);
+      }
+
+      const spoofed = await request(app)
+        .post('/api/v1/contact')
+        .set('X-Forwarded-For', '10.0.0.99, 203.0.113.7')
+        .send(inquiry);
+      const otherClient = await request(app)
+        .post('/api/v1/contact')
+        .set('X-Forwarded-For', '203.0.113.8')
+        .send(inquiry);
+
+      expect(spoofed.status).toBe(429);
+      expect(otherClient.status).toBe(200);
+    });
+
+    it('should refill tokens evenly over the window', async () => {
+      const store = createMemoryRateLimitStore();
+      const rule = { limit: 2, windowMs: 1000 };
+
+      expect((await store.hit('client', rule, 0)).remaining).toBe(1);
+      expect((await store.hit('client', rule, 0)).remaining).toBe(0);
+      expect(await store.hit('client', rule, 100)).toMatchObject({ allowed: false, retryAfterMs: 400 });
+      expect(await store.hit('client', rule, 500)).toMatchObject({ allowed: true, remaining: 0 });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Audit Log API Tests
+ *
+ * Tests the audit log (see ../../api/audit.ts) to ensure:
+ * - Admin changes are recorded with the actor, IP and before/after snapshots
+ * - Permanent deletes are recorded once they have succeeded
+ * - Only owners can read the log
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import {
+  mockAdd,
+  mockBatchCommit,
+  mockBatchSet,
+  mockVerifyIdToken,
+  mockWhere,
+  resetMocks,
+} from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+
+describe('Audit Log API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Audit Log', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', email: 'admin@example.com', role: 'owner' });
+    });
+
+    it('should record the actor, IP and before/after snapshots in the same batch as the change', async () => {
+      const response = await request(app)
+        .put('/api/v1/admin/projects/project-2')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ description: 'New description' });
+
+      expect(response.status).toBe(200);
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          action: 'project.update',
+          actor: { uid: 'admin-uid', email: 'admin@example.com' },
+          target: { type: 'project', id: 'project-2' },
+          before: expect.objectContaining({ description: 'Short description' }),
+          after: expect.objectContaining({ description: 'New description' }),
+          ip: expect.any(String),
+        })
+      );
+      expect(mockBatchCommit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record permanent deletes once they have succeeded', async () => {
+      const response = await request(app)
+        .delete('/api/v1/admin/trash/projects/trashed-project')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(mockAdd).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'project.purge',
+          target: { type: 'project', id: 'trashed-project' },
+          before: expect.objectContaining({ title: 'Trashed Project' }),
+          after: null,
+        })
+      );
+    });
+
+    it('should list entries filtered by action for owners only', async () => {
+      const response = await request(app)
+        .get('/api/v1/admin/audit-log')
+        .query({ action: 'project.update', actor: 'admin@example.com' })
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ page: 1, pageSize: 50 });
+      expect(mockWhere).toHaveBeenCalledWith('action', '==', 'project.update');
+      expect(mockWhere).toHaveBeenCalledWith('actor.email', '==', 'admin@example.com');
+
+      const invalid = await request(app)
+        .get('/api/v1/admin/audit-log')
+        .query({ action: 'project.explode' })
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(invalid.status).toBe(400);
+
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+
+      const editor = await request(app)
+        .get('/api/v1/admin/audit-log')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(editor.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Contact API Tests
+ *
+ * Tests the contact route (see ../../api/contact.ts) to ensure:
+ * - Contact spam is dropped (honeypot, fill time), challenged (CAPTCHA) or flagged
+ * - Inquiry types are validated and keep only their own details
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import { mockAdd, resetMocks } from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+import { FAKE_CAPTCHA_PASS_TOKEN } from '../../utils/captcha';
+
+describe('Contact API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Contact Spam Protection', () => {
+    const inquiry = {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      subject: 'Project enquiry',
+      message: 'Would you be available for a short contract next month?',
+      website: '',
+      fillTime: 12000,
+    };
+
+    afterEach(() => {
+      delete process.env.CAPTCHA_PROVIDER;
+    });
+
+    it('should store genuine inquiries unflagged', async () => {
+      const response = await request(app).post('/api/v1/contact').send(inquiry);
+
+      expect(response.status).toBe(200);
+      expect(mockAdd).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Jane Doe', flagged: false, spamScore: 0, spamReasons: [] })
+      );
+    });
+
+    it('should quietly drop submissions that fill the honeypot or arrive too fast', async () => {
+      const honeypot = await request(app)
+        .post('/api/v1/contact')
+        .send({ ...inquiry, website: 'https://spam.example.com' });
+      const tooFast = await request(app)
+        .post('/api/v1/contact')
+        .send({ ...inquiry, fillTime: 400 });
+
+      expect(honeypot.status).toBe(200);
+      expect(tooFast.status).toBe(200);
+      expect(tooFast.body).toEqual({ success: true, message: 'Inquiry submitted successfully' });
+      expect(mockAdd).not.toHaveBeenCalled();
+    });
+
+    it('should flag inquiries sent without a fill time unless a CAPTCHA is configured', async () => {
+      const withoutFillTime = { ...inquiry, fillTime: undefined };
+
+      const response = await request(app).post('/api/v1/contact').send(withoutFillTime);
+
+      expect(response.status).toBe(200);
+      expect(mockAdd).toHaveBeenCalledWith(
+        expect.objectContaining({ flagged: true, spamReasons: ['Sent without a fill time'] })
+      );
+
+      process.env.CAPTCHA_PROVIDER = 'fake';
+      await request(app)
+        .post('/api/v1/contact')
+        .send({ ...withoutFillTime, captchaToken: FAKE_CAPTCHA_PASS_TOKEN });
+
+      expect(mockAdd).toHaveBeenLastCalledWith(expect.objectContaining({ flagged: false, spamReasons: [] }));
+    });
+
+    it('should flag rather than reject inquiries that look like spam', async () => {
+      const response = await request(app)
+        .post('/api/v1/contact')
+        .send({
+          ...inquiry,
+          message: 'Cheap backlinks at https://a.example and https://b.example and www.c.example',
+        });
+
+      expect(response.status).toBe(200);
+      expect(mockAdd).toHaveBeenCalledWith(
+        expect.objectContaining({
+          flagged: true,
+          spamReasons: ['Contains 3 links', 'Mentions "backlinks"'],
+        })
+      );
+    });
+
+    it('should require a valid CAPTCHA token when a provider is configured', async () => {
+      process.env.CAPTCHA_PROVIDER = 'fake';
+
+      const missing = await request(app).post('/api/v1/contact').send(inquiry);
+      const failed = await request(app)
+        .post('/api/v1/contact')
+        .send({ ...inquiry, captchaToken: 'forged' });
+
+      expect(missing.status).toBe(400);
+      expect(missing.body.code).toBe('CAPTCHA_REQUIRED');
+      expect(failed.status).toBe(400);
+      expect(failed.body.code).toBe('CAPTCHA_FAILED');
+      expect(mockAdd).not.toHaveBeenCalled();
+
+      const response = await request(app)
+        .post('/api/v1/contact')
+        .send({ ...inquiry, captchaToken: FAKE_CAPTCHA_PASS_TOKEN });
+
+      expect(response.status).toBe(200);
+      expect(mockAdd).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Inquiry Types', () => {
+    const inquiry = {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      subject: 'Project enquiry',
+      message: 'Would you be available for a short contract next month?',
+    };
+
+    it('should store the type with only the details it asks for', async () => {
+      const response = await request(app)
+        .post('/api/v1/contact')
+        .send({ ...inquiry, type: 'job', company: '  Acme  ', budget: '$10k', timeline: 'March' });
+
+      expect(response.status).toBe(200);
+      expect(mockAdd).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'job', company: 'Acme', budget: null, timeline: 'March' })
+      );
+    });
+
+    it('should default to other and reject unknown types or overlong details', async () => {
+      const untyped = await request(app).post('/api/v1/contact').send(inquiry);
+      const unknown = await request(app).post('/api/v1/contact').send({ ...inquiry, type: 'sales' });
+      const overlong = await request(app)
+        .post('/api/v1/contact')
+        .send({ ...inquiry, type: 'freelance', budget: 'x'.repeat(51) });
+
+      expect(untyped.status).toBe(200);
+      expect(mockAdd).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'other', company: null, budget: null, timeline: null })
+      );
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.details).toHaveProperty('type');
+      expect(overlong.status).toBe(400);
+      expect(overlong.body.details).toHaveProperty('budget');
+      expect(mockAdd).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Inquiries API Tests
+ *
+ * Tests the admin inquiry routes (see ../../api/inquiries.ts) to ensure:
+ * - The inbox lists inquiries outside the trash, filtered by read/replied
+ * - Inquiries are marked read or replied, with invalid changes rejected
+ * - Replies are emailed before they are stored, and mark the inquiry replied
+ * - The inbox can be filtered by inquiry type
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import {
+  mockBatchCommit,
+  mockBatchSet,
+  mockBatchUpdate,
+  mockVerifyIdToken,
+  mockWhere,
+  resetMocks,
+} from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+
+describe('Inquiries API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Inquiry Inbox', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+    });
+
+    it('should list inquiries outside the trash, filtered by read and replied', async () => {
+      const response = await request(app)
+        .get('/api/v1/admin/inquiries')
+        .query({ pageSize: 2 })
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ total: 4, page: 1, pageSize: 2, hasMore: true });
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data[0]).toMatchObject({ id: 'project-1', timestamp: '2024-01-03T00:00:00.000Z' });
+      expect(mockWhere).toHaveBeenCalledWith('deletedAt', '==', null);
+
+      const unread = await request(app)
+        .get('/api/v1/admin/inquiries')
+        .query({ read: 'false', replied: 'false' })
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(unread.status).toBe(200);
+      expect(mockWhere).toHaveBeenCalledWith('read', '==', false);
+      expect(mockWhere).toHaveBeenCalledWith('replied', '==', false);
+    });
+
+    it('should reject invalid filters and page sizes', async () => {
+      const read = await request(app)
+        .get('/api/v1/admin/inquiries')
+        .query({ read: 'yes' })
+        .set('Authorization', 'Bearer valid-token');
+      const pageSize = await request(app)
+        .get('/api/v1/admin/inquiries')
+        .query({ pageSize: 101 })
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(read.status).toBe(400);
+      expect(read.body.code).toBe('INVALID_REQUEST');
+      expect(pageSize.status).toBe(400);
+    });
+
+    it('should return single inquiries and 404 for unknown ones', async () => {
+      const found = await request(app)
+        .get('/api/v1/admin/inquiries/project-1')
+        .set('Authorization', 'Bearer valid-token');
+      const missing = await request(app)
+        .get('/api/v1/admin/inquiries/missing')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(found.status).toBe(200);
+      expect(found.body.inquiry).toMatchObject({ id: 'project-1', email: 'project-one@example.com' });
+      expect(missing.status).toBe(404);
+      expect(missing.body.code).toBe('NOT_FOUND');
+    });
+
+    it('should mark inquiries read or replied and reject other changes', async () => {
+      const updated = await request(app)
+        .put('/api/v1/admin/inquiries/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ read: true, replied: true });
+      const invalid = await request(app)
+        .put('/api/v1/admin/inquiries/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ read: 'yes' });
+      const empty = await request(app)
+        .put('/api/v1/admin/inquiries/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ email: 'someone@example.com' });
+
+      expect(updated.status).toBe(200);
+      expect(mockBatchUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: 'project-1' }), {
+        read: true,
+        replied: true,
+      });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.details).toHaveProperty('read');
+      expect(empty.status).toBe(400);
+      expect(empty.body.details).toHaveProperty('body');
+      expect(mockBatchUpdate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Inquiry Replies', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', email: 'admin@example.com', role: 'owner' });
+    });
+
+    afterEach(() => {
+      delete process.env.MAIL_TRANSPORT;
+    });
+
+    it('should email the reply, store it in the thread and mark the inquiry replied', async () => {
+      process.env.MAIL_TRANSPORT = 'memory';
+
+      const response = await request(app)
+        .post('/api/v1/admin/inquiries/project-1/messages')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ subject: 'Re: Project enquiry', body: '  Thanks, I am available next month.  ' });
+
+      expect(response.status).toBe(201);
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          direction: 'outbound',
+          subject: 'Re: Project enquiry',
+          body: 'Thanks, I am available next month.',
+          sentBy: { uid: 'admin-uid', email: 'admin@example.com' },
+          transport: 'memory',
+          messageId: 'memory-1',
+        })
+      );
+      expect(mockBatchUpdate).toHaveBeenCalledWith(expect.anything(), { read: true, replied: true });
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ action: 'inquiry.reply', target: { type: 'inquiry', id: 'project-1' } })
+      );
+      expect(mockBatchCommit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not store replies that are invalid or cannot be emailed', async () => {
+      const empty = await request(app)
+        .post('/api/v1/admin/inquiries/project-1/messages')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ body: '   ' });
+      const unconfigured = await request(app)
+        .post('/api/v1/admin/inquiries/project-1/messages')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ body: 'Thanks!' });
+
+      expect(empty.status).toBe(400);
+      expect(empty.body.details).toHaveProperty('body');
+      expect(unconfigured.status).toBe(503);
+      expect(unconfigured.body.code).toBe('MAIL_NOT_CONFIGURED');
+      expect(mockBatchCommit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Inquiry Types', () => {
+    it('should filter the inbox by type', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'viewer-uid', role: 'viewer' });
+
+      const response = await request(app)
+        .get('/api/v1/admin/inquiries')
+        .query({ type: 'speaking' })
+        .set('Authorization', 'Bearer valid-token');
+      const invalid = await request(app)
+        .get('/api/v1/admin/inquiries')
+        .query({ type: 'sales' })
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(mockWhere).toHaveBeenCalledWith('type', '==', 'speaking');
+      expect(invalid.status).toBe(400);
+    });
+  });
+});
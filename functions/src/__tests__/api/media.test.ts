@@ -0,0 +1,267 @@
+/**
+ * Media API Tests
+ *
+ * Tests the media library routes (see ../../api/media.ts) to ensure:
+ * - Uploads are indexed in the media library, which tracks project references
+ *   and only deletes unused media
+ * - Owners can upload resume PDFs, which are indexed as documents
+ * - Owners can preview the scheduled Storage cleanup without changing anything
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import sharp from 'sharp';
+import {
+  mockBatchCommit,
+  mockBatchDelete,
+  mockBatchSet,
+  mockBatchUpdate,
+  mockBucketFile,
+  mockFileDelete,
+  mockFileSave,
+  mockStoredDocs,
+  mockVerifyIdToken,
+  mockWhere,
+  resetMocks,
+} from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+
+describe('Media API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Media Library', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', email: 'editor@example.com', role: 'editor' });
+    });
+
+    it('should index uploads with their files and no references', async () => {
+      const png = await sharp({
+        create: { width: 400, height: 300, channels: 3, background: { r: 20, g: 120, b: 200 } },
+      }).png().toBuffer();
+
+      const response = await request(app)
+        .post('/api/v1/admin/upload')
+        .set('Authorization', 'Bearer valid-token')
+        .attach('file', png, { filename: 'Cover.png', contentType: 'image/png' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.id).toEqual(expect.any(String));
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: response.body.id }),
+        expect.objectContaining({
+          folder: 'projects',
+          name: 'cover',
+          url: response.body.url,
+          files: [expect.stringMatching(/^projects\/\d+-cover\/full\.webp$/)],
+          references: [],
+          createdBy: 'editor@example.com',
+        })
+      );
+    });
+
+    it('should add and remove project references as images change', async () => {
+      const response = await request(app)
+        .put('/api/v1/admin/projects/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ thumbnail: 'https://example.com/project-two.webp' });
+
+      expect(response.status).toBe(200);
+      expect(mockWhere).toHaveBeenCalledWith('url', 'in', [
+        'https://example.com/project-two.webp',
+        'https://example.com/thumb.png',
+      ]);
+      expect(mockBatchUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'project-2' }),
+        { references: { arrayUnion: ['project-1'] } }
+      );
+    });
+
+    it('should list media filtered by search and usage', async () => {
+      const response = await request(app)
+        .get('/api/v1/admin/media?q=PROJECT-T&unused=true')
+        .set('Authorization', 'Bearer valid-token');
+      const documents = await request(app)
+        .get('/api/v1/admin/media?type=document')
+        .set('Authorization', 'Bearer valid-token');
+      const invalid = await request(app)
+        .get('/api/v1/admin/media?unused=maybe')
+        .set('Authorization', 'Bearer valid-token');
+      const invalidType = await request(app)
+        .get('/api/v1/admin/media?type=video')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((media: { id: string }) => media.id)).toEqual(['project-2', 'project-3']);
+      expect(response.body).toMatchObject({ total: 2, page: 1, hasMore: false });
+      expect(documents.body).toMatchObject({ data: [], total: 0 });
+      expect(invalid.status).toBe(400);
+      expect(invalidType.status).toBe(400);
+    });
+
+    it('should update alt text and record it in the audit log', async () => {
+      const response = await request(app)
+        .put('/api/v1/admin/media/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ alt: '  Dashboard screenshot  ' });
+      const invalid = await request(app)
+        .put('/api/v1/admin/media/project-1')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ alt: 'x'.repeat(301) });
+
+      expect(response.status).toBe(200);
+      expect(mockBatchUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'project-1' }),
+        { alt: 'Dashboard screenshot' }
+      );
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ action: 'image.update', target: { type: 'image', id: 'project-1' } })
+      );
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.details).toHaveProperty('alt');
+    });
+
+    it('should delete unused media with its files but refuse media in use', async () => {
+      const deleted = await request(app)
+        .delete('/api/v1/admin/media/project-1')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(deleted.status).toBe(200);
+      expect(mockBucketFile).toHaveBeenCalledWith('projects/project-one/full.webp');
+      expect(mockBucketFile).toHaveBeenCalledWith('projects/project-one/full.avif');
+      expect(mockFileDelete).toHaveBeenCalledWith({ ignoreNotFound: true });
+      expect(mockBatchDelete).toHaveBeenCalledWith(expect.objectContaining({ id: 'project-1' }));
+
+      mockFileDelete.mockClear();
+      const inUse = await request(app)
+        .delete('/api/v1/admin/media/trashed-project')
+        .set('Authorization', 'Bearer valid-token');
+      const missing = await request(app)
+        .delete('/api/v1/admin/media/missing-media')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(inUse.status).toBe(409);
+      expect(inUse.body).toMatchObject({ code: 'MEDIA_IN_USE', details: { references: 'trashed-project' } });
+      expect(mockFileDelete).not.toHaveBeenCalled();
+      expect(missing.status).toBe(404);
+    });
+
+    it('should refuse to delete the profile resume', async () => {
+      mockStoredDocs.main = { resumeUrl: 'https://example.com/project-two.webp' };
+
+      const response = await request(app)
+        .delete('/api/v1/admin/media/project-2')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(409);
+      expect(response.body).toMatchObject({ code: 'MEDIA_IN_USE', details: { references: 'profile' } });
+      expect(mockFileDelete).not.toHaveBeenCalled();
+    });
+
+    it('should index resume PDFs uploaded by owners as documents', async () => {
+      const pdf = Buffer.from('%PDF-1.7\n%%EOF\n');
+      mockVerifyIdToken.mockResolvedValue({ uid: 'owner-uid', email: 'owner@example.com', role: 'owner' });
+
+      const response = await request(app)
+        .post('/api/v1/admin/upload/document')
+        .set('Authorization', 'Bearer valid-token')
+        .attach('file', pdf, { filename: 'My Resume.pdf', contentType: 'application/pdf' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.url).toMatch(
+        /^https:\/\/storage\.googleapis\.com\/test-bucket\/profile\/\d+-my-resume\.pdf$/
+      );
+      expect(mockFileSave).toHaveBeenCalledWith(
+        pdf,
+        expect.objectContaining({ metadata: expect.objectContaining({ contentType: 'application/pdf' }) })
+      );
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: response.body.id }),
+        expect.objectContaining({
+          folder: 'profile',
+          url: response.body.url,
+          files: [expect.stringMatching(/^profile\/\d+-my-resume\.pdf$/)],
+          contentType: 'application/pdf',
+          size: pdf.length,
+          width: null,
+          createdBy: 'owner@example.com',
+        })
+      );
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ action: 'document.upload', target: { type: 'document', id: response.body.id } })
+      );
+    });
+
+    it('should only accept PDF documents, and only from owners', async () => {
+      const png = await sharp({
+        create: { width: 10, height: 10, channels: 3, background: { r: 0, g: 0, b: 0 } },
+      }).png().toBuffer();
+      mockVerifyIdToken.mockResolvedValue({ uid: 'owner-uid', role: 'owner' });
+
+      const notPdf = await request(app)
+        .post('/api/v1/admin/upload/document')
+        .set('Authorization', 'Bearer valid-token')
+        .attach('file', png, { filename: 'resume.pdf', contentType: 'application/pdf' });
+
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+
+      const editor = await request(app)
+        .post('/api/v1/admin/upload/document')
+        .set('Authorization', 'Bearer valid-token')
+        .attach('file', Buffer.from('%PDF-1.7\n'), { filename: 'resume.pdf', contentType: 'application/pdf' });
+
+      expect(notPdf.status).toBe(400);
+      expect(notPdf.body.code).toBe('INVALID_FILE_TYPE');
+      expect(editor.status).toBe(403);
+      expect(mockFileSave).not.toHaveBeenCalled();
+    });
+
+    it('should not let viewers change media', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'viewer-uid', role: 'viewer' });
+
+      const list = await request(app)
+        .get('/api/v1/admin/media')
+        .set('Authorization', 'Bearer valid-token');
+      const removed = await request(app)
+        .delete('/api/v1/admin/media/project-1')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(list.status).toBe(200);
+      expect(removed.status).toBe(403);
+      expect(mockBatchDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Storage Cleanup Report', () => {
+    it('should report the cleanup plan to owners without changing anything', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'owner-uid', role: 'owner' });
+
+      const response = await request(app)
+        .get('/api/v1/admin/media/cleanup')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ dryRun: true, uploads: 0, moves: [], deletions: [] });
+      expect(mockBatchCommit).not.toHaveBeenCalled();
+      expect(mockFileDelete).not.toHaveBeenCalled();
+    });
+
+    it('should require the owner role', async () => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+
+      const response = await request(app)
+        .get('/api/v1/admin/media/cleanup')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
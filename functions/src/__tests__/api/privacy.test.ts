@@ -0,0 +1,124 @@
+/**
+ * Privacy API Tests
+ *
+ * Tests the inquiry privacy routes (see ../../api/privacy.ts) to ensure:
+ * - Inquiries store a salted IP hash instead of the IP
+ * - Owners can export or erase a sender's data
+ * - Anonymising an inquiry clears its personal fields and delivery records
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import * as admin from 'firebase-admin';
+import { mockAdd, mockBatchUpdate, mockRecursiveDelete, mockVerifyIdToken, mockWhere, resetMocks } from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+import { SCHEDULER_AUDIT_CONTEXT } from '../../utils/auditLog';
+import { anonymiseInquiry } from '../../utils/privacy';
+
+describe('Privacy API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Inquiry Privacy', () => {
+    const inquiry = {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      subject: 'Project enquiry',
+      message: 'Would you be available for a short contract next month?',
+    };
+
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', email: 'admin@example.com', role: 'owner' });
+    });
+
+    afterEach(() => {
+      delete process.env.IP_HASH_SALT;
+    });
+
+    it('should store a salted hash of the client IP instead of the IP', async () => {
+      process.env.IP_HASH_SALT = 'test-salt';
+
+      const response = await request(app)
+        .post('/api/v1/contact')
+        .set('X-Forwarded-For', '203.0.113.7')
+        .send(inquiry);
+
+      expect(response.status).toBe(200);
+      const stored = mockAdd.mock.calls[0][0];
+      expect(stored).not.toHaveProperty('ip');
+      expect(stored.ipHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(stored.anonymisedAt).toBeNull();
+      expect(JSON.stringify(stored)).not.toContain('203.0.113.7');
+    });
+
+    it('should export a sender\'s inquiries without logging the email address', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/privacy/export')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ email: 'Project-One@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.inquiries).toHaveLength(1);
+      expect(response.body.inquiries[0]).toMatchObject({
+        id: 'project-1',
+        email: 'project-one@example.com',
+        timestamp: '2024-01-03T00:00:00.000Z',
+        messages: [],
+      });
+      expect(mockWhere).toHaveBeenCalledWith('email', 'in', ['Project-One@example.com', 'project-one@example.com']);
+      expect(mockAdd).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'inquiry.export', after: { inquiries: 1 } })
+      );
+      expect(JSON.stringify(mockAdd.mock.calls)).not.toContain('project-one@example.com');
+    });
+
+    it('should let only owners erase a sender\'s inquiries', async () => {
+      const invalid = await request(app)
+        .post('/api/v1/admin/privacy/erase')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ email: 'not-an-email' });
+      const response = await request(app)
+        .post('/api/v1/admin/privacy/erase')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ email: 'project-two@example.com' });
+
+      expect(invalid.status).toBe(400);
+      expect(response.status).toBe(200);
+      expect(response.body.deleted).toBe(1);
+      expect(mockRecursiveDelete).toHaveBeenCalledWith(expect.objectContaining({ id: 'project-2' }));
+      expect(mockAdd).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'inquiry.erase', target: { type: 'inquiry', id: 'project-2' } })
+      );
+
+      mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+
+      const editor = await request(app)
+        .post('/api/v1/admin/privacy/erase')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ email: 'project-two@example.com' });
+
+      expect(editor.status).toBe(403);
+    });
+
+    it('should clear the notification delivery records when anonymising an inquiry', async () => {
+      const inquiryRef = admin.firestore().collection('inquiries').doc('project-1');
+
+      await anonymiseInquiry(
+        admin.firestore(),
+        { id: 'project-1', ref: inquiryRef } as unknown as admin.firestore.DocumentSnapshot,
+        SCHEDULER_AUDIT_CONTEXT
+      );
+
+      expect(mockBatchUpdate).toHaveBeenCalledWith(
+        inquiryRef,
+        expect.objectContaining({ email: '', ipHash: null, notifications: null })
+      );
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Profile API Tests
+ *
+ * Tests the profile routes (see ../../api/profile.ts) to ensure:
+ * - The public profile is served, or 404 when none has been saved
+ * - Owners can replace the profile, which is trimmed and audited
+ * - Invalid profiles are rejected with per-field details
+ * - Only owners can change the profile
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import { mockBatchSet, mockStoredDocs, mockVerifyIdToken, resetMocks } from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+
+const profile = {
+  name: '  Jane Doe  ',
+  title: 'Software Engineer',
+  bio: 'Builds things for the web.',
+  email: 'jane@example.com',
+  linkedin: 'https://www.linkedin.com/in/jane',
+  github: 'https://github.com/jane',
+  resumeUrl: 'https://example.com/resume.pdf',
+  avatar: 'https://example.com/avatar.webp',
+  skills: ['TypeScript', ' ', 'React'],
+  experience: [
+    {
+      company: 'Acme',
+      position: 'Engineer',
+      location: 'Remote',
+      startDate: '2022-01',
+      endDate: 'present',
+      responsibilities: ['Shipped features'],
+    },
+  ],
+};
+
+describe('Profile API', () => {
+  beforeEach(() => {
+    resetMocks();
+    mockVerifyIdToken.mockResolvedValue({ uid: 'owner-uid', role: 'owner' });
+  });
+
+  it('should serve the saved profile, or 404 when none has been saved', async () => {
+    const missing = await request(app).get('/api/v1/profile');
+    mockStoredDocs.main = { ...profile, updatedAt: new Date('2024-02-01T00:00:00.000Z') };
+    const found = await request(app).get('/api/v1/profile');
+
+    expect(missing.status).toBe(404);
+    expect(missing.body).toMatchObject({ error: 'Profile not found', code: 'NOT_FOUND' });
+    expect(found.status).toBe(200);
+    expect(found.body.profile).toMatchObject({
+      email: 'jane@example.com',
+      skills: ['TypeScript', ' ', 'React'],
+      updatedAt: '2024-02-01T00:00:00.000Z',
+    });
+  });
+
+  it('should save a trimmed profile and record the change', async () => {
+    // Stands in for the document read back after the write
+    mockStoredDocs.main = { updatedAt: new Date('2024-02-01T00:00:00.000Z') };
+
+    const response = await request(app)
+      .put('/api/v1/admin/profile')
+      .set('Authorization', 'Bearer valid-token')
+      .send(profile);
+
+    expect(response.status).toBe(200);
+    expect(response.body.profile).toMatchObject({ name: 'Jane Doe', twitter: '', skills: ['TypeScript', 'React'] });
+    expect(mockBatchSet).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'main' }),
+      expect.objectContaining({ name: 'Jane Doe', email: 'jane@example.com' })
+    );
+    expect(mockBatchSet).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: 'profile.update', target: { type: 'profile', id: 'main' } })
+    );
+  });
+
+  it('should reject invalid profiles with the failing fields', async () => {
+    const response = await request(app)
+      .put('/api/v1/admin/profile')
+      .set('Authorization', 'Bearer valid-token')
+      .send({
+        ...profile,
+        name: ' ',
+        email: 'not-an-email',
+        linkedin: 'linkedin.com/in/jane',
+        experience: [{ ...profile.experience[0], startDate: '2023-05', endDate: '2023-01' }],
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('VALIDATION_ERROR');
+    expect(Object.keys(response.body.details).sort()).toEqual([
+      'email',
+      'experience[0].endDate',
+      'linkedin',
+      'name',
+    ]);
+    expect(mockBatchSet).not.toHaveBeenCalled();
+  });
+
+  it('should only let owners change the profile', async () => {
+    mockVerifyIdToken.mockResolvedValue({ uid: 'editor-uid', role: 'editor' });
+
+    const response = await request(app)
+      .put('/api/v1/admin/profile')
+      .set('Authorization', 'Bearer valid-token')
+      .send(profile);
+
+    expect(response.status).toBe(403);
+    expect(mockBatchSet).not.toHaveBeenCalled();
+  });
+});
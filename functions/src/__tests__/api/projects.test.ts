@@ -0,0 +1,165 @@
+/**
+ * Projects API Tests
+ *
+ * Tests the public project routes (see ../../api/projects.ts) to ensure:
+ * - Projects resolve by slug and previous slugs redirect
+ * - Listings are paginated with cursors, filtered and sorted
+ * - Drafts are only served with a valid, unexpired preview token
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import { mockStartAfter, mockVerifyIdToken, mockWhere, resetMocks } from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+import { createPreviewToken } from '../../utils/previewToken';
+
+describe('Projects API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Project Slugs', () => {
+    it('should resolve projects by slug', async () => {
+      const response = await request(app).get('/api/v1/projects/project-two');
+
+      expect(response.status).toBe(200);
+      expect(response.body.project).toMatchObject({ id: 'project-2', slug: 'project-two' });
+    });
+
+    it('should redirect previous slugs to the current slug', async () => {
+      const response = await request(app).get('/api/v1/projects/first-project');
+
+      expect(response.status).toBe(301);
+      expect(response.headers.location).toBe('project-one');
+    });
+  });
+
+  describe('Project Listing', () => {
+    it('should return a paginated response with a cursor for the next page', async () => {
+      const response = await request(app).get('/api/v1/projects?pageSize=2&sort=title');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ total: 3, page: 1, pageSize: 2, hasMore: true });
+      expect(response.body.data.map((project: { id: string }) => project.id)).toEqual([
+        'project-1',
+        'project-2',
+      ]);
+      expect(typeof response.body.nextCursor).toBe('string');
+    });
+
+    it('should continue after the cursor and advance the page number', async () => {
+      const first = await request(app).get('/api/v1/projects?pageSize=2&sort=title');
+      const second = await request(app)
+        .get('/api/v1/projects')
+        .query({ pageSize: 2, sort: 'title', cursor: first.body.nextCursor });
+
+      expect(second.status).toBe(200);
+      expect(second.body.page).toBe(2);
+      expect(mockStartAfter).toHaveBeenCalledWith('Project Two', 'project-2');
+    });
+
+    it('should apply category, technology and featured filters', async () => {
+      await request(app)
+        .get('/api/v1/projects')
+        .query({ category: 'Web', technology: 'TypeScript', featured: 'true' });
+
+      expect(mockWhere).toHaveBeenCalledWith('published', '==', true);
+      expect(mockWhere).toHaveBeenCalledWith('category', '==', 'Web');
+      expect(mockWhere).toHaveBeenCalledWith('technologies', 'array-contains', 'TypeScript');
+      expect(mockWhere).toHaveBeenCalledWith('featured', '==', true);
+    });
+
+    it('should reject unknown sorts and invalid page sizes', async () => {
+      const badSort = await request(app).get('/api/v1/projects?sort=popularity');
+      const badPageSize = await request(app).get('/api/v1/projects?pageSize=500');
+
+      expect(badSort.status).toBe(400);
+      expect(badSort.body.code).toBe('INVALID_REQUEST');
+      expect(badPageSize.status).toBe(400);
+    });
+
+    it('should reject cursors issued for a different sort', async () => {
+      const first = await request(app).get('/api/v1/projects?pageSize=2&sort=title');
+      const response = await request(app)
+        .get('/api/v1/projects')
+        .query({ pageSize: 2, sort: 'order', cursor: first.body.nextCursor });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid cursor');
+    });
+  });
+
+  describe('Draft Previews', () => {
+    beforeEach(() => {
+      process.env.PREVIEW_TOKEN_SECRET = 'test-preview-secret';
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', email: 'admin@example.com', role: 'owner' });
+    });
+
+    afterEach(() => {
+      delete process.env.PREVIEW_TOKEN_SECRET;
+    });
+
+    it('should serve a draft through a preview link without caching or indexing', async () => {
+      const hidden = await request(app).get('/api/v1/projects/draft-project');
+      expect(hidden.status).toBe(404);
+
+      const link = await request(app)
+        .post('/api/v1/admin/projects/draft-project/preview')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(link.status).toBe(201);
+      expect(link.body.url).toBe(`/projects/draft-project?preview=${link.body.token}`);
+      expect(Date.parse(link.body.expiresAt)).toBeGreaterThan(Date.now());
+
+      const response = await request(app)
+        .get('/api/v1/projects/draft-project')
+        .query({ preview: link.body.token });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        project: { id: 'draft-project', published: false },
+        preview: true,
+      });
+      expect(response.headers['cache-control']).toBe('private, no-store');
+      expect(response.headers['x-robots-tag']).toBe('noindex, nofollow');
+    });
+
+    it('should reject expired, tampered and mismatched preview tokens', async () => {
+      const { token } = createPreviewToken('draft-project');
+      const [payload, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ projectId: 'draft-project', exp: Date.now() + 60000 }))
+        .toString('base64url');
+
+      const rejected = [
+        createPreviewToken('draft-project', new Date('2020-01-01T00:00:00.000Z')).token,
+        `${forged}.${signature}`,
+        `${payload}.${signature.slice(1)}`,
+        createPreviewToken('project-1').token,
+        'not-a-token',
+      ];
+
+      for (const preview of rejected) {
+        const response = await request(app).get('/api/v1/projects/draft-project').query({ preview });
+
+        expect(response.status).toBe(403);
+        expect(response.body.code).toBe('INVALID_PREVIEW_TOKEN');
+      }
+    });
+
+    it('should not issue preview links without a signing secret', async () => {
+      delete process.env.PREVIEW_TOKEN_SECRET;
+
+      const response = await request(app)
+        .post('/api/v1/admin/projects/draft-project/preview')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(503);
+      expect(response.body.code).toBe('PREVIEW_UNAVAILABLE');
+    });
+  });
+});
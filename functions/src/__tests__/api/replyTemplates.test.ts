@@ -0,0 +1,61 @@
+/**
+ * Reply Templates API Tests
+ *
+ * Tests the reply template routes (see ../../api/replyTemplates.ts) to ensure:
+ * - Editors can create, update and delete templates
+ * - Template changes are recorded in the audit log
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import { mockBatchSet, mockVerifyIdToken, resetMocks } from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+
+describe('Reply Templates API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Reply Templates', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', email: 'admin@example.com', role: 'owner' });
+    });
+
+    it('should let editors manage reply templates and record the changes', async () => {
+      const invalid = await request(app)
+        .post('/api/v1/admin/reply-templates')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ name: 'Not available' });
+      const created = await request(app)
+        .post('/api/v1/admin/reply-templates')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ name: 'Not available', body: 'Hi {{name}}, thanks for reaching out.' });
+
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.details).toHaveProperty('body');
+      expect(created.status).toBe(201);
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ name: 'Not available', subject: '', body: 'Hi {{name}}, thanks for reaching out.' })
+      );
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ action: 'replyTemplate.create' })
+      );
+
+      mockVerifyIdToken.mockResolvedValue({ uid: 'viewer-uid', role: 'viewer' });
+
+      const viewer = await request(app)
+        .post('/api/v1/admin/reply-templates')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ name: 'Not available', body: 'Hi' });
+
+      expect(viewer.status).toBe(403);
+    });
+  });
+});
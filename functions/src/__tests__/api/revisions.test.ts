@@ -0,0 +1,89 @@
+/**
+ * Revisions API Tests
+ *
+ * Tests the project revision routes (see ../../api/revisions.ts) to ensure:
+ * - Project changes record revisions in the same batch as the change
+ * - Revisions can be restored, which also undeletes a project
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import { mockBatchCommit, mockBatchSet, mockVerifyIdToken, resetMocks } from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+
+describe('Revisions API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Project Revisions', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', email: 'admin@example.com', role: 'owner' });
+    });
+
+    it('should record who changed which fields in the same batch as the update', async () => {
+      const response = await request(app)
+        .put('/api/v1/admin/projects/project-2')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ description: 'New description' });
+
+      expect(response.status).toBe(200);
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-revision' }),
+        expect.objectContaining({
+          action: 'update',
+          actor: { uid: 'admin-uid', email: 'admin@example.com' },
+          changes: { description: { before: 'Short description', after: 'New description' } },
+        })
+      );
+      expect(mockBatchCommit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the last version in the delete revision', async () => {
+      const response = await request(app)
+        .delete('/api/v1/admin/projects/project-3')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-revision' }),
+        expect.objectContaining({
+          action: 'delete',
+          snapshot: expect.objectContaining({ title: 'Project Three', slug: 'project-three' }),
+        })
+      );
+    });
+
+    it('should undelete a project from a revision', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/projects/deleted-project/revisions/revision-1/restore')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Project undeleted successfully');
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'deleted-project' }),
+        expect.objectContaining({ title: 'Deleted Project', slug: 'deleted-project' })
+      );
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-revision' }),
+        expect.objectContaining({ action: 'restore', restoredFrom: 'revision-1' })
+      );
+    });
+
+    it('should return 404 for unknown revisions', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/projects/deleted-project/revisions/missing/restore')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Revision not found');
+      expect(mockBatchCommit).not.toHaveBeenCalled();
+    });
+  });
+});
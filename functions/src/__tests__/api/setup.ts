@@ -0,0 +1,275 @@
+/**
+ * API Test Setup
+ *
+ * Shared mocks for the route tests in this folder. Each test file mocks
+ * firebase-admin with `mockFirebaseAdmin` before importing the app:
+ *
+ * ```typescript
+ * import { resetMocks } from './setup';
+ *
+ * jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+ *
+ * import app from '../../app';
+ * ```
+ *
+ * Every collection is served from the same mocked projects, which also
+ * stand in for inquiries and media entries, so these tests don't require
+ * the Firebase Emulator to be running.
+ */
+
+import type { MemoryRateLimitStore } from '../../utils/rateLimit';
+
+export const mockVerifyIdToken = jest.fn();
+export const mockWhere = jest.fn();
+export const mockStartAfter = jest.fn();
+export const mockBatchSet = jest.fn();
+export const mockBatchUpdate = jest.fn();
+export const mockBatchDelete = jest.fn();
+export const mockBatchCommit = jest.fn();
+export const mockRecursiveDelete = jest.fn();
+export const mockAdd = jest.fn();
+export const mockFileSave = jest.fn();
+export const mockFileDelete = jest.fn();
+export const mockBucketFile = jest.fn(() => ({ save: mockFileSave, delete: mockFileDelete }));
+
+/**
+ * Builds a project document as returned by the mocked Firestore
+ */
+function mockProjectDoc(
+  id: string,
+  title: string,
+  slug: string,
+  slugHistory: string[] = [],
+  deletedAt: { toDate: () => Date } | null = null,
+  published = true
+) {
+  const data = {
+    title,
+    slug,
+    slugHistory,
+    description: 'Short description',
+    fullDescription: 'Full description',
+    thumbnail: 'https://example.com/thumb.png',
+    // Stored the way projects saved before gallery entries were
+    images: [`https://example.com/${slug}-screen.png`],
+    technologies: ['TypeScript'],
+    category: 'Web',
+    published,
+    order: 0,
+    deletedAt,
+    deletedBy: deletedAt ? 'admin@example.com' : null,
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+    // Lets project documents stand in for inquiries, which the mock serves from the same collection
+    timestamp: new Date('2024-01-03T00:00:00.000Z'),
+    email: `${slug}@example.com`,
+    // And for media entries; the trashed project still uses its own image
+    path: `projects/${slug}`,
+    url: `https://example.com/${slug}.webp`,
+    files: [`projects/${slug}/full.webp`, `projects/${slug}/full.avif`],
+    references: deletedAt ? [id] : [],
+  };
+  return {
+    id,
+    exists: true,
+    data: () => data,
+    get: (field: keyof typeof data) => data[field],
+  };
+}
+
+const mockProjectDocs = [
+  mockProjectDoc('project-1', 'Project One', 'project-one', ['first-project']),
+  mockProjectDoc('project-2', 'Project Two', 'project-two'),
+  mockProjectDoc('project-3', 'Project Three', 'project-three'),
+  mockProjectDoc('trashed-project', 'Trashed Project', 'trashed-project', [], {
+    toDate: () => new Date('2024-03-01T00:00:00.000Z'),
+  }),
+  mockProjectDoc('draft-project', 'Draft Project', 'draft-project', [], null, false),
+];
+
+/**
+ * Other documents read by ID, such as the profile at profile/main; tests
+ * add them as needed and they are removed before each test
+ */
+export const mockStoredDocs: Record<string, Record<string, unknown>> = {};
+
+/**
+ * Revisions of a project that has since been deleted, keyed by revision ID
+ */
+const mockDeletedProjectRevisions: Record<string, Record<string, unknown>> = {
+  'revision-1': {
+    action: 'delete',
+    actor: { uid: 'admin-uid', email: 'admin@example.com' },
+    changes: {},
+    snapshot: { title: 'Deleted Project', slug: 'deleted-project', slugHistory: [], published: true },
+  },
+};
+
+/**
+ * Builds the mocked firebase-admin module
+ */
+function createFirebaseAdminMock() {
+  let limit = Infinity;
+  let filters: [string, string, unknown][] = [];
+
+  const matchesFilters = (project: (typeof mockProjectDocs)[number]) =>
+    filters.every(([field, op, value]) => {
+      const fieldValue: unknown = project.get(field as never);
+      if (op === 'array-contains') {
+        return Array.isArray(fieldValue) && fieldValue.includes(value);
+      }
+      if (op === 'in') {
+        return (value as unknown[]).includes(fieldValue);
+      }
+      return op === '!=' ? fieldValue !== value : fieldValue === value;
+    });
+
+  const projectsQuery: any = {
+    where: jest.fn((field: string, op: string, value: unknown) => {
+      mockWhere(field, op, value);
+      filters.push([field, op, value]);
+      return projectsQuery;
+    }),
+    orderBy: jest.fn(() => projectsQuery),
+    offset: jest.fn(() => projectsQuery),
+    startAfter: jest.fn((...args: unknown[]) => {
+      mockStartAfter(...args);
+      return projectsQuery;
+    }),
+    limit: jest.fn((n: number) => {
+      limit = n;
+      return projectsQuery;
+    }),
+    count: jest.fn(() => ({
+      get: jest.fn(async () => ({
+        data: () => ({ count: mockProjectDocs.filter(matchesFilters).length }),
+      })),
+    })),
+    get: jest.fn(async () => {
+      const docs = mockProjectDocs
+        .filter(matchesFilters)
+        .slice(0, limit)
+        .map((doc) => ({ ...doc, ref: projectRef(doc.id) }));
+      limit = Infinity;
+      filters = [];
+      return { docs, empty: docs.length === 0 };
+    }),
+    doc: jest.fn((id = 'new-project') => projectRef(id)),
+    add: mockAdd,
+  };
+
+  /**
+   * Document reference for a project, with a revisions subcollection
+   */
+  function projectRef(id: string): any {
+    const ref: any = {
+      id,
+      get: jest.fn(async () => snapshotOf(ref)),
+      collection: jest.fn(() => ({
+        orderBy: jest.fn(function (this: unknown) {
+          return this;
+        }),
+        get: jest.fn(async () => ({ docs: [], empty: true })),
+        doc: jest.fn((revisionId = 'new-revision') => ({
+          id: revisionId,
+          get: jest.fn(async () => {
+            const data = id === 'deleted-project' ? mockDeletedProjectRevisions[revisionId] : undefined;
+            return {
+              id: revisionId,
+              exists: !!data,
+              data: () => data,
+              get: (field: string) => data?.[field],
+            };
+          }),
+        })),
+      })),
+    };
+    return ref;
+  }
+
+  /**
+   * Snapshot of a document reference, missing unless it is one of
+   * mockProjectDocs or mockStoredDocs
+   */
+  function snapshotOf(ref: { id: string }) {
+    const doc = mockProjectDocs.find((project) => project.id === ref.id);
+    if (doc) {
+      return { ...doc, ref };
+    }
+    const stored = mockStoredDocs[ref.id];
+    return {
+      id: ref.id,
+      exists: !!stored,
+      data: () => stored,
+      get: (field: string) => stored?.[field],
+      ref,
+    };
+  }
+
+  const mockFirestore = {
+    collection: jest.fn(() => projectsQuery),
+    getAll: jest.fn(async (...refs: { id: string }[]) => refs.map(snapshotOf)),
+    batch: jest.fn(() => ({
+      set: mockBatchSet,
+      update: mockBatchUpdate,
+      delete: mockBatchDelete,
+      commit: mockBatchCommit,
+    })),
+    recursiveDelete: mockRecursiveDelete,
+  };
+
+  class MockTimestamp {
+    static fromMillis = jest.fn((millis: number) => new Date(millis));
+    static fromDate = jest.fn((date: Date) => date);
+  }
+
+  return {
+    apps: [],
+    initializeApp: jest.fn(),
+    firestore: Object.assign(jest.fn(() => mockFirestore), {
+      FieldValue: {
+        serverTimestamp: jest.fn(() => new Date()),
+        arrayUnion: jest.fn((...values: unknown[]) => ({ arrayUnion: values })),
+        arrayRemove: jest.fn((...values: unknown[]) => ({ arrayRemove: values })),
+      },
+      FieldPath: {
+        documentId: jest.fn(() => '__name__'),
+      },
+      Timestamp: MockTimestamp,
+    }),
+    storage: jest.fn(() => ({
+      bucket: jest.fn(() => ({ name: 'test-bucket', file: mockBucketFile, getFiles: jest.fn(async () => [[]]) })),
+    })),
+    auth: jest.fn(() => ({
+      verifyIdToken: mockVerifyIdToken,
+    })),
+  };
+}
+
+export const mockFirebaseAdmin = createFirebaseAdminMock();
+
+// Keep rate limit buckets in memory; they are emptied before each test
+process.env.RATE_LIMIT_STORE = 'memory';
+
+/**
+ * Resets the mocks and empties the rate limit buckets; call before each test
+ */
+export function resetMocks(): void {
+  mockVerifyIdToken.mockReset();
+  mockWhere.mockClear();
+  mockStartAfter.mockClear();
+  mockBatchSet.mockClear();
+  mockBatchUpdate.mockClear();
+  mockBatchDelete.mockClear();
+  mockBatchCommit.mockClear();
+  mockRecursiveDelete.mockClear();
+  mockAdd.mockClear();
+  mockFileSave.mockClear();
+  mockBucketFile.mockClear();
+  mockFileDelete.mockClear();
+  Object.keys(mockStoredDocs).forEach((id) => delete mockStoredDocs[id]);
+
+  // Required here rather than imported: importing it would load firebase-admin before it is mocked
+  const { getRateLimitStore } = jest.requireActual<typeof import('../../utils/rateLimit')>('../../utils/rateLimit');
+  (getRateLimitStore() as MemoryRateLimitStore).clear();
+}
@@ -0,0 +1,64 @@
+/**
+ * Stats API Tests
+ *
+ * Tests the dashboard statistics route (see ../../api/stats.ts) to ensure:
+ * - Project and inquiry counts leave out the trash
+ * - Drafts are derived from the total and published counts
+ * - The inquiry trend covers the last 8 weeks, oldest first
+ * - Any admin role can read the statistics
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import { mockVerifyIdToken, mockWhere, resetMocks } from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+
+describe('Stats API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  it('should count projects and inquiries outside the trash', async () => {
+    mockVerifyIdToken.mockResolvedValue({ uid: 'viewer-uid', role: 'viewer' });
+
+    const response = await request(app)
+      .get('/api/v1/admin/stats')
+      .set('Authorization', 'Bearer valid-token');
+
+    expect(response.status).toBe(200);
+    const { projects, inquiries, generatedAt } = response.body;
+    expect(projects).toEqual({
+      total: expect.any(Number),
+      published: expect.any(Number),
+      draft: projects.total - projects.published,
+      featured: expect.any(Number),
+    });
+    expect(inquiries).toMatchObject({
+      total: expect.any(Number),
+      unread: expect.any(Number),
+      unreplied: expect.any(Number),
+    });
+    expect(mockWhere).toHaveBeenCalledWith('deletedAt', '==', null);
+    expect(mockWhere).toHaveBeenCalledWith('published', '==', true);
+    expect(mockWhere).toHaveBeenCalledWith('featured', '==', true);
+    expect(mockWhere).toHaveBeenCalledWith('read', '==', false);
+    expect(mockWhere).toHaveBeenCalledWith('replied', '==', false);
+
+    const weekStarts = inquiries.perWeek.map(({ weekStart }: { weekStart: string }) => Date.parse(weekStart));
+    expect(weekStarts).toHaveLength(8);
+    expect(weekStarts).toEqual([...weekStarts].sort((a, b) => a - b));
+    expect(Date.parse(generatedAt) - weekStarts[0]).toBe(8 * 7 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should require authentication', async () => {
+    const response = await request(app).get('/api/v1/admin/stats');
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('UNAUTHORIZED');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Trash API Tests
+ *
+ * Tests the trash routes (see ../../api/trash.ts) to ensure:
+ * - Deletes move items to the trash, hidden from public and admin routes
+ * - Trashed items can be restored or purged
+ * - Inquiry purges keep none of the sender's data in the audit log
+ *
+ * Firestore, Storage and Auth are mocked in ./setup, so these tests don't
+ * require the Firebase Emulator to be running.
+ */
+
+import request from 'supertest';
+import {
+  mockAdd,
+  mockBatchDelete,
+  mockBatchSet,
+  mockBatchUpdate,
+  mockRecursiveDelete,
+  mockVerifyIdToken,
+  mockWhere,
+  resetMocks,
+} from './setup';
+
+jest.mock('firebase-admin', () => jest.requireActual('./setup').mockFirebaseAdmin);
+
+import app from '../../app';
+
+describe('Trash API', () => {
+  beforeEach(() => {
+    resetMocks();
+  });
+
+  describe('Trash', () => {
+    beforeEach(() => {
+      mockVerifyIdToken.mockResolvedValue({ uid: 'admin-uid', email: 'admin@example.com', role: 'owner' });
+    });
+
+    it('should move deleted projects to the trash instead of deleting them', async () => {
+      const response = await request(app)
+        .delete('/api/v1/admin/projects/project-3')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Project moved to trash');
+      expect(mockBatchUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'project-3' }),
+        expect.objectContaining({ deletedAt: expect.any(Date), deletedBy: 'admin@example.com' })
+      );
+      expect(mockBatchDelete).not.toHaveBeenCalled();
+      expect(mockRecursiveDelete).not.toHaveBeenCalled();
+    });
+
+    it('should hide trashed projects from public and admin routes', async () => {
+      const listResponse = await request(app).get('/api/v1/projects');
+      expect(listResponse.body.data.map((project: { id: string }) => project.id)).not.toContain(
+        'trashed-project'
+      );
+      expect(mockWhere).toHaveBeenCalledWith('deletedAt', '==', null);
+
+      const getResponse = await request(app).get('/api/v1/projects/trashed-project');
+      expect(getResponse.status).toBe(404);
+
+      const updateResponse = await request(app)
+        .put('/api/v1/admin/projects/trashed-project')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ description: 'New description' });
+      expect(updateResponse.status).toBe(404);
+    });
+
+    it('should list trashed projects with their purge date', async () => {
+      const response = await request(app)
+        .get('/api/v1/admin/trash')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.projects).toEqual([
+        {
+          id: 'trashed-project',
+          title: 'Trashed Project',
+          slug: 'trashed-project',
+          deletedAt: '2024-03-01T00:00:00.000Z',
+          deletedBy: 'admin@example.com',
+          purgeAt: '2024-03-31T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should restore a trashed project and record the restore', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/trash/projects/trashed-project/restore')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(mockBatchUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'trashed-project' }),
+        expect.objectContaining({ deletedAt: null, deletedBy: null })
+      );
+      expect(mockBatchSet).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-revision' }),
+        expect.objectContaining({ action: 'restore' })
+      );
+    });
+
+    it('should only purge projects that are in the trash', async () => {
+      const liveResponse = await request(app)
+        .delete('/api/v1/admin/trash/projects/project-1')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(liveResponse.status).toBe(404);
+      expect(mockRecursiveDelete).not.toHaveBeenCalled();
+
+      const response = await request(app)
+        .delete('/api/v1/admin/trash/projects/trashed-project')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(mockRecursiveDelete).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'trashed-project' })
+      );
+    });
+
+    it('should purge trashed inquiries without keeping the sender\'s data in the audit log', async () => {
+      const response = await request(app)
+        .delete('/api/v1/admin/trash/inquiries/trashed-project')
+        .set('Authorization', 'Bearer valid-token');
+
+      expect(response.status).toBe(200);
+      expect(mockRecursiveDelete).toHaveBeenCalledWith(expect.objectContaining({ id: 'trashed-project' }));
+      // Earlier entries for the inquiry are looked up to be redacted
+      expect(mockWhere).toHaveBeenCalledWith('target.id', '==', 'trashed-project');
+      expect(mockAdd).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'inquiry.purge',
+          target: { type: 'inquiry', id: 'trashed-project' },
+          before: null,
+          after: null,
+        })
+      );
+      expect(JSON.stringify(mockAdd.mock.calls)).not.toContain('trashed-project@example.com');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Image Processing Tests
+ *
+ * Tests the checks applied to uploaded images before they are stored:
+ * - Types are sniffed from magic bytes
+ * - File names are reduced to safe slugs
+ * - Stored images are resized down, never enlarged, and follow the EXIF
+ *   orientation
+ */
+
+import sharp from 'sharp';
+import { MAX_IMAGE_WIDTH, processImage, sanitizeFileName, sniffImageType } from '../utils/images';
+
+describe('sniffImageType', () => {
+  it('should recognise JPEG, PNG and WebP signatures', () => {
+    expect(sniffImageType(Buffer.from([0xff, 0xd8, 0xff, 0xdb]))).toBe('image/jpeg');
+    expect(sniffImageType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    expect(sniffImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'ascii'))).toBe('image/webp');
+  });
+
+  it('should reject other files, including truncated signatures', () => {
+    expect(sniffImageType(Buffer.from('GIF89a'))).toBeNull();
+    expect(sniffImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+    expect(sniffImageType(Buffer.from([0xff, 0xd8]))).toBeNull();
+    expect(sniffImageType(Buffer.from('RIFF\0\0\0\0WAVE', 'ascii'))).toBeNull();
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('should keep a lowercase slug without directories or extension', () => {
+    expect(sanitizeFileName('../../etc/Passwd.png')).toBe('passwd');
+    expect(sanitizeFileName('C:\\Users\\me\\Café Menu (2).JPG')).toBe('cafe-menu-2');
+  });
+
+  it('should fall back to "image" when nothing usable is left', () => {
+    expect(sanitizeFileName('')).toBe('image');
+    expect(sanitizeFileName('.png')).toBe('image');
+    expect(sanitizeFileName('写真.jpg')).toBe('image');
+    expect(sanitizeFileName('.pdf', 'document')).toBe('document');
+  });
+
+  it('should limit the slug to 60 characters', () => {
+    const slug = sanitizeFileName(`${'a'.repeat(59)} b.png`);
+
+    expect(slug.length).toBeLessThanOrEqual(60);
+    expect(slug.endsWith('-')).toBe(false);
+  });
+});
+
+describe('processImage', () => {
+  it('should not enlarge small images and should swap dimensions for rotated photos', async () => {
+    const jpeg = await sharp({
+      create: { width: 400, height: 200, channels: 3, background: { r: 0, g: 0, b: 0 } },
+    }).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+
+    const result = await processImage(jpeg);
+
+    expect(result).toMatchObject({ width: 200, height: 400 });
+    expect(result.image).toMatchObject({ width: 200, height: 400, contentType: 'image/webp' });
+  });
+
+  it('should resize wide images down to MAX_IMAGE_WIDTH', async () => {
+    const png = await sharp({
+      create: { width: 2400, height: 1200, channels: 3, background: { r: 0, g: 0, b: 0 } },
+    }).png().toBuffer();
+
+    const result = await processImage(png);
+
+    expect(result).toMatchObject({ width: 2400, height: 1200 });
+    expect(result.image).toMatchObject({ width: MAX_IMAGE_WIDTH, height: 960, contentType: 'image/webp' });
+  });
+
+  it('should reject data that cannot be decoded', async () => {
+    await expect(processImage(Buffer.from([0xff, 0xd8, 0xff, 0x00]))).rejects.toThrow();
+  });
+});
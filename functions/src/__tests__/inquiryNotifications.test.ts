@@ -0,0 +1,162 @@
+/**
+ * Inquiry Notification Tests
+ *
+ * Tests the emails sent when an inquiry is stored, using the in-memory mail
+ * transport:
+ * - Owner notification with Reply-To set to the sender
+ * - Optional acknowledgement, never sent for flagged inquiries
+ * - Delivery records for sent, failed and skipped emails
+ * - One round of emails per inquiry, however often the trigger is delivered
+ * - Failed delivery records when the mail settings are invalid
+ * - Template rendering and escaping
+ */
+
+import { createMemoryTransport, MailTransport } from '../utils/mail';
+import { renderTemplate } from '../utils/mailTemplates';
+import { NotificationSettings, notifyInquiry, sendInquiryNotifications } from '../utils/inquiryNotifications';
+
+const inquiry = {
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  subject: 'Project collaboration',
+  message: 'Hello, I would like to work with you.',
+};
+
+const settings: NotificationSettings = {
+  ownerEmail: 'owner@example.com',
+  ownerName: 'Gaurav Bhatia',
+  acknowledge: true,
+};
+
+const now = new Date('2024-05-01T12:00:00Z');
+
+describe('sendInquiryNotifications', () => {
+  it('should notify the owner and acknowledge the sender', async () => {
+    const transport = createMemoryTransport();
+
+    const result = await sendInquiryNotifications(inquiry, transport, settings, now);
+
+    expect(transport.sent).toHaveLength(2);
+    expect(transport.sent[0]).toMatchObject({
+      to: 'owner@example.com',
+      replyTo: 'jane@example.com',
+      subject: 'New inquiry from Jane Doe: Project collaboration',
+    });
+    expect(transport.sent[0].text).toContain('Hello, I would like to work with you.');
+    expect(transport.sent[1]).toMatchObject({
+      to: 'jane@example.com',
+      replyTo: 'owner@example.com',
+      subject: 'Thanks for getting in touch, Jane Doe',
+    });
+    expect(transport.sent[1].text).toContain('Gaurav Bhatia');
+    expect(result).toEqual({
+      owner: { status: 'sent', transport: 'memory', messageId: 'memory-1', error: null, at: now },
+      acknowledgement: { status: 'sent', transport: 'memory', messageId: 'memory-2', error: null, at: now },
+    });
+  });
+
+  it('should not acknowledge flagged inquiries or when acknowledgement is off', async () => {
+    const transport = createMemoryTransport();
+
+    const flagged = await sendInquiryNotifications({ ...inquiry, flagged: true }, transport, settings, now);
+    const off = await sendInquiryNotifications(inquiry, transport, { ...settings, acknowledge: false }, now);
+
+    expect(transport.sent.map((message) => message.to)).toEqual(['owner@example.com', 'owner@example.com']);
+    expect(transport.sent[0].subject).toBe('[Possible spam] New inquiry from Jane Doe: Project collaboration');
+    expect(flagged.acknowledgement).toMatchObject({ status: 'skipped', error: 'Inquiry was flagged as possible spam' });
+    expect(off.acknowledgement).toMatchObject({ status: 'skipped', error: 'Auto-acknowledgement is off' });
+  });
+
+  it('should record failures without stopping the other email', async () => {
+    const transport: MailTransport = {
+      name: 'smtp',
+      send: jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Connection refused'))
+        .mockResolvedValueOnce({ messageId: 'abc' }),
+    };
+
+    const result = await sendInquiryNotifications(inquiry, transport, settings, now);
+
+    expect(result.owner).toMatchObject({ status: 'failed', transport: 'smtp', error: 'Connection refused' });
+    expect(result.acknowledgement).toMatchObject({ status: 'sent', messageId: 'abc' });
+  });
+
+  it('should skip every email when no transport is configured', async () => {
+    const result = await sendInquiryNotifications(inquiry, null, settings, now);
+
+    expect(result.owner).toMatchObject({ status: 'skipped', error: 'Email is not configured' });
+    expect(result.acknowledgement).toMatchObject({ status: 'skipped', error: 'Email is not configured' });
+  });
+});
+
+/**
+ * Builds a Firestore instance holding one inquiry, whose transactions run
+ * against the stored data
+ */
+function mockInquiryDb() {
+  const data: Record<string, unknown> = { ...inquiry };
+  const ref = {
+    id: 'inquiry-1',
+    update: jest.fn(async (updates: Record<string, unknown>) => {
+      Object.assign(data, updates);
+    }),
+  };
+  const db = {
+    collection: jest.fn(() => ({
+      doc: jest.fn(() => ({ get: async () => ({ data: () => ({ email: 'owner@example.com', name: 'Owner' }) }) })),
+    })),
+    runTransaction: jest.fn(async (run: (transaction: unknown) => Promise<unknown>) =>
+      run({
+        get: async () => ({ exists: true, get: (field: string) => data[field] }),
+        update: (_ref: unknown, updates: Record<string, unknown>) => Object.assign(data, updates),
+      })
+    ),
+  };
+  return { db: db as any, ref: ref as any, data };
+}
+
+describe('notifyInquiry', () => {
+  afterEach(() => {
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.MAIL_FROM;
+  });
+
+  it('should send the emails once when the trigger is delivered again', async () => {
+    process.env.MAIL_TRANSPORT = 'memory';
+    const { db, ref, data } = mockInquiryDb();
+
+    const first = await notifyInquiry(db, ref, inquiry, now);
+    const retry = await notifyInquiry(db, ref, inquiry, now);
+
+    expect(first?.owner).toMatchObject({ status: 'sent', transport: 'memory' });
+    expect(retry).toBeNull();
+    expect(ref.update).toHaveBeenCalledTimes(1);
+    expect(data.notificationsClaimedAt).toBeDefined();
+    expect(data.notifications).toEqual(first);
+  });
+
+  it('should record the emails as failed when the mail settings are invalid', async () => {
+    process.env.MAIL_TRANSPORT = 'smtp';
+    const { db, ref } = mockInquiryDb();
+
+    const result = await notifyInquiry(db, ref, inquiry, now);
+
+    const failed = { status: 'failed', transport: 'smtp', messageId: null, error: 'MAIL_FROM is not set', at: now };
+    expect(result).toEqual({ owner: failed, acknowledgement: failed });
+    expect(ref.update).toHaveBeenCalledWith({ notifications: result });
+  });
+});
+
+describe('renderTemplate', () => {
+  it('should escape values in HTML and strip line breaks from the subject', () => {
+    const rendered = renderTemplate(
+      { subject: 'Re: {{subject}}', text: '{{message}}', html: '<p>{{message}}</p>{{missing}}' },
+      { subject: 'Hi\r\nBcc: victim@example.com', message: '<script>alert("x")</script>' }
+    );
+
+    expect(rendered.subject).toBe('Re: Hi Bcc: victim@example.com');
+    expect(rendered.text).toBe('<script>alert("x")</script>');
+    expect(rendered.html).toBe('<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>');
+  });
+});
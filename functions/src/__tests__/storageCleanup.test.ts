@@ -0,0 +1,242 @@
+/**
+ * Storage Cleanup Tests
+ *
+ * Tests the scheduled Storage cleanup against an in-memory bucket:
+ * - Temp uploads used by a project move under its folder, with URLs rewritten
+ * - Unused uploads are deleted once older than the minimum age
+ * - Profile images, recent uploads and media library entries are kept
+ * - Dry runs report the same plan without changing anything
+ */
+
+const mockBatchUpdate = jest.fn();
+const mockBatchDelete = jest.fn();
+const mockBatchSet = jest.fn();
+const mockAuditAdd = jest.fn();
+
+jest.mock('firebase-admin', () => ({
+  firestore: Object.assign(
+    jest.fn(() => ({ collection: jest.fn(() => ({ doc: jest.fn(() => ({ id: 'audit-entry' })) })) })),
+    { FieldValue: { serverTimestamp: jest.fn(() => 'now') } }
+  ),
+}));
+
+import { runStorageCleanup, storagePathFromUrl, uploadPathOf } from '../utils/storageCleanup';
+import { SCHEDULER_AUDIT_CONTEXT } from '../utils/auditLog';
+
+const NOW = new Date('2024-06-02T12:00:00.000Z');
+const OLD = '2024-05-01T00:00:00.000Z';
+const RECENT = '2024-06-02T06:00:00.000Z';
+const BUCKET = 'test-bucket';
+
+const publicUrl = (path: string) => `https://storage.googleapis.com/${BUCKET}/${path}`;
+
+/**
+ * Builds a Firestore document snapshot
+ */
+function mockDoc(id: string, data: Record<string, unknown> | undefined) {
+  return {
+    id,
+    exists: !!data,
+    ref: { id },
+    data: () => data,
+    get: (field: string) => data?.[field],
+  };
+}
+
+/**
+ * Builds a Firestore instance serving the given projects, profile and media
+ */
+function mockDb(
+  projects: ReturnType<typeof mockDoc>[],
+  profile: Record<string, unknown> | undefined,
+  media: ReturnType<typeof mockDoc>[]
+) {
+  const collections: Record<string, ReturnType<typeof mockDoc>[]> = { projects, media };
+  return {
+    collection: jest.fn((name: string) => ({
+      get: jest.fn(async () => ({ docs: collections[name] || [] })),
+      doc: jest.fn(() => ({ get: jest.fn(async () => mockDoc('main', profile)) })),
+      add: mockAuditAdd,
+    })),
+    batch: jest.fn(() => ({
+      update: mockBatchUpdate,
+      delete: mockBatchDelete,
+      set: mockBatchSet,
+      commit: jest.fn(),
+    })),
+  } as any;
+}
+
+/**
+ * Builds a bucket holding the given objects, recording copies and deletes
+ */
+function mockBucket(objects: Record<string, string>) {
+  const copies: [string, string][] = [];
+  const deleted: string[] = [];
+
+  const bucket = {
+    name: BUCKET,
+    getFiles: jest.fn(async ({ prefix }: { prefix: string }) => [
+      Object.entries(objects)
+        .filter(([name]) => name.startsWith(prefix))
+        .map(([name, updated]) => ({ name, metadata: { size: '100', updated } })),
+    ]),
+    file: jest.fn((name: string) => ({
+      name,
+      copy: jest.fn(async (destination: { name: string }) => {
+        copies.push([name, destination.name]);
+        return [{ makePublic: jest.fn() }];
+      }),
+      delete: jest.fn(async () => {
+        deleted.push(name);
+      }),
+    })),
+  } as any;
+
+  return { bucket, copies, deleted };
+}
+
+describe('storagePathFromUrl', () => {
+  it('should read public and download URLs of the bucket only', () => {
+    expect(storagePathFromUrl(publicUrl('temp/1-a/full.webp'), BUCKET)).toBe('temp/1-a/full.webp');
+    expect(
+      storagePathFromUrl(
+        `https://firebasestorage.googleapis.com/v0/b/${BUCKET}/o/projects%2Ftemp%2Fthumbnail_1.png?alt=media&token=abc`,
+        BUCKET
+      )
+    ).toBe('projects/temp/thumbnail_1.png');
+    expect(storagePathFromUrl('https://storage.googleapis.com/other-bucket/temp/a.png', BUCKET)).toBeNull();
+    expect(storagePathFromUrl('https://example.com/a.png', BUCKET)).toBeNull();
+    expect(storagePathFromUrl('not a url', BUCKET)).toBeNull();
+  });
+
+  it('should group the variants of an upload', () => {
+    expect(uploadPathOf('projects/p1/1700-cover/thumb.avif')).toBe('projects/p1/1700-cover');
+    expect(uploadPathOf('projects/temp/thumbnail_1.png')).toBe('projects/temp/thumbnail_1.png');
+  });
+});
+
+describe('runStorageCleanup', () => {
+  const objects = {
+    'temp/1700-cover/full.webp': OLD,
+    'temp/1700-cover/thumb.avif': OLD,
+    'projects/temp/thumbnail_1.png': OLD,
+    'temp/1600-abandoned/full.webp': OLD,
+    'temp/1800-fresh/full.webp': RECENT,
+    'projects/1500-library/full.webp': OLD,
+    'projects/stray.png': OLD,
+    'profile/avatar.png': OLD,
+    'profile/old-avatar.png': OLD,
+  };
+
+  const coverUrl = publicUrl('temp/1700-cover/full.webp');
+  const legacyUrl = `https://firebasestorage.googleapis.com/v0/b/${BUCKET}/o/projects%2Ftemp%2Fthumbnail_1.png?alt=media&token=abc`;
+
+  const projects = () => [
+    mockDoc('p1', {
+      thumbnail: coverUrl,
+      images: [legacyUrl, 'https://example.com/external.png'],
+      imageMetadata: [{ url: coverUrl, width: 800, height: 600, color: '#000000', placeholder: 'data:image/webp;base64,' }],
+    }),
+    mockDoc('p2', { thumbnail: 'https://example.com/external.png', images: [] }),
+  ];
+
+  const media = () => [
+    mockDoc('cover-media', { path: 'temp/1700-cover', url: coverUrl, references: ['p1'] }),
+    mockDoc('abandoned-media', { path: 'temp/1600-abandoned', url: publicUrl('temp/1600-abandoned/full.webp'), references: [] }),
+    mockDoc('library-media', { path: 'projects/1500-library', url: publicUrl('projects/1500-library/full.webp'), references: [] }),
+  ];
+
+  const profile = { avatar: publicUrl('profile/avatar.png') };
+
+  beforeEach(() => {
+    mockBatchUpdate.mockClear();
+    mockBatchDelete.mockClear();
+    mockBatchSet.mockClear();
+    mockAuditAdd.mockClear();
+  });
+
+  it('should move temp uploads used by a project and rewrite their URLs', async () => {
+    const { bucket, copies, deleted } = mockBucket(objects);
+
+    const report = await runStorageCleanup(mockDb(projects(), profile, media()), bucket, SCHEDULER_AUDIT_CONTEXT, { now: NOW });
+
+    expect(report.moves).toEqual([
+      { from: 'projects/temp/thumbnail_1.png', to: 'projects/p1/thumbnail_1.png', files: 1, projects: ['p1'], mediaId: null },
+      { from: 'temp/1700-cover', to: 'projects/p1/1700-cover', files: 2, projects: ['p1'], mediaId: 'cover-media' },
+    ]);
+    expect(copies).toEqual(expect.arrayContaining([
+      ['temp/1700-cover/full.webp', 'projects/p1/1700-cover/full.webp'],
+      ['temp/1700-cover/thumb.avif', 'projects/p1/1700-cover/thumb.avif'],
+      ['projects/temp/thumbnail_1.png', 'projects/p1/thumbnail_1.png'],
+    ]));
+    expect(mockBatchUpdate).toHaveBeenCalledWith(
+      { id: 'p1' },
+      {
+        thumbnail: publicUrl('projects/p1/1700-cover/full.webp'),
+        imageMetadata: [expect.objectContaining({ url: publicUrl('projects/p1/1700-cover/full.webp') })],
+      }
+    );
+    expect(mockBatchUpdate).toHaveBeenCalledWith(
+      { id: 'p1' },
+      {
+        images: [
+          { url: publicUrl('projects/p1/thumbnail_1.png'), alt: '', caption: '', order: 0 },
+          { url: 'https://example.com/external.png', alt: '', caption: '', order: 1 },
+        ],
+      }
+    );
+    expect(mockBatchUpdate).toHaveBeenCalledWith(
+      { id: 'cover-media' },
+      {
+        path: 'projects/p1/1700-cover',
+        folder: 'projects',
+        files: ['projects/p1/1700-cover/full.webp', 'projects/p1/1700-cover/thumb.avif'],
+        url: publicUrl('projects/p1/1700-cover/full.webp'),
+      }
+    );
+    expect(mockBatchSet).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: 'image.move', target: { type: 'image', id: 'cover-media' } })
+    );
+    expect(deleted).toEqual(expect.arrayContaining(['temp/1700-cover/full.webp', 'projects/temp/thumbnail_1.png']));
+  });
+
+  it('should delete old unused uploads but keep profile images, recent uploads and library media', async () => {
+    const { bucket, deleted } = mockBucket(objects);
+
+    const report = await runStorageCleanup(mockDb(projects(), profile, media()), bucket, SCHEDULER_AUDIT_CONTEXT, { now: NOW });
+
+    expect(report.deletions.map(deletion => deletion.path)).toEqual([
+      'profile/old-avatar.png',
+      'projects/stray.png',
+      'temp/1600-abandoned',
+    ]);
+    expect(report.cutoff).toBe('2024-06-01T12:00:00.000Z');
+    expect(deleted).toEqual(expect.arrayContaining(['profile/old-avatar.png', 'projects/stray.png', 'temp/1600-abandoned/full.webp']));
+    expect(deleted).not.toEqual(expect.arrayContaining(['temp/1800-fresh/full.webp']));
+    expect(deleted).not.toEqual(expect.arrayContaining(['projects/1500-library/full.webp']));
+    expect(deleted).not.toEqual(expect.arrayContaining(['profile/avatar.png']));
+    expect(mockBatchDelete).toHaveBeenCalledWith({ id: 'abandoned-media' });
+    expect(mockAuditAdd).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'image.purge', target: { type: 'image', id: 'projects/stray.png' } })
+    );
+  });
+
+  it('should only report the plan in a dry run', async () => {
+    const { bucket, copies, deleted } = mockBucket(objects);
+
+    const report = await runStorageCleanup(mockDb(projects(), profile, media()), bucket, SCHEDULER_AUDIT_CONTEXT, {
+      dryRun: true,
+      now: NOW,
+    });
+
+    expect(report).toMatchObject({ dryRun: true, uploads: 8, remaining: { moves: 0, deletions: 0 } });
+    expect(report.moves).toHaveLength(2);
+    expect(report.deletions).toHaveLength(3);
+    expect(copies).toEqual([]);
+    expect(deleted).toEqual([]);
+    expect(mockBatchUpdate).not.toHaveBeenCalled();
+    expect(mockAuditAdd).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Trash Purge Tests
+ *
+ * Tests the scheduled purge of expired trash against an in-memory Firestore:
+ * - Expired inquiries are deleted with their reply thread
+ * - Their purge is audited without a copy of the inquiry, and earlier
+ *   audit entries for them are redacted
+ */
+
+const mockBatchUpdate = jest.fn();
+const mockBatchCommit = jest.fn();
+const mockAuditAdd = jest.fn();
+const mockRecursiveDelete = jest.fn();
+
+jest.mock('firebase-admin', () => ({
+  firestore: Object.assign(jest.fn(), {
+    FieldValue: { serverTimestamp: jest.fn(() => 'now') },
+    Timestamp: { fromMillis: jest.fn((millis: number) => new Date(millis)) },
+  }),
+}));
+
+import { purgeExpiredTrash } from '../utils/trash';
+
+const NOW = new Date('2024-06-01T00:00:00.000Z');
+
+const inquiry = {
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  message: 'Hello',
+  ipHash: 'abc123',
+  deletedAt: new Date('2024-04-01T00:00:00.000Z'),
+};
+
+/**
+ * Builds a Firestore document snapshot
+ */
+function mockDoc(id: string, data: Record<string, unknown>) {
+  return {
+    id,
+    exists: true,
+    ref: { id, collection: jest.fn() },
+    data: () => data,
+    get: (field: string) => data[field],
+  };
+}
+
+/**
+ * Builds a Firestore instance serving the given documents per collection
+ */
+function mockDb(collections: Record<string, ReturnType<typeof mockDoc>[]>) {
+  return {
+    collection: jest.fn((name: string) => {
+      const collectionQuery: any = {
+        where: jest.fn(() => collectionQuery),
+        get: jest.fn(async () => {
+          const docs = collections[name] || [];
+          return { docs, size: docs.length, empty: docs.length === 0 };
+        }),
+        add: mockAuditAdd,
+      };
+      return collectionQuery;
+    }),
+    batch: jest.fn(() => ({ update: mockBatchUpdate, commit: mockBatchCommit })),
+    recursiveDelete: mockRecursiveDelete,
+  } as any;
+}
+
+describe('purgeExpiredTrash', () => {
+  it('should purge expired inquiries without keeping their data in the audit log', async () => {
+    const earlierEntry = mockDoc('entry-1', { action: 'inquiry.delete', before: inquiry, after: inquiry });
+    const db = mockDb({
+      inquiries: [mockDoc('inquiry-1', inquiry)],
+      auditLog: [earlierEntry],
+    });
+
+    const purged = await purgeExpiredTrash(db, NOW);
+
+    expect(purged).toEqual({ projects: 0, inquiries: 1 });
+    expect(mockRecursiveDelete).toHaveBeenCalledWith(expect.objectContaining({ id: 'inquiry-1' }));
+    expect(mockBatchUpdate).toHaveBeenCalledWith(earlierEntry.ref, { before: null, after: null, redacted: true });
+    expect(mockBatchCommit).toHaveBeenCalled();
+    expect(mockAuditAdd).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'inquiry.purge',
+        target: { type: 'inquiry', id: 'inquiry-1' },
+        before: null,
+        after: null,
+      })
+    );
+    expect(JSON.stringify(mockAuditAdd.mock.calls)).not.toContain('jane@example.com');
+  });
+});
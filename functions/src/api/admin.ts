@@ -1,26 +1,53 @@
 /**
  * Admin API Endpoints
  * 
- * This module provides HTTP endpoints for admin operations on projects.
- * All endpoints require Firebase Authentication via Bearer token.
+ * This module provides route handlers for admin operations on projects.
+ * All handlers are mounted behind the requireAuth middleware (see ../router.ts),
+ * so they only run for requests carrying a valid Firebase Auth Bearer token.
  * 
  * Key responsibilities:
  * - Create new projects with validation
+ * - Generate unique URL slugs and keep a history of previous slugs
  * - Update existing projects with timestamp management
- * - Delete projects from Firestore
- * - Upload images to Firebase Storage
- * - Enforce authentication on all operations
+ * - Validate scheduled publish/unpublish times
+ * - Move deleted projects to the trash (see ../utils/trash)
+ * - Record a revision for every project change (see ../utils/revisions)
+ * - Record every change in the audit log (see ../utils/auditLog)
+ * - Reorder projects in a single batch write
+ * - Issue signed preview links for unpublished projects
+ * - Upload images to Firebase Storage as resized WebP, and the profile's
+ *   resume as a PDF, and index them in the media library
  * 
  * Dependencies:
  * - firebase-admin for Firestore and Storage access
- * - firebase-functions for HTTP endpoint creation
- * - ../middleware/auth for authentication verification
+ * - ../middleware/errors for async handling and API errors
+ * - ../middleware/auth for the role checks of upload folders
+ * - ../utils/slug for slug generation and uniqueness checks
+ * - ../utils/revisions for project revision history
+ * - ../utils/trash for soft delete
+ * - ../utils/publishSchedule for scheduled publishing fields
+ * - ../utils/previewToken for draft preview links
+ * - ../utils/auditLog for the admin audit log
+ * - ../utils/multipart, ../utils/images and ../utils/documents for uploads
+ * - ../utils/media for the media library index and its project references
+ * - ../utils/galleryImages for gallery image entries
  */
 
-import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { Response } from 'express';
-import { requireAuth } from '../middleware/auth';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { getRole, Role, ROLES } from '../middleware/auth';
+import { generateUniqueSlug, isSlugAvailable, isValidSlug } from '../utils/slug';
+import { addRevision } from '../utils/revisions';
+import { isTrashed, trashFields } from '../utils/trash';
+import { SCHEDULE_FIELDS, toScheduleTimestamp, validateSchedule } from '../utils/publishSchedule';
+import { createPreviewToken, isPreviewConfigured } from '../utils/previewToken';
+import { addAuditEntry, auditContext, recordAuditEntry } from '../utils/auditLog';
+import { parseMultipartFile } from '../utils/multipart';
+import { MAX_UPLOAD_BYTES, processImage, sanitizeFileName, sniffImageType } from '../utils/images';
+import { MAX_DOCUMENT_BYTES, sniffDocumentType } from '../utils/documents';
+import { pruneImageMetadata, validateImageMetadata } from '../utils/imageMetadata';
+import { addMediaReferenceUpdates, MEDIA_COLLECTION } from '../utils/media';
+import { GalleryImage, missingAltTextWarning, normalizeGalleryImages, validateGalleryImages } from '../utils/galleryImages';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -31,47 +58,117 @@ const db = admin.firestore();
 const storage = admin.storage();
 
 /**
- * Sets CORS headers for API responses
- * Allows cross-origin requests with authentication headers
+ * Firestore allows at most 500 writes in a single batch
  */
-function setCorsHeaders(res: Response): void {
-  res.set('Access-Control-Allow-Origin', '*');
-  res.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-}
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * Each reordered project takes two writes, the update and its revision,
+ * and the reorder as a whole takes one audit log entry
+ */
+const MAX_REORDER_PROJECTS = Math.floor((MAX_BATCH_WRITES - 1) / 2);
+
+const SLUG_FORMAT_MESSAGE = 'Slug must be lowercase letters and numbers separated by single hyphens';
 
 /**
- * Validates project data for required fields
+ * Text fields every project needs, with the message when one is missing or blank
+ */
+const REQUIRED_TEXT_FIELDS: [string, string][] = [
+  ['title', 'Title is required'],
+  ['description', 'Description is required'],
+  ['fullDescription', 'Full description is required'],
+  ['thumbnail', 'Thumbnail is required'],
+  ['category', 'Category is required'],
+];
+
+/**
+ * Validates project data for required fields and field types
  * Returns object with field-specific error messages
+ *
+ * @param data - Request body
+ * @param current - Stored project data, for partial updates: only the
+ *   fields provided are checked, with the same rules as on create
  */
-function validateProjectData(data: any): { [key: string]: string } {
+function validateProjectData(data: any, current?: admin.firestore.DocumentData): { [key: string]: string } {
   const errors: { [key: string]: string } = {};
+  const isChecked = (field: string) => current === undefined || data[field] !== undefined;
 
-  if (!data.title || typeof data.title !== 'string' || data.title.trim().length === 0) {
-    errors.title = 'Title is required';
+  REQUIRED_TEXT_FIELDS.forEach(([field, message]) => {
+    if (isChecked(field) && (typeof data[field] !== 'string' || data[field].trim().length === 0)) {
+      errors[field] = message;
+    }
+  });
+
+  if (
+    isChecked('technologies') &&
+    (!Array.isArray(data.technologies) || !data.technologies.every((tech: unknown) => typeof tech === 'string'))
+  ) {
+    errors.technologies = 'Technologies must be an array of strings';
   }
 
-  if (!data.description || typeof data.description !== 'string' || data.description.trim().length === 0) {
-    errors.description = 'Description is required';
+  (['liveUrl', 'githubUrl'] as const).forEach((field) => {
+    if (data[field] !== undefined && data[field] !== null && typeof data[field] !== 'string') {
+      errors[field] = `${field === 'liveUrl' ? 'Live' : 'GitHub'} URL must be a string`;
+    }
+  });
+
+  (['featured', 'published'] as const).forEach((field) => {
+    if (data[field] !== undefined && typeof data[field] !== 'boolean') {
+      errors[field] = `${field} must be a boolean`;
+    }
+  });
+
+  if (data.order !== undefined && !Number.isInteger(data.order)) {
+    errors.order = 'Order must be an integer';
   }
 
-  if (!data.fullDescription || typeof data.fullDescription !== 'string' || data.fullDescription.trim().length === 0) {
-    errors.fullDescription = 'Full description is required';
+  if (data.slug !== undefined && !isValidSlug(data.slug)) {
+    errors.slug = SLUG_FORMAT_MESSAGE;
   }
 
-  if (!data.thumbnail || typeof data.thumbnail !== 'string' || data.thumbnail.trim().length === 0) {
-    errors.thumbnail = 'Thumbnail is required';
+  const imagesError = validateGalleryImages(data.images);
+  if (imagesError) {
+    errors.images = imagesError;
   }
 
-  if (!data.category || typeof data.category !== 'string' || data.category.trim().length === 0) {
-    errors.category = 'Category is required';
+  const imageMetadataError = validateImageMetadata(data.imageMetadata);
+  if (imageMetadataError) {
+    errors.imageMetadata = imageMetadataError;
   }
 
-  if (!Array.isArray(data.technologies)) {
-    errors.technologies = 'Technologies must be an array';
+  return { ...errors, ...validateSchedule(data, current) };
+}
+
+/**
+ * Non-blocking problems with a saved project, returned as `warnings`
+ * Currently gallery images without alt text, which screen readers cannot describe.
+ */
+function projectWarnings(images: GalleryImage[]): { warnings?: { [key: string]: string } } {
+  const missingAltText = missingAltTextWarning(images);
+  return missingAltText ? { warnings: { images: missingAltText } } : {};
+}
+
+/**
+ * Resolves the slug to store for a project
+ * Uses the requested slug when one is given (rejecting it if another project
+ * has it now or had it before), otherwise generates a unique one from the title.
+ */
+async function resolveSlug(requested: unknown, title: string, projectId?: string): Promise<string> {
+  if (requested === undefined) {
+    return generateUniqueSlug(db, title, projectId);
   }
 
-  return errors;
+  if (!isValidSlug(requested)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', { slug: SLUG_FORMAT_MESSAGE });
+  }
+
+  if (!(await isSlugAvailable(db, requested, projectId))) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', {
+      slug: 'Slug is already in use by another project'
+    });
+  }
+
+  return requested;
 }
 
 /**
@@ -82,10 +179,14 @@ function validateProjectData(data: any): { [key: string]: string } {
  * 
  * Request body:
  * - title: string (required)
+ * - slug: string (optional, generated from the title when omitted)
  * - description: string (required)
  * - fullDescription: string (required)
  * - thumbnail: string (required)
- * - images: string[] (optional)
+ * - images: { url, alt?, caption?, order? }[] (optional, gallery images; plain
+ *   URLs are still accepted and stored as entries without alt text)
+ * - imageMetadata: { url, width, height, color, placeholder }[] (optional, from
+ *   the upload responses; entries for URLs the project does not use are dropped)
  * - technologies: string[] (required)
  * - category: string (required)
  * - liveUrl: string (optional)
@@ -93,90 +194,88 @@ function validateProjectData(data: any): { [key: string]: string } {
  * - featured: boolean (optional, default: false)
  * - published: boolean (optional, default: false)
  * - order: number (optional, default: 0)
+ * - publishAt: ISO 8601 string | null (optional, publishes a draft at that time)
+ * - unpublishAt: ISO 8601 string | null (optional, unpublishes at that time; after publishAt)
  * 
  * Response format:
- * - 201: { id: string, message: string }
+ * - 201: { id: string, slug: string, message: string, warnings?: { images: string } }
+ *   (warnings lists gallery images without alt text; the project is saved anyway)
  * - 400: { error: string, code: string, details?: object, timestamp: string }
  * - 401: { error: string, code: string, timestamp: string }
  * - 500: { error: string, code: string, timestamp: string }
  * 
  * Requirements: 11.1
  */
-export const createProject = functions.https.onRequest(async (req, res) => {
-  // Set CORS headers
-  setCorsHeaders(res);
-
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    res.status(204).send('');
-    return;
-  }
-
-  // Only allow POST method
-  if (req.method !== 'POST') {
-    res.status(405).json({
-      error: 'Method Not Allowed',
-      code: 'METHOD_NOT_ALLOWED',
-      timestamp: new Date().toISOString()
-    });
-    return;
-  }
-
-  // Verify authentication
-  const user = await requireAuth(req, res);
-  if (!user) return; // Response already sent by requireAuth
+export const createProject = asyncHandler(async (req, res) => {
+  const projectData = req.body || {};
 
-  try {
-    const projectData = req.body;
+  // Validate project data
+  const validationErrors = validateProjectData(projectData);
 
-    // Validate project data
-    const validationErrors = validateProjectData(projectData);
-
-    if (Object.keys(validationErrors).length > 0) {
-      res.status(400).json({
-        error: 'Validation failed',
-        code: 'VALIDATION_ERROR',
-        details: validationErrors,
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+  if (Object.keys(validationErrors).length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', validationErrors);
+  }
 
-    // Prepare project document with timestamps
-    const newProject = {
-      title: projectData.title.trim(),
-      description: projectData.description.trim(),
-      fullDescription: projectData.fullDescription.trim(),
-      thumbnail: projectData.thumbnail.trim(),
-      images: projectData.images || [],
-      technologies: projectData.technologies || [],
-      category: projectData.category.trim(),
-      liveUrl: projectData.liveUrl?.trim() || null,
-      githubUrl: projectData.githubUrl?.trim() || null,
-      featured: projectData.featured || false,
-      published: projectData.published || false,
-      order: projectData.order || 0,
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-    };
+  const title = projectData.title.trim();
+  const slug = await resolveSlug(projectData.slug, title);
+
+  const thumbnail = projectData.thumbnail.trim();
+  const images = normalizeGalleryImages(projectData.images);
+
+  // Prepare project document with timestamps
+  const newProject = {
+    title,
+    slug,
+    slugHistory: [],
+    description: projectData.description.trim(),
+    fullDescription: projectData.fullDescription.trim(),
+    thumbnail,
+    images,
+    imageMetadata: pruneImageMetadata(projectData.imageMetadata || [], [thumbnail, ...images.map(image => image.url)]),
+    technologies: projectData.technologies || [],
+    category: projectData.category.trim(),
+    liveUrl: projectData.liveUrl?.trim() || null,
+    githubUrl: projectData.githubUrl?.trim() || null,
+    featured: projectData.featured || false,
+    published: projectData.published || false,
+    order: projectData.order || 0,
+    publishAt: toScheduleTimestamp(projectData.publishAt),
+    unpublishAt: toScheduleTimestamp(projectData.unpublishAt),
+    deletedAt: null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  // Add project to Firestore together with its first revision
+  const docRef = db.collection('projects').doc();
+  const batch = db.batch();
+  batch.set(docRef, newProject);
+  addRevision(batch, docRef, 'create', req.user, null, newProject);
+  await addMediaReferenceUpdates(db, batch, docRef.id, null, newProject);
+  addAuditEntry(batch, auditContext(req), 'project.create', { type: 'project', id: docRef.id }, null, newProject);
+  await batch.commit();
+
+  // Return success response with document ID
+  res.status(201).json({
+    id: docRef.id,
+    slug,
+    message: 'Project created successfully',
+    ...projectWarnings(images),
+  });
+});
 
-    // Add project to Firestore
-    const docRef = await db.collection('projects').add(newProject);
+/**
+ * Loads a project document, throwing 404 if it does not exist or is in the trash
+ */
+async function getExistingProject(projectId: string): Promise<admin.firestore.DocumentSnapshot> {
+  const projectDoc = await db.collection('projects').doc(projectId).get();
 
-    // Return success response with document ID
-    res.status(201).json({
-      id: docRef.id,
-      message: 'Project created successfully'
-    });
-  } catch (error) {
-    console.error('Error creating project:', error);
-    res.status(500).json({
-      error: 'Failed to create project',
-      code: 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
-    });
+  if (!projectDoc.exists || isTrashed(projectDoc)) {
+    throw new ApiError(404, 'NOT_FOUND', 'Project not found');
   }
-});
+
+  return projectDoc;
+}
 
 /**
  * PUT /api/v1/admin/projects/:id
@@ -184,10 +283,16 @@ export const createProject = functions.https.onRequest(async (req, res) => {
  * Updates an existing project in Firestore.
  * Requires authentication via Bearer token.
  * 
- * Request body: Same fields as createProject (all optional for partial updates)
+ * Request body: Same fields as createProject (all optional for partial updates;
+ * the fields given are validated with the same rules)
+ * 
+ * The slug is regenerated when the title changes (or set from `slug` when
+ * given). The previous slug moves to `slugHistory` so old URLs redirect.
+ * Pass null for publishAt or unpublishAt to clear a schedule.
  * 
  * Response format:
- * - 200: { message: string }
+ * - 200: { message: string, warnings?: { images: string } }
+ *   (warnings lists gallery images without alt text, stored ones included)
  * - 400: { error: string, code: string, details?: object, timestamp: string }
  * - 401: { error: string, code: string, timestamp: string }
  * - 404: { error: string, code: string, timestamp: string }
@@ -195,332 +300,507 @@ export const createProject = functions.https.onRequest(async (req, res) => {
  * 
  * Requirements: 11.1
  */
-export const updateProject = functions.https.onRequest(async (req, res) => {
-  // Set CORS headers
-  setCorsHeaders(res);
-
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    res.status(204).send('');
-    return;
-  }
-
-  // Only allow PUT method
-  if (req.method !== 'PUT') {
-    res.status(405).json({
-      error: 'Method Not Allowed',
-      code: 'METHOD_NOT_ALLOWED',
-      timestamp: new Date().toISOString()
-    });
-    return;
-  }
+export const updateProject = asyncHandler(async (req, res) => {
+  // Check if project exists
+  const projectDoc = await getExistingProject(req.params.id);
 
-  // Verify authentication
-  const user = await requireAuth(req, res);
-  if (!user) return; // Response already sent by requireAuth
+  const updateData = req.body || {};
 
-  try {
-    // Extract project ID from URL path
-    const pathParts = req.path.split('/');
-    const projectId = pathParts[pathParts.length - 1];
-
-    if (!projectId) {
-      res.status(400).json({
-        error: 'Project ID is required',
-        code: 'INVALID_REQUEST',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+  // Provided fields follow the same rules as on create
+  const validationErrors = validateProjectData(updateData, projectDoc.data() || {});
 
-    // Check if project exists
-    const projectRef = db.collection('projects').doc(projectId);
-    const projectDoc = await projectRef.get();
-
-    if (!projectDoc.exists) {
-      res.status(404).json({
-        error: 'Project not found',
-        code: 'NOT_FOUND',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-
-    const updateData = req.body;
+  if (Object.keys(validationErrors).length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', validationErrors);
+  }
 
-    // Build update object with only provided fields
-    const updates: any = {
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-    };
+  // Build update object with only provided fields
+  const updates: any = {
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
 
-    // Only update fields that are provided
-    if (updateData.title !== undefined) {
-      updates.title = updateData.title.trim();
-    }
-    if (updateData.description !== undefined) {
-      updates.description = updateData.description.trim();
-    }
-    if (updateData.fullDescription !== undefined) {
-      updates.fullDescription = updateData.fullDescription.trim();
-    }
-    if (updateData.thumbnail !== undefined) {
-      updates.thumbnail = updateData.thumbnail.trim();
-    }
-    if (updateData.images !== undefined) {
-      updates.images = updateData.images;
-    }
-    if (updateData.technologies !== undefined) {
-      updates.technologies = updateData.technologies;
-    }
-    if (updateData.category !== undefined) {
-      updates.category = updateData.category.trim();
-    }
-    if (updateData.liveUrl !== undefined) {
-      updates.liveUrl = updateData.liveUrl?.trim() || null;
-    }
-    if (updateData.githubUrl !== undefined) {
-      updates.githubUrl = updateData.githubUrl?.trim() || null;
-    }
-    if (updateData.featured !== undefined) {
-      updates.featured = updateData.featured;
-    }
-    if (updateData.published !== undefined) {
-      updates.published = updateData.published;
+  // Only update fields that are provided
+  if (updateData.title !== undefined) {
+    updates.title = updateData.title.trim();
+  }
+  if (updateData.description !== undefined) {
+    updates.description = updateData.description.trim();
+  }
+  if (updateData.fullDescription !== undefined) {
+    updates.fullDescription = updateData.fullDescription.trim();
+  }
+  if (updateData.thumbnail !== undefined) {
+    updates.thumbnail = updateData.thumbnail.trim();
+  }
+  if (updateData.images !== undefined) {
+    updates.images = normalizeGalleryImages(updateData.images);
+  }
+  // Stored URL lists are read as entries too
+  const images: GalleryImage[] = updates.images ?? normalizeGalleryImages(projectDoc.get('images'));
+  // Metadata follows the images, so it is pruned whenever either changes
+  if (updateData.imageMetadata !== undefined || updates.thumbnail !== undefined || updates.images !== undefined) {
+    const thumbnail: string = updates.thumbnail ?? projectDoc.get('thumbnail');
+    updates.imageMetadata = pruneImageMetadata(
+      updateData.imageMetadata ?? projectDoc.get('imageMetadata') ?? [],
+      [thumbnail, ...images.map(image => image.url)]
+    );
+  }
+  if (updateData.technologies !== undefined) {
+    updates.technologies = updateData.technologies;
+  }
+  if (updateData.category !== undefined) {
+    updates.category = updateData.category.trim();
+  }
+  if (updateData.liveUrl !== undefined) {
+    updates.liveUrl = updateData.liveUrl?.trim() || null;
+  }
+  if (updateData.githubUrl !== undefined) {
+    updates.githubUrl = updateData.githubUrl?.trim() || null;
+  }
+  if (updateData.featured !== undefined) {
+    updates.featured = updateData.featured;
+  }
+  if (updateData.published !== undefined) {
+    updates.published = updateData.published;
+  }
+  if (updateData.order !== undefined) {
+    updates.order = updateData.order;
+  }
+  SCHEDULE_FIELDS.forEach((field) => {
+    if (updateData[field] !== undefined) {
+      updates[field] = toScheduleTimestamp(updateData[field]);
     }
-    if (updateData.order !== undefined) {
-      updates.order = updateData.order;
+  });
+
+  // Projects created before slugs existed get one on their next save
+  const currentSlug: string | undefined = projectDoc.get('slug');
+  const title: string = updates.title ?? projectDoc.get('title');
+
+  if (updateData.slug !== undefined || title !== projectDoc.get('title') || !currentSlug) {
+    const slug = await resolveSlug(updateData.slug, title, projectDoc.id);
+
+    if (slug !== currentSlug) {
+      // Renaming back to an old slug takes it out of the history again
+      const history: string[] = (projectDoc.get('slugHistory') || []).filter(
+        (previous: string) => previous !== slug
+      );
+      updates.slug = slug;
+      updates.slugHistory = currentSlug ? [...history, currentSlug] : history;
     }
-
-    // Update project in Firestore
-    await projectRef.update(updates);
-
-    // Return success response
-    res.status(200).json({
-      message: 'Project updated successfully'
-    });
-  } catch (error) {
-    console.error('Error updating project:', error);
-    res.status(500).json({
-      error: 'Failed to update project',
-      code: 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
-    });
   }
+
+  // Update project in Firestore and record what changed
+  const after = { ...projectDoc.data(), ...updates };
+  const batch = db.batch();
+  batch.update(projectDoc.ref, updates);
+  addRevision(batch, projectDoc.ref, 'update', req.user, projectDoc.data() || null, after);
+  await addMediaReferenceUpdates(db, batch, projectDoc.id, projectDoc.data(), after);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'project.update',
+    { type: 'project', id: projectDoc.id },
+    projectDoc.data() || null,
+    after
+  );
+  await batch.commit();
+
+  // Return success response
+  res.status(200).json({
+    message: 'Project updated successfully',
+    ...projectWarnings(images),
+  });
 });
 
 /**
  * DELETE /api/v1/admin/projects/:id
  * 
- * Deletes a project from Firestore.
+ * Moves a project to the trash by setting `deletedAt`, which hides it from
+ * public and admin listings. It can be restored from the trash (see ./trash)
+ * until it is purged, and the delete revision keeps the last version.
  * Requires authentication via Bearer token.
  * 
  * Response format:
  * - 200: { message: string }
- * - 400: { error: string, code: string, timestamp: string }
  * - 401: { error: string, code: string, timestamp: string }
  * - 404: { error: string, code: string, timestamp: string }
  * - 500: { error: string, code: string, timestamp: string }
  * 
  * Requirements: 11.1
  */
-export const deleteProject = functions.https.onRequest(async (req, res) => {
-  // Set CORS headers
-  setCorsHeaders(res);
-
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    res.status(204).send('');
-    return;
-  }
-
-  // Only allow DELETE method
-  if (req.method !== 'DELETE') {
-    res.status(405).json({
-      error: 'Method Not Allowed',
-      code: 'METHOD_NOT_ALLOWED',
-      timestamp: new Date().toISOString()
-    });
-    return;
+export const deleteProject = asyncHandler(async (req, res) => {
+  // Check if project exists
+  const projectDoc = await getExistingProject(req.params.id);
+
+  const updates = {
+    ...trashFields(req.user),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  // Soft delete: the document and its revisions stay until the trash is purged
+  const after = { ...projectDoc.data(), ...updates };
+  const batch = db.batch();
+  batch.update(projectDoc.ref, updates);
+  addRevision(batch, projectDoc.ref, 'delete', req.user, projectDoc.data() || null, after);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'project.delete',
+    { type: 'project', id: projectDoc.id },
+    projectDoc.data() || null,
+    after
+  );
+  await batch.commit();
+
+  // Return success response
+  res.status(200).json({
+    message: 'Project moved to trash'
+  });
+});
+
+/**
+ * POST /api/v1/admin/projects/:id/preview
+ * 
+ * Issues a signed preview link for a project, so a draft can be viewed on
+ * its real detail page before it is published. The link expires after
+ * PREVIEW_TOKEN_TTL_HOURS and is addressed by document ID, so it keeps
+ * working if the title (and slug) change in the meantime.
+ * Requires authentication via Bearer token.
+ * 
+ * Response format:
+ * - 201: { token: string, url: string, expiresAt: string }
+ *   url is the site path, e.g. /projects/<id>?preview=<token>
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 503: { error: string, code: string, timestamp: string } when PREVIEW_TOKEN_SECRET is not set
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const createPreviewLink = asyncHandler(async (req, res) => {
+  const projectDoc = await getExistingProject(req.params.id);
+
+  if (!isPreviewConfigured()) {
+    throw new ApiError(503, 'PREVIEW_UNAVAILABLE', 'Preview links are not configured');
   }
 
-  // Verify authentication
-  const user = await requireAuth(req, res);
-  if (!user) return; // Response already sent by requireAuth
+  const { token, expiresAt } = createPreviewToken(projectDoc.id);
 
-  try {
-    // Extract project ID from URL path
-    const pathParts = req.path.split('/');
-    const projectId = pathParts[pathParts.length - 1];
-
-    if (!projectId) {
-      res.status(400).json({
-        error: 'Project ID is required',
-        code: 'INVALID_REQUEST',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+  // Preview links expose a draft, so who shared one is worth knowing
+  await recordAuditEntry(db, auditContext(req), 'project.preview', { type: 'project', id: projectDoc.id }, null, {
+    expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+  });
 
-    // Check if project exists
-    const projectRef = db.collection('projects').doc(projectId);
-    const projectDoc = await projectRef.get();
+  res.status(201).json({
+    token,
+    url: `/projects/${encodeURIComponent(projectDoc.id)}?preview=${token}`,
+    expiresAt: expiresAt.toISOString(),
+  });
+});
 
-    if (!projectDoc.exists) {
-      res.status(404).json({
-        error: 'Project not found',
-        code: 'NOT_FOUND',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+/**
+ * PUT /api/v1/admin/projects/reorder
+ * 
+ * Persists a new manual ordering for projects.
+ * Each listed project gets its index in the array as its `order` value,
+ * written in a single Firestore batch so the reorder applies atomically.
+ * Projects whose position changed also get an update revision, and the
+ * reorder is recorded as one audit log entry.
+ * Requires authentication via Bearer token.
+ * 
+ * Request body:
+ * - projectIds: string[] (required, unique project IDs in display order, max 249)
+ * 
+ * Response format:
+ * - 200: { message: string }
+ * - 400: { error: string, code: string, details?: object, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, details?: object, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const reorderProjects = asyncHandler(async (req, res) => {
+  const { projectIds } = req.body || {};
+
+  if (
+    !Array.isArray(projectIds) ||
+    projectIds.length === 0 ||
+    !projectIds.every((id) => typeof id === 'string' && id.trim().length > 0)
+  ) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', {
+      projectIds: 'projectIds must be a non-empty array of project IDs'
+    });
+  }
 
-    // Delete project from Firestore
-    await projectRef.delete();
+  if (new Set(projectIds).size !== projectIds.length) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', {
+      projectIds: 'projectIds must not contain duplicates'
+    });
+  }
 
-    // Return success response
-    res.status(200).json({
-      message: 'Project deleted successfully'
+  if (projectIds.length > MAX_REORDER_PROJECTS) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', {
+      projectIds: `At most ${MAX_REORDER_PROJECTS} projects can be reordered at once`
     });
-  } catch (error) {
-    console.error('Error deleting project:', error);
-    res.status(500).json({
-      error: 'Failed to delete project',
-      code: 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
+  }
+
+  // Check every project exists up front; a batch update on a missing document fails the whole batch
+  const projectRefs = projectIds.map((id: string) => db.collection('projects').doc(id));
+  const projectDocs = await db.getAll(...projectRefs);
+  const missingIds = projectDocs
+    .filter((doc) => !doc.exists || isTrashed(doc))
+    .map((doc) => doc.id);
+
+  if (missingIds.length > 0) {
+    throw new ApiError(404, 'NOT_FOUND', 'Project not found', {
+      projectIds: missingIds.join(', ')
     });
   }
+
+  // Previous order of the submitted projects, for the audit log
+  const previousOrder = [...projectDocs]
+    .sort((a, b) => (a.get('order') || 0) - (b.get('order') || 0))
+    .map((doc) => doc.id);
+
+  const batch = db.batch();
+  projectDocs.forEach((projectDoc, index) => {
+    const updates = {
+      order: index,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    batch.update(projectDoc.ref, updates);
+
+    if (projectDoc.get('order') !== index) {
+      addRevision(batch, projectDoc.ref, 'update', req.user, projectDoc.data() || null, {
+        ...projectDoc.data(),
+        ...updates,
+      });
+    }
+  });
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'project.reorder',
+    { type: 'project', id: null },
+    { projectIds: previousOrder },
+    { projectIds }
+  );
+  await batch.commit();
+
+  res.status(200).json({
+    message: 'Projects reordered successfully'
+  });
 });
 
+/**
+ * Storage folders the upload endpoint accepts, with the least role allowed
+ * to upload to each; profile changes are owner-only (see ../router.ts)
+ */
+const UPLOAD_FOLDER_ROLES: Record<string, Role> = {
+  projects: 'editor',
+  profile: 'owner',
+  temp: 'editor',
+};
+
+const UPLOAD_FOLDERS = Object.keys(UPLOAD_FOLDER_ROLES);
+
 /**
  * POST /api/v1/admin/upload
  * 
- * Uploads an image file to Firebase Storage.
+ * Uploads an image to Firebase Storage as a resized WebP.
  * Requires authentication via Bearer token.
  * 
- * This endpoint expects multipart/form-data with a file field.
- * Validates file type (JPEG, PNG, WebP) and size (max 5MB).
- * Stores images in the projects folder with unique filenames.
+ * The file's type is sniffed from its contents (JPEG, PNG or WebP), its name
+ * reduced to a safe slug, and the image resized down to MAX_IMAGE_WIDTH and
+ * stored under `<folder>/<timestamp>-<name>/full.webp`. The original file is
+ * not kept; smaller and AVIF copies come from the Next.js image optimizer.
+ * See ../utils/images.
+ * 
+ * The upload is indexed in the media library (see ../utils/media), whose
+ * entry ID is returned as `id`.
  * 
  * Request body (multipart/form-data):
- * - file: File (required, image/jpeg, image/png, or image/webp, max 5MB)
- * - folder: string (optional, default: 'projects', can be 'profile' or 'temp')
+ * - file: File (required, JPEG, PNG or WebP, max 5MB)
+ * - folder: string (optional, default: 'projects', can be 'profile' (owner
+ *   role only) or 'temp')
  * 
  * Response format:
- * - 200: { url: string, message: string }
+ * - 200: { id: string, url: string, width: number, height: number, color: string,
+ *   placeholder: string, message: string }
+ *   (url is the stored WebP; color the dominant colour as #rrggbb;
+ *   placeholder a blurred data: URL)
  * - 400: { error: string, code: string, timestamp: string }
  * - 401: { error: string, code: string, timestamp: string }
+ * - 403: { error: string, code: string, timestamp: string } (folder needs a higher role)
  * - 500: { error: string, code: string, timestamp: string }
  * 
  * Requirements: 11.3
  */
-export const uploadImage = functions.https.onRequest(async (req, res) => {
-  // Set CORS headers
-  setCorsHeaders(res);
-
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    res.status(204).send('');
-    return;
-  }
-
-  // Only allow POST method
-  if (req.method !== 'POST') {
-    res.status(405).json({
-      error: 'Method Not Allowed',
-      code: 'METHOD_NOT_ALLOWED',
-      timestamp: new Date().toISOString()
-    });
-    return;
+export const uploadImage = asyncHandler(async (req, res) => {
+  const { fileName, buffer, fields } = await parseMultipartFile(req, 'file', MAX_UPLOAD_BYTES);
+
+  // Only the file's own bytes are trusted for its type
+  const contentType = sniffImageType(buffer);
+  if (!contentType) {
+    throw new ApiError(
+      400,
+      'INVALID_FILE_TYPE',
+      'Invalid file type. Only JPEG, PNG, and WebP images are allowed.'
+    );
   }
 
-  // Verify authentication
-  const user = await requireAuth(req, res);
-  if (!user) return; // Response already sent by requireAuth
+  // Determine storage folder (default: projects)
+  const storageFolder = fields.folder || 'projects';
+  if (!UPLOAD_FOLDERS.includes(storageFolder)) {
+    throw new ApiError(400, 'INVALID_FOLDER', `Invalid folder. Allowed folders: ${UPLOAD_FOLDERS.join(', ')}`);
+  }
+  const minimumRole = UPLOAD_FOLDER_ROLES[storageFolder];
+  const role = getRole(req.user);
+  if (!role || ROLES.indexOf(role) < ROLES.indexOf(minimumRole)) {
+    throw new ApiError(403, 'FORBIDDEN', `Uploading to ${storageFolder} requires the ${minimumRole} role`);
+  }
 
+  let processed: Awaited<ReturnType<typeof processImage>>;
   try {
-    // Note: Firebase Functions v2 doesn't support multipart/form-data parsing by default
-    // This is a simplified implementation that expects base64-encoded image data
-    // In production, consider using busboy or similar library for proper multipart handling
-    
-    const { fileData, fileName, mimeType, folder } = req.body;
-
-    if (!fileData || !fileName || !mimeType) {
-      res.status(400).json({
-        error: 'Missing required fields: fileData, fileName, mimeType',
-        code: 'INVALID_REQUEST',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-
-    // Validate file type (JPEG, PNG, WebP only)
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
-    if (!allowedTypes.includes(mimeType)) {
-      res.status(400).json({
-        error: 'Invalid file type. Only JPEG, PNG, and WebP images are allowed.',
-        code: 'INVALID_FILE_TYPE',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-
-    // Decode base64 file data
-    const buffer = Buffer.from(fileData, 'base64');
-
-    // Validate file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024; // 5MB in bytes
-    if (buffer.length > maxSize) {
-      res.status(400).json({
-        error: 'File size exceeds 5MB limit',
-        code: 'FILE_TOO_LARGE',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-
-    // Determine storage folder (default: projects)
-    const storageFolder = folder || 'projects';
-    const allowedFolders = ['projects', 'profile', 'temp'];
-    if (!allowedFolders.includes(storageFolder)) {
-      res.status(400).json({
-        error: 'Invalid folder. Allowed folders: projects, profile, temp',
-        code: 'INVALID_FOLDER',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+    processed = await processImage(buffer);
+  } catch {
+    throw new ApiError(400, 'INVALID_IMAGE', 'The image could not be read. It may be corrupt or too large.');
+  }
 
-    // Generate unique filename with timestamp to prevent collisions
-    const timestamp = Date.now();
-    const uniqueFileName = `${timestamp}-${fileName}`;
-    const storagePath = `${storageFolder}/${uniqueFileName}`;
-
-    // Get storage bucket
-    const bucket = storage.bucket();
-    const file = bucket.file(storagePath);
-
-    // Upload file to Firebase Storage
-    await file.save(buffer, {
-      metadata: {
-        contentType: mimeType,
-      },
-      public: true, // Make file publicly accessible
-    });
+  // Timestamp prefix prevents collisions between uploads with the same name
+  const basePath = `${storageFolder}/${Date.now()}-${sanitizeFileName(fileName)}`;
+  const bucket = storage.bucket();
+  const publicUrl = (path: string) => `https://storage.googleapis.com/${bucket.name}/${path}`;
+
+  const path = `${basePath}/full.webp`;
+  await bucket.file(path).save(processed.image.buffer, {
+    metadata: {
+      contentType: processed.image.contentType,
+      // Paths are unique per upload, so the file never changes
+      cacheControl: 'public, max-age=31536000, immutable',
+    },
+    public: true, // Make file publicly accessible
+  });
+
+  const url = publicUrl(path);
+
+  const mediaRef = db.collection(MEDIA_COLLECTION).doc();
+  const mediaEntry = {
+    path: basePath,
+    folder: storageFolder,
+    files: [path],
+    url,
+    name: sanitizeFileName(fileName),
+    contentType,
+    size: processed.image.buffer.length,
+    width: processed.width,
+    height: processed.height,
+    color: processed.color,
+    placeholder: processed.placeholder,
+    alt: '',
+    references: [],
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    createdBy: req.user?.email ?? req.user?.uid ?? null,
+  };
+
+  const batch = db.batch();
+  batch.set(mediaRef, mediaEntry);
+  addAuditEntry(batch, auditContext(req), 'image.upload', { type: 'image', id: mediaRef.id }, null, {
+    path: basePath,
+    url,
+    contentType,
+    size: buffer.length,
+    width: processed.width,
+    height: processed.height,
+  });
+  await batch.commit();
+
+  // Return success response with the image URL and metadata
+  res.status(200).json({
+    id: mediaRef.id,
+    url,
+    width: processed.width,
+    height: processed.height,
+    color: processed.color,
+    placeholder: processed.placeholder,
+    message: 'Image uploaded successfully'
+  });
+});
 
-    // Get public URL for the uploaded file
-    const publicUrl = `https://storage.googleapis.com/${bucket.name}/${storagePath}`;
+/**
+ * POST /api/v1/admin/upload/document
+ * 
+ * Uploads a PDF (the profile's resume) to Firebase Storage.
+ * Requires authentication via Bearer token and the owner role, since only
+ * the profile uses documents.
+ * 
+ * The file's type is sniffed from its contents and its name reduced to a
+ * safe slug. The file is stored as uploaded under
+ * `profile/<timestamp>-<name>.pdf` and indexed in the media library (see
+ * ../utils/media), whose entry ID is returned as `id`.
+ * 
+ * Request body (multipart/form-data):
+ * - file: File (required, PDF, max 5MB)
+ * 
+ * Response format:
+ * - 200: { id: string, url: string, message: string }
+ * - 400: { error: string, code: string, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 403: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const uploadDocument = asyncHandler(async (req, res) => {
+  const { fileName, buffer } = await parseMultipartFile(req, 'file', MAX_DOCUMENT_BYTES);
 
-    // Return success response with file URL
-    res.status(200).json({
-      url: publicUrl,
-      message: 'Image uploaded successfully'
-    });
-  } catch (error) {
-    console.error('Error uploading image:', error);
-    res.status(500).json({
-      error: 'Failed to upload image',
-      code: 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
-    });
+  // Only the file's own bytes are trusted for its type
+  const contentType = sniffDocumentType(buffer);
+  if (!contentType) {
+    throw new ApiError(400, 'INVALID_FILE_TYPE', 'Invalid file type. Only PDF documents are allowed.');
   }
+
+  // Timestamp prefix prevents collisions between uploads with the same name
+  const name = sanitizeFileName(fileName, 'document');
+  const path = `profile/${Date.now()}-${name}.pdf`;
+  const bucket = storage.bucket();
+  await bucket.file(path).save(buffer, {
+    metadata: {
+      contentType,
+      // Paths are unique per upload, so the file never changes
+      cacheControl: 'public, max-age=31536000, immutable',
+    },
+    public: true, // Make file publicly accessible
+  });
+
+  const url = `https://storage.googleapis.com/${bucket.name}/${path}`;
+
+  const mediaRef = db.collection(MEDIA_COLLECTION).doc();
+  const mediaEntry = {
+    path,
+    folder: 'profile',
+    files: [path],
+    url,
+    name,
+    contentType,
+    size: buffer.length,
+    width: null,
+    height: null,
+    color: null,
+    placeholder: null,
+    alt: '',
+    references: [],
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    createdBy: req.user?.email ?? req.user?.uid ?? null,
+  };
+
+  const batch = db.batch();
+  batch.set(mediaRef, mediaEntry);
+  addAuditEntry(batch, auditContext(req), 'document.upload', { type: 'document', id: mediaRef.id }, null, {
+    path,
+    url,
+    contentType,
+    size: buffer.length,
+  });
+  await batch.commit();
+
+  res.status(200).json({
+    id: mediaRef.id,
+    url,
+    message: 'Document uploaded successfully'
+  });
 });
@@ -0,0 +1,135 @@
+/**
+ * Admin Audit Log API Endpoint
+ *
+ * This module provides the route handler for browsing the audit log written
+ * by the admin handlers and scheduled functions (see ../utils/auditLog).
+ * It is mounted behind the requireAuth middleware and needs the owner role
+ * (see ../router.ts). The log is read-only: there are no endpoints to edit
+ * or delete entries.
+ *
+ * Key responsibilities:
+ * - List audit entries, newest first, with page-based pagination
+ * - Filter by action, target type, target ID and actor email
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/auditLog for the collection name and allowed filter values
+ * - ../utils/queryParams for query string parsing
+ * - ../utils/revisions for serializing before/after snapshots
+ */
+
+import * as admin from 'firebase-admin';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { AUDIT_ACTIONS, AUDIT_COLLECTION, AUDIT_TARGET_TYPES } from '../utils/auditLog';
+import { parsePositiveInt, parseStringParam } from '../utils/queryParams';
+import { serializeRevisionValue } from '../utils/revisions';
+
+// Initialize Firebase Admin if not already initialized
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Maps an audit entry document to its JSON representation
+ */
+function serializeAuditEntry(doc: admin.firestore.DocumentSnapshot) {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    action: data.action,
+    actor: data.actor || { uid: null, email: null },
+    target: data.target || { type: null, id: null },
+    before: serializeRevisionValue(data.before ?? null),
+    after: serializeRevisionValue(data.after ?? null),
+    ip: data.ip ?? null,
+    redacted: data.redacted === true,
+    createdAt: serializeRevisionValue(data.createdAt),
+  };
+}
+
+/**
+ * GET /api/v1/admin/audit-log
+ *
+ * Lists audit log entries ordered by time (newest first).
+ * Requires authentication via Bearer token and the owner role.
+ *
+ * Query parameters:
+ * - page: number (optional, 1-based, default: 1)
+ * - pageSize: number (optional, default: 50, max: 100)
+ * - action: string (optional, e.g. "project.update")
+ * - targetType: "project" | "inquiry" | "profile" | "image" | "document" | "replyTemplate" (optional)
+ * - targetId: string (optional, document ID or storage path)
+ * - actor: string (optional, email of the admin who made the change)
+ *
+ * Response format:
+ * - 200: { data: AuditLogEntry[], total: number, page: number, pageSize: number, hasMore: boolean }
+ * - 400: { error: string, code: string, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 403: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const listAuditLog = asyncHandler(async (req, res) => {
+  const page = parsePositiveInt(req.query.page, 1);
+  const pageSize = parsePositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE);
+  const action = parseStringParam(req.query.action);
+  const targetType = parseStringParam(req.query.targetType);
+  const targetId = parseStringParam(req.query.targetId);
+  const actor = parseStringParam(req.query.actor);
+
+  if (
+    page === null ||
+    pageSize === null ||
+    pageSize > MAX_PAGE_SIZE ||
+    targetId === null ||
+    actor === null ||
+    (action !== undefined && !(AUDIT_ACTIONS as readonly (string | null)[]).includes(action)) ||
+    (targetType !== undefined && !(AUDIT_TARGET_TYPES as readonly (string | null)[]).includes(targetType))
+  ) {
+    throw new ApiError(
+      400,
+      'INVALID_REQUEST',
+      `Invalid query parameters. page and pageSize must be positive integers (pageSize <= ${MAX_PAGE_SIZE}), action must be one of ${AUDIT_ACTIONS.join(', ')} and targetType one of ${AUDIT_TARGET_TYPES.join(', ')}.`
+    );
+  }
+
+  // Each filter has a composite index with createdAt (see firestore.indexes.json);
+  // Firestore merges them when filters are combined
+  let auditQuery: admin.firestore.Query = db.collection(AUDIT_COLLECTION);
+
+  if (action !== undefined) {
+    auditQuery = auditQuery.where('action', '==', action);
+  }
+  if (targetType !== undefined) {
+    auditQuery = auditQuery.where('target.type', '==', targetType);
+  }
+  if (targetId !== undefined) {
+    auditQuery = auditQuery.where('target.id', '==', targetId);
+  }
+  if (actor !== undefined) {
+    auditQuery = auditQuery.where('actor.email', '==', actor);
+  }
+
+  // Aggregate count is billed as a single read regardless of result size
+  const countSnapshot = await auditQuery.count().get();
+  const total = countSnapshot.data().count;
+
+  const entriesSnapshot = await auditQuery
+    .orderBy('createdAt', 'desc')
+    .offset((page - 1) * pageSize)
+    .limit(pageSize)
+    .get();
+
+  res.status(200).json({
+    data: entriesSnapshot.docs.map(serializeAuditEntry),
+    total,
+    page,
+    pageSize,
+    hasMore: page * pageSize < total,
+  });
+});
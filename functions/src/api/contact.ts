@@ -1,23 +1,50 @@
 /**
  * Contact API Endpoint
  * 
- * This module provides HTTP endpoint for handling contact form submissions.
- * It validates input data, checks rate limiting, and stores inquiries in Firestore.
+ * This module provides the route handler for contact form submissions.
+ * It validates input data, checks rate limiting and spam signals, and stores
+ * inquiries in Firestore.
+ * The handler is mounted on the API router (see ../router.ts) behind the
+ * contact rate limit (3 submissions per hour per IP, see ../utils/rateLimit).
  * 
  * Key responsibilities:
- * - Validate contact form data (required fields, email format)
- * - Enforce rate limiting (3 submissions per hour per IP)
- * - Store valid inquiries in Firestore
+ * - Validate contact form data (required fields, email format, inquiry
+ *   type and its optional company/budget/timeline details)
+ * - Quietly drop submissions that fill the honeypot or arrive too fast
+ * - Flag submissions without a fill time when no CAPTCHA is configured
+ * - Verify the CAPTCHA token when a provider is configured
+ * - Flag, rather than reject, inquiries whose content looks like spam
+ * - Store valid inquiries in Firestore, with the client IP as a salted hash
  * - Return appropriate success/error responses
  * 
  * Dependencies:
  * - firebase-admin for Firestore access
- * - firebase-functions for HTTP endpoint creation
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/captcha for CAPTCHA verification
+ * - ../utils/spam for the honeypot, fill time and content checks
+ * - ../utils/privacy for hashing the client IP
+ * - ../utils/inquiryTypes for inquiry types and their detail fields
  */
 
-import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { Response } from 'express';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { getCaptchaVerifier } from '../utils/captcha';
+import {
+  HONEYPOT_FIELD,
+  isFillTimeMissing,
+  isHoneypotFilled,
+  isSubmittedTooFast,
+  scoreInquiry,
+} from '../utils/spam';
+import { hashIp } from '../utils/privacy';
+import {
+  DEFAULT_INQUIRY_TYPE,
+  INQUIRY_DETAIL_MAX_LENGTHS,
+  INQUIRY_TYPE_FIELDS,
+  INQUIRY_TYPES,
+  InquiryType,
+  isInquiryType,
+} from '../utils/inquiryTypes';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -64,138 +91,150 @@ function validateContactForm(data: any): { [key: string]: string } {
     errors.message = 'Please enter a message';
   }
 
+  if (data.type !== undefined && !isInquiryType(data.type)) {
+    errors.type = `Inquiry type must be one of ${INQUIRY_TYPES.join(', ')}`;
+  } else {
+    INQUIRY_TYPE_FIELDS[(data.type as InquiryType | undefined) ?? DEFAULT_INQUIRY_TYPE].forEach((field) => {
+      const value = data[field];
+      const maxLength = INQUIRY_DETAIL_MAX_LENGTHS[field];
+      if (value === undefined || value === null || value === '') {
+        return;
+      }
+      if (typeof value !== 'string') {
+        errors[field] = `${field} must be a string`;
+      } else if (value.trim().length > maxLength) {
+        errors[field] = `${field} must be at most ${maxLength} characters`;
+      }
+    });
+  }
+
   return errors;
 }
 
 /**
- * Checks rate limiting for inquiry submissions by IP address
- * Counts submissions from the given IP in the last hour
- * 
- * Requirements: 4.7
+ * Picks the trimmed details asked for an inquiry type; the rest are null
  */
-async function checkRateLimit(ip: string): Promise<number> {
-  try {
-    // Calculate timestamp for one hour ago
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-
-    // Query inquiries from this IP in the last hour
-    const recentSubmissions = await db.collection('inquiries')
-      .where('ip', '==', ip)
-      .where('timestamp', '>', oneHourAgo)
-      .get();
-
-    return recentSubmissions.size;
-  } catch (error) {
-    console.error('Error checking rate limit:', error);
-    throw error;
-  }
+function inquiryDetails(type: InquiryType, data: any) {
+  const details: { company: string | null; budget: string | null; timeline: string | null } = {
+    company: null,
+    budget: null,
+    timeline: null,
+  };
+  INQUIRY_TYPE_FIELDS[type].forEach((field) => {
+    details[field] = typeof data[field] === 'string' && data[field].trim() ? data[field].trim() : null;
+  });
+  return details;
 }
 
-/**
- * Sets CORS headers for API responses
- * Allows cross-origin requests from any origin for public API endpoints
- */
-function setCorsHeaders(res: Response): void {
-  res.set('Access-Control-Allow-Origin', '*');
-  res.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.set('Access-Control-Allow-Headers', 'Content-Type');
-}
+const SUCCESS_MESSAGE = 'Inquiry submitted successfully';
 
 /**
  * POST /api/v1/contact
  * 
  * Handles contact form submissions.
- * Validates input, checks rate limiting, and stores inquiry in Firestore.
+ * Validates input, checks spam signals, and stores inquiry in Firestore.
+ *
+ * Submissions that fill the honeypot or arrive faster than MIN_FILL_TIME_MS
+ * get the usual success response but are not stored, so bots cannot tell
+ * they were caught. Inquiries whose content scores as spam, and those sent
+ * without a fill time while no CAPTCHA is configured, are stored with
+ * `flagged: true` and the reasons in `spamReasons`.
  * 
  * Request body:
  * - name: string (required)
  * - email: string (required, valid email format)
  * - subject: string (required)
  * - message: string (required)
+ * - type: "job" | "freelance" | "speaking" | "other" (optional, default: "other")
+ * - company, budget, timeline: string (optional; kept only for the types that
+ *   ask for them, see ../utils/inquiryTypes)
+ * - website: string (optional honeypot, must be empty)
+ * - fillTime: number (milliseconds the form was open; inquiries without it are
+ *   flagged unless CAPTCHA_PROVIDER is set)
+ * - captchaToken: string (required when CAPTCHA_PROVIDER is set)
  * 
  * Response format:
  * - 200: { success: true, message: string }
  * - 400: { error: string, code: string, details?: object, timestamp: string }
- * - 429: { error: string, code: string, timestamp: string }
+ * - 429: { error: string, code: string, timestamp: string } (rate limited, with Retry-After)
  * - 500: { error: string, code: string, timestamp: string }
  * 
  * Requirements: 4.2, 4.3, 4.7
  */
-export const submitInquiry = functions.https.onRequest(async (req, res) => {
-  // Set CORS headers
-  setCorsHeaders(res);
+export const submitInquiry = asyncHandler(async (req, res) => {
+  const body = req.body || {};
+  const { name, email, subject, message, fillTime, captchaToken } = body;
 
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    res.status(204).send('');
-    return;
+  // Validate request body
+  const validationErrors = validateContactForm(body);
+
+  if (Object.keys(validationErrors).length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', validationErrors);
   }
 
-  // Only allow POST method
-  if (req.method !== 'POST') {
-    res.status(405).json({
-      error: 'Method Not Allowed',
-      code: 'METHOD_NOT_ALLOWED',
-      timestamp: new Date().toISOString()
+  // Caught bots get the normal response so they do not retry with changes
+  if (isHoneypotFilled(body[HONEYPOT_FIELD]) || isSubmittedTooFast(fillTime)) {
+    res.status(200).json({
+      success: true,
+      message: SUCCESS_MESSAGE
     });
     return;
   }
 
-  try {
-    const { name, email, subject, message } = req.body;
-
-    // Validate request body
-    const validationErrors = validateContactForm({ name, email, subject, message });
-
-    if (Object.keys(validationErrors).length > 0) {
-      res.status(400).json({
-        error: 'Validation failed',
-        code: 'VALIDATION_ERROR',
-        details: validationErrors,
-        timestamp: new Date().toISOString()
-      });
-      return;
+  const fields = {
+    name: name.trim(),
+    email: email.trim(),
+    subject: subject.trim(),
+    message: message.trim(),
+  };
+  const spam = scoreInquiry(fields);
+
+  const captcha = getCaptchaVerifier();
+  if (captcha) {
+    if (typeof captchaToken !== 'string' || captchaToken.length === 0) {
+      throw new ApiError(400, 'CAPTCHA_REQUIRED', 'Please complete the CAPTCHA challenge.');
     }
 
-    // Get client IP address for rate limiting
-    const clientIP = req.ip || req.headers['x-forwarded-for'] || 'unknown';
-
-    // Check rate limiting
-    const recentSubmissions = await checkRateLimit(clientIP as string);
-    if (recentSubmissions >= 3) {
-      res.status(429).json({
-        error: 'Too many submissions. Please try again later.',
-        code: 'RATE_LIMIT_EXCEEDED',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-
-    // Store inquiry in Firestore
-    const inquiryData = {
-      name: name.trim(),
-      email: email.trim(),
-      subject: subject.trim(),
-      message: message.trim(),
-      timestamp: admin.firestore.FieldValue.serverTimestamp(),
-      ip: clientIP,
-      read: false,
-      replied: false,
-    };
-
-    await db.collection('inquiries').add(inquiryData);
-
-    // Return success response
-    res.status(200).json({
-      success: true,
-      message: 'Inquiry submitted successfully'
-    });
-  } catch (error) {
-    console.error('Error submitting inquiry:', error);
-    res.status(500).json({
-      error: 'Failed to submit inquiry',
-      code: 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
+    const verified = await captcha.verify(captchaToken, req.ip ?? null).catch((error) => {
+      // Keep the inquiry if the provider is down, but leave it for review
+      console.error(`Error verifying ${captcha.provider} CAPTCHA:`, error);
+      spam.flagged = true;
+      spam.reasons.push('CAPTCHA could not be verified');
+      return true;
     });
+
+    if (!verified) {
+      throw new ApiError(400, 'CAPTCHA_FAILED', 'CAPTCHA verification failed. Please try again.');
+    }
+  } else if (isFillTimeMissing(fillTime)) {
+    // Nothing else vouches for a submission that did not come from the form
+    spam.flagged = true;
+    spam.reasons.push('Sent without a fill time');
   }
+
+  // Store inquiry in Firestore
+  const type: InquiryType = body.type ?? DEFAULT_INQUIRY_TYPE;
+  const inquiryData = {
+    ...fields,
+    type,
+    ...inquiryDetails(type, body),
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    // Only a salted hash of the IP is kept, and none without IP_HASH_SALT
+    ipHash: req.ip ? hashIp(req.ip) : null,
+    read: false,
+    replied: false,
+    flagged: spam.flagged,
+    spamScore: spam.score,
+    spamReasons: spam.reasons,
+    deletedAt: null,
+    anonymisedAt: null,
+  };
+
+  await db.collection('inquiries').add(inquiryData);
+
+  // Return success response
+  res.status(200).json({
+    success: true,
+    message: SUCCESS_MESSAGE
+  });
 });
@@ -0,0 +1,477 @@
+/**
+ * Admin Inquiries API Endpoints
+ *
+ * This module provides route handlers for managing contact form inquiries
+ * in the admin inbox. All handlers are mounted behind the requireAuth
+ * middleware (see ../router.ts).
+ *
+ * Key responsibilities:
+ * - List inquiries newest-first with page-based pagination
+ * - Filter inquiries by read/replied status flags and inquiry type
+ * - Retrieve a single inquiry for the detail view
+ * - Toggle read/replied flags on an inquiry
+ * - Move spam inquiries to the trash
+ * - Send replies through the mail transport and list the reply thread
+ * - Record every change in the audit log (see ../utils/auditLog)
+ *
+ * Replies are stored in the `inquiries/{id}/messages` subcollection, oldest
+ * first, and mark the inquiry as read and replied.
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/queryParams for query string parsing
+ * - ../utils/trash for soft delete
+ * - ../utils/auditLog for the admin audit log
+ * - ../utils/mail for sending replies
+ * - ../utils/inquiryNotifications for the owner's reply-to address
+ * - ../utils/inquiryTypes for the inquiry type filter
+ */
+
+import * as admin from 'firebase-admin';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { parseBooleanParam, parsePositiveInt } from '../utils/queryParams';
+import { isTrashed, trashFields } from '../utils/trash';
+import { addAuditEntry, auditContext } from '../utils/auditLog';
+import { getMailTransport } from '../utils/mail';
+import { getNotificationSettings } from '../utils/inquiryNotifications';
+import { DEFAULT_INQUIRY_TYPE, INQUIRY_TYPES, isInquiryType } from '../utils/inquiryTypes';
+
+// Initialize Firebase Admin if not already initialized
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Status flags admins can change on an inquiry
+ */
+const INQUIRY_FLAGS = ['read', 'replied', 'flagged'] as const;
+
+const MAX_REPLY_SUBJECT_LENGTH = 200;
+const MAX_REPLY_BODY_LENGTH = 10000;
+
+/**
+ * Messages returned per thread; older messages stay stored but are not listed
+ */
+const MAX_THREAD_MESSAGES = 100;
+
+/**
+ * Converts Firestore Timestamp to ISO string for JSON serialization
+ */
+function convertTimestamp(timestamp: any): string {
+  if (timestamp && timestamp.toDate) {
+    return timestamp.toDate().toISOString();
+  }
+  if (timestamp instanceof Date) {
+    return timestamp.toISOString();
+  }
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Maps the delivery record of one notification email to JSON
+ */
+function serializeDelivery(delivery: any) {
+  return {
+    status: delivery?.status ?? 'skipped',
+    transport: delivery?.transport ?? null,
+    messageId: delivery?.messageId ?? null,
+    error: delivery?.error ?? null,
+    at: delivery?.at ? convertTimestamp(delivery.at) : null,
+  };
+}
+
+/**
+ * Maps an inquiry document to its JSON representation
+ * `notifications` is null until the notifyNewInquiry trigger has run.
+ */
+function serializeInquiry(doc: admin.firestore.DocumentSnapshot) {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    name: data.name,
+    email: data.email,
+    subject: data.subject,
+    message: data.message,
+    type: data.type || DEFAULT_INQUIRY_TYPE,
+    company: data.company ?? null,
+    budget: data.budget ?? null,
+    timeline: data.timeline ?? null,
+    timestamp: convertTimestamp(data.timestamp),
+    ipHash: data.ipHash ?? null,
+    read: data.read || false,
+    replied: data.replied || false,
+    flagged: data.flagged || false,
+    spamReasons: data.spamReasons || [],
+    anonymisedAt: data.anonymisedAt ? convertTimestamp(data.anonymisedAt) : null,
+    notifications: data.notifications
+      ? {
+          owner: serializeDelivery(data.notifications.owner),
+          acknowledgement: serializeDelivery(data.notifications.acknowledgement),
+        }
+      : null,
+  };
+}
+
+/**
+ * Maps a thread message document to its JSON representation
+ */
+function serializeMessage(doc: admin.firestore.DocumentSnapshot) {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    direction: data.direction || 'outbound',
+    to: data.to,
+    subject: data.subject,
+    body: data.body,
+    sentBy: data.sentBy || { uid: null, email: null },
+    transport: data.transport ?? null,
+    messageId: data.messageId ?? null,
+    createdAt: data.createdAt ? convertTimestamp(data.createdAt) : null,
+  };
+}
+
+/**
+ * Loads an inquiry document, throwing 404 if it does not exist or is in the trash
+ */
+async function getExistingInquiry(inquiryId: string): Promise<admin.firestore.DocumentSnapshot> {
+  const inquiryDoc = await db.collection('inquiries').doc(inquiryId).get();
+
+  if (!inquiryDoc.exists || isTrashed(inquiryDoc)) {
+    throw new ApiError(404, 'NOT_FOUND', 'Inquiry not found');
+  }
+
+  return inquiryDoc;
+}
+
+/**
+ * GET /api/v1/admin/inquiries
+ *
+ * Lists inquiries ordered by submission time (newest first), leaving out
+ * inquiries in the trash.
+ * Requires authentication via Bearer token.
+ *
+ * Query parameters:
+ * - page: number (optional, 1-based, default: 1)
+ * - pageSize: number (optional, default: 20, max: 100)
+ * - read: "true" | "false" (optional)
+ * - replied: "true" | "false" (optional)
+ * - type: "job" | "freelance" | "speaking" | "other" (optional)
+ *
+ * Response format:
+ * - 200: { data: Inquiry[], total: number, page: number, pageSize: number, hasMore: boolean }
+ * - 400: { error: string, code: string, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const listInquiries = asyncHandler(async (req, res) => {
+  const page = parsePositiveInt(req.query.page, 1);
+  const pageSize = parsePositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE);
+  const read = parseBooleanParam(req.query.read);
+  const replied = parseBooleanParam(req.query.replied);
+  const type = req.query.type;
+
+  if (
+    page === null ||
+    pageSize === null ||
+    pageSize > MAX_PAGE_SIZE ||
+    read === null ||
+    replied === null ||
+    (type !== undefined && !isInquiryType(type))
+  ) {
+    throw new ApiError(
+      400,
+      'INVALID_REQUEST',
+      `Invalid query parameters. page and pageSize must be positive integers (pageSize <= ${MAX_PAGE_SIZE}), read and replied must be "true" or "false", type must be one of ${INQUIRY_TYPES.join(', ')}.`
+    );
+  }
+
+  let inquiriesQuery: admin.firestore.Query = db.collection('inquiries')
+    .where('deletedAt', '==', null);
+
+  // Equality filters must precede the orderBy (see firestore.indexes.json)
+  if (read !== undefined) {
+    inquiriesQuery = inquiriesQuery.where('read', '==', read);
+  }
+  if (replied !== undefined) {
+    inquiriesQuery = inquiriesQuery.where('replied', '==', replied);
+  }
+  if (type !== undefined) {
+    inquiriesQuery = inquiriesQuery.where('type', '==', type);
+  }
+
+  // Aggregate count is billed as a single read regardless of result size
+  const countSnapshot = await inquiriesQuery.count().get();
+  const total = countSnapshot.data().count;
+
+  const inquiriesSnapshot = await inquiriesQuery
+    .orderBy('timestamp', 'desc')
+    .offset((page - 1) * pageSize)
+    .limit(pageSize)
+    .get();
+
+  res.status(200).json({
+    data: inquiriesSnapshot.docs.map(serializeInquiry),
+    total,
+    page,
+    pageSize,
+    hasMore: page * pageSize < total,
+  });
+});
+
+/**
+ * GET /api/v1/admin/inquiries/:id
+ *
+ * Retrieves a single inquiry by its document ID.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { inquiry: Inquiry }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const getInquiry = asyncHandler(async (req, res) => {
+  const inquiryDoc = await getExistingInquiry(req.params.id);
+
+  res.status(200).json({ inquiry: serializeInquiry(inquiryDoc) });
+});
+
+/**
+ * PUT /api/v1/admin/inquiries/:id
+ *
+ * Updates the read/replied status flags of an inquiry, or clears the spam
+ * flag set by the contact endpoint.
+ * Requires authentication via Bearer token.
+ *
+ * Request body:
+ * - read: boolean (optional)
+ * - replied: boolean (optional)
+ * - flagged: boolean (optional)
+ * At least one of the flags must be provided.
+ *
+ * Response format:
+ * - 200: { inquiry: Inquiry, message: string }
+ * - 400: { error: string, code: string, details?: object, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const updateInquiry = asyncHandler(async (req, res) => {
+  const body = req.body || {};
+  const validationErrors: { [key: string]: string } = {};
+
+  INQUIRY_FLAGS.forEach((flag) => {
+    if (body[flag] !== undefined && typeof body[flag] !== 'boolean') {
+      validationErrors[flag] = `${flag} must be a boolean`;
+    }
+  });
+  if (INQUIRY_FLAGS.every((flag) => body[flag] === undefined)) {
+    validationErrors.body = 'At least one of read, replied or flagged is required';
+  }
+
+  if (Object.keys(validationErrors).length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', validationErrors);
+  }
+
+  const inquiryDoc = await getExistingInquiry(req.params.id);
+
+  const updates: { [flag: string]: boolean } = {};
+  INQUIRY_FLAGS.forEach((flag) => {
+    if (body[flag] !== undefined) {
+      updates[flag] = body[flag];
+    }
+  });
+
+  const batch = db.batch();
+  batch.update(inquiryDoc.ref, updates);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'inquiry.update',
+    { type: 'inquiry', id: inquiryDoc.id },
+    inquiryDoc.data() || null,
+    { ...inquiryDoc.data(), ...updates }
+  );
+  await batch.commit();
+
+  const updatedDoc = await inquiryDoc.ref.get();
+
+  res.status(200).json({
+    inquiry: serializeInquiry(updatedDoc),
+    message: 'Inquiry updated successfully'
+  });
+});
+
+/**
+ * DELETE /api/v1/admin/inquiries/:id
+ *
+ * Moves an inquiry (e.g. spam) to the trash. It can be restored from the
+ * trash (see ./trash) until it is purged.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { message: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const deleteInquiry = asyncHandler(async (req, res) => {
+  const inquiryDoc = await getExistingInquiry(req.params.id);
+  const updates = trashFields(req.user);
+
+  const batch = db.batch();
+  batch.update(inquiryDoc.ref, updates);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'inquiry.delete',
+    { type: 'inquiry', id: inquiryDoc.id },
+    inquiryDoc.data() || null,
+    { ...inquiryDoc.data(), ...updates }
+  );
+  await batch.commit();
+
+  res.status(200).json({
+    message: 'Inquiry moved to trash'
+  });
+});
+
+/**
+ * GET /api/v1/admin/inquiries/:id/messages
+ *
+ * Lists the replies sent for an inquiry, oldest first. The inquiry itself is
+ * the first message of the thread and is not repeated here.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { data: InquiryMessage[] }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const listInquiryMessages = asyncHandler(async (req, res) => {
+  const inquiryDoc = await getExistingInquiry(req.params.id);
+
+  const messagesSnapshot = await inquiryDoc.ref
+    .collection('messages')
+    .orderBy('createdAt', 'asc')
+    .limit(MAX_THREAD_MESSAGES)
+    .get();
+
+  res.status(200).json({ data: messagesSnapshot.docs.map(serializeMessage) });
+});
+
+/**
+ * POST /api/v1/admin/inquiries/:id/messages
+ *
+ * Emails a reply to the sender of an inquiry through the configured mail
+ * transport, stores it in the thread and marks the inquiry as read and
+ * replied. Nothing is stored if the email cannot be sent.
+ * Requires authentication via Bearer token.
+ *
+ * Request body:
+ * - body: string (required, max 10000 characters)
+ * - subject: string (optional, max 200 characters, default: "Re: <inquiry subject>")
+ *
+ * Response format:
+ * - 201: { reply: InquiryMessage, inquiry: Inquiry, message: string }
+ * - 400: { error: string, code: string, details?: object, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 409: { error: string, code: string, timestamp: string } (the inquiry was anonymised)
+ * - 502: { error: string, code: string, timestamp: string } (the mail provider rejected the reply)
+ * - 503: { error: string, code: string, timestamp: string } (email is not configured)
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const replyToInquiry = asyncHandler(async (req, res) => {
+  const body = req.body || {};
+  const validationErrors: { [key: string]: string } = {};
+
+  if (typeof body.body !== 'string' || body.body.trim().length === 0) {
+    validationErrors.body = 'Reply body is required';
+  } else if (body.body.length > MAX_REPLY_BODY_LENGTH) {
+    validationErrors.body = `Reply body must be at most ${MAX_REPLY_BODY_LENGTH} characters`;
+  }
+  if (body.subject !== undefined) {
+    if (typeof body.subject !== 'string' || body.subject.trim().length === 0) {
+      validationErrors.subject = 'Subject must be a non-empty string';
+    } else if (body.subject.length > MAX_REPLY_SUBJECT_LENGTH) {
+      validationErrors.subject = `Subject must be at most ${MAX_REPLY_SUBJECT_LENGTH} characters`;
+    }
+  }
+
+  if (Object.keys(validationErrors).length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', validationErrors);
+  }
+
+  const inquiryDoc = await getExistingInquiry(req.params.id);
+  const inquiry = inquiryDoc.data() || {};
+
+  if (inquiry.anonymisedAt) {
+    throw new ApiError(409, 'INQUIRY_ANONYMISED', 'The sender details of this inquiry were removed; it can no longer be replied to');
+  }
+
+  const transport = getMailTransport();
+  if (!transport) {
+    throw new ApiError(503, 'MAIL_NOT_CONFIGURED', 'Email is not configured; set MAIL_TRANSPORT in functions/.env');
+  }
+
+  const { ownerEmail } = await getNotificationSettings(db);
+  const subject = (body.subject?.trim() || `Re: ${inquiry.subject}`).replace(/[\r\n]+/g, ' ');
+  const text = body.body.trim();
+
+  let messageId: string | null;
+  try {
+    ({ messageId } = await transport.send({
+      to: inquiry.email,
+      subject,
+      text,
+      ...(ownerEmail ? { replyTo: ownerEmail } : {}),
+    }));
+  } catch (error) {
+    throw new ApiError(
+      502,
+      'MAIL_DELIVERY_FAILED',
+      `The reply could not be sent: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const messageRef = inquiryDoc.ref.collection('messages').doc();
+  const updates = { read: true, replied: true };
+
+  const batch = db.batch();
+  batch.set(messageRef, {
+    direction: 'outbound',
+    to: inquiry.email,
+    subject,
+    body: text,
+    sentBy: { uid: req.user?.uid ?? null, email: req.user?.email ?? null },
+    transport: transport.name,
+    messageId,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  batch.update(inquiryDoc.ref, updates);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'inquiry.reply',
+    { type: 'inquiry', id: inquiryDoc.id },
+    inquiry,
+    { ...inquiry, ...updates }
+  );
+  await batch.commit();
+
+  const [messageDoc, updatedDoc] = await Promise.all([messageRef.get(), inquiryDoc.ref.get()]);
+
+  res.status(201).json({
+    reply: serializeMessage(messageDoc),
+    inquiry: serializeInquiry(updatedDoc),
+    message: 'Reply sent successfully'
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Admin Media Library API Endpoints
+ *
+ * This module provides route handlers for browsing and managing the images
+ * and documents indexed in the `media` collection by the upload endpoints
+ * (see ../utils/media). All handlers are mounted behind the requireAuth
+ * middleware (see ../router.ts).
+ *
+ * Firestore cannot search inside strings, so the list loads the newest
+ * MAX_MEDIA_SCAN entries and filters and pages them in memory, which is
+ * plenty for a portfolio's uploads.
+ *
+ * Key responsibilities:
+ * - List media, newest first, with search, type and "unused" filters
+ * - Update an entry's alt text
+ * - Delete unused media together with its Storage files
+ * - Report what the scheduled Storage cleanup would do (dry run)
+ * - Record every change in the audit log (see ../utils/auditLog)
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore and Storage access
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/auditLog for the admin audit log
+ * - ../utils/media for the media collection
+ * - ../utils/queryParams for query string parsing
+ * - ../utils/storageCleanup for the Storage cleanup report
+ * - ../utils/galleryImages for the alt text limit shared with project galleries
+ */
+
+import * as admin from 'firebase-admin';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { addAuditEntry, auditContext } from '../utils/auditLog';
+import { MEDIA_COLLECTION } from '../utils/media';
+import { parseBooleanParam, parsePositiveInt, parseStringParam } from '../utils/queryParams';
+import { runStorageCleanup } from '../utils/storageCleanup';
+import { MAX_ALT_LENGTH } from '../utils/galleryImages';
+
+// Initialize Firebase Admin if not already initialized
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+const storage = admin.storage();
+
+const DEFAULT_PAGE_SIZE = 48;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Most entries searched by the list endpoint, newest first
+ */
+const MAX_MEDIA_SCAN = 1000;
+
+/**
+ * Kinds of media the list can be filtered to; documents are the PDFs
+ * uploaded for the profile, everything else is an image
+ */
+const MEDIA_TYPES = ['image', 'document'];
+
+/**
+ * Kind of a media entry, by the type of its upload
+ */
+function mediaTypeOf(data: admin.firestore.DocumentData): 'image' | 'document' {
+  return data.contentType === 'application/pdf' ? 'document' : 'image';
+}
+
+/**
+ * Converts Firestore Timestamp to ISO string for JSON serialization
+ */
+function convertTimestamp(timestamp: any): string | null {
+  if (timestamp && timestamp.toDate) {
+    return timestamp.toDate().toISOString();
+  }
+  return null;
+}
+
+/**
+ * Maps a media document to its JSON representation
+ */
+function serializeMedia(doc: admin.firestore.DocumentSnapshot) {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    path: data.path,
+    folder: data.folder,
+    url: data.url,
+    name: data.name,
+    contentType: data.contentType,
+    size: data.size || 0,
+    width: data.width ?? null,
+    height: data.height ?? null,
+    color: data.color ?? null,
+    placeholder: data.placeholder ?? null,
+    alt: data.alt || '',
+    references: data.references || [],
+    createdAt: convertTimestamp(data.createdAt),
+    createdBy: data.createdBy ?? null,
+  };
+}
+
+/**
+ * Checks whether a media entry matches a search term (name, alt text or path)
+ */
+function matchesSearch(data: admin.firestore.DocumentData, term: string): boolean {
+  const needle = term.toLowerCase();
+  return [data.name, data.alt, data.path].some(
+    (value) => typeof value === 'string' && value.toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Loads a media document, throwing 404 if it does not exist
+ */
+async function getExistingMedia(mediaId: string): Promise<admin.firestore.DocumentSnapshot> {
+  const mediaDoc = await db.collection(MEDIA_COLLECTION).doc(mediaId).get();
+
+  if (!mediaDoc.exists) {
+    throw new ApiError(404, 'NOT_FOUND', 'Media not found');
+  }
+
+  return mediaDoc;
+}
+
+/**
+ * GET /api/v1/admin/media
+ *
+ * Lists media library entries, newest first.
+ * Requires authentication via Bearer token.
+ *
+ * Query parameters:
+ * - page: number (optional, 1-based, default: 1)
+ * - pageSize: number (optional, default: 48, max: 100)
+ * - q: string (optional, case-insensitive match on name, alt text and path)
+ * - type: "image" | "document" (optional, only images or only documents)
+ * - unused: "true" | "false" (optional, entries no project references, or only used ones)
+ *
+ * Response format:
+ * - 200: { data: Media[], total: number, page: number, pageSize: number, hasMore: boolean }
+ * - 400: { error: string, code: string, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const listMedia = asyncHandler(async (req, res) => {
+  const page = parsePositiveInt(req.query.page, 1);
+  const pageSize = parsePositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE);
+  const search = parseStringParam(req.query.q);
+  const type = parseStringParam(req.query.type);
+  const unused = parseBooleanParam(req.query.unused);
+
+  if (
+    page === null ||
+    pageSize === null ||
+    pageSize > MAX_PAGE_SIZE ||
+    search === null ||
+    type === null ||
+    (type !== undefined && !MEDIA_TYPES.includes(type)) ||
+    unused === null
+  ) {
+    throw new ApiError(
+      400,
+      'INVALID_REQUEST',
+      `Invalid query parameters. page and pageSize must be positive integers (pageSize <= ${MAX_PAGE_SIZE}), q must be a single string, type must be one of: ${MEDIA_TYPES.join(', ')} and unused must be "true" or "false".`
+    );
+  }
+
+  const mediaSnapshot = await db.collection(MEDIA_COLLECTION)
+    .orderBy('createdAt', 'desc')
+    .limit(MAX_MEDIA_SCAN)
+    .get();
+
+  const matches = mediaSnapshot.docs.filter((doc) => {
+    const data = doc.data();
+    if (search !== undefined && !matchesSearch(data, search)) {
+      return false;
+    }
+    if (type !== undefined && mediaTypeOf(data) !== type) {
+      return false;
+    }
+    if (unused !== undefined && (data.references || []).length === 0 !== unused) {
+      return false;
+    }
+    return true;
+  });
+
+  const start = (page - 1) * pageSize;
+
+  res.status(200).json({
+    data: matches.slice(start, start + pageSize).map(serializeMedia),
+    total: matches.length,
+    page,
+    pageSize,
+    hasMore: start + pageSize < matches.length,
+  });
+});
+
+/**
+ * PUT /api/v1/admin/media/:id
+ *
+ * Updates a media entry's alt text.
+ * Requires authentication via Bearer token.
+ *
+ * Request body:
+ * - alt: string (required, max 300 characters, empty to clear)
+ *
+ * Response format:
+ * - 200: { media: Media, message: string }
+ * - 400: { error: string, code: string, details?: object, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const updateMedia = asyncHandler(async (req, res) => {
+  const { alt } = req.body || {};
+
+  if (typeof alt !== 'string' || alt.length > MAX_ALT_LENGTH) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', {
+      alt: `Alt text must be a string of at most ${MAX_ALT_LENGTH} characters`,
+    });
+  }
+
+  const mediaDoc = await getExistingMedia(req.params.id);
+  const updates = { alt: alt.trim() };
+
+  const batch = db.batch();
+  batch.update(mediaDoc.ref, updates);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'image.update',
+    { type: 'image', id: mediaDoc.id },
+    mediaDoc.data() || null,
+    { ...mediaDoc.data(), ...updates }
+  );
+  await batch.commit();
+
+  const updatedDoc = await mediaDoc.ref.get();
+
+  res.status(200).json({
+    media: serializeMedia(updatedDoc),
+    message: 'Media updated successfully'
+  });
+});
+
+/**
+ * DELETE /api/v1/admin/media/:id
+ *
+ * Permanently deletes a media entry and its Storage files. Media still
+ * referenced by a project (including projects in the trash), or used as the
+ * profile avatar or resume, cannot be deleted.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { message: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 409: { error: string, code: string, details: { references: string }, timestamp: string }
+ *   (references lists the IDs of the projects using the media, comma-separated,
+ *   or "profile" for the avatar and resume)
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const deleteMedia = asyncHandler(async (req, res) => {
+  const mediaDoc = await getExistingMedia(req.params.id);
+  const references: string[] = mediaDoc.get('references') || [];
+
+  if (references.length > 0) {
+    throw new ApiError(409, 'MEDIA_IN_USE', 'Media is used by a project and cannot be deleted', {
+      references: references.join(', '),
+    });
+  }
+
+  const profileDoc = await db.collection('profile').doc('main').get();
+  if (profileDoc.exists && profileDoc.get('avatar') === mediaDoc.get('url')) {
+    throw new ApiError(409, 'MEDIA_IN_USE', 'Media is the profile avatar and cannot be deleted', {
+      references: 'profile',
+    });
+  }
+  if (profileDoc.exists && profileDoc.get('resumeUrl') === mediaDoc.get('url')) {
+    throw new ApiError(409, 'MEDIA_IN_USE', 'Media is the profile resume and cannot be deleted', {
+      references: 'profile',
+    });
+  }
+
+  // Files already gone (e.g. removed by hand) are not an error
+  const bucket = storage.bucket();
+  const files: string[] = mediaDoc.get('files') || [];
+  await Promise.all(files.map((path) => bucket.file(path).delete({ ignoreNotFound: true })));
+
+  const batch = db.batch();
+  batch.delete(mediaDoc.ref);
+  const mediaType = mediaTypeOf(mediaDoc.data() || {});
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    `${mediaType}.delete`,
+    { type: mediaType, id: mediaDoc.id },
+    mediaDoc.data() || null,
+    null
+  );
+  await batch.commit();
+
+  res.status(200).json({
+    message: 'Media deleted successfully'
+  });
+});
+
+/**
+ * GET /api/v1/admin/media/cleanup
+ *
+ * Reports what the scheduled Storage cleanup would move and delete if it
+ * ran now, without changing anything. See ../utils/storageCleanup.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { dryRun: true, cutoff: string, uploads: number,
+ *   moves: { from, to, files, projects, mediaId }[],
+ *   deletions: { path, files, size, updatedAt, mediaId }[],
+ *   remaining: { moves: number, deletions: number } }
+ *   (cutoff is the time before which unused uploads are deleted; remaining
+ *   counts what is left for later runs)
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 403: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const getStorageCleanupReport = asyncHandler(async (req, res) => {
+  const report = await runStorageCleanup(db, storage.bucket(), auditContext(req), { dryRun: true });
+
+  res.status(200).json(report);
+});
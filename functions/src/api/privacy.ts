@@ -0,0 +1,128 @@
+/**
+ * Admin Privacy API Endpoints
+ *
+ * This module provides route handlers for data subject requests about
+ * inquiry senders: exporting everything stored about an email address, and
+ * erasing it. Handlers are mounted behind the requireAuth middleware and
+ * need the owner role (see ../router.ts). The email address is sent in the
+ * request body rather than the URL so it does not end up in request logs.
+ *
+ * Key responsibilities:
+ * - Export a sender's inquiries and reply threads as JSON
+ * - Permanently delete a sender's inquiries, including trashed ones, and
+ *   redact them from the audit log
+ * - Record each request in the audit log without the email address
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/privacy for finding and erasing a sender's inquiries
+ * - ../utils/auditLog for the admin audit log
+ * - ../utils/revisions for serializing Firestore values
+ */
+
+import * as admin from 'firebase-admin';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { eraseInquiry, findInquiriesByEmail } from '../utils/privacy';
+import { auditContext, recordAuditEntry } from '../utils/auditLog';
+import { serializeRevisionValue } from '../utils/revisions';
+
+// Initialize Firebase Admin if not already initialized
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * Reads and validates the email address of a privacy request
+ */
+function requestEmail(body: { email?: unknown } | undefined): string {
+  const email = body?.email;
+
+  if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', {
+      email: 'A valid email address is required',
+    });
+  }
+
+  return email.trim();
+}
+
+/**
+ * POST /api/v1/admin/privacy/export
+ *
+ * Exports every inquiry sent from an email address, with its reply thread.
+ * Requires authentication via Bearer token and the owner role.
+ *
+ * Request body:
+ * - email: string (required)
+ *
+ * Response format:
+ * - 200: { email: string, exportedAt: string, inquiries: (Inquiry & { messages: InquiryMessage[] })[] }
+ * - 400: { error: string, code: string, details?: object, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 403: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const exportSenderData = asyncHandler(async (req, res) => {
+  const email = requestEmail(req.body);
+  const inquiryDocs = await findInquiriesByEmail(db, email);
+
+  const inquiries = await Promise.all(
+    inquiryDocs.map(async (doc) => {
+      const messages = await doc.ref.collection('messages').orderBy('createdAt', 'asc').get();
+      return {
+        id: doc.id,
+        ...(serializeRevisionValue(doc.data()) as Record<string, unknown>),
+        messages: messages.docs.map((message) => ({
+          id: message.id,
+          ...(serializeRevisionValue(message.data()) as Record<string, unknown>),
+        })),
+      };
+    })
+  );
+
+  await recordAuditEntry(db, auditContext(req), 'inquiry.export', { type: 'inquiry', id: null }, null, {
+    inquiries: inquiries.length,
+  });
+
+  res.status(200).json({
+    email,
+    exportedAt: new Date().toISOString(),
+    inquiries,
+  });
+});
+
+/**
+ * POST /api/v1/admin/privacy/erase
+ *
+ * Permanently deletes every inquiry sent from an email address, including
+ * ones in the trash, with their reply threads, and redacts their audit log
+ * entries. This cannot be undone.
+ * Requires authentication via Bearer token and the owner role.
+ *
+ * Request body:
+ * - email: string (required)
+ *
+ * Response format:
+ * - 200: { deleted: number, message: string }
+ * - 400: { error: string, code: string, details?: object, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 403: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const eraseSenderData = asyncHandler(async (req, res) => {
+  const email = requestEmail(req.body);
+  const inquiryDocs = await findInquiriesByEmail(db, email);
+  const context = auditContext(req);
+
+  for (const doc of inquiryDocs) {
+    await eraseInquiry(db, doc, context, 'inquiry.erase');
+  }
+
+  res.status(200).json({
+    deleted: inquiryDocs.length,
+    message: inquiryDocs.length === 1 ? 'Deleted 1 inquiry' : `Deleted ${inquiryDocs.length} inquiries`
+  });
+});
@@ -1,22 +1,26 @@
 /**
  * Profile API Endpoint
  * 
- * This module provides HTTP endpoint for retrieving portfolio owner profile data.
- * The profile contains personal information, bio, social links, and skills.
+ * This module provides route handlers for reading and updating portfolio owner profile data.
+ * Handlers are mounted on the API router (see ../router.ts); the update route
+ * sits behind the requireAuth middleware.
+ * The profile contains personal information, bio, social links, skills and work experience.
  * 
  * Key responsibilities:
  * - Serve profile data to public users
- * - Implement CORS headers for cross-origin requests
+ * - Validate and save profile edits from the admin interface
+ * - Record profile edits in the audit log
  * - Return appropriate HTTP status codes for errors
  * 
  * Dependencies:
  * - firebase-admin for Firestore access
- * - firebase-functions for HTTP endpoint creation
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/auditLog for the admin audit log
  */
 
-import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { Response } from 'express';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { addAuditEntry, auditContext } from '../utils/auditLog';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -39,13 +43,150 @@ function convertTimestamp(timestamp: any): string {
 }
 
 /**
- * Sets CORS headers for API responses
- * Allows cross-origin requests from any origin for public API endpoints
+ * Checks that a value is a non-empty string after trimming
  */
-function setCorsHeaders(res: Response): void {
-  res.set('Access-Control-Allow-Origin', '*');
-  res.set('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.set('Access-Control-Allow-Headers', 'Content-Type');
+function isNonEmptyString(value: any): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Validates email address format using regex
+ */
+function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+}
+
+/**
+ * Checks that a value is an absolute http(s) URL
+ */
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\/\S+$/.test(value.trim());
+}
+
+/**
+ * Month format used by experience entries (YYYY-MM)
+ */
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Validates a single work experience entry
+ * Adds errors keyed by field path (e.g. "experience[0].company")
+ */
+function validateExperienceEntry(
+  entry: any,
+  index: number,
+  errors: { [key: string]: string }
+): void {
+  const prefix = `experience[${index}]`;
+
+  if (!entry || typeof entry !== 'object') {
+    errors[prefix] = 'Experience entry must be an object';
+    return;
+  }
+
+  if (!isNonEmptyString(entry.company)) {
+    errors[`${prefix}.company`] = 'Company is required';
+  }
+
+  if (!isNonEmptyString(entry.position)) {
+    errors[`${prefix}.position`] = 'Position is required';
+  }
+
+  if (typeof entry.location !== 'string') {
+    errors[`${prefix}.location`] = 'Location must be a string';
+  }
+
+  if (typeof entry.startDate !== 'string' || !MONTH_PATTERN.test(entry.startDate)) {
+    errors[`${prefix}.startDate`] = 'Start date must use YYYY-MM format';
+  }
+
+  if (
+    typeof entry.endDate !== 'string' ||
+    (entry.endDate !== 'present' && !MONTH_PATTERN.test(entry.endDate))
+  ) {
+    errors[`${prefix}.endDate`] = 'End date must use YYYY-MM format or "present"';
+  } else if (
+    entry.endDate !== 'present' &&
+    typeof entry.startDate === 'string' &&
+    entry.endDate < entry.startDate
+  ) {
+    errors[`${prefix}.endDate`] = 'End date must not be before start date';
+  }
+
+  if (
+    !Array.isArray(entry.responsibilities) ||
+    !entry.responsibilities.every((item: any) => typeof item === 'string')
+  ) {
+    errors[`${prefix}.responsibilities`] = 'Responsibilities must be an array of strings';
+  }
+}
+
+/**
+ * Validates profile data for required fields and formats
+ * Returns object with field-specific error messages
+ */
+function validateProfileData(data: any): { [key: string]: string } {
+  const errors: { [key: string]: string } = {};
+
+  if (!isNonEmptyString(data.name)) {
+    errors.name = 'Name is required';
+  }
+
+  if (!isNonEmptyString(data.title)) {
+    errors.title = 'Title is required';
+  }
+
+  if (!isNonEmptyString(data.bio)) {
+    errors.bio = 'Bio is required';
+  }
+
+  if (!isNonEmptyString(data.email)) {
+    errors.email = 'Email is required';
+  } else if (!isValidEmail(data.email.trim())) {
+    errors.email = 'Email must be a valid email address';
+  }
+
+  if (!isNonEmptyString(data.linkedin)) {
+    errors.linkedin = 'LinkedIn URL is required';
+  } else if (!isHttpUrl(data.linkedin)) {
+    errors.linkedin = 'LinkedIn URL must start with http:// or https://';
+  }
+
+  // GitHub and Twitter are optional but must be URLs when provided
+  for (const field of ['github', 'twitter']) {
+    const value = data[field];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (typeof value !== 'string' || !isHttpUrl(value)) {
+      errors[field] = `${field === 'github' ? 'GitHub' : 'Twitter'} URL must start with http:// or https://`;
+    }
+  }
+
+  if (!isNonEmptyString(data.resumeUrl)) {
+    errors.resumeUrl = 'Resume is required';
+  }
+
+  if (!isNonEmptyString(data.avatar)) {
+    errors.avatar = 'Avatar is required';
+  }
+
+  if (!Array.isArray(data.skills) || !data.skills.every((skill: any) => typeof skill === 'string')) {
+    errors.skills = 'Skills must be an array of strings';
+  }
+
+  if (data.experience !== undefined) {
+    if (!Array.isArray(data.experience)) {
+      errors.experience = 'Experience must be an array';
+    } else {
+      data.experience.forEach((entry: any, index: number) => {
+        validateExperienceEntry(entry, index, errors);
+      });
+    }
+  }
+
+  return errors;
 }
 
 /**
@@ -61,66 +202,119 @@ function setCorsHeaders(res: Response): void {
  * 
  * Requirements: 6.3
  */
-export const getProfile = functions.https.onRequest(async (req, res) => {
-  // Set CORS headers
-  setCorsHeaders(res);
+export const getProfile = asyncHandler(async (_req, res) => {
+  // Fetch profile document from Firestore
+  const profileDoc = await db.collection('profile').doc('main').get();
 
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    res.status(204).send('');
-    return;
+  // Return 404 if profile doesn't exist
+  if (!profileDoc.exists) {
+    throw new ApiError(404, 'NOT_FOUND', 'Profile not found');
   }
 
-  // Only allow GET method
-  if (req.method !== 'GET') {
-    res.status(405).json({
-      error: 'Method Not Allowed',
-      code: 'METHOD_NOT_ALLOWED',
-      timestamp: new Date().toISOString()
-    });
-    return;
-  }
+  const data = profileDoc.data();
 
-  try {
-    // Fetch profile document from Firestore
-    const profileDoc = await db.collection('profile').doc('main').get();
+  // Build profile object with all fields
+  const profile = {
+    name: data?.name,
+    title: data?.title,
+    bio: data?.bio,
+    email: data?.email,
+    linkedin: data?.linkedin,
+    github: data?.github,
+    twitter: data?.twitter,
+    resumeUrl: data?.resumeUrl,
+    avatar: data?.avatar,
+    skills: data?.skills || [],
+    experience: data?.experience || [],
+    updatedAt: convertTimestamp(data?.updatedAt),
+  };
 
-    // Return 404 if profile doesn't exist
-    if (!profileDoc.exists) {
-      res.status(404).json({
-        error: 'Profile not found',
-        code: 'NOT_FOUND',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+  // Return JSON response with profile object
+  res.status(200).json({ profile });
+});
 
-    const data = profileDoc.data();
-
-    // Build profile object with all fields
-    const profile = {
-      name: data?.name,
-      title: data?.title,
-      bio: data?.bio,
-      email: data?.email,
-      linkedin: data?.linkedin,
-      github: data?.github,
-      twitter: data?.twitter,
-      resumeUrl: data?.resumeUrl,
-      avatar: data?.avatar,
-      skills: data?.skills || [],
-      experience: data?.experience || [],
-      updatedAt: convertTimestamp(data?.updatedAt),
-    };
-
-    // Return JSON response with profile object
-    res.status(200).json({ profile });
-  } catch (error) {
-    console.error('Error fetching profile:', error);
-    res.status(500).json({
-      error: 'Failed to fetch profile',
-      code: 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
-    });
+/**
+ * PUT /api/v1/admin/profile
+ * 
+ * Replaces the portfolio owner's profile stored at /profile/main.
+ * Requires authentication via Bearer token.
+ * 
+ * Request body:
+ * - name, title, bio: string (required)
+ * - email: string (required, valid email format)
+ * - linkedin: string (required, http(s) URL)
+ * - github, twitter: string (optional, http(s) URL)
+ * - resumeUrl, avatar: string (required)
+ * - skills: string[] (required)
+ * - experience: Experience[] (optional)
+ * 
+ * Response format:
+ * - 200: { profile: Profile, message: string }
+ * - 400: { error: string, code: string, details?: object, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const updateProfile = asyncHandler(async (req, res) => {
+  const profileData = req.body || {};
+
+  // Validate profile data
+  const validationErrors = validateProfileData(profileData);
+
+  if (Object.keys(validationErrors).length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', validationErrors);
   }
+
+  // Prepare profile document, trimming strings and dropping empty skills
+  const profile = {
+    name: profileData.name.trim(),
+    title: profileData.title.trim(),
+    bio: profileData.bio.trim(),
+    email: profileData.email.trim(),
+    linkedin: profileData.linkedin.trim(),
+    github: profileData.github?.trim() || '',
+    twitter: profileData.twitter?.trim() || '',
+    resumeUrl: profileData.resumeUrl.trim(),
+    avatar: profileData.avatar.trim(),
+    skills: profileData.skills
+      .map((skill: string) => skill.trim())
+      .filter((skill: string) => skill.length > 0),
+    experience: (profileData.experience || []).map((entry: any) => ({
+      company: entry.company.trim(),
+      position: entry.position.trim(),
+      location: entry.location.trim(),
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      responsibilities: entry.responsibilities
+        .map((item: string) => item.trim())
+        .filter((item: string) => item.length > 0),
+    })),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  const profileRef = db.collection('profile').doc('main');
+  const existingDoc = await profileRef.get();
+
+  const batch = db.batch();
+  batch.set(profileRef, profile);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'profile.update',
+    { type: 'profile', id: profileRef.id },
+    existingDoc.exists ? existingDoc.data() || null : null,
+    profile
+  );
+  await batch.commit();
+
+  // Read back so the response carries the resolved server timestamp
+  const savedDoc = await profileRef.get();
+  const saved = savedDoc.data();
+
+  res.status(200).json({
+    profile: {
+      ...profile,
+      updatedAt: convertTimestamp(saved?.updatedAt),
+    },
+    message: 'Profile updated successfully'
+  });
 });
@@ -1,23 +1,34 @@
 /**
  * Projects API Endpoints
  * 
- * This module provides HTTP endpoints for retrieving project data.
- * All endpoints return JSON responses and implement proper error handling.
+ * This module provides route handlers for retrieving project data.
+ * Handlers are mounted on the API router (see ../router.ts), which applies
+ * CORS, method handling and error formatting.
  * 
  * Key responsibilities:
  * - Serve published projects to public users
- * - Handle individual project retrieval by ID
- * - Implement CORS headers for cross-origin requests
+ * - Paginate project listings with opaque cursors
+ * - Filter listings by category, technology and featured flag
+ * - Sort listings by display order, creation date or title
+ * - Handle individual project retrieval by ID or slug, redirecting old slugs
+ * - Serve unpublished projects to holders of a valid preview token
  * - Return appropriate HTTP status codes for errors
  * 
  * Dependencies:
  * - firebase-admin for Firestore access
- * - firebase-functions for HTTP endpoint creation
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/queryParams for query string parsing
+ * - ../utils/trash for hiding projects in the trash
+ * - ../utils/previewToken for verifying draft preview links
+ * - ../utils/galleryImages for reading gallery images stored as plain URLs
  */
 
-import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { Response } from 'express';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { parseBooleanParam, parsePositiveInt, parseStringParam } from '../utils/queryParams';
+import { isTrashed } from '../utils/trash';
+import { verifyPreviewToken } from '../utils/previewToken';
+import { normalizeGalleryImages } from '../utils/galleryImages';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -26,6 +37,35 @@ if (!admin.apps.length) {
 
 const db = admin.firestore();
 
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Supported listing sorts and the Firestore ordering each maps to
+ * Every combination of filters and sort has an index in firestore.indexes.json
+ */
+const PROJECT_SORTS = {
+  order: { field: 'order', direction: 'asc' },
+  createdAt: { field: 'createdAt', direction: 'desc' },
+  title: { field: 'title', direction: 'asc' },
+} as const;
+
+type ProjectSort = keyof typeof PROJECT_SORTS;
+
+/**
+ * Decoded pagination cursor
+ * - sort: the sort the cursor was issued for
+ * - page: 1-based number of the page the cursor was issued after
+ * - value: sort field value of the last project on that page
+ * - id: document ID of the last project, used as a tie-breaker
+ */
+interface ProjectCursor {
+  sort: ProjectSort;
+  page: number;
+  value: string | number;
+  id: string;
+}
+
 /**
  * Converts Firestore Timestamp to ISO string for JSON serialization
  */
@@ -40,190 +80,257 @@ function convertTimestamp(timestamp: any): string {
 }
 
 /**
- * Sets CORS headers for API responses
- * Allows cross-origin requests from any origin for public API endpoints
- * 
- * Requirements: 6.6
+ * Maps a project document to its JSON representation
+ */
+function serializeProject(doc: admin.firestore.DocumentSnapshot) {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    title: data.title,
+    slug: data.slug || doc.id,
+    description: data.description,
+    fullDescription: data.fullDescription,
+    thumbnail: data.thumbnail,
+    images: normalizeGalleryImages(data.images),
+    imageMetadata: data.imageMetadata || [],
+    technologies: data.technologies || [],
+    category: data.category,
+    liveUrl: data.liveUrl,
+    githubUrl: data.githubUrl,
+    featured: data.featured || false,
+    published: data.published,
+    order: data.order || 0,
+    createdAt: convertTimestamp(data.createdAt),
+    updatedAt: convertTimestamp(data.updatedAt),
+  };
+}
+
+/**
+ * Encodes a cursor pointing after the given project document
+ * Timestamps are stored as milliseconds so the cursor stays JSON-safe
+ */
+function encodeCursor(sort: ProjectSort, page: number, doc: admin.firestore.DocumentSnapshot): string {
+  const raw = doc.get(PROJECT_SORTS[sort].field);
+  const value = raw instanceof admin.firestore.Timestamp ? raw.toMillis() : raw;
+  const cursor: ProjectCursor = { sort, page, value, id: doc.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor from the query string
+ * Returns null when the cursor is malformed or was issued for a different sort
  */
-function setCorsHeaders(res: Response): void {
-  res.set('Access-Control-Allow-Origin', '*');
-  res.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+function decodeCursor(encoded: string, sort: ProjectSort): ProjectCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    const valueType = sort === 'title' ? 'string' : 'number';
+
+    if (
+      cursor?.sort !== sort ||
+      !Number.isInteger(cursor.page) ||
+      cursor.page < 1 ||
+      typeof cursor.value !== valueType ||
+      typeof cursor.id !== 'string'
+    ) {
+      return null;
+    }
+
+    return cursor;
+  } catch {
+    return null;
+  }
 }
 
 /**
  * GET /api/v1/projects
  * 
- * Retrieves all published projects from Firestore.
- * Returns projects ordered by creation date (newest first).
+ * Retrieves a page of published projects from Firestore.
+ * 
+ * Query parameters:
+ * - pageSize: number (optional, default: 12, max: 50)
+ * - cursor: string (optional, `nextCursor` from the previous page)
+ * - category: string (optional, exact match)
+ * - technology: string (optional, project must list it in `technologies`)
+ * - featured: "true" | "false" (optional)
+ * - sort: "order" | "createdAt" | "title" (optional, default: order)
+ *   order and title sort ascending, createdAt sorts newest first
  * 
  * Response format:
- * - 200: { projects: Project[] }
+ * - 200: { data: Project[], total, page, pageSize, hasMore, nextCursor: string | null }
+ * - 400: { error: string, code: string, timestamp: string }
  * - 500: { error: string, code: string, timestamp: string }
  * 
  * Requirements: 6.1, 6.4, 6.6, 6.7
  */
-export const getProjects = functions.https.onRequest(async (req, res) => {
-  // Set CORS headers
-  setCorsHeaders(res);
+export const getProjects = asyncHandler(async (req, res) => {
+  const pageSize = parsePositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE);
+  const category = parseStringParam(req.query.category);
+  const technology = parseStringParam(req.query.technology);
+  const featured = parseBooleanParam(req.query.featured);
+  const sortParam = parseStringParam(req.query.sort) ?? 'order';
+  const cursorParam = parseStringParam(req.query.cursor);
 
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    res.status(204).send('');
-    return;
+  if (
+    pageSize === null ||
+    pageSize > MAX_PAGE_SIZE ||
+    category === null ||
+    technology === null ||
+    featured === null ||
+    cursorParam === null ||
+    !(sortParam in PROJECT_SORTS)
+  ) {
+    throw new ApiError(
+      400,
+      'INVALID_REQUEST',
+      `Invalid query parameters. pageSize must be a positive integer (<= ${MAX_PAGE_SIZE}), featured must be "true" or "false", sort must be one of: ${Object.keys(PROJECT_SORTS).join(', ')}.`
+    );
   }
 
-  // Only allow GET method
-  if (req.method !== 'GET') {
-    res.status(405).json({
-      error: 'Method Not Allowed',
-      code: 'METHOD_NOT_ALLOWED',
-      timestamp: new Date().toISOString()
-    });
-    return;
+  const sort = sortParam as ProjectSort;
+  const cursor = cursorParam ? decodeCursor(cursorParam, sort) : undefined;
+
+  if (cursor === null) {
+    throw new ApiError(400, 'INVALID_REQUEST', 'Invalid cursor');
   }
 
-  try {
-    // Query published projects ordered by creation date
-    const projectsSnapshot = await db.collection('projects')
-      .where('published', '==', true)
-      .orderBy('createdAt', 'desc')
-      .get();
-
-    // Map Firestore documents to project objects
-    const projects = projectsSnapshot.docs.map((doc) => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        title: data.title,
-        description: data.description,
-        fullDescription: data.fullDescription,
-        thumbnail: data.thumbnail,
-        images: data.images || [],
-        technologies: data.technologies || [],
-        category: data.category,
-        liveUrl: data.liveUrl,
-        githubUrl: data.githubUrl,
-        featured: data.featured || false,
-        published: data.published,
-        order: data.order || 0,
-        createdAt: convertTimestamp(data.createdAt),
-        updatedAt: convertTimestamp(data.updatedAt),
-      };
-    });
-
-    // Return JSON response with projects array
-    res.status(200).json({ projects });
-  } catch (error) {
-    console.error('Error fetching projects:', error);
-    res.status(500).json({
-      error: 'Failed to fetch projects',
-      code: 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
-    });
+  // Equality and array-contains filters precede the orderBy (see firestore.indexes.json)
+  let projectsQuery: admin.firestore.Query = db.collection('projects')
+    .where('published', '==', true)
+    .where('deletedAt', '==', null);
+
+  if (category !== undefined) {
+    projectsQuery = projectsQuery.where('category', '==', category);
+  }
+  if (technology !== undefined) {
+    projectsQuery = projectsQuery.where('technologies', 'array-contains', technology);
   }
+  if (featured !== undefined) {
+    projectsQuery = projectsQuery.where('featured', '==', featured);
+  }
+
+  // Aggregate count is billed as a single read regardless of result size
+  const countSnapshot = await projectsQuery.count().get();
+  const total = countSnapshot.data().count;
+
+  // Document ID breaks ties so cursors stay stable when sort values repeat
+  const { field, direction } = PROJECT_SORTS[sort];
+  let pageQuery = projectsQuery
+    .orderBy(field, direction)
+    .orderBy(admin.firestore.FieldPath.documentId(), direction);
+
+  if (cursor) {
+    const value = sort === 'createdAt'
+      ? admin.firestore.Timestamp.fromMillis(cursor.value as number)
+      : cursor.value;
+    pageQuery = pageQuery.startAfter(value, cursor.id);
+  }
+
+  // Fetch one extra document to learn whether another page exists
+  const projectsSnapshot = await pageQuery.limit(pageSize + 1).get();
+  const docs = projectsSnapshot.docs.slice(0, pageSize);
+  const hasMore = projectsSnapshot.docs.length > pageSize;
+  const page = cursor ? cursor.page + 1 : 1;
+
+  res.status(200).json({
+    data: docs.map(serializeProject),
+    total,
+    page,
+    pageSize,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor(sort, page, docs[docs.length - 1]) : null,
+  });
 });
 
+/**
+ * Finds the first published, non-trashed project whose `field` matches the value
+ */
+async function findPublishedProject(
+  field: 'slug' | 'slugHistory',
+  value: string
+): Promise<admin.firestore.DocumentSnapshot | undefined> {
+  const snapshot = await db.collection('projects')
+    .where('published', '==', true)
+    .where('deletedAt', '==', null)
+    .where(field, field === 'slugHistory' ? 'array-contains' : '==', value)
+    .limit(1)
+    .get();
+
+  return snapshot.docs[0];
+}
+
 /**
  * GET /api/v1/projects/:id
  * 
- * Retrieves a single project by its document ID.
- * Returns 404 if project doesn't exist or is not published.
+ * Retrieves a single project by its document ID or current slug.
+ * A slug the project used before it was renamed answers with a 301 to the
+ * current slug. Returns 404 if project doesn't exist, is not published or is
+ * in the trash.
+ * 
+ * Query parameters:
+ * - preview: string (optional, token from POST /admin/projects/:id/preview)
+ *   With a valid token the project is returned by document ID even when it
+ *   is unpublished, marked `preview: true`, and the response is neither
+ *   cached nor indexed. Slugs do not resolve in preview mode.
  * 
  * Response format:
- * - 200: { project: Project }
+ * - 200: { project: Project, preview?: true }
+ * - 301: Location header pointing at /api/v1/projects/<current slug>
+ * - 400: { error: string, code: string, timestamp: string }
+ * - 403: { error: string, code: string, timestamp: string } for an invalid or expired preview token
  * - 404: { error: string, code: string, timestamp: string }
  * - 500: { error: string, code: string, timestamp: string }
  * 
  * Requirements: 6.2, 6.5
  */
-export const getProjectById = functions.https.onRequest(async (req, res) => {
-  // Set CORS headers
-  setCorsHeaders(res);
+export const getProjectById = asyncHandler(async (req, res) => {
+  const idOrSlug = req.params.id;
+  const previewToken = parseStringParam(req.query.preview);
 
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    res.status(204).send('');
-    return;
+  if (previewToken === null) {
+    throw new ApiError(400, 'INVALID_REQUEST', 'Invalid preview token');
   }
 
-  // Only allow GET method
-  if (req.method !== 'GET') {
-    res.status(405).json({
-      error: 'Method Not Allowed',
-      code: 'METHOD_NOT_ALLOWED',
-      timestamp: new Date().toISOString()
-    });
+  if (previewToken !== undefined) {
+    // Checked before any read, so a bad token reveals nothing about the project
+    if (!verifyPreviewToken(previewToken, idOrSlug)) {
+      throw new ApiError(403, 'INVALID_PREVIEW_TOKEN', 'Preview link is invalid or has expired');
+    }
+
+    const draftDoc = await db.collection('projects').doc(idOrSlug).get();
+
+    if (!draftDoc.exists || isTrashed(draftDoc)) {
+      throw new ApiError(404, 'NOT_FOUND', 'Project not found');
+    }
+
+    res.set('Cache-Control', 'private, no-store');
+    res.set('X-Robots-Tag', 'noindex, nofollow');
+    res.status(200).json({ project: serializeProject(draftDoc), preview: true });
     return;
   }
 
-  try {
-    // Extract project ID from URL path
-    // Path format: /api/v1/projects/{projectId}
-    const pathParts = req.path.split('/');
-    const projectId = pathParts[pathParts.length - 1];
-
-    if (!projectId) {
-      res.status(400).json({
-        error: 'Project ID is required',
-        code: 'INVALID_REQUEST',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+  // Document IDs stay valid so existing links and clients keep working
+  const projectDoc = await db.collection('projects').doc(idOrSlug).get();
 
-    // Fetch project document from Firestore
-    const projectDoc = await db.collection('projects').doc(projectId).get();
-
-    // Return 404 if project doesn't exist
-    if (!projectDoc.exists) {
-      res.status(404).json({
-        error: 'Project not found',
-        code: 'NOT_FOUND',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+  // Unpublished and trashed projects are treated as not found for the public API
+  if (projectDoc.exists && projectDoc.get('published') && !isTrashed(projectDoc)) {
+    res.status(200).json({ project: serializeProject(projectDoc) });
+    return;
+  }
 
-    const data = projectDoc.data();
+  const slugMatch = await findPublishedProject('slug', idOrSlug);
 
-    // Return 404 if project is not published (treat as not found for public API)
-    if (!data || !data.published) {
-      res.status(404).json({
-        error: 'Project not found',
-        code: 'NOT_FOUND',
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
+  if (slugMatch) {
+    res.status(200).json({ project: serializeProject(slugMatch) });
+    return;
+  }
 
-    // Build project object with all fields
-    const project = {
-      id: projectDoc.id,
-      title: data.title,
-      description: data.description,
-      fullDescription: data.fullDescription,
-      thumbnail: data.thumbnail,
-      images: data.images || [],
-      technologies: data.technologies || [],
-      category: data.category,
-      liveUrl: data.liveUrl,
-      githubUrl: data.githubUrl,
-      featured: data.featured || false,
-      published: data.published,
-      order: data.order || 0,
-      createdAt: convertTimestamp(data.createdAt),
-      updatedAt: convertTimestamp(data.updatedAt),
-    };
-
-    // Return JSON response with project object
-    res.status(200).json({ project });
-  } catch (error) {
-    console.error('Error fetching project by ID:', error);
-    res.status(500).json({
-      error: 'Failed to fetch project',
-      code: 'INTERNAL_ERROR',
-      timestamp: new Date().toISOString()
-    });
+  const historyMatch = await findPublishedProject('slugHistory', idOrSlug);
+
+  if (historyMatch) {
+    // Relative Location resolves against whichever prefix (/api/v1 or /v1) was requested
+    res.redirect(301, encodeURIComponent(historyMatch.get('slug')));
+    return;
   }
+
+  throw new ApiError(404, 'NOT_FOUND', 'Project not found');
 });
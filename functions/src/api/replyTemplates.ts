@@ -0,0 +1,281 @@
+/**
+ * Admin Reply Templates API Endpoints
+ *
+ * This module provides route handlers for the saved reply templates offered
+ * when replying to an inquiry (see ./inquiries). All handlers are mounted
+ * behind the requireAuth middleware (see ../router.ts).
+ *
+ * Template subjects and bodies may contain {{name}} and {{subject}}
+ * placeholders, which the admin UI fills in from the inquiry before the
+ * reply is edited and sent.
+ *
+ * Key responsibilities:
+ * - List reply templates by name
+ * - Create, update and delete reply templates
+ * - Record every change in the audit log (see ../utils/auditLog)
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/auditLog for the admin audit log
+ */
+
+import * as admin from 'firebase-admin';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { addAuditEntry, auditContext } from '../utils/auditLog';
+
+// Initialize Firebase Admin if not already initialized
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const REPLY_TEMPLATES_COLLECTION = 'replyTemplates';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 10000;
+
+/**
+ * Editable template fields with their length limits
+ * The subject is optional; an empty subject keeps the default "Re: ..." one.
+ */
+const TEMPLATE_FIELDS = [
+  { field: 'name', label: 'Name', maxLength: MAX_NAME_LENGTH, required: true },
+  { field: 'subject', label: 'Subject', maxLength: MAX_SUBJECT_LENGTH, required: false },
+  { field: 'body', label: 'Body', maxLength: MAX_BODY_LENGTH, required: true },
+] as const;
+
+/**
+ * Converts Firestore Timestamp to ISO string for JSON serialization
+ */
+function convertTimestamp(timestamp: any): string | null {
+  if (timestamp && timestamp.toDate) {
+    return timestamp.toDate().toISOString();
+  }
+  return null;
+}
+
+/**
+ * Maps a reply template document to its JSON representation
+ */
+function serializeReplyTemplate(doc: admin.firestore.DocumentSnapshot) {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    name: data.name,
+    subject: data.subject || '',
+    body: data.body,
+    createdAt: convertTimestamp(data.createdAt),
+    updatedAt: convertTimestamp(data.updatedAt),
+  };
+}
+
+/**
+ * Validates the fields of a create or update request
+ *
+ * @param data - Request body
+ * @param partial - Whether fields may be omitted (updates)
+ * @returns Field-specific error messages
+ */
+function validateReplyTemplate(data: Record<string, unknown>, partial: boolean): { [key: string]: string } {
+  const errors: { [key: string]: string } = {};
+
+  TEMPLATE_FIELDS.forEach(({ field, label, maxLength, required }) => {
+    const value = data[field];
+
+    if (value === undefined) {
+      if (required && !partial) {
+        errors[field] = `${label} is required`;
+      }
+    } else if (typeof value !== 'string' || (required && value.trim().length === 0)) {
+      errors[field] = required ? `${label} must be a non-empty string` : `${label} must be a string`;
+    } else if (value.length > maxLength) {
+      errors[field] = `${label} must be at most ${maxLength} characters`;
+    }
+  });
+
+  if (partial && TEMPLATE_FIELDS.every(({ field }) => data[field] === undefined)) {
+    errors.body = 'At least one of name, subject or body is required';
+  }
+
+  return errors;
+}
+
+/**
+ * Picks the trimmed template fields present in a request body
+ */
+function templateUpdates(data: Record<string, unknown>): { [key: string]: string } {
+  const updates: { [key: string]: string } = {};
+  TEMPLATE_FIELDS.forEach(({ field }) => {
+    if (typeof data[field] === 'string') {
+      updates[field] = (data[field] as string).trim();
+    }
+  });
+  return updates;
+}
+
+/**
+ * Loads a reply template document, throwing 404 if it does not exist
+ */
+async function getExistingTemplate(templateId: string): Promise<admin.firestore.DocumentSnapshot> {
+  const templateDoc = await db.collection(REPLY_TEMPLATES_COLLECTION).doc(templateId).get();
+
+  if (!templateDoc.exists) {
+    throw new ApiError(404, 'NOT_FOUND', 'Reply template not found');
+  }
+
+  return templateDoc;
+}
+
+/**
+ * GET /api/v1/admin/reply-templates
+ *
+ * Lists reply templates ordered by name.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { data: ReplyTemplate[] }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const listReplyTemplates = asyncHandler(async (_req, res) => {
+  const templatesSnapshot = await db.collection(REPLY_TEMPLATES_COLLECTION).orderBy('name', 'asc').get();
+
+  res.status(200).json({ data: templatesSnapshot.docs.map(serializeReplyTemplate) });
+});
+
+/**
+ * POST /api/v1/admin/reply-templates
+ *
+ * Creates a reply template.
+ * Requires authentication via Bearer token.
+ *
+ * Request body:
+ * - name: string (required, max 100 characters)
+ * - subject: string (optional, max 200 characters)
+ * - body: string (required, max 10000 characters)
+ *
+ * Response format:
+ * - 201: { template: ReplyTemplate, message: string }
+ * - 400: { error: string, code: string, details?: object, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const createReplyTemplate = asyncHandler(async (req, res) => {
+  const body = req.body || {};
+  const validationErrors = validateReplyTemplate(body, false);
+
+  if (Object.keys(validationErrors).length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', validationErrors);
+  }
+
+  const templateRef = db.collection(REPLY_TEMPLATES_COLLECTION).doc();
+  const templateData = {
+    subject: '',
+    ...templateUpdates(body),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  const batch = db.batch();
+  batch.set(templateRef, templateData);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'replyTemplate.create',
+    { type: 'replyTemplate', id: templateRef.id },
+    null,
+    templateData
+  );
+  await batch.commit();
+
+  const templateDoc = await templateRef.get();
+
+  res.status(201).json({
+    template: serializeReplyTemplate(templateDoc),
+    message: 'Reply template created successfully'
+  });
+});
+
+/**
+ * PUT /api/v1/admin/reply-templates/:id
+ *
+ * Updates a reply template.
+ * Requires authentication via Bearer token.
+ *
+ * Request body: any of name, subject and body (see POST)
+ *
+ * Response format:
+ * - 200: { template: ReplyTemplate, message: string }
+ * - 400: { error: string, code: string, details?: object, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const updateReplyTemplate = asyncHandler(async (req, res) => {
+  const body = req.body || {};
+  const validationErrors = validateReplyTemplate(body, true);
+
+  if (Object.keys(validationErrors).length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Validation failed', validationErrors);
+  }
+
+  const templateDoc = await getExistingTemplate(req.params.id);
+  const updates = {
+    ...templateUpdates(body),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  const batch = db.batch();
+  batch.update(templateDoc.ref, updates);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'replyTemplate.update',
+    { type: 'replyTemplate', id: templateDoc.id },
+    templateDoc.data() || null,
+    { ...templateDoc.data(), ...updates }
+  );
+  await batch.commit();
+
+  const updatedDoc = await templateDoc.ref.get();
+
+  res.status(200).json({
+    template: serializeReplyTemplate(updatedDoc),
+    message: 'Reply template updated successfully'
+  });
+});
+
+/**
+ * DELETE /api/v1/admin/reply-templates/:id
+ *
+ * Deletes a reply template. Replies already sent from it are not affected.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { message: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const deleteReplyTemplate = asyncHandler(async (req, res) => {
+  const templateDoc = await getExistingTemplate(req.params.id);
+
+  const batch = db.batch();
+  batch.delete(templateDoc.ref);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'replyTemplate.delete',
+    { type: 'replyTemplate', id: templateDoc.id },
+    templateDoc.data() || null,
+    null
+  );
+  await batch.commit();
+
+  res.status(200).json({
+    message: 'Reply template deleted'
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Admin Project Revisions API Endpoints
+ *
+ * This module provides route handlers for browsing and restoring the revision
+ * history recorded by the admin project handlers (see ../utils/revisions).
+ * All handlers are mounted behind the requireAuth middleware (see ../router.ts).
+ *
+ * Key responsibilities:
+ * - List a project's revisions, newest first
+ * - Restore a project to any earlier revision, including one in the trash
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/revisions for recording and serializing revisions
+ * - ../utils/slug for resolving slug conflicts on restore
+ * - ../utils/trash for taking restored projects out of the trash
+ * - ../utils/auditLog for the admin audit log
+ * - ../utils/media for keeping media library references in step
+ */
+
+import * as admin from 'firebase-admin';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { addRevision, serializeRevisionValue } from '../utils/revisions';
+import { generateUniqueSlug, isSlugAvailable } from '../utils/slug';
+import { isTrashed, restoreFields } from '../utils/trash';
+import { addAuditEntry, auditContext } from '../utils/auditLog';
+import { addMediaReferenceUpdates } from '../utils/media';
+
+// Initialize Firebase Admin if not already initialized
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * Revisions returned per project; older history stays stored but is not listed
+ */
+const MAX_REVISIONS = 100;
+
+/**
+ * Maps a revision document to its JSON representation
+ */
+function serializeRevision(doc: admin.firestore.DocumentSnapshot) {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    action: data.action,
+    actor: data.actor || { uid: null, email: null },
+    changes: serializeRevisionValue(data.changes || {}),
+    snapshot: serializeRevisionValue(data.snapshot ?? null),
+    restoredFrom: data.restoredFrom,
+    createdAt: serializeRevisionValue(data.createdAt),
+  };
+}
+
+/**
+ * GET /api/v1/admin/projects/:id/revisions
+ *
+ * Lists a project's revisions, newest first. Works for projects in the trash
+ * too, and for projects purged before revisions were kept with them.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { data: ProjectRevision[] }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const listProjectRevisions = asyncHandler(async (req, res) => {
+  const projectRef = db.collection('projects').doc(req.params.id);
+
+  const [projectDoc, revisionsSnapshot] = await Promise.all([
+    projectRef.get(),
+    projectRef.collection('revisions').orderBy('createdAt', 'desc').limit(MAX_REVISIONS).get(),
+  ]);
+
+  if (!projectDoc.exists && revisionsSnapshot.empty) {
+    throw new ApiError(404, 'NOT_FOUND', 'Project not found');
+  }
+
+  res.status(200).json({ data: revisionsSnapshot.docs.map(serializeRevision) });
+});
+
+/**
+ * POST /api/v1/admin/projects/:id/revisions/:revisionId/restore
+ *
+ * Replaces the project with the version stored in a revision, taking the
+ * project out of the trash if it was deleted. The restore is itself recorded
+ * as a revision.
+ *
+ * Slugs the project has used since that revision stay in `slugHistory` so
+ * newer links keep redirecting. If the restored slug now belongs to another
+ * project, a new one is generated from the title.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { message: string, revisionId: string }
+ * - 400: { error: string, code: string, timestamp: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const restoreProjectRevision = asyncHandler(async (req, res) => {
+  const projectRef = db.collection('projects').doc(req.params.id);
+
+  const [projectDoc, revisionDoc] = await Promise.all([
+    projectRef.get(),
+    projectRef.collection('revisions').doc(req.params.revisionId).get(),
+  ]);
+
+  if (!revisionDoc.exists) {
+    throw new ApiError(404, 'NOT_FOUND', 'Revision not found');
+  }
+
+  const snapshot = revisionDoc.get('snapshot');
+
+  if (!snapshot) {
+    throw new ApiError(400, 'INVALID_REQUEST', 'Revision has no project data to restore');
+  }
+
+  const current = projectDoc.exists ? projectDoc.data() || null : null;
+
+  let slug: string | undefined = snapshot.slug;
+  if (!slug || !(await isSlugAvailable(db, slug, projectRef.id))) {
+    slug = await generateUniqueSlug(db, snapshot.title, projectRef.id);
+  }
+
+  const slugHistory = Array.from(
+    new Set<string>([
+      ...(snapshot.slugHistory || []),
+      ...(current?.slugHistory || []),
+      ...(current?.slug ? [current.slug] : []),
+    ])
+  ).filter((previous) => previous !== slug);
+
+  const restored = {
+    ...snapshot,
+    slug,
+    slugHistory,
+    ...restoreFields(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  const batch = db.batch();
+  batch.set(projectRef, restored);
+  const revisionId = addRevision(
+    batch,
+    projectRef,
+    'restore',
+    req.user,
+    current,
+    restored,
+    revisionDoc.id
+  );
+  await addMediaReferenceUpdates(db, batch, projectRef.id, current, restored);
+  addAuditEntry(batch, auditContext(req), 'project.restore', { type: 'project', id: projectRef.id }, current, restored);
+  await batch.commit();
+
+  res.status(200).json({
+    message: current && !isTrashed(projectDoc)
+      ? 'Project restored successfully'
+      : 'Project undeleted successfully',
+    revisionId,
+  });
+});
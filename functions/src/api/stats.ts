@@ -0,0 +1,124 @@
+/**
+ * Admin Dashboard Statistics Endpoint
+ *
+ * This module provides the route handler backing the admin dashboard cards.
+ * It is mounted behind the requireAuth middleware (see ../router.ts).
+ * All counts use Firestore aggregate count queries, which are billed as one
+ * read per 1,000 matched documents instead of one read per document.
+ *
+ * Key responsibilities:
+ * - Count published, draft and featured projects
+ * - Count total, unread and unreplied inquiries
+ * - Bucket recent inquiries into weekly counts for the trend chart
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - ../middleware/errors for async handling
+ */
+
+import * as admin from 'firebase-admin';
+import { asyncHandler } from '../middleware/errors';
+
+// Initialize Firebase Admin if not already initialized
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * Number of weekly buckets returned for the inquiries trend
+ */
+const TREND_WEEKS = 8;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Runs an aggregate count query and returns the number of matches
+ */
+async function count(query: admin.firestore.Query): Promise<number> {
+  const snapshot = await query.count().get();
+  return snapshot.data().count;
+}
+
+/**
+ * Counts inquiries received in each of the last TREND_WEEKS rolling weeks
+ * Returned oldest first so the chart reads left to right
+ */
+async function countInquiriesPerWeek(now: Date): Promise<{ weekStart: string; count: number }[]> {
+  const inquiries = db.collection('inquiries').where('deletedAt', '==', null);
+
+  const buckets = Array.from({ length: TREND_WEEKS }, (_, index) => {
+    const weeksAgo = TREND_WEEKS - index;
+    const start = new Date(now.getTime() - weeksAgo * WEEK_MS);
+    const end = new Date(start.getTime() + WEEK_MS);
+    return { start, end };
+  });
+
+  const counts = await Promise.all(
+    buckets.map(({ start, end }) =>
+      count(inquiries.where('timestamp', '>=', start).where('timestamp', '<', end))
+    )
+  );
+
+  return buckets.map(({ start }, index) => ({
+    weekStart: start.toISOString(),
+    count: counts[index],
+  }));
+}
+
+/**
+ * GET /api/v1/admin/stats
+ *
+ * Returns project and inquiry statistics for the admin dashboard.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: {
+ *     projects: { total, published, draft, featured },
+ *     inquiries: { total, unread, unreplied, perWeek: { weekStart, count }[] },
+ *     generatedAt: string
+ *   }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const getDashboardStats = asyncHandler(async (_req, res) => {
+  const now = new Date();
+  // Items in the trash are left out of every count
+  const projects = db.collection('projects').where('deletedAt', '==', null);
+  const inquiries = db.collection('inquiries').where('deletedAt', '==', null);
+
+  const [
+    totalProjects,
+    publishedProjects,
+    featuredProjects,
+    totalInquiries,
+    unreadInquiries,
+    unrepliedInquiries,
+    perWeek,
+  ] = await Promise.all([
+    count(projects),
+    count(projects.where('published', '==', true)),
+    count(projects.where('featured', '==', true)),
+    count(inquiries),
+    count(inquiries.where('read', '==', false)),
+    count(inquiries.where('replied', '==', false)),
+    countInquiriesPerWeek(now),
+  ]);
+
+  res.status(200).json({
+    projects: {
+      total: totalProjects,
+      published: publishedProjects,
+      // Drafts are derived so documents missing the published flag are still counted
+      draft: totalProjects - publishedProjects,
+      featured: featuredProjects,
+    },
+    inquiries: {
+      total: totalInquiries,
+      unread: unreadInquiries,
+      unreplied: unrepliedInquiries,
+      perWeek,
+    },
+    generatedAt: now.toISOString(),
+  });
+});
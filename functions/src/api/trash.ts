@@ -0,0 +1,259 @@
+/**
+ * Admin Trash API Endpoints
+ *
+ * This module provides route handlers for the admin Trash view. Deleting a
+ * project or inquiry only moves it to the trash (see ../utils/trash); from
+ * here it can be restored or purged for good before the scheduled purge
+ * removes it. All handlers are mounted behind the requireAuth middleware
+ * (see ../router.ts).
+ *
+ * Key responsibilities:
+ * - List trashed projects and inquiries, most recently deleted first
+ * - Restore a trashed project (recorded as a revision) or inquiry
+ * - Permanently purge a trashed project, with its revisions, or inquiry
+ * - Record restores and purges in the audit log
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - ../middleware/errors for async handling and API errors
+ * - ../utils/revisions for recording project restores
+ * - ../utils/trash for trash fields and retention
+ * - ../utils/auditLog for the admin audit log
+ * - ../utils/media for releasing a purged project's media
+ * - ../utils/privacy for purging inquiries without keeping their personal data
+ */
+
+import * as admin from 'firebase-admin';
+import { ApiError, asyncHandler } from '../middleware/errors';
+import { addRevision } from '../utils/revisions';
+import { addAuditEntry, auditContext, recordAuditEntry } from '../utils/auditLog';
+import { TrashCollection, isTrashed, purgeDate, restoreFields } from '../utils/trash';
+import { removeMediaReferences } from '../utils/media';
+import { eraseInquiry } from '../utils/privacy';
+
+// Initialize Firebase Admin if not already initialized
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+/**
+ * Items listed per collection; anything older is still purged on schedule
+ */
+const MAX_TRASH_ITEMS = 100;
+
+const NOT_IN_TRASH_MESSAGES: Record<TrashCollection, string> = {
+  projects: 'Project not found in trash',
+  inquiries: 'Inquiry not found in trash',
+};
+
+/**
+ * Maps a trashed document to the fields shared by every trash entry
+ */
+function serializeTrashEntry(doc: admin.firestore.DocumentSnapshot) {
+  const deletedAt: Date = doc.get('deletedAt').toDate();
+  return {
+    id: doc.id,
+    deletedAt: deletedAt.toISOString(),
+    deletedBy: doc.get('deletedBy') ?? null,
+    purgeAt: purgeDate(deletedAt).toISOString(),
+  };
+}
+
+/**
+ * Loads a trashed document, throwing 404 if it does not exist or is not in the trash
+ */
+async function getTrashedDoc(
+  collection: TrashCollection,
+  id: string
+): Promise<admin.firestore.DocumentSnapshot> {
+  const doc = await db.collection(collection).doc(id).get();
+
+  if (!doc.exists || !isTrashed(doc)) {
+    throw new ApiError(404, 'NOT_FOUND', NOT_IN_TRASH_MESSAGES[collection]);
+  }
+
+  return doc;
+}
+
+/**
+ * Lists a collection's trashed documents, most recently deleted first
+ */
+async function listTrashed(collection: TrashCollection): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const snapshot = await db.collection(collection)
+    .where('deletedAt', '!=', null)
+    .orderBy('deletedAt', 'desc')
+    .limit(MAX_TRASH_ITEMS)
+    .get();
+
+  return snapshot.docs;
+}
+
+/**
+ * GET /api/v1/admin/trash
+ *
+ * Lists trashed projects and inquiries, most recently deleted first.
+ * Each entry carries the date the scheduled purge will remove it.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: {
+ *     projects: { id, title, slug, deletedAt, deletedBy, purgeAt }[],
+ *     inquiries: { id, name, email, subject, deletedAt, deletedBy, purgeAt }[]
+ *   }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const listTrash = asyncHandler(async (_req, res) => {
+  const [projectDocs, inquiryDocs] = await Promise.all([
+    listTrashed('projects'),
+    listTrashed('inquiries'),
+  ]);
+
+  res.status(200).json({
+    projects: projectDocs.map((doc) => ({
+      ...serializeTrashEntry(doc),
+      title: doc.get('title'),
+      slug: doc.get('slug') || doc.id,
+    })),
+    inquiries: inquiryDocs.map((doc) => ({
+      ...serializeTrashEntry(doc),
+      name: doc.get('name'),
+      email: doc.get('email'),
+      subject: doc.get('subject'),
+    })),
+  });
+});
+
+/**
+ * POST /api/v1/admin/trash/projects/:id/restore
+ *
+ * Takes a project out of the trash. The restore is recorded as a revision.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { message: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const restoreTrashedProject = asyncHandler(async (req, res) => {
+  const projectDoc = await getTrashedDoc('projects', req.params.id);
+
+  const updates = {
+    ...restoreFields(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  const batch = db.batch();
+  batch.update(projectDoc.ref, updates);
+  addRevision(batch, projectDoc.ref, 'restore', req.user, projectDoc.data() || null, {
+    ...projectDoc.data(),
+    ...updates,
+  });
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'project.restore',
+    { type: 'project', id: projectDoc.id },
+    projectDoc.data() || null,
+    { ...projectDoc.data(), ...updates }
+  );
+  await batch.commit();
+
+  res.status(200).json({
+    message: 'Project restored from trash'
+  });
+});
+
+/**
+ * DELETE /api/v1/admin/trash/projects/:id
+ *
+ * Permanently deletes a trashed project together with its revision history.
+ * Only projects already in the trash can be purged.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { message: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const purgeTrashedProject = asyncHandler(async (req, res) => {
+  const projectDoc = await getTrashedDoc('projects', req.params.id);
+
+  // recursiveDelete also removes the revisions subcollection
+  await db.recursiveDelete(projectDoc.ref);
+  await removeMediaReferences(db, projectDoc.id, projectDoc.data());
+  await recordAuditEntry(
+    db,
+    auditContext(req),
+    'project.purge',
+    { type: 'project', id: projectDoc.id },
+    projectDoc.data() || null,
+    null
+  );
+
+  res.status(200).json({
+    message: 'Project permanently deleted'
+  });
+});
+
+/**
+ * POST /api/v1/admin/trash/inquiries/:id/restore
+ *
+ * Takes an inquiry out of the trash and back into the inbox.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { message: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const restoreTrashedInquiry = asyncHandler(async (req, res) => {
+  const inquiryDoc = await getTrashedDoc('inquiries', req.params.id);
+
+  const updates = restoreFields();
+
+  const batch = db.batch();
+  batch.update(inquiryDoc.ref, updates);
+  addAuditEntry(
+    batch,
+    auditContext(req),
+    'inquiry.restore',
+    { type: 'inquiry', id: inquiryDoc.id },
+    inquiryDoc.data() || null,
+    { ...inquiryDoc.data(), ...updates }
+  );
+  await batch.commit();
+
+  res.status(200).json({
+    message: 'Inquiry restored from trash'
+  });
+});
+
+/**
+ * DELETE /api/v1/admin/trash/inquiries/:id
+ *
+ * Permanently deletes a trashed inquiry with its reply thread.
+ * Only inquiries already in the trash can be purged. The sender's data is not
+ * copied into the audit log, and earlier entries for the inquiry are redacted.
+ * Requires authentication via Bearer token.
+ *
+ * Response format:
+ * - 200: { message: string }
+ * - 401: { error: string, code: string, timestamp: string }
+ * - 404: { error: string, code: string, timestamp: string }
+ * - 500: { error: string, code: string, timestamp: string }
+ */
+export const purgeTrashedInquiry = asyncHandler(async (req, res) => {
+  const inquiryDoc = await getTrashedDoc('inquiries', req.params.id);
+
+  await eraseInquiry(db, inquiryDoc, auditContext(req), 'inquiry.purge');
+
+  res.status(200).json({
+    message: 'Inquiry permanently deleted'
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * API Express Application
+ *
+ * This module builds the Express app served by the single `api` Cloud Function.
+ * Shared middleware runs in order: CORS (including preflight), JSON body
+ * parsing, the v1 router, then 404 and error formatting.
+ *
+ * The router is mounted under two prefixes so the same paths work however the
+ * function is reached:
+ * - /api/v1/* through the Firebase Hosting rewrite (production and hosting emulator)
+ * - /v1/* when calling the function URL directly, e.g.
+ *   https://us-central1-<project>.cloudfunctions.net/api/v1/projects or
+ *   http://localhost:5001/<project>/us-central1/api/v1/projects
+ *
+ * Dependencies:
+ * - express for routing and body parsing
+ * - ./router for the v1 route table
+ * - ./middleware for CORS and error handling
+ */
+
+import express from 'express';
+import router from './router';
+import { cors } from './middleware/cors';
+import { errorHandler, notFound } from './middleware/errors';
+
+const app = express();
+
+// Cloud Functions sits behind Google's front end, which appends the client IP to
+// X-Forwarded-For. Only the entries added by trusted proxies are used for req.ip
+// (which rate limits are keyed on), so clients cannot spoof it with the header.
+// Set TRUSTED_PROXY_HOPS=2 when requests also pass through the Firebase Hosting rewrite.
+app.set('trust proxy', Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+app.disable('x-powered-by');
+
+app.use(cors);
+
+// Image uploads are multipart/form-data (see utils/multipart), so JSON bodies stay small
+app.use(express.json({ limit: '1mb' }));
+
+app.use(['/api/v1', '/v1'], router);
+
+app.use(notFound);
+app.use(errorHandler);
+
+export default app;
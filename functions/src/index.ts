@@ -2,26 +2,138 @@
  * Firebase Functions Entry Point
  * 
  * This file exports all Firebase Functions for the portfolio website.
- * Functions are organized by feature area (projects, contact, admin, profile).
+ * Every HTTP endpoint is served by the single `api` function, an Express app
+ * (see app.ts) whose route table lives in router.ts. Firebase Hosting rewrites
+ * /api/v1/** to this function.
  * 
  * API Endpoints (v1):
  * - GET /api/v1/projects - Retrieve all published projects
- * - GET /api/v1/projects/:id - Retrieve single project by ID
+ * - GET /api/v1/projects/:id - Retrieve single project by ID or slug
+ * - GET /api/v1/projects/:id?preview=<token> - Retrieve an unpublished project with a signed preview token
  * - GET /api/v1/profile - Retrieve portfolio owner profile
  * - POST /api/v1/contact - Submit contact form inquiry
  * 
- * Admin API Endpoints (v1) - Require Authentication:
+ * Admin API Endpoints (v1) - Require Authentication and an admin role
+ * (viewer to read, editor to change data, owner for the profile, permanent deletes,
+ * the audit log and privacy requests):
  * - POST /api/v1/admin/projects - Create new project
+ * - PUT /api/v1/admin/projects/reorder - Persist manual project ordering (batch write)
  * - PUT /api/v1/admin/projects/:id - Update existing project
- * - DELETE /api/v1/admin/projects/:id - Delete project
- * - POST /api/v1/admin/upload - Upload image to Firebase Storage
+ * - DELETE /api/v1/admin/projects/:id - Move project to the trash
+ * - POST /api/v1/admin/projects/:id/preview - Create a signed, expiring draft preview link
+ * - GET /api/v1/admin/projects/:id/revisions - List project revision history
+ * - POST /api/v1/admin/projects/:id/revisions/:revisionId/restore - Restore a revision (also undeletes)
+ * - POST /api/v1/admin/upload - Upload image to Firebase Storage and index it in the media library
+ * - GET /api/v1/admin/media - List media library entries (paginated, searchable)
+ * - PUT /api/v1/admin/media/:id - Update media alt text
+ * - GET /api/v1/admin/media/cleanup - Dry-run report of the scheduled Storage cleanup
+ * - DELETE /api/v1/admin/media/:id - Delete unused media and its Storage files
+ * - PUT /api/v1/admin/profile - Update portfolio owner profile
+ * - GET /api/v1/admin/stats - Dashboard statistics (project and inquiry counts)
+ * - GET /api/v1/admin/inquiries - List inquiries (paginated, filterable by read/replied)
+ * - GET /api/v1/admin/inquiries/:id - Retrieve single inquiry
+ * - PUT /api/v1/admin/inquiries/:id - Update inquiry read/replied/spam flags
+ * - DELETE /api/v1/admin/inquiries/:id - Move inquiry to the trash
+ * - GET /api/v1/admin/inquiries/:id/messages - List the replies sent for an inquiry
+ * - POST /api/v1/admin/inquiries/:id/messages - Email a reply and mark the inquiry replied
+ * - GET /api/v1/admin/reply-templates - List saved reply templates
+ * - POST /api/v1/admin/reply-templates - Create reply template
+ * - PUT /api/v1/admin/reply-templates/:id - Update reply template
+ * - DELETE /api/v1/admin/reply-templates/:id - Delete reply template
+ * - GET /api/v1/admin/trash - List trashed projects and inquiries
+ * - POST /api/v1/admin/trash/projects/:id/restore - Restore project from the trash
+ * - DELETE /api/v1/admin/trash/projects/:id - Permanently delete trashed project
+ * - POST /api/v1/admin/trash/inquiries/:id/restore - Restore inquiry from the trash
+ * - DELETE /api/v1/admin/trash/inquiries/:id - Permanently delete trashed inquiry
+ * - GET /api/v1/admin/audit-log - List audit log entries (paginated, filterable)
+ * - POST /api/v1/admin/privacy/export - Export everything stored about an inquiry sender, by email
+ * - POST /api/v1/admin/privacy/erase - Permanently delete everything stored about an inquiry sender
  * 
  * All endpoints implement CORS headers and return JSON responses.
+ * Public endpoints are rate limited per client IP (see utils/rateLimit.ts).
  * Error responses follow consistent format with error code and timestamp.
+ * 
+ * Scheduled Functions:
+ * - purgeTrash - Daily purge of trashed items older than 30 days
+ * - publishScheduledProjects - Applies project publishAt/unpublishAt times every 5 minutes
+ * - applyInquiryRetention - Daily anonymisation (or deletion) of inquiries past the retention period
+ * - cleanUpStorage - Daily move of temp images into their project folders and deletion of unused uploads
+ * 
+ * Firestore Triggers:
+ * - notifyNewInquiry - Emails the owner (and optionally the sender) when an inquiry is stored
  */
 
-// Import and export API endpoints
-export { getProjects, getProjectById } from './api/projects';
-export { getProfile } from './api/profile';
-export { submitInquiry } from './api/contact';
-export { createProject, updateProject, deleteProject, uploadImage } from './api/admin';
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import app from './app';
+import { purgeExpiredTrash } from './utils/trash';
+import { applyPublishSchedule } from './utils/publishSchedule';
+import { applyRetentionPolicy } from './utils/privacy';
+import { runStorageCleanup } from './utils/storageCleanup';
+import { SCHEDULER_AUDIT_CONTEXT } from './utils/auditLog';
+import { notifyInquiry, NotifiedInquiry } from './utils/inquiryNotifications';
+
+// Versioned HTTP API serving every endpoint listed above
+export const api = functions.https.onRequest(app);
+
+// Permanently deletes projects and inquiries left in the trash past the retention period
+export const purgeTrash = functions.scheduler.onSchedule('every day 03:00', async () => {
+  const purged = await purgeExpiredTrash(admin.firestore());
+  functions.logger.info('Purged expired trash', purged);
+});
+
+// Publishes and unpublishes projects whose publishAt/unpublishAt time has passed
+export const publishScheduledProjects = functions.scheduler.onSchedule('every 5 minutes', async () => {
+  const transitions = await applyPublishSchedule(admin.firestore());
+
+  transitions.forEach((transition) => {
+    functions.logger.info(
+      transition.published ? 'Project published on schedule' : 'Project unpublished on schedule',
+      transition
+    );
+  });
+});
+
+// Anonymises or deletes inquiries older than INQUIRY_RETENTION_MONTHS (see utils/privacy.ts)
+export const applyInquiryRetention = functions.scheduler.onSchedule('every day 04:00', async () => {
+  const result = await applyRetentionPolicy(admin.firestore(), SCHEDULER_AUDIT_CONTEXT);
+
+  if (result) {
+    functions.logger.info('Applied inquiry retention policy', result);
+  } else {
+    functions.logger.info('Inquiry retention disabled; nothing to do');
+  }
+});
+
+// Moves temp images used by projects into their project folder and deletes unused uploads (see utils/storageCleanup.ts)
+export const cleanUpStorage = functions.scheduler.onSchedule('every day 05:00', async () => {
+  const report = await runStorageCleanup(admin.firestore(), admin.storage().bucket(), SCHEDULER_AUDIT_CONTEXT);
+
+  functions.logger.info('Cleaned up Storage', {
+    moved: report.moves.length,
+    deleted: report.deletions.length,
+    remaining: report.remaining,
+  });
+});
+
+// Emails the owner about each new inquiry and records the delivery status on it
+// Retried deliveries of the trigger find the inquiry already claimed and send nothing
+export const notifyNewInquiry = functions.firestore.onDocumentCreated('inquiries/{inquiryId}', async (event) => {
+  const snapshot = event.data;
+  if (!snapshot) {
+    return;
+  }
+
+  const notifications = await notifyInquiry(admin.firestore(), snapshot.ref, snapshot.data() as NotifiedInquiry);
+
+  if (!notifications) {
+    functions.logger.info('Inquiry notifications already processed', { inquiryId: event.params.inquiryId });
+    return;
+  }
+
+  functions.logger.info('Inquiry notifications processed', {
+    inquiryId: event.params.inquiryId,
+    owner: notifications.owner.status,
+    acknowledgement: notifications.acknowledgement.status,
+  });
+});
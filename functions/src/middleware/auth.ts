@@ -2,26 +2,61 @@
  * Authentication Middleware
  * 
  * This module provides authentication verification for admin API endpoints.
- * It validates Firebase Auth tokens from the Authorization header.
+ * It validates Firebase Auth tokens from the Authorization header and checks
+ * the `role` custom claim set by scripts/create-admin-user.js.
+ * 
+ * Roles, from least to most privileged:
+ * - viewer: read-only access to the admin API
+ * - editor: manage projects and inquiries, restore from the trash
+ * - owner: everything, including the profile and deleting items forever
  * 
  * Key responsibilities:
  * - Extract and verify Firebase Auth tokens
  * - Return 401 for missing or invalid tokens
- * - Attach decoded user information to request
+ * - Attach decoded user information to request (`req.user`)
+ * - Return 403 when the user's role is below the one a route requires
  * 
  * Dependencies:
  * - firebase-admin for token verification
- * - firebase-functions for HTTP types
+ * - express for middleware types
  */
 
 import * as admin from 'firebase-admin';
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
+import { sendError } from './errors';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /** Decoded Firebase ID token, set by requireAuth on admin routes */
+      user?: admin.auth.DecodedIdToken;
+    }
+  }
+}
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
   admin.initializeApp();
 }
 
+/**
+ * Admin roles, ordered from least to most privileged
+ * Keep in sync with ADMIN_ROLES in lib/roles.ts, firestore.rules and storage.rules.
+ */
+export const ROLES = ['viewer', 'editor', 'owner'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Reads the role custom claim from a decoded token
+ * Returns null for users without a (recognised) role.
+ */
+export function getRole(token: admin.auth.DecodedIdToken | undefined): Role | null {
+  const role = token?.role;
+  return ROLES.includes(role) ? (role as Role) : null;
+}
+
 /**
  * Verifies Firebase Auth token from Authorization header
  * 
@@ -61,37 +96,62 @@ export async function verifyAuthToken(req: Request): Promise<admin.auth.DecodedI
 }
 
 /**
- * Middleware function to protect admin endpoints
+ * Express middleware protecting admin routes
  * 
- * Verifies authentication and returns 401 if not authenticated.
- * If authenticated, calls the provided handler function.
+ * Verifies authentication and responds with 401 if not authenticated.
+ * If authenticated, attaches the decoded token to `req.user` and passes
+ * control to the next handler.
  * 
  * Usage:
  * ```typescript
- * export const myAdminEndpoint = functions.https.onRequest(async (req, res) => {
- *   const user = await requireAuth(req, res);
- *   if (!user) return; // Response already sent
- *   
- *   // Continue with authenticated logic
- * });
+ * router.put('/admin/projects/:id', requireAuth, updateProject);
  * ```
  * 
  * Requirements: 11.4
  */
 export async function requireAuth(
   req: Request,
-  res: Response
-): Promise<admin.auth.DecodedIdToken | null> {
+  res: Response,
+  next: NextFunction
+): Promise<void> {
   const decodedToken = await verifyAuthToken(req);
 
   if (!decodedToken) {
-    res.status(401).json({
-      error: 'Authentication required',
-      code: 'UNAUTHORIZED',
-      timestamp: new Date().toISOString()
-    });
-    return null;
+    sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
+    return;
   }
 
-  return decodedToken;
+  req.user = decodedToken;
+  next();
+}
+
+/**
+ * Creates middleware that only lets users with at least the given role through
+ * 
+ * Must run after requireAuth. Users without a role claim are rejected even
+ * for `viewer`, so signing up to the Firebase project grants no access.
+ * 
+ * Usage:
+ * ```typescript
+ * router.route('/admin/profile').put(requireRole('owner'), updateProfile);
+ * ```
+ * 
+ * @param minimum - Least privileged role allowed
+ */
+export function requireRole(minimum: Role) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const role = getRole(req.user);
+
+    if (!req.user) {
+      sendError(res, 401, 'UNAUTHORIZED', 'Authentication required');
+      return;
+    }
+
+    if (!role || ROLES.indexOf(role) < ROLES.indexOf(minimum)) {
+      sendError(res, 403, 'FORBIDDEN', `This action requires the ${minimum} role`);
+      return;
+    }
+
+    next();
+  };
 }
@@ -0,0 +1,35 @@
+/**
+ * CORS Middleware
+ *
+ * This module sets the CORS headers shared by every API route and answers
+ * preflight requests, replacing the per-endpoint setCorsHeaders helpers.
+ *
+ * Key responsibilities:
+ * - Allow cross-origin requests from any origin
+ * - Allow the Authorization header used by admin routes
+ * - Short-circuit OPTIONS preflight requests with 204
+ *
+ * Dependencies:
+ * - express for middleware types
+ */
+
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Sets CORS headers and answers OPTIONS preflight requests
+ *
+ * Requirements: 6.6
+ */
+export function cors(req: Request, res: Response, next: NextFunction): void {
+  res.set('Access-Control-Allow-Origin', '*');
+  res.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight OPTIONS request
+  if (req.method === 'OPTIONS') {
+    res.status(204).send('');
+    return;
+  }
+
+  next();
+}
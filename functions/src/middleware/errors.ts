@@ -0,0 +1,115 @@
+/**
+ * Error Handling Middleware
+ *
+ * This module centralises how the API reports errors so every route returns
+ * the same JSON shape: { error, code, details?, timestamp }.
+ *
+ * Key responsibilities:
+ * - Provide an ApiError class that route handlers throw for expected failures
+ * - Wrap async handlers so rejected promises reach the error handler
+ * - Answer unsupported methods (405) and unknown routes (404)
+ * - Convert malformed JSON bodies and unexpected errors into JSON responses
+ *
+ * Dependencies:
+ * - express for middleware types
+ */
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * Error thrown by route handlers for failures that map to an HTTP status
+ *
+ * Usage:
+ * ```typescript
+ * throw new ApiError(404, 'NOT_FOUND', 'Project not found');
+ * ```
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: { [key: string]: string }
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Sends an error response in the shared API error format
+ */
+export function sendError(
+  res: Response,
+  status: number,
+  code: string,
+  message: string,
+  details?: { [key: string]: string }
+): void {
+  res.status(status).json({
+    error: message,
+    code,
+    ...(details ? { details } : {}),
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Wraps an async route handler so thrown errors and rejected promises are
+ * passed to the error handler instead of leaving the request hanging
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response) => Promise<void>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
+
+/**
+ * Responds with 405 for methods a route does not support
+ * Attach with `router.route(path).get(handler).all(methodNotAllowed)`
+ */
+export function methodNotAllowed(_req: Request, res: Response): void {
+  sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method Not Allowed');
+}
+
+/**
+ * Responds with 404 for paths that match no route
+ */
+export function notFound(_req: Request, res: Response): void {
+  sendError(res, 404, 'NOT_FOUND', 'Endpoint not found');
+}
+
+/**
+ * Final error handler for the API app
+ *
+ * ApiErrors are reported as-is, malformed JSON bodies become 400s, and
+ * anything else is logged and reported as a 500 without leaking internals.
+ */
+export function errorHandler(
+  err: any,
+  req: Request,
+  res: Response,
+  // Express identifies error handlers by their four-argument signature
+  _next: NextFunction
+): void {
+  if (err instanceof ApiError) {
+    sendError(res, err.status, err.code, err.message, err.details);
+    return;
+  }
+
+  // Raised by express.json() when the request body is not valid JSON
+  if (err?.type === 'entity.parse.failed') {
+    sendError(res, 400, 'INVALID_REQUEST', 'Request body must be valid JSON');
+    return;
+  }
+
+  if (err?.type === 'entity.too.large') {
+    sendError(res, 413, 'PAYLOAD_TOO_LARGE', 'Request body is too large');
+    return;
+  }
+
+  console.error(`Error handling ${req.method} ${req.path}:`, err);
+  sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+}
@@ -0,0 +1,70 @@
+/**
+ * Rate Limit Middleware
+ *
+ * This module applies the per-route limits in ../utils/rateLimit to the
+ * public API routes, keyed by client IP.
+ *
+ * Key responsibilities:
+ * - Take a token from the client's bucket for the route
+ * - Set X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset
+ *   (seconds until the bucket is full) on every response
+ * - Respond with 429 and Retry-After (seconds) when the bucket is empty
+ * - Let requests through if the store is unavailable, so an outage of the
+ *   limiter does not take the site down with it
+ *
+ * The client IP is `req.ip`, resolved from X-Forwarded-For only as far as
+ * the `trust proxy` setting in ../app.ts allows, so clients cannot pick
+ * their own bucket by sending the header. Buckets are keyed on the salted
+ * IP hash when IP_HASH_SALT is set, like the `ipHash` stored on inquiries.
+ *
+ * Dependencies:
+ * - express for middleware types
+ * - ../utils/rateLimit for the limits and stores
+ * - ../utils/privacy for hashing the client IP
+ * - ./errors for the shared error format
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { getRateLimitStore, RATE_LIMITS, RateLimitedRoute } from '../utils/rateLimit';
+import { hashIp } from '../utils/privacy';
+import { sendError } from './errors';
+
+/**
+ * Creates middleware enforcing the rate limit of a public route
+ *
+ * Usage:
+ * ```typescript
+ * router.route('/contact').post(rateLimit('contact'), submitInquiry);
+ * ```
+ *
+ * @param route - Route name in RATE_LIMITS
+ */
+export function rateLimit(route: RateLimitedRoute) {
+  const rule = RATE_LIMITS[route];
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let result;
+    try {
+      const client = req.ip ? hashIp(req.ip) ?? req.ip : 'unknown';
+      result = await getRateLimitStore().hit(`${route}:${client}`, rule);
+    } catch (error) {
+      console.error(`Error checking the ${route} rate limit:`, error);
+      next();
+      return;
+    }
+
+    res.set({
+      'X-RateLimit-Limit': String(result.limit),
+      'X-RateLimit-Remaining': String(result.remaining),
+      'X-RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+    });
+
+    if (!result.allowed) {
+      res.set('Retry-After', String(Math.ceil(result.retryAfterMs / 1000)));
+      sendError(res, 429, 'RATE_LIMIT_EXCEEDED', 'Too many requests. Please try again later.');
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * API v1 Router
+ *
+ * This module is the single route table for the versioned API. Paths are
+ * relative to the /api/v1 prefix applied in app.ts.
+ *
+ * Each path is declared once with `router.route()`: supported methods get
+ * their handler and every other method falls through to `methodNotAllowed`.
+ * Public routes are rate limited per client IP (see ./middleware/rateLimit).
+ * Admin routes are grouped under /admin behind the requireAuth middleware.
+ * Every admin route needs at least the viewer role; routes that change data
+ * need editor, and profile changes, permanent deletes and the audit log need
+ * owner.
+ *
+ * Dependencies:
+ * - express Router
+ * - ./api/* route handlers
+ * - ./middleware for authentication, rate limiting and method handling
+ */
+
+import { Router } from 'express';
+import { getProjects, getProjectById } from './api/projects';
+import { getProfile, updateProfile } from './api/profile';
+import { submitInquiry } from './api/contact';
+import {
+  createProject,
+  updateProject,
+  deleteProject,
+  reorderProjects,
+  createPreviewLink,
+  uploadImage,
+  uploadDocument,
+} from './api/admin';
+import {
+  listInquiries,
+  getInquiry,
+  updateInquiry,
+  deleteInquiry,
+  listInquiryMessages,
+  replyToInquiry,
+} from './api/inquiries';
+import {
+  listReplyTemplates,
+  createReplyTemplate,
+  updateReplyTemplate,
+  deleteReplyTemplate,
+} from './api/replyTemplates';
+import { listProjectRevisions, restoreProjectRevision } from './api/revisions';
+import {
+  listTrash,
+  restoreTrashedProject,
+  purgeTrashedProject,
+  restoreTrashedInquiry,
+  purgeTrashedInquiry,
+} from './api/trash';
+import { getDashboardStats } from './api/stats';
+import { listAuditLog } from './api/audit';
+import { eraseSenderData, exportSenderData } from './api/privacy';
+import { listMedia, updateMedia, deleteMedia, getStorageCleanupReport } from './api/media';
+import { requireAuth, requireRole } from './middleware/auth';
+import { rateLimit } from './middleware/rateLimit';
+import { methodNotAllowed } from './middleware/errors';
+
+const router = Router();
+
+// Public routes - each is rate limited per client IP (limits in utils/rateLimit.ts)
+router.route('/projects').get(rateLimit('projects'), getProjects).all(methodNotAllowed);
+router.route('/projects/:id').get(rateLimit('projects'), getProjectById).all(methodNotAllowed);
+router.route('/profile').get(rateLimit('profile'), getProfile).all(methodNotAllowed);
+router.route('/contact').post(rateLimit('contact'), submitInquiry).all(methodNotAllowed);
+
+// Admin routes - every request must carry a valid Firebase Auth token for a user with a role
+const adminRouter = Router();
+adminRouter.use(requireAuth, requireRole('viewer'));
+
+const editor = requireRole('editor');
+const owner = requireRole('owner');
+
+adminRouter.route('/projects').post(editor, createProject).all(methodNotAllowed);
+// Declared before /projects/:id so "reorder" is not treated as a project ID
+adminRouter.route('/projects/reorder').put(editor, reorderProjects).all(methodNotAllowed);
+adminRouter
+  .route('/projects/:id')
+  .put(editor, updateProject)
+  .delete(editor, deleteProject)
+  .all(methodNotAllowed);
+adminRouter.route('/projects/:id/preview').post(editor, createPreviewLink).all(methodNotAllowed);
+adminRouter.route('/projects/:id/revisions').get(listProjectRevisions).all(methodNotAllowed);
+adminRouter
+  .route('/projects/:id/revisions/:revisionId/restore')
+  .post(editor, restoreProjectRevision)
+  .all(methodNotAllowed);
+adminRouter.route('/upload').post(editor, uploadImage).all(methodNotAllowed);
+adminRouter.route('/upload/document').post(owner, uploadDocument).all(methodNotAllowed);
+adminRouter.route('/media').get(listMedia).all(methodNotAllowed);
+// Declared before /media/:id so "cleanup" is not treated as a media ID
+adminRouter.route('/media/cleanup').get(owner, getStorageCleanupReport).all(methodNotAllowed);
+adminRouter
+  .route('/media/:id')
+  .put(editor, updateMedia)
+  .delete(editor, deleteMedia)
+  .all(methodNotAllowed);
+adminRouter.route('/profile').put(owner, updateProfile).all(methodNotAllowed);
+adminRouter.route('/stats').get(getDashboardStats).all(methodNotAllowed);
+adminRouter.route('/inquiries').get(listInquiries).all(methodNotAllowed);
+adminRouter
+  .route('/inquiries/:id')
+  .get(getInquiry)
+  .put(editor, updateInquiry)
+  .delete(editor, deleteInquiry)
+  .all(methodNotAllowed);
+adminRouter
+  .route('/inquiries/:id/messages')
+  .get(listInquiryMessages)
+  .post(editor, replyToInquiry)
+  .all(methodNotAllowed);
+adminRouter
+  .route('/reply-templates')
+  .get(listReplyTemplates)
+  .post(editor, createReplyTemplate)
+  .all(methodNotAllowed);
+adminRouter
+  .route('/reply-templates/:id')
+  .put(editor, updateReplyTemplate)
+  .delete(editor, deleteReplyTemplate)
+  .all(methodNotAllowed);
+adminRouter.route('/trash').get(listTrash).all(methodNotAllowed);
+adminRouter.route('/trash/projects/:id').delete(owner, purgeTrashedProject).all(methodNotAllowed);
+adminRouter
+  .route('/trash/projects/:id/restore')
+  .post(editor, restoreTrashedProject)
+  .all(methodNotAllowed);
+adminRouter.route('/trash/inquiries/:id').delete(owner, purgeTrashedInquiry).all(methodNotAllowed);
+adminRouter
+  .route('/trash/inquiries/:id/restore')
+  .post(editor, restoreTrashedInquiry)
+  .all(methodNotAllowed);
+
+adminRouter.route('/audit-log').get(owner, listAuditLog).all(methodNotAllowed);
+adminRouter.route('/privacy/export').post(owner, exportSenderData).all(methodNotAllowed);
+adminRouter.route('/privacy/erase').post(owner, eraseSenderData).all(methodNotAllowed);
+
+router.use('/admin', adminRouter);
+
+export default router;
@@ -0,0 +1,165 @@
+/**
+ * Audit Log
+ *
+ * Helpers for the append-only `auditLog` collection, which records every
+ * change made through the admin API (and by scheduled functions): who made
+ * it, what they did to which document, the document before and after, and
+ * the IP address the request came from.
+ *
+ * Entries are only ever created, by the functions, and firestore.rules
+ * deny all client writes, so the log cannot be edited or cleared from the
+ * admin UI. The one exception is privacy: when an inquiry is anonymised,
+ * erased or purged, the snapshots in its entries are cleared (see ./privacy).
+ *
+ * Where a change is written in a batch, its entry is added to the same batch
+ * so neither is written without the other.
+ *
+ * Each entry records:
+ * - action: `<target type>.<verb>`, e.g. project.update or inquiry.purge
+ * - actor: uid and email of the admin, or a system actor such as the scheduler
+ * - target: type and document ID of what changed (null ID for bulk changes)
+ * - before / after: the document before and after the change (null for
+ *   creates and permanent deletes respectively)
+ * - ip: client IP of the request, null for scheduled changes
+ * - createdAt: server timestamp
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore types and server timestamps
+ * - express for the request type
+ * - ./revisions for the actor type
+ */
+
+import * as admin from 'firebase-admin';
+import { Request } from 'express';
+import { RevisionActor, SCHEDULER_ACTOR } from './revisions';
+
+export const AUDIT_COLLECTION = 'auditLog';
+
+export const AUDIT_TARGET_TYPES = ['project', 'inquiry', 'profile', 'image', 'document', 'replyTemplate'] as const;
+
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+export const AUDIT_ACTIONS = [
+  'project.create',
+  'project.update',
+  'project.delete',
+  'project.restore',
+  'project.purge',
+  'project.reorder',
+  'project.preview',
+  'inquiry.update',
+  'inquiry.delete',
+  'inquiry.restore',
+  'inquiry.purge',
+  'inquiry.reply',
+  'inquiry.anonymise',
+  'inquiry.erase',
+  'inquiry.export',
+  'profile.update',
+  'image.upload',
+  'image.update',
+  'image.delete',
+  'image.move',
+  'image.purge',
+  'document.upload',
+  'document.delete',
+  'replyTemplate.create',
+  'replyTemplate.update',
+  'replyTemplate.delete',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/**
+ * What an audit entry is about
+ */
+export interface AuditTarget {
+  type: AuditTargetType;
+  id: string | null;
+}
+
+/**
+ * Who made a change and where the request came from
+ */
+export interface AuditContext {
+  actor: RevisionActor | undefined;
+  ip: string | null;
+}
+
+/**
+ * Audit context of changes made by scheduled functions
+ */
+export const SCHEDULER_AUDIT_CONTEXT: AuditContext = { actor: SCHEDULER_ACTOR, ip: null };
+
+/**
+ * Builds the audit context for an admin API request
+ * Must run after requireAuth so `req.user` is set.
+ */
+export function auditContext(req: Request): AuditContext {
+  return { actor: req.user, ip: req.ip ?? null };
+}
+
+/**
+ * Builds the data of an audit entry
+ */
+function auditEntry(
+  context: AuditContext,
+  action: AuditAction,
+  target: AuditTarget,
+  before: admin.firestore.DocumentData | null,
+  after: admin.firestore.DocumentData | null
+) {
+  return {
+    action,
+    actor: {
+      uid: context.actor?.uid ?? null,
+      email: context.actor?.email ?? null,
+    },
+    target,
+    before,
+    after,
+    ip: context.ip,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Adds an audit entry to a write batch carrying the change it describes
+ *
+ * @param batch - Batch that also carries the change
+ * @param context - Actor and IP of the request
+ * @param action - What was done
+ * @param target - What it was done to
+ * @param before - Document data before the change (null for creates)
+ * @param after - Document data after the change (null for permanent deletes)
+ */
+export function addAuditEntry(
+  batch: admin.firestore.WriteBatch,
+  context: AuditContext,
+  action: AuditAction,
+  target: AuditTarget,
+  before: admin.firestore.DocumentData | null,
+  after: admin.firestore.DocumentData | null
+): void {
+  const db = admin.firestore();
+  batch.set(db.collection(AUDIT_COLLECTION).doc(), auditEntry(context, action, target, before, after));
+}
+
+/**
+ * Writes an audit entry on its own
+ * For changes that cannot share a batch, such as Storage uploads and
+ * recursive deletes; call it once the change has succeeded.
+ *
+ * Takes the same arguments as addAuditEntry, with the Firestore instance
+ * in place of the batch.
+ */
+export async function recordAuditEntry(
+  db: admin.firestore.Firestore,
+  context: AuditContext,
+  action: AuditAction,
+  target: AuditTarget,
+  before: admin.firestore.DocumentData | null,
+  after: admin.firestore.DocumentData | null
+): Promise<void> {
+  await db.collection(AUDIT_COLLECTION).add(auditEntry(context, action, target, before, after));
+}
@@ -0,0 +1,149 @@
+/**
+ * CAPTCHA Verification
+ *
+ * Pluggable verification of the CAPTCHA token sent with contact form
+ * submissions. The provider is chosen with environment variables (set them in
+ * functions/.env):
+ * - CAPTCHA_PROVIDER: "turnstile" (Cloudflare Turnstile), "recaptcha"
+ *   (Google reCAPTCHA v2 or v3) or "fake" (local development and tests)
+ * - CAPTCHA_SECRET_KEY: the provider's secret key (not needed for "fake")
+ *
+ * When CAPTCHA_PROVIDER is unset, no verifier is configured and the contact
+ * endpoint relies on the honeypot, fill time and content checks alone.
+ *
+ * Dependencies:
+ * - Node's global fetch for the providers' siteverify APIs
+ */
+
+/**
+ * Checks CAPTCHA tokens with a provider
+ */
+export interface CaptchaVerifier {
+  /** Provider name, for logs */
+  readonly provider: string;
+
+  /**
+   * Checks a token issued to the browser by the provider's widget
+   *
+   * @param token - Token from the contact form
+   * @param ip - Client IP, passed on to the provider when known
+   * @returns Whether the provider accepted the token
+   * @throws Error if the provider cannot be reached
+   */
+  verify(token: string, ip: string | null): Promise<boolean>;
+}
+
+export const CAPTCHA_PROVIDERS = ['turnstile', 'recaptcha', 'fake'] as const;
+
+export type CaptchaProvider = (typeof CAPTCHA_PROVIDERS)[number];
+
+const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+const RECAPTCHA_VERIFY_URL = 'https://www.google.com/recaptcha/api/siteverify';
+
+/**
+ * Lowest reCAPTCHA v3 score accepted (0.0 is a bot, 1.0 a human)
+ * v2 responses carry no score and pass on `success` alone.
+ */
+export const RECAPTCHA_MIN_SCORE = 0.5;
+
+/**
+ * The only token the fake verifier accepts
+ */
+export const FAKE_CAPTCHA_PASS_TOKEN = 'fake-captcha-pass';
+
+/**
+ * Posts a token to a siteverify endpoint
+ * Turnstile and reCAPTCHA share the same request format.
+ */
+async function siteverify(
+  url: string,
+  secret: string,
+  token: string,
+  ip: string | null
+): Promise<{ success?: boolean; score?: number }> {
+  const body = new URLSearchParams({ secret, response: token });
+  if (ip) {
+    body.set('remoteip', ip);
+  }
+
+  const response = await fetch(url, { method: 'POST', body });
+
+  if (!response.ok) {
+    throw new Error(`CAPTCHA verification failed with status ${response.status}`);
+  }
+
+  return (await response.json()) as { success?: boolean; score?: number };
+}
+
+/**
+ * Verifier for Cloudflare Turnstile
+ *
+ * @param secret - Turnstile secret key
+ */
+export function createTurnstileVerifier(secret: string): CaptchaVerifier {
+  return {
+    provider: 'turnstile',
+    async verify(token, ip) {
+      const result = await siteverify(TURNSTILE_VERIFY_URL, secret, token, ip);
+      return result.success === true;
+    },
+  };
+}
+
+/**
+ * Verifier for Google reCAPTCHA (v2, or v3 with a minimum score)
+ *
+ * @param secret - reCAPTCHA secret key
+ * @param minScore - Lowest v3 score accepted
+ */
+export function createRecaptchaVerifier(secret: string, minScore = RECAPTCHA_MIN_SCORE): CaptchaVerifier {
+  return {
+    provider: 'recaptcha',
+    async verify(token, ip) {
+      const result = await siteverify(RECAPTCHA_VERIFY_URL, secret, token, ip);
+      return result.success === true && (result.score === undefined || result.score >= minScore);
+    },
+  };
+}
+
+/**
+ * Verifier that accepts only FAKE_CAPTCHA_PASS_TOKEN, without network calls
+ * For local development and tests; never configure it in production.
+ */
+export function createFakeCaptchaVerifier(): CaptchaVerifier {
+  return {
+    provider: 'fake',
+    async verify(token) {
+      return token === FAKE_CAPTCHA_PASS_TOKEN;
+    },
+  };
+}
+
+/**
+ * Builds the verifier configured by CAPTCHA_PROVIDER and CAPTCHA_SECRET_KEY
+ *
+ * @returns The verifier, or null when CAPTCHA is not configured
+ * @throws Error if the provider is unknown or its secret key is missing
+ */
+export function getCaptchaVerifier(): CaptchaVerifier | null {
+  const provider = process.env.CAPTCHA_PROVIDER;
+
+  if (!provider) {
+    return null;
+  }
+
+  if (provider === 'fake') {
+    return createFakeCaptchaVerifier();
+  }
+
+  const secret = process.env.CAPTCHA_SECRET_KEY;
+
+  if (!(CAPTCHA_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(`Unknown CAPTCHA_PROVIDER "${provider}"`);
+  }
+  if (!secret) {
+    throw new Error('CAPTCHA_SECRET_KEY is not set');
+  }
+
+  return provider === 'turnstile' ? createTurnstileVerifier(secret) : createRecaptchaVerifier(secret);
+}
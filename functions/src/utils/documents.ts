@@ -0,0 +1,33 @@
+/**
+ * Document Uploads
+ *
+ * Checks uploaded documents (the profile's resume) before they are stored.
+ * As with images (see ./images), the type is sniffed from the file's magic
+ * bytes, never taken from the client's MIME type or file extension. PDFs
+ * are stored as uploaded, without any processing.
+ */
+
+/**
+ * Document types accepted for upload, by sniffed type
+ */
+export const UPLOAD_DOCUMENT_TYPES = ['application/pdf'] as const;
+
+export type UploadDocumentType = (typeof UPLOAD_DOCUMENT_TYPES)[number];
+
+/**
+ * Largest accepted document, in bytes
+ */
+export const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Detects the type of a document from its first bytes
+ *
+ * @param buffer - File contents
+ * @returns The accepted type the bytes match, or null
+ */
+export function sniffDocumentType(buffer: Buffer): UploadDocumentType | null {
+  if (buffer.length >= 5 && buffer.toString('ascii', 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  return null;
+}
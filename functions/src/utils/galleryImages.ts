@@ -0,0 +1,117 @@
+/**
+ * Project Gallery Images
+ *
+ * A project's `images` field is its gallery, a list of entries with the
+ * image URL, its alt text, an optional caption and its position. Projects
+ * saved before entries existed store a plain list of URLs; every reader goes
+ * through normalizeGalleryImages, which turns those into entries without
+ * alt text or caption, so both shapes keep working until the project is
+ * saved again.
+ *
+ * The admin API accepts either shape (see ../api/admin.ts) and always stores
+ * entries, numbered from 0 in gallery order.
+ */
+
+/**
+ * One gallery image
+ */
+export interface GalleryImage {
+  url: string;
+  alt: string;     // Empty when not set yet; the admin API warns about it
+  caption: string; // Shown under the image, empty for none
+  order: number;   // Position in the gallery, from 0
+}
+
+export const MAX_ALT_LENGTH = 300;
+
+export const MAX_CAPTION_LENGTH = 500;
+
+/**
+ * Checks one entry of an `images` request field: a URL or an entry
+ */
+function isGalleryImageInput(entry: any): boolean {
+  if (typeof entry === 'string') {
+    return entry.trim().length > 0;
+  }
+  return (
+    !!entry &&
+    typeof entry === 'object' &&
+    typeof entry.url === 'string' &&
+    entry.url.trim().length > 0 &&
+    (entry.alt === undefined || (typeof entry.alt === 'string' && entry.alt.length <= MAX_ALT_LENGTH)) &&
+    (entry.caption === undefined || (typeof entry.caption === 'string' && entry.caption.length <= MAX_CAPTION_LENGTH)) &&
+    (entry.order === undefined || (Number.isInteger(entry.order) && entry.order >= 0))
+  );
+}
+
+/**
+ * Validates the `images` field of a project request
+ *
+ * @param value - Value sent by the client (undefined when omitted)
+ * @returns Error message, or null if the value is valid or omitted
+ */
+export function validateGalleryImages(value: unknown): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (!Array.isArray(value) || !value.every(isGalleryImageInput)) {
+    return `Images must be a list of URLs or { url, alt, caption, order } entries (alt at most ${MAX_ALT_LENGTH} and caption at most ${MAX_CAPTION_LENGTH} characters)`;
+  }
+  return null;
+}
+
+/**
+ * Reads a stored or requested `images` value as gallery entries
+ * Accepts plain URLs and entries, skips anything else, sorts by `order`
+ * (keeping the list order for ties and URLs) and numbers the result from 0.
+ *
+ * @param value - Stored field or validated request value
+ * @returns Gallery entries in display order
+ */
+export function normalizeGalleryImages(value: unknown): GalleryImage[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .map((entry: any, index) => {
+      if (typeof entry === 'string') {
+        return { url: entry.trim(), alt: '', caption: '', order: index };
+      }
+      if (entry && typeof entry === 'object' && typeof entry.url === 'string') {
+        return {
+          url: entry.url.trim(),
+          alt: typeof entry.alt === 'string' ? entry.alt.trim() : '',
+          caption: typeof entry.caption === 'string' ? entry.caption.trim() : '',
+          order: Number.isInteger(entry.order) ? entry.order : index,
+        };
+      }
+      return null;
+    })
+    .filter((image): image is GalleryImage => image !== null && image.url.length > 0)
+    .map((image, index) => ({ image, index }))
+    .sort((a, b) => a.image.order - b.image.order || a.index - b.index)
+    .map(({ image }, order) => ({ ...image, order }));
+}
+
+/**
+ * Lists the URLs of a stored or requested `images` value, in gallery order
+ */
+export function galleryImageUrls(value: unknown): string[] {
+  return normalizeGalleryImages(value).map(image => image.url);
+}
+
+/**
+ * Describes gallery images without alt text, for the admin API's warnings
+ *
+ * @returns Warning message, or null when every image has alt text
+ */
+export function missingAltTextWarning(images: GalleryImage[]): string | null {
+  const missing = images.filter(image => image.alt.length === 0).length;
+  if (missing === 0) {
+    return null;
+  }
+  return missing === 1
+    ? '1 gallery image has no alt text'
+    : `${missing} gallery images have no alt text`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Project Image Metadata
+ *
+ * Projects keep, alongside their `thumbnail` and `images` URLs, an
+ * `imageMetadata` list describing the images uploaded through the admin API:
+ * dimensions (so pages can reserve space before the image loads), the
+ * dominant colour and a tiny blurred placeholder (see ../utils/images).
+ *
+ * Entries are matched to images by URL. Images added another way, or
+ * uploaded before metadata existed, simply have no entry and render without
+ * a placeholder.
+ */
+
+/**
+ * Metadata for one project image
+ */
+export interface ImageMetadata {
+  url: string;
+  width: number;
+  height: number;
+  color: string;       // Dominant colour as #rrggbb
+  placeholder: string; // Blurred LQIP as a data: URL
+}
+
+/**
+ * Longest accepted placeholder; generated ones are around 100 characters
+ */
+export const MAX_PLACEHOLDER_LENGTH = 2000;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Checks one metadata entry
+ */
+function isImageMetadata(entry: any): entry is ImageMetadata {
+  return (
+    !!entry &&
+    typeof entry === 'object' &&
+    typeof entry.url === 'string' &&
+    entry.url.length > 0 &&
+    Number.isInteger(entry.width) &&
+    entry.width > 0 &&
+    Number.isInteger(entry.height) &&
+    entry.height > 0 &&
+    typeof entry.color === 'string' &&
+    COLOR_PATTERN.test(entry.color) &&
+    typeof entry.placeholder === 'string' &&
+    entry.placeholder.startsWith('data:image/') &&
+    entry.placeholder.length <= MAX_PLACEHOLDER_LENGTH
+  );
+}
+
+/**
+ * Validates the `imageMetadata` field of a project request
+ *
+ * @param value - Value sent by the client (undefined when omitted)
+ * @returns Error message, or null if the value is valid or omitted
+ */
+export function validateImageMetadata(value: unknown): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (!Array.isArray(value) || !value.every(isImageMetadata)) {
+    return 'Image metadata must be a list of { url, width, height, color, placeholder } entries';
+  }
+  return null;
+}
+
+/**
+ * Keeps one entry per URL, and only for the URLs the project uses
+ *
+ * @param entries - Validated metadata entries
+ * @param urls - The project's thumbnail and gallery URLs
+ * @returns Entries to store, with only the known fields
+ */
+export function pruneImageMetadata(entries: ImageMetadata[], urls: string[]): ImageMetadata[] {
+  const used = new Set(urls);
+  const seen = new Set<string>();
+
+  return entries
+    .filter(entry => used.has(entry.url) && !seen.has(entry.url) && seen.add(entry.url))
+    .map(({ url, width, height, color, placeholder }) => ({ url, width, height, color, placeholder }));
+}
@@ -0,0 +1,148 @@
+/**
+ * Image Processing
+ *
+ * Checks and converts uploaded images before they are stored:
+ * - The type is sniffed from the file's magic bytes, never taken from the
+ *   client's MIME type or file extension
+ * - File names are reduced to a safe slug for the storage path
+ * - Each upload is resized down to MAX_IMAGE_WIDTH (never enlarged) and
+ *   encoded as WebP, after applying the EXIF orientation and dropping the
+ *   rest of the metadata (camera details, GPS position). Smaller sizes and
+ *   AVIF copies are served by the Next.js image optimizer, so none are stored
+ * - A dominant colour and a tiny blurred placeholder (LQIP) are computed so
+ *   pages can show something while the image loads
+ *
+ * Dependencies:
+ * - sharp for decoding, resizing and encoding
+ */
+
+import sharp from 'sharp';
+
+/**
+ * Image types accepted for upload, by sniffed type
+ */
+export const UPLOAD_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+
+export type UploadImageType = (typeof UPLOAD_IMAGE_TYPES)[number];
+
+/**
+ * Largest accepted upload, in bytes
+ */
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Largest accepted image, in pixels, so a small file cannot expand into a
+ * huge bitmap while it is decoded
+ */
+export const MAX_INPUT_PIXELS = 40_000_000;
+
+/**
+ * Widest stored image, for detail pages and galleries
+ */
+export const MAX_IMAGE_WIDTH = 1920;
+
+/**
+ * Width of the blurred placeholder, kept tiny so it fits in the project document
+ */
+export const PLACEHOLDER_WIDTH = 16;
+
+/**
+ * The stored file of an upload
+ */
+export interface ProcessedImage {
+  contentType: string;
+  width: number;
+  height: number;
+  buffer: Buffer;
+}
+
+/**
+ * Detects the type of an image from its first bytes
+ *
+ * @param buffer - File contents
+ * @returns The accepted type the bytes match, or null
+ */
+export function sniffImageType(buffer: Buffer): UploadImageType | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Reduces a client file name to a safe slug for storage paths
+ * Keeps lowercase letters, digits and single hyphens, drops the extension
+ * and any directories, and falls back to `fallback`.
+ *
+ * @param fileName - File name sent by the client
+ * @param fallback - Slug used when nothing usable is left (default: "image")
+ */
+export function sanitizeFileName(fileName: string, fallback = 'image'): string {
+  const baseName = fileName.split(/[\\/]/).pop() || '';
+  const withoutExtension = baseName.replace(/\.[^.]*$/, '');
+
+  const slug = withoutExtension
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+
+  return slug || fallback;
+}
+
+/**
+ * Resizes an image down to MAX_IMAGE_WIDTH and encodes it as WebP
+ *
+ * @param buffer - Uploaded image (already sniffed)
+ * @returns Original dimensions (after orientation), dominant colour (#rrggbb),
+ * placeholder data URL and the file to store
+ * @throws Error if the image cannot be decoded or exceeds MAX_INPUT_PIXELS
+ */
+export async function processImage(
+  buffer: Buffer
+): Promise<{ width: number; height: number; color: string; placeholder: string; image: ProcessedImage }> {
+  // rotate() without arguments applies the EXIF orientation
+  const source = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+  const metadata = await source.metadata();
+  // Orientations 5-8 turn the image by 90 degrees, swapping width and height
+  const turned = (metadata.orientation ?? 1) >= 5;
+  const width = (turned ? metadata.height : metadata.width) ?? 0;
+  const height = (turned ? metadata.width : metadata.height) ?? 0;
+
+  const { dominant } = await source.clone().stats();
+  const color = `#${[dominant.r, dominant.g, dominant.b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+  const placeholderImage = await source.clone()
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .blur()
+    .webp({ quality: 20 })
+    .toBuffer();
+  const placeholder = `data:image/webp;base64,${placeholderImage.toString('base64')}`;
+
+  const output = await source.clone()
+    .resize({ width: MAX_IMAGE_WIDTH, withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+  const image: ProcessedImage = {
+    contentType: 'image/webp',
+    width: output.info.width,
+    height: output.info.height,
+    buffer: output.data,
+  };
+
+  return { width, height, color, placeholder, image };
+}
@@ -0,0 +1,234 @@
+/**
+ * Inquiry Notifications
+ *
+ * Emails sent when a contact form inquiry is stored, by the
+ * `notifyNewInquiry` Firestore trigger (see ../index.ts):
+ * - A notification to the portfolio owner, with Reply-To set to the sender
+ * - An optional acknowledgement to the sender, never sent for inquiries
+ *   flagged as possible spam
+ *
+ * The owner's address is OWNER_EMAIL, or the profile email when it is unset.
+ * Acknowledgements are sent when INQUIRY_AUTO_ACK is "true". The outcome of
+ * each email is recorded on the inquiry in `notifications`, so a failed
+ * delivery is visible in the admin inbox.
+ *
+ * Firestore triggers are delivered at least once, so notifyInquiry claims
+ * the inquiry in a transaction (`notificationsClaimedAt`) before sending:
+ * a retried delivery finds the claim and sends nothing.
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - ./mail for the mail transport
+ * - ./mailTemplates for subjects and bodies
+ */
+
+import * as admin from 'firebase-admin';
+import { getMailTransport, MailMessage, MailTransport } from './mail';
+import { ACKNOWLEDGEMENT_TEMPLATE, OWNER_NOTIFICATION_TEMPLATE, renderTemplate } from './mailTemplates';
+
+export type DeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+/**
+ * Outcome of one email
+ * - error: why the email failed or was skipped
+ */
+export interface DeliveryRecord {
+  status: DeliveryStatus;
+  transport: string | null;
+  messageId: string | null;
+  error: string | null;
+  at: Date;
+}
+
+/**
+ * Outcome of the emails about one inquiry, stored as `notifications`
+ */
+export interface InquiryNotifications {
+  owner: DeliveryRecord;
+  acknowledgement: DeliveryRecord;
+}
+
+/**
+ * Inquiry fields used by the emails
+ */
+export interface NotifiedInquiry {
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+  flagged?: boolean;
+}
+
+/**
+ * Who to notify and whether to acknowledge
+ */
+export interface NotificationSettings {
+  ownerEmail: string | null;
+  ownerName: string;
+  acknowledge: boolean;
+}
+
+/**
+ * Reads the notification settings from the environment and the profile
+ *
+ * @param db - Firestore instance
+ */
+export async function getNotificationSettings(db: admin.firestore.Firestore): Promise<NotificationSettings> {
+  const profile = (await db.collection('profile').doc('main').get()).data() || {};
+
+  return {
+    ownerEmail: process.env.OWNER_EMAIL || profile.email || null,
+    ownerName: profile.name || '',
+    acknowledge: process.env.INQUIRY_AUTO_ACK === 'true',
+  };
+}
+
+/**
+ * Sends one email, turning the outcome into a delivery record
+ */
+async function deliver(transport: MailTransport, message: MailMessage, now: Date): Promise<DeliveryRecord> {
+  try {
+    const { messageId } = await transport.send(message);
+    return { status: 'sent', transport: transport.name, messageId, error: null, at: now };
+  } catch (error) {
+    return {
+      status: 'failed',
+      transport: transport.name,
+      messageId: null,
+      error: error instanceof Error ? error.message : String(error),
+      at: now,
+    };
+  }
+}
+
+/**
+ * Builds the record of an email that was not sent
+ */
+function skipped(reason: string, now: Date): DeliveryRecord {
+  return { status: 'skipped', transport: null, messageId: null, error: reason, at: now };
+}
+
+/**
+ * Sends the owner notification and, when enabled, the acknowledgement
+ * A failure of one email does not stop the other.
+ *
+ * @param inquiry - Stored inquiry
+ * @param transport - Mail transport, or null when email is not configured
+ * @param settings - Recipients and options
+ * @param now - Time recorded on the delivery records
+ * @returns The outcome of both emails
+ */
+export async function sendInquiryNotifications(
+  inquiry: NotifiedInquiry,
+  transport: MailTransport | null,
+  settings: NotificationSettings,
+  now = new Date()
+): Promise<InquiryNotifications> {
+  if (!transport) {
+    return {
+      owner: skipped('Email is not configured', now),
+      acknowledgement: skipped('Email is not configured', now),
+    };
+  }
+
+  const values = {
+    name: inquiry.name,
+    email: inquiry.email,
+    subject: inquiry.subject,
+    message: inquiry.message,
+    ownerName: settings.ownerName,
+    spamNote: inquiry.flagged ? '[Possible spam] ' : '',
+  };
+
+  const owner = settings.ownerEmail
+    ? await deliver(
+        transport,
+        { to: settings.ownerEmail, replyTo: inquiry.email, ...renderTemplate(OWNER_NOTIFICATION_TEMPLATE, values) },
+        now
+      )
+    : skipped('No owner email address', now);
+
+  let acknowledgement: DeliveryRecord;
+  if (!settings.acknowledge) {
+    acknowledgement = skipped('Auto-acknowledgement is off', now);
+  } else if (inquiry.flagged) {
+    acknowledgement = skipped('Inquiry was flagged as possible spam', now);
+  } else {
+    acknowledgement = await deliver(
+      transport,
+      {
+        to: inquiry.email,
+        ...(settings.ownerEmail ? { replyTo: settings.ownerEmail } : {}),
+        ...renderTemplate(ACKNOWLEDGEMENT_TEMPLATE, values),
+      },
+      now
+    );
+  }
+
+  return { owner, acknowledgement };
+}
+
+/**
+ * Claims an inquiry for its notification emails in a transaction
+ *
+ * @param db - Firestore instance
+ * @param ref - The inquiry
+ * @returns false if the inquiry is gone or was already claimed or notified
+ */
+export async function claimInquiryNotifications(
+  db: admin.firestore.Firestore,
+  ref: admin.firestore.DocumentReference
+): Promise<boolean> {
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+
+    if (!snapshot.exists || snapshot.get('notifications') || snapshot.get('notificationsClaimedAt')) {
+      return false;
+    }
+
+    transaction.update(ref, { notificationsClaimedAt: admin.firestore.FieldValue.serverTimestamp() });
+    return true;
+  });
+}
+
+/**
+ * Sends the emails about a new inquiry once and records their outcome on it
+ * When the mail settings are invalid, both emails are recorded as failed
+ * with the reason.
+ *
+ * @param db - Firestore instance
+ * @param ref - The inquiry
+ * @param inquiry - Stored inquiry
+ * @param now - Time recorded on the delivery records
+ * @returns The outcome of both emails, or null if they were already handled
+ */
+export async function notifyInquiry(
+  db: admin.firestore.Firestore,
+  ref: admin.firestore.DocumentReference,
+  inquiry: NotifiedInquiry,
+  now = new Date()
+): Promise<InquiryNotifications | null> {
+  if (!(await claimInquiryNotifications(db, ref))) {
+    return null;
+  }
+
+  let transport: MailTransport | null;
+  try {
+    transport = getMailTransport();
+  } catch (error) {
+    const failed: DeliveryRecord = {
+      status: 'failed',
+      transport: process.env.MAIL_TRANSPORT || null,
+      messageId: null,
+      error: error instanceof Error ? error.message : String(error),
+      at: now,
+    };
+    const notifications = { owner: failed, acknowledgement: failed };
+    await ref.update({ notifications });
+    return notifications;
+  }
+
+  const notifications = await sendInquiryNotifications(inquiry, transport, await getNotificationSettings(db), now);
+  await ref.update({ notifications });
+  return notifications;
+}
@@ -0,0 +1,44 @@
+/**
+ * Inquiry Types
+ *
+ * What an inquiry is about, chosen on the contact form, and the optional
+ * details asked for each type. Mirrored in lib/validation.ts for the form.
+ *
+ * The type is optional in the API so clients that post JSON directly keep
+ * working; it defaults to "other", as do inquiries stored before types
+ * existed. Details sent for a type that does not ask for them are dropped.
+ */
+
+export const INQUIRY_TYPES = ['job', 'freelance', 'speaking', 'other'] as const;
+
+export type InquiryType = (typeof INQUIRY_TYPES)[number];
+
+export const DEFAULT_INQUIRY_TYPE: InquiryType = 'other';
+
+export type InquiryDetailField = 'company' | 'budget' | 'timeline';
+
+/**
+ * Optional detail fields kept for each inquiry type
+ */
+export const INQUIRY_TYPE_FIELDS: Record<InquiryType, InquiryDetailField[]> = {
+  job: ['company', 'timeline'],
+  freelance: ['company', 'budget', 'timeline'],
+  speaking: ['company', 'budget', 'timeline'],
+  other: [],
+};
+
+/**
+ * Maximum lengths of the detail fields
+ */
+export const INQUIRY_DETAIL_MAX_LENGTHS: Record<InquiryDetailField, number> = {
+  company: 100,
+  budget: 50,
+  timeline: 100,
+};
+
+/**
+ * Checks whether a value is one of INQUIRY_TYPES
+ */
+export function isInquiryType(value: unknown): value is InquiryType {
+  return (INQUIRY_TYPES as readonly unknown[]).includes(value);
+}
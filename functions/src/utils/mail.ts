@@ -0,0 +1,199 @@
+/**
+ * Mail Transport
+ *
+ * Pluggable delivery of outgoing email. The transport is chosen with
+ * environment variables (set them in functions/.env):
+ * - MAIL_TRANSPORT: "smtp", "api" (an HTTPS mail API such as Resend) or
+ *   "memory" (local development and tests; nothing leaves the process)
+ * - MAIL_FROM: sender address, e.g. "Portfolio <noreply@example.com>"
+ * - SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS: SMTP server (for "smtp");
+ *   port 465 uses TLS from the start, other ports upgrade with STARTTLS
+ * - MAIL_API_KEY, MAIL_API_URL: API key and endpoint (for "api"); the URL
+ *   defaults to Resend's send endpoint
+ *
+ * When MAIL_TRANSPORT is unset, no transport is configured and no email is
+ * sent.
+ *
+ * Dependencies:
+ * - nodemailer for SMTP
+ * - Node's global fetch for the mail API
+ */
+
+import * as nodemailer from 'nodemailer';
+
+/**
+ * An outgoing email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+}
+
+/**
+ * Sends email through a provider
+ */
+export interface MailTransport {
+  /** Transport name, for logs and delivery records */
+  readonly name: string;
+
+  /**
+   * Sends a message from the configured sender address
+   *
+   * @param message - Message to send
+   * @returns The provider's message ID, when it reports one
+   * @throws Error if the provider rejects the message or cannot be reached
+   */
+  send(message: MailMessage): Promise<{ messageId: string | null }>;
+}
+
+export const MAIL_TRANSPORTS = ['smtp', 'api', 'memory'] as const;
+
+export type MailTransportName = (typeof MAIL_TRANSPORTS)[number];
+
+const DEFAULT_MAIL_API_URL = 'https://api.resend.com/emails';
+
+/**
+ * SMTP server settings
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * Transport that sends through an SMTP server
+ *
+ * @param from - Sender address
+ * @param options - SMTP server settings
+ */
+export function createSmtpTransport(from: string, options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.port === 465,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail({ from, ...message });
+      return { messageId: info.messageId || null };
+    },
+  };
+}
+
+/**
+ * Transport that posts messages to an HTTPS mail API
+ * The request body follows Resend's format ({ from, to, subject, text, html,
+ * reply_to } with a Bearer API key), which several providers accept.
+ *
+ * @param from - Sender address
+ * @param apiKey - Provider API key
+ * @param url - Send endpoint
+ */
+export function createApiTransport(from: string, apiKey: string, url = DEFAULT_MAIL_API_URL): MailTransport {
+  return {
+    name: 'api',
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          reply_to: message.replyTo,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mail API request failed with status ${response.status}`);
+      }
+
+      const result = (await response.json().catch(() => ({}))) as { id?: string };
+      return { messageId: result.id ?? null };
+    },
+  };
+}
+
+/**
+ * Transport that keeps messages in memory instead of sending them
+ */
+export interface MemoryTransport extends MailTransport {
+  /** Messages "sent" so far, oldest first */
+  readonly sent: MailMessage[];
+}
+
+/**
+ * Transport that records messages in `sent`, without network calls
+ * For local development and tests; never configure it in production.
+ */
+export function createMemoryTransport(): MemoryTransport {
+  const sent: MailMessage[] = [];
+
+  return {
+    name: 'memory',
+    sent,
+    async send(message) {
+      sent.push(message);
+      return { messageId: `memory-${sent.length}` };
+    },
+  };
+}
+
+/**
+ * Builds the transport configured by MAIL_TRANSPORT and the related variables
+ *
+ * @returns The transport, or null when email is not configured
+ * @throws Error if the transport is unknown or its settings are missing
+ */
+export function getMailTransport(): MailTransport | null {
+  const transport = process.env.MAIL_TRANSPORT;
+
+  if (!transport) {
+    return null;
+  }
+
+  if (!(MAIL_TRANSPORTS as readonly string[]).includes(transport)) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+
+  if (transport === 'memory') {
+    return createMemoryTransport();
+  }
+
+  const from = process.env.MAIL_FROM;
+  if (!from) {
+    throw new Error('MAIL_FROM is not set');
+  }
+
+  if (transport === 'smtp') {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error('SMTP_HOST is not set');
+    }
+    return createSmtpTransport(from, {
+      host,
+      port: Number(process.env.SMTP_PORT) || 587,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    });
+  }
+
+  const apiKey = process.env.MAIL_API_KEY;
+  if (!apiKey) {
+    throw new Error('MAIL_API_KEY is not set');
+  }
+  return createApiTransport(from, apiKey, process.env.MAIL_API_URL || DEFAULT_MAIL_API_URL);
+}
@@ -0,0 +1,108 @@
+/**
+ * Mail Templates
+ *
+ * Subject and body templates for the emails sent about new inquiries.
+ * Placeholders are written as {{name}} and filled from a map of values;
+ * values are HTML-escaped in the HTML body, and unknown placeholders render
+ * as an empty string.
+ */
+
+/**
+ * An email template; every part may contain placeholders
+ */
+export interface MailTemplate {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * A template with its placeholders filled in
+ */
+export type RenderedMail = MailTemplate;
+
+/**
+ * Sent to the portfolio owner for every new inquiry
+ * Values: name, email, subject, message, spamNote
+ */
+export const OWNER_NOTIFICATION_TEMPLATE: MailTemplate = {
+  subject: '{{spamNote}}New inquiry from {{name}}: {{subject}}',
+  text: [
+    'You have a new inquiry from your portfolio contact form.',
+    '',
+    'From: {{name}} <{{email}}>',
+    'Subject: {{subject}}',
+    '',
+    '{{message}}',
+    '',
+    'Reply to this email to answer {{name}} directly.',
+  ].join('\n'),
+  html: [
+    '<p>You have a new inquiry from your portfolio contact form.</p>',
+    '<p><strong>From:</strong> {{name}} &lt;{{email}}&gt;<br>',
+    '<strong>Subject:</strong> {{subject}}</p>',
+    '<p style="white-space: pre-wrap">{{message}}</p>',
+    '<p>Reply to this email to answer {{name}} directly.</p>',
+  ].join('\n'),
+};
+
+/**
+ * Sent to the person who submitted the inquiry, when auto-acknowledgement is on
+ * Values: name, subject, ownerName
+ */
+export const ACKNOWLEDGEMENT_TEMPLATE: MailTemplate = {
+  subject: 'Thanks for getting in touch, {{name}}',
+  text: [
+    'Hi {{name}},',
+    '',
+    'Thanks for your message about "{{subject}}". It has arrived safely and I will get back to you as soon as I can.',
+    '',
+    'Best regards,',
+    '{{ownerName}}',
+  ].join('\n'),
+  html: [
+    '<p>Hi {{name}},</p>',
+    '<p>Thanks for your message about &ldquo;{{subject}}&rdquo;. It has arrived safely and I will get back to you as soon as I can.</p>',
+    '<p>Best regards,<br>{{ownerName}}</p>',
+  ].join('\n'),
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Escapes text for use in HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Fills the placeholders of a single template string
+ */
+function fill(template: string, values: Record<string, string>, escape: boolean): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, key: string) => {
+    const value = values[key] ?? '';
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Renders a template with the given values
+ * Line breaks are removed from the subject so user input cannot add headers.
+ *
+ * @param template - Template to render
+ * @param values - Placeholder values
+ * @returns The rendered subject, text and HTML body
+ */
+export function renderTemplate(template: MailTemplate, values: Record<string, string>): RenderedMail {
+  return {
+    subject: fill(template.subject, values, false).replace(/[\r\n]+/g, ' '),
+    text: fill(template.text, values, false),
+    html: fill(template.html, values, true),
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Media Library
+ *
+ * Every image uploaded through the admin API, and the profile's resume
+ * PDFs, are indexed in the `media` collection, so uploads can be browsed,
+ * reused across projects and deleted once nothing uses them. Each entry
+ * records:
+ * - path: Storage folder of the upload (`<folder>/<timestamp>-<name>`), or
+ *   the file itself for PDFs (`profile/<timestamp>-<name>.pdf`)
+ * - files: every Storage object belonging to the upload (the resized WebP
+ *   or the PDF, or every variant of uploads made before variants were dropped)
+ * - url: URL projects or the profile store (the full-size WebP, or the PDF)
+ * - name, contentType, size (bytes stored across files), width, height, color,
+ *   placeholder: as returned by the upload endpoint (null for PDFs)
+ * - alt: alt text, editable in the media library
+ * - references: IDs of the projects whose thumbnail or gallery uses `url`,
+ *   including projects in the trash (they can still be restored)
+ *
+ * References are kept up to date by the handlers that change a project's
+ * images (create, update, revision restore) and by purges, in the same
+ * batch as the change where there is one.
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - ./galleryImages for reading gallery images
+ */
+
+import * as admin from 'firebase-admin';
+import { galleryImageUrls } from './galleryImages';
+
+export const MEDIA_COLLECTION = 'media';
+
+/**
+ * Firestore `in` filters accept at most 30 values
+ */
+const MAX_IN_VALUES = 30;
+
+/**
+ * Project fields that hold image URLs
+ */
+interface ProjectImages {
+  thumbnail?: string | null;
+  images?: unknown; // Gallery entries, or plain URLs for older projects
+}
+
+/**
+ * Lists the distinct image URLs a project uses
+ *
+ * @param project - Project document data (null for a missing project)
+ */
+export function projectImageUrls(project: ProjectImages | null | undefined): string[] {
+  if (!project) {
+    return [];
+  }
+  const urls = [project.thumbnail, ...galleryImageUrls(project.images)];
+  return Array.from(new Set(urls.filter((url): url is string => typeof url === 'string' && url.length > 0)));
+}
+
+/**
+ * Loads the media entries for a set of URLs
+ *
+ * @param db - Firestore instance
+ * @param urls - Media URLs
+ */
+export async function findMediaByUrls(
+  db: admin.firestore.Firestore,
+  urls: string[]
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const chunks: string[][] = [];
+  for (let start = 0; start < urls.length; start += MAX_IN_VALUES) {
+    chunks.push(urls.slice(start, start + MAX_IN_VALUES));
+  }
+
+  const snapshots = await Promise.all(
+    chunks.map(chunk => db.collection(MEDIA_COLLECTION).where('url', 'in', chunk).get())
+  );
+  return snapshots.flatMap(snapshot => snapshot.docs);
+}
+
+/**
+ * Adds the media reference changes for a project change to a batch
+ * Media the project starts using gets its ID added to `references`, and
+ * media it stops using gets it removed. URLs without a media entry (images
+ * not uploaded through the admin API) are ignored.
+ *
+ * @param db - Firestore instance
+ * @param batch - Batch holding the project change
+ * @param projectId - Changed project
+ * @param before - Project data before the change (null when created)
+ * @param after - Project data after the change (null when purged)
+ */
+export async function addMediaReferenceUpdates(
+  db: admin.firestore.Firestore,
+  batch: admin.firestore.WriteBatch,
+  projectId: string,
+  before: ProjectImages | null | undefined,
+  after: ProjectImages | null | undefined
+): Promise<void> {
+  const beforeUrls = projectImageUrls(before);
+  const afterUrls = projectImageUrls(after);
+  const added = afterUrls.filter(url => !beforeUrls.includes(url));
+  const removed = beforeUrls.filter(url => !afterUrls.includes(url));
+
+  const mediaDocs = await findMediaByUrls(db, [...added, ...removed]);
+
+  mediaDocs.forEach((mediaDoc) => {
+    const references = added.includes(mediaDoc.get('url'))
+      ? admin.firestore.FieldValue.arrayUnion(projectId)
+      : admin.firestore.FieldValue.arrayRemove(projectId);
+    batch.update(mediaDoc.ref, { references });
+  });
+}
+
+/**
+ * Removes a purged project from the references of its media
+ *
+ * @param db - Firestore instance
+ * @param projectId - Purged project
+ * @param project - Project data before the purge
+ */
+export async function removeMediaReferences(
+  db: admin.firestore.Firestore,
+  projectId: string,
+  project: ProjectImages | null | undefined
+): Promise<void> {
+  const batch = db.batch();
+  await addMediaReferenceUpdates(db, batch, projectId, project, null);
+  await batch.commit();
+}
@@ -0,0 +1,102 @@
+/**
+ * Multipart Form Parsing
+ *
+ * Reads a single file upload from a multipart/form-data request with busboy,
+ * stopping as soon as the file goes over the size limit.
+ *
+ * Cloud Functions reads the whole request before the handler runs and keeps
+ * it in `req.rawBody`, so the parser is fed from there when it is set;
+ * elsewhere (the emulator's express server, tests) the request stream is
+ * piped in as it arrives.
+ *
+ * Dependencies:
+ * - busboy for parsing multipart bodies
+ * - express for request types
+ * - ../middleware/errors for API errors
+ */
+
+import busboy from 'busboy';
+import { Request } from 'express';
+import { ApiError } from '../middleware/errors';
+
+/**
+ * The uploaded file with the client's file name, and the other form fields
+ * The client's MIME type is not returned, since it cannot be trusted.
+ */
+export interface MultipartUpload {
+  fileName: string;
+  buffer: Buffer;
+  fields: Record<string, string>;
+}
+
+/**
+ * Parses a multipart/form-data request holding one file
+ *
+ * @param req - Express request
+ * @param fileField - Name of the file field
+ * @param maxBytes - Largest accepted file size
+ * @returns The file and the text fields
+ * @throws ApiError 400 if the request is not multipart, has no file, or the file is too large
+ */
+export function parseMultipartFile(req: Request, fileField: string, maxBytes: number): Promise<MultipartUpload> {
+  return new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        limits: { files: 1, fileSize: maxBytes, fields: 10, fieldSize: 1024 },
+      });
+    } catch {
+      reject(new ApiError(400, 'INVALID_REQUEST', 'Expected a multipart/form-data request'));
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    let upload: { fileName: string; chunks: Buffer[] } | null = null;
+    let tooLarge = false;
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (name, stream, info) => {
+      if (name !== fileField || upload) {
+        stream.resume();
+        return;
+      }
+
+      const current = { fileName: info.filename || '', chunks: [] as Buffer[] };
+      upload = current;
+      stream.on('data', (chunk: Buffer) => current.chunks.push(chunk));
+      stream.on('limit', () => {
+        tooLarge = true;
+      });
+    });
+
+    parser.on('error', () => {
+      reject(new ApiError(400, 'INVALID_REQUEST', 'Malformed multipart/form-data request'));
+    });
+
+    parser.on('close', () => {
+      if (tooLarge) {
+        reject(new ApiError(400, 'FILE_TOO_LARGE', `File size exceeds ${maxBytes / (1024 * 1024)}MB limit`));
+        return;
+      }
+
+      const file = upload as { fileName: string; chunks: Buffer[] } | null;
+      if (!file || file.chunks.length === 0) {
+        reject(new ApiError(400, 'INVALID_REQUEST', `Missing required file field: ${fileField}`));
+        return;
+      }
+
+      resolve({ fileName: file.fileName, buffer: Buffer.concat(file.chunks), fields });
+    });
+
+    const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+    if (rawBody) {
+      parser.end(rawBody);
+    } else {
+      req.pipe(parser);
+    }
+  });
+}
@@ -0,0 +1,115 @@
+/**
+ * Preview Tokens
+ *
+ * Signed, expiring tokens that let anyone holding a preview link view an
+ * unpublished project on its public detail page. Tokens are issued by the
+ * admin API and checked by the public project endpoint; nothing is stored
+ * in Firestore.
+ *
+ * A token is `<payload>.<signature>`, both base64url encoded. The payload
+ * names the project and the expiry time, and the signature is an HMAC-SHA256
+ * of the payload keyed with the PREVIEW_TOKEN_SECRET environment variable
+ * (set it in functions/.env). Rotating the secret revokes every outstanding
+ * link.
+ *
+ * Dependencies:
+ * - Node's crypto module for HMAC signing
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * How long a preview link stays valid after it is created
+ */
+export const PREVIEW_TOKEN_TTL_HOURS = 24;
+
+/**
+ * Decoded token payload
+ * - projectId: document ID of the project the token grants access to
+ * - exp: expiry time in milliseconds since the epoch
+ */
+interface PreviewTokenPayload {
+  projectId: string;
+  exp: number;
+}
+
+/**
+ * Reads the signing secret, or null when previews are not configured
+ */
+function getSecret(): string | null {
+  return process.env.PREVIEW_TOKEN_SECRET || null;
+}
+
+/**
+ * Signs an encoded payload with the given secret
+ */
+function sign(encodedPayload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(encodedPayload).digest();
+}
+
+/**
+ * Whether the signing secret is set, so tokens can be issued
+ */
+export function isPreviewConfigured(): boolean {
+  return getSecret() !== null;
+}
+
+/**
+ * Issues a preview token for a project
+ *
+ * @param projectId - Document ID of the project to preview
+ * @param now - Current time, injectable for tests
+ * @returns The token and when it expires
+ * @throws Error if PREVIEW_TOKEN_SECRET is not set
+ */
+export function createPreviewToken(
+  projectId: string,
+  now: Date = new Date()
+): { token: string; expiresAt: Date } {
+  const secret = getSecret();
+
+  if (!secret) {
+    throw new Error('PREVIEW_TOKEN_SECRET is not set');
+  }
+
+  const expiresAt = new Date(now.getTime() + PREVIEW_TOKEN_TTL_HOURS * 60 * 60 * 1000);
+  const payload: PreviewTokenPayload = { projectId, exp: expiresAt.getTime() };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = sign(encodedPayload, secret).toString('base64url');
+
+  return { token: `${encodedPayload}.${signature}`, expiresAt };
+}
+
+/**
+ * Checks that a token was issued for the given project and has not expired
+ *
+ * Malformed, tampered and expired tokens, tokens for another project, and
+ * any token while the secret is unset all fail verification.
+ *
+ * @param token - Token from the `preview` query parameter
+ * @param projectId - Document ID of the requested project
+ * @param now - Current time, injectable for tests
+ */
+export function verifyPreviewToken(token: string, projectId: string, now: Date = new Date()): boolean {
+  const secret = getSecret();
+  const [encodedPayload, encodedSignature, ...rest] = token.split('.');
+
+  if (!secret || !encodedPayload || !encodedSignature || rest.length > 0) {
+    return false;
+  }
+
+  const expected = sign(encodedPayload, secret);
+  const actual = Buffer.from(encodedSignature, 'base64url');
+
+  // Constant-time comparison so the signature cannot be guessed byte by byte
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return false;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    return payload?.projectId === projectId && typeof payload.exp === 'number' && payload.exp > now.getTime();
+  } catch {
+    return false;
+  }
+}
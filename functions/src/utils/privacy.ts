@@ -0,0 +1,258 @@
+/**
+ * Inquiry Privacy
+ *
+ * Helpers for keeping as little personal data about inquiry senders as
+ * possible, for as short a time as possible:
+ * - Client IPs are stored as salted hashes (`ipHash`), which still identify
+ *   repeat senders and rate limit buckets but cannot be reversed without
+ *   IP_HASH_SALT. When the salt is unset, no IP is stored at all.
+ * - A retention policy anonymises (or deletes) inquiries older than
+ *   INQUIRY_RETENTION_MONTHS, applied daily by the `applyInquiryRetention`
+ *   scheduled function (see ../index.ts).
+ * - Everything stored about a sender can be exported or erased by email
+ *   address for data subject requests (see ../api/privacy.ts).
+ *
+ * Anonymising clears the sender's name, email, subject, message and details, deletes
+ * the reply thread and redacts the before/after snapshots of the inquiry's
+ * audit log entries, keeping only the date and status flags for statistics.
+ *
+ * Environment variables (functions/.env):
+ * - IP_HASH_SALT: secret salt for IP hashes; changing it starts new rate
+ *   limit buckets and unlinks earlier hashes
+ * - INQUIRY_RETENTION_MONTHS: months to keep inquiries (default 24, 0 keeps
+ *   them forever)
+ * - INQUIRY_RETENTION_ACTION: "anonymise" (default) or "delete"
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - Node's crypto module for hashing
+ * - ./auditLog for recording and redacting audit entries
+ */
+
+import * as admin from 'firebase-admin';
+import { createHmac } from 'crypto';
+import { AUDIT_COLLECTION, AuditAction, AuditContext, addAuditEntry, recordAuditEntry } from './auditLog';
+
+export const DEFAULT_RETENTION_MONTHS = 24;
+
+export const RETENTION_ACTIONS = ['anonymise', 'delete'] as const;
+
+export type RetentionAction = (typeof RETENTION_ACTIONS)[number];
+
+/**
+ * Inquiries handled per scheduled run; the rest are picked up the next day
+ */
+export const RETENTION_BATCH_LIMIT = 200;
+
+/**
+ * Field values of an anonymised inquiry
+ */
+export const ANONYMISED_INQUIRY = {
+  name: 'Anonymised',
+  email: '',
+  subject: 'Anonymised inquiry',
+  message: '',
+  company: null,
+  budget: null,
+  timeline: null,
+  ipHash: null,
+  spamReasons: [],
+  // Delivery records can quote the sender's address in transport errors
+  notifications: null,
+};
+
+/**
+ * Hashes a client IP with IP_HASH_SALT
+ *
+ * @param ip - Client IP
+ * @returns Hex HMAC-SHA256 of the IP, or null when IP_HASH_SALT is unset
+ */
+export function hashIp(ip: string): string | null {
+  const salt = process.env.IP_HASH_SALT;
+  if (!salt) {
+    return null;
+  }
+  return createHmac('sha256', salt).update(ip).digest('hex');
+}
+
+/**
+ * How long inquiries are kept and what happens to them afterwards
+ */
+export interface RetentionPolicy {
+  months: number;
+  action: RetentionAction;
+}
+
+/**
+ * Reads the retention policy from INQUIRY_RETENTION_MONTHS and INQUIRY_RETENTION_ACTION
+ *
+ * @returns The policy, or null when inquiries are kept forever
+ * @throws Error if either variable is invalid
+ */
+export function getRetentionPolicy(): RetentionPolicy | null {
+  const rawMonths = process.env.INQUIRY_RETENTION_MONTHS;
+  const months = rawMonths === undefined || rawMonths === '' ? DEFAULT_RETENTION_MONTHS : Number(rawMonths);
+  const action = process.env.INQUIRY_RETENTION_ACTION || 'anonymise';
+
+  if (!Number.isInteger(months) || months < 0) {
+    throw new Error(`Invalid INQUIRY_RETENTION_MONTHS "${rawMonths}"`);
+  }
+  if (!(RETENTION_ACTIONS as readonly string[]).includes(action)) {
+    throw new Error(`Unknown INQUIRY_RETENTION_ACTION "${action}"`);
+  }
+
+  return months === 0 ? null : { months, action: action as RetentionAction };
+}
+
+/**
+ * Start of the retention period: inquiries received before it are expired
+ */
+export function retentionCutoff(months: number, now: Date): Date {
+  const cutoff = new Date(now.getTime());
+  cutoff.setUTCMonth(cutoff.getUTCMonth() - months);
+  return cutoff;
+}
+
+/**
+ * Adds redactions of an inquiry's audit log entries to a batch
+ * The entries stay in the log, without the personal data in their snapshots.
+ *
+ * @returns Number of entries redacted
+ */
+async function redactAuditEntries(
+  db: admin.firestore.Firestore,
+  batch: admin.firestore.WriteBatch,
+  inquiryId: string
+): Promise<number> {
+  const entries = await db
+    .collection(AUDIT_COLLECTION)
+    .where('target.type', '==', 'inquiry')
+    .where('target.id', '==', inquiryId)
+    .get();
+
+  entries.docs.forEach((entry) => {
+    batch.update(entry.ref, { before: null, after: null, redacted: true });
+  });
+
+  return entries.size;
+}
+
+/**
+ * Anonymises an inquiry: clears its personal data, deletes its reply thread
+ * and redacts its audit log entries
+ *
+ * @param db - Firestore instance
+ * @param inquiryDoc - Inquiry to anonymise
+ * @param context - Who asked for it (the scheduler for retention)
+ */
+export async function anonymiseInquiry(
+  db: admin.firestore.Firestore,
+  inquiryDoc: admin.firestore.DocumentSnapshot,
+  context: AuditContext
+): Promise<void> {
+  // recursiveDelete on the subcollection removes every reply in it
+  await db.recursiveDelete(inquiryDoc.ref.collection('messages'));
+
+  const batch = db.batch();
+  await redactAuditEntries(db, batch, inquiryDoc.id);
+  batch.update(inquiryDoc.ref, {
+    ...ANONYMISED_INQUIRY,
+    anonymisedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  addAuditEntry(batch, context, 'inquiry.anonymise', { type: 'inquiry', id: inquiryDoc.id }, null, null);
+  await batch.commit();
+}
+
+/**
+ * Permanently deletes an inquiry with its reply thread and redacts its audit
+ * log entries
+ *
+ * @param db - Firestore instance
+ * @param inquiryDoc - Inquiry to delete
+ * @param context - Who asked for it
+ * @param action - Audit action to record (inquiry.purge for retention, inquiry.erase for requests)
+ */
+export async function eraseInquiry(
+  db: admin.firestore.Firestore,
+  inquiryDoc: admin.firestore.DocumentSnapshot,
+  context: AuditContext,
+  action: Extract<AuditAction, 'inquiry.purge' | 'inquiry.erase'>
+): Promise<void> {
+  await db.recursiveDelete(inquiryDoc.ref);
+
+  const batch = db.batch();
+  const redacted = await redactAuditEntries(db, batch, inquiryDoc.id);
+  if (redacted > 0) {
+    await batch.commit();
+  }
+
+  await recordAuditEntry(db, context, action, { type: 'inquiry', id: inquiryDoc.id }, null, null);
+}
+
+/**
+ * Finds every inquiry sent from an email address, including trashed ones
+ * Matches the address as typed and in lower case.
+ *
+ * @param db - Firestore instance
+ * @param email - Sender email address
+ */
+export async function findInquiriesByEmail(
+  db: admin.firestore.Firestore,
+  email: string
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const addresses = Array.from(new Set([email, email.toLowerCase()]));
+  const snapshot = await db.collection('inquiries').where('email', 'in', addresses).get();
+  return snapshot.docs;
+}
+
+/**
+ * Result of a scheduled retention run
+ */
+export interface RetentionResult {
+  action: RetentionAction;
+  cutoff: string;
+  processed: number;
+}
+
+/**
+ * Anonymises or deletes inquiries received before the retention period
+ *
+ * @param db - Firestore instance
+ * @param context - Audit context (the scheduler)
+ * @param now - Current time, injectable for tests
+ * @returns What was done, or null when inquiries are kept forever
+ */
+export async function applyRetentionPolicy(
+  db: admin.firestore.Firestore,
+  context: AuditContext,
+  now: Date = new Date()
+): Promise<RetentionResult | null> {
+  const policy = getRetentionPolicy();
+  if (!policy) {
+    return null;
+  }
+
+  const cutoff = retentionCutoff(policy.months, now);
+  let expiredQuery: admin.firestore.Query = db.collection('inquiries');
+
+  // Anonymised inquiries keep `anonymisedAt`, so they are not processed again
+  // (see firestore.indexes.json); deleting also removes earlier anonymised ones
+  if (policy.action === 'anonymise') {
+    expiredQuery = expiredQuery.where('anonymisedAt', '==', null);
+  }
+
+  const snapshot = await expiredQuery
+    .where('timestamp', '<', admin.firestore.Timestamp.fromDate(cutoff))
+    .limit(RETENTION_BATCH_LIMIT)
+    .get();
+
+  for (const doc of snapshot.docs) {
+    if (policy.action === 'anonymise') {
+      await anonymiseInquiry(db, doc, context);
+    } else {
+      await eraseInquiry(db, doc, context, 'inquiry.purge');
+    }
+  }
+
+  return { action: policy.action, cutoff: cutoff.toISOString(), processed: snapshot.size };
+}
@@ -0,0 +1,151 @@
+/**
+ * Publish Schedule
+ *
+ * Helpers for the optional `publishAt` and `unpublishAt` project fields. A
+ * draft with `publishAt` in the past is published, and a published project
+ * with `unpublishAt` in the past is unpublished, by the scheduled
+ * `publishScheduledProjects` function (see ../index.ts).
+ *
+ * Each schedule fires once: the timestamp that triggered a transition is
+ * cleared, so manually toggling `published` afterwards is not undone on the
+ * next run. Transitions are recorded as revisions and in the audit log like
+ * any other change.
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access and timestamps
+ * - ./revisions for recording transitions in the project history
+ * - ./auditLog for recording transitions in the audit log
+ */
+
+import * as admin from 'firebase-admin';
+import { addRevision, SCHEDULER_ACTOR } from './revisions';
+import { addAuditEntry, SCHEDULER_AUDIT_CONTEXT } from './auditLog';
+
+export const SCHEDULE_FIELDS = ['publishAt', 'unpublishAt'] as const;
+
+export type ScheduleField = (typeof SCHEDULE_FIELDS)[number];
+
+/**
+ * A visibility change applied by the scheduler
+ */
+export interface ScheduledTransition {
+  projectId: string;
+  title: string;
+  published: boolean;
+  scheduledFor: string;
+}
+
+/**
+ * Resolves the effective time of a schedule field in milliseconds
+ * Uses the requested value when one is given, otherwise the stored one.
+ */
+function effectiveMillis(requested: unknown, stored: unknown): number | null {
+  if (requested !== undefined) {
+    return typeof requested === 'string' ? Date.parse(requested) : null;
+  }
+  return stored instanceof admin.firestore.Timestamp ? stored.toMillis() : null;
+}
+
+/**
+ * Validates the schedule fields of a create or update request
+ * Each field may be an ISO 8601 date-time string, null (no schedule) or
+ * omitted. When both end up set, unpublishAt must come after publishAt.
+ *
+ * @param data - Request body
+ * @param current - Stored project data, for partial updates
+ * @returns Field-specific error messages
+ */
+export function validateSchedule(
+  data: Record<string, unknown>,
+  current: admin.firestore.DocumentData = {}
+): { [key: string]: string } {
+  const errors: { [key: string]: string } = {};
+
+  SCHEDULE_FIELDS.forEach((field) => {
+    const value = data[field];
+    if (
+      value !== undefined &&
+      value !== null &&
+      (typeof value !== 'string' || Number.isNaN(Date.parse(value)))
+    ) {
+      errors[field] = `${field} must be an ISO 8601 date-time or null`;
+    }
+  });
+
+  if (Object.keys(errors).length > 0) {
+    return errors;
+  }
+
+  const publishAt = effectiveMillis(data.publishAt, current.publishAt);
+  const unpublishAt = effectiveMillis(data.unpublishAt, current.unpublishAt);
+
+  if (publishAt !== null && unpublishAt !== null && unpublishAt <= publishAt) {
+    errors.unpublishAt = 'unpublishAt must be after publishAt';
+  }
+
+  return errors;
+}
+
+/**
+ * Converts a validated schedule value from a request into a Firestore value
+ */
+export function toScheduleTimestamp(value: unknown): admin.firestore.Timestamp | null {
+  return typeof value === 'string' ? admin.firestore.Timestamp.fromMillis(Date.parse(value)) : null;
+}
+
+/**
+ * Publishes and unpublishes projects whose schedule has come due
+ *
+ * Trashed projects are skipped. Each transition is written in its own batch
+ * together with its revision and audit entry.
+ *
+ * @param db - Firestore instance
+ * @param now - Current time, injectable for tests
+ * @returns The transitions that were applied
+ */
+export async function applyPublishSchedule(
+  db: admin.firestore.Firestore,
+  now: Date = new Date()
+): Promise<ScheduledTransition[]> {
+  const cutoff = admin.firestore.Timestamp.fromDate(now);
+  const projects = db.collection('projects').where('deletedAt', '==', null);
+
+  // Each query has a composite index in firestore.indexes.json
+  const [dueToPublish, dueToUnpublish] = await Promise.all([
+    projects.where('published', '==', false).where('publishAt', '<=', cutoff).get(),
+    projects.where('published', '==', true).where('unpublishAt', '<=', cutoff).get(),
+  ]);
+
+  const due: { doc: admin.firestore.QueryDocumentSnapshot; published: boolean; field: ScheduleField }[] = [
+    ...dueToPublish.docs.map((doc) => ({ doc, published: true, field: 'publishAt' as const })),
+    ...dueToUnpublish.docs.map((doc) => ({ doc, published: false, field: 'unpublishAt' as const })),
+  ];
+
+  const transitions: ScheduledTransition[] = [];
+
+  for (const { doc, published, field } of due) {
+    const updates = {
+      published,
+      [field]: null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    const batch = db.batch();
+    batch.update(doc.ref, updates);
+    addRevision(batch, doc.ref, 'update', SCHEDULER_ACTOR, doc.data(), { ...doc.data(), ...updates });
+    addAuditEntry(batch, SCHEDULER_AUDIT_CONTEXT, 'project.update', { type: 'project', id: doc.id }, doc.data(), {
+      ...doc.data(),
+      ...updates,
+    });
+    await batch.commit();
+
+    transitions.push({
+      projectId: doc.id,
+      title: doc.get('title'),
+      published,
+      scheduledFor: doc.get(field).toDate().toISOString(),
+    });
+  }
+
+  return transitions;
+}
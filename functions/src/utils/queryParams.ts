@@ -0,0 +1,54 @@
+/**
+ * Query Parameter Parsing
+ *
+ * Helpers for reading typed values from Express query strings. Each parser
+ * returns undefined (or a fallback) when the parameter is absent and null when
+ * it is present but invalid, so handlers can report a 400.
+ */
+
+/**
+ * Parses an optional boolean query parameter ("true" / "false")
+ * Returns undefined when absent and null when the value is not a boolean
+ */
+export function parseBooleanParam(value: unknown): boolean | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  if (value === 'false') {
+    return false;
+  }
+  return null;
+}
+
+/**
+ * Parses a positive integer query parameter, falling back to a default
+ * Returns null when the value is present but not a positive integer
+ */
+export function parsePositiveInt(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return null;
+  }
+  return parsed;
+}
+
+/**
+ * Parses an optional string query parameter
+ * Returns undefined when absent or blank and null when repeated (?a=1&a=2)
+ */
+export function parseStringParam(value: unknown): string | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
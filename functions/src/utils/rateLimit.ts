@@ -0,0 +1,197 @@
+/**
+ * Rate Limiting
+ *
+ * Token-bucket rate limits for the public API routes, applied by the
+ * rateLimit middleware (see ../middleware/rateLimit). Each client gets one
+ * bucket per route holding up to `limit` tokens; a request takes a token and
+ * tokens refill evenly, so a full bucket refills over `windowMs`. Bursts up
+ * to the limit are allowed, and a steady rate of `limit` per window keeps up.
+ *
+ * Buckets live in a RateLimitStore:
+ * - Firestore (default): one document per bucket in the `rateLimits`
+ *   collection, updated in a transaction. Document IDs are hashes, so client
+ *   IPs are not stored, and `expiresAt` lets a Firestore TTL policy delete
+ *   idle buckets.
+ * - Memory (RATE_LIMIT_STORE=memory): per-instance buckets for local
+ *   development and tests; never configure it in production.
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access
+ * - Node's crypto module for hashing bucket keys
+ */
+
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+
+export const RATE_LIMIT_COLLECTION = 'rateLimits';
+
+/**
+ * A rate limit: at most `limit` requests per `windowMs`
+ */
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Rate limits of the public routes, by route name
+ */
+export const RATE_LIMITS = {
+  // Contact form: 3 submissions per hour
+  contact: { limit: 3, windowMs: 60 * 60 * 1000 },
+  // Public reads: 120 requests per minute
+  projects: { limit: 120, windowMs: 60 * 1000 },
+  profile: { limit: 120, windowMs: 60 * 1000 },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitedRoute = keyof typeof RATE_LIMITS;
+
+/**
+ * Stored state of a bucket
+ */
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Outcome of taking a token
+ * - resetMs: time until the bucket is full again
+ * - retryAfterMs: time until the next token, 0 when the request was allowed
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;
+  retryAfterMs: number;
+}
+
+/**
+ * Refills a bucket for the time since its last update and takes a token if
+ * one is available
+ *
+ * @param state - Stored bucket, or null for a new (full) bucket
+ * @param rule - Limit of the route
+ * @param now - Current time in milliseconds
+ * @returns The bucket to store and the outcome
+ */
+export function takeToken(
+  state: BucketState | null,
+  rule: RateLimitRule,
+  now: number
+): { state: BucketState; result: RateLimitResult } {
+  const refillPerMs = rule.limit / rule.windowMs;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state ? Math.min(rule.limit, state.tokens + elapsed * refillPerMs) : rule.limit;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((rule.limit - tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+/**
+ * Keeps rate limit buckets
+ */
+export interface RateLimitStore {
+  /** Store name, for logs */
+  readonly name: string;
+
+  /**
+   * Takes a token from a bucket
+   *
+   * @param key - Bucket key, e.g. route and client IP
+   * @param rule - Limit of the route
+   * @param now - Current time in milliseconds
+   */
+  hit(key: string, rule: RateLimitRule, now?: number): Promise<RateLimitResult>;
+}
+
+/**
+ * Store that keeps buckets in memory, with a way to empty it between tests
+ */
+export interface MemoryRateLimitStore extends RateLimitStore {
+  clear(): void;
+}
+
+/**
+ * Store that keeps buckets in the memory of the current instance
+ */
+export function createMemoryRateLimitStore(): MemoryRateLimitStore {
+  const buckets = new Map<string, BucketState>();
+
+  return {
+    name: 'memory',
+    async hit(key, rule, now = Date.now()) {
+      const { state, result } = takeToken(buckets.get(key) ?? null, rule, now);
+      buckets.set(key, state);
+      return result;
+    },
+    clear() {
+      buckets.clear();
+    },
+  };
+}
+
+/**
+ * Store that keeps buckets in the `rateLimits` collection
+ *
+ * @param db - Firestore instance
+ */
+export function createFirestoreRateLimitStore(db: admin.firestore.Firestore): RateLimitStore {
+  return {
+    name: 'firestore',
+    async hit(key, rule, now = Date.now()) {
+      const bucketRef = db
+        .collection(RATE_LIMIT_COLLECTION)
+        .doc(createHash('sha256').update(key).digest('hex'));
+
+      return db.runTransaction(async (transaction) => {
+        const bucketDoc = await transaction.get(bucketRef);
+        const stored = bucketDoc.exists ? (bucketDoc.data() as BucketState) : null;
+        const { state, result } = takeToken(stored, rule, now);
+
+        transaction.set(bucketRef, {
+          ...state,
+          expiresAt: admin.firestore.Timestamp.fromMillis(now + rule.windowMs),
+        });
+
+        return result;
+      });
+    },
+  };
+}
+
+let firestoreStore: RateLimitStore | null = null;
+let memoryStore: MemoryRateLimitStore | null = null;
+
+/**
+ * Returns the store configured by RATE_LIMIT_STORE ("firestore" or "memory")
+ * Stores are created once per instance.
+ *
+ * @throws Error if the store is unknown
+ */
+export function getRateLimitStore(): RateLimitStore {
+  const store = process.env.RATE_LIMIT_STORE || 'firestore';
+
+  if (store === 'memory') {
+    memoryStore = memoryStore ?? createMemoryRateLimitStore();
+    return memoryStore;
+  }
+  if (store !== 'firestore') {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${store}"`);
+  }
+
+  firestoreStore = firestoreStore ?? createFirestoreRateLimitStore(admin.firestore());
+  return firestoreStore;
+}
@@ -0,0 +1,159 @@
+/**
+ * Project Revisions
+ *
+ * Helpers for the `projects/{id}/revisions` subcollection. Admin handlers add a
+ * revision in the same batch as the change it describes, so history is never
+ * written without the change (or the change without its history).
+ *
+ * Each revision records:
+ * - action: create, update, delete or restore
+ * - actor: uid and email of the admin who made the change
+ * - changes: before/after values of every field that changed
+ * - snapshot: the project after the change (for deletes, as it was when
+ *   deleted), which is what restoring the revision writes back
+ *
+ * Revisions live under the project document. Deleting a project only moves it
+ * to the trash (see ./trash), so its history stays available until the project
+ * is purged, which removes the revisions with it.
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore types and server timestamps
+ */
+
+import * as admin from 'firebase-admin';
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+export type ProjectData = admin.firestore.DocumentData;
+
+/**
+ * Who made a change: an admin's decoded ID token, or a system actor such as
+ * the publish scheduler
+ */
+export type RevisionActor = Pick<admin.auth.DecodedIdToken, 'uid' | 'email'>;
+
+/**
+ * Actor recorded on changes made by scheduled functions
+ */
+export const SCHEDULER_ACTOR: RevisionActor = { uid: 'scheduler' };
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Timestamps are stamped on every write, so diffing them would only add noise
+ */
+const UNTRACKED_FIELDS = ['createdAt', 'updatedAt'];
+
+/**
+ * Treats missing fields and nulls as the same value
+ */
+function normalizeValue(value: unknown): unknown {
+  return value === undefined ? null : value;
+}
+
+/**
+ * Compares two Firestore field values
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof admin.firestore.Timestamp && b instanceof admin.firestore.Timestamp) {
+    return a.isEqual(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Computes the field-level diff between two versions of a project
+ * Either side may be null for creates and deletes.
+ */
+export function diffProjectData(
+  before: ProjectData | null,
+  after: ProjectData | null
+): Record<string, FieldChange> {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: Record<string, FieldChange> = {};
+
+  fields.forEach((field) => {
+    if (UNTRACKED_FIELDS.includes(field)) {
+      return;
+    }
+
+    const beforeValue = normalizeValue(before?.[field]);
+    const afterValue = normalizeValue(after?.[field]);
+
+    if (!isSameValue(beforeValue, afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Adds a revision for a project change to a write batch
+ *
+ * @param batch - Batch that also carries the project write
+ * @param projectRef - Project the revision belongs to
+ * @param action - What happened to the project
+ * @param actor - Admin (or system actor) making the change
+ * @param before - Project data before the change (null for creates)
+ * @param after - Project data after the change (null for deletes)
+ * @param restoredFrom - ID of the revision being restored, for restores
+ * @returns ID of the new revision
+ */
+export function addRevision(
+  batch: admin.firestore.WriteBatch,
+  projectRef: admin.firestore.DocumentReference,
+  action: RevisionAction,
+  actor: RevisionActor | undefined,
+  before: ProjectData | null,
+  after: ProjectData | null,
+  restoredFrom?: string
+): string {
+  const revisionRef = projectRef.collection('revisions').doc();
+  const snapshot = action === 'delete' ? before : after;
+
+  // updatedAt is re-stamped when a revision is restored
+  const snapshotData = snapshot ? { ...snapshot } : null;
+  if (snapshotData) {
+    delete snapshotData.updatedAt;
+  }
+
+  batch.set(revisionRef, {
+    action,
+    actor: {
+      uid: actor?.uid ?? null,
+      email: actor?.email ?? null,
+    },
+    changes: diffProjectData(before, after),
+    snapshot: snapshotData,
+    ...(restoredFrom ? { restoredFrom } : {}),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return revisionRef.id;
+}
+
+/**
+ * Converts Firestore values in revision data to JSON-safe values
+ * Timestamps become ISO 8601 strings; arrays and maps are converted recursively.
+ */
+export function serializeRevisionValue(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeRevisionValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeRevisionValue(item)])
+    );
+  }
+  return value;
+}
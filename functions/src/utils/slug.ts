@@ -0,0 +1,84 @@
+/**
+ * Project Slugs
+ *
+ * Helpers for the human-readable `slug` used in project URLs
+ * (/projects/<slug>). Slugs are generated from the title and must be unique
+ * across the current slug and the `slugHistory` of every project, so an old
+ * URL can never start pointing at a different project.
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore queries
+ */
+
+import * as admin from 'firebase-admin';
+
+/**
+ * Longest slug generated from a title, before any numeric suffix
+ */
+const MAX_SLUG_LENGTH = 60;
+
+/**
+ * Lowercase words separated by single hyphens, e.g. "my-project-2"
+ */
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Converts a title to a URL slug
+ * Accents are stripped and anything other than letters and digits becomes a hyphen.
+ * Returns "project" when nothing usable is left (e.g. a title made only of emoji).
+ */
+export function slugify(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+
+  return slug || 'project';
+}
+
+/**
+ * Checks that a client-supplied slug is already in canonical form
+ */
+export function isValidSlug(slug: unknown): slug is string {
+  return typeof slug === 'string' && slug.length <= MAX_SLUG_LENGTH && SLUG_PATTERN.test(slug);
+}
+
+/**
+ * Checks whether a slug is free, ignoring the project that is being saved
+ * A slug is taken if another project uses it now or used it before.
+ */
+export async function isSlugAvailable(
+  db: admin.firestore.Firestore,
+  slug: string,
+  excludeProjectId?: string
+): Promise<boolean> {
+  const projects = db.collection('projects');
+  const [current, previous] = await Promise.all([
+    projects.where('slug', '==', slug).get(),
+    projects.where('slugHistory', 'array-contains', slug).get(),
+  ]);
+
+  return [...current.docs, ...previous.docs].every((doc) => doc.id === excludeProjectId);
+}
+
+/**
+ * Generates a unique slug for a title, appending -2, -3, ... on collision
+ */
+export async function generateUniqueSlug(
+  db: admin.firestore.Firestore,
+  title: string,
+  excludeProjectId?: string
+): Promise<string> {
+  const base = slugify(title);
+  let candidate = base;
+
+  for (let suffix = 2; !(await isSlugAvailable(db, candidate, excludeProjectId)); suffix++) {
+    candidate = `${base}-${suffix}`;
+  }
+
+  return candidate;
+}
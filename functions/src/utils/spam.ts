@@ -0,0 +1,155 @@
+/**
+ * Contact Form Spam Checks
+ *
+ * Cheap checks run on every contact form submission before it is stored:
+ * - Honeypot: a hidden form field that people never see or fill in, but
+ *   form-filling bots do
+ * - Fill time: how long the form was open before it was sent; bots submit
+ *   almost instantly
+ * - Content score: links and blocklisted words add points, and inquiries at
+ *   or above SPAM_FLAG_THRESHOLD are stored with `flagged: true` for the
+ *   admin to review rather than rejected, so a false positive is never lost
+ *
+ * ContactForm always sends a fill time, so a submission without one did not
+ * come from the form. Unless a CAPTCHA is configured to challenge it, the
+ * contact endpoint stores it flagged (see isFillTimeMissing) rather than
+ * dropping it, so API clients that post JSON directly keep working.
+ */
+
+/**
+ * Name of the hidden honeypot field in ContactForm
+ */
+export const HONEYPOT_FIELD = 'website';
+
+/**
+ * Shortest time, in milliseconds, a person plausibly takes to fill in the form
+ */
+export const MIN_FILL_TIME_MS = 3000;
+
+/**
+ * Score at which an inquiry is flagged as possible spam
+ */
+export const SPAM_FLAG_THRESHOLD = 3;
+
+/**
+ * Words and phrases that rarely appear in genuine portfolio inquiries
+ */
+export const SPAM_BLOCKLIST = [
+  'viagra',
+  'casino',
+  'betting',
+  'crypto',
+  'bitcoin',
+  'forex',
+  'loan',
+  'backlinks',
+  'seo services',
+  'guest post',
+  'escort',
+  'porn',
+];
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+/**
+ * Fields of a contact form submission that are scored
+ */
+export interface ScoredFields {
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+}
+
+/**
+ * Result of scoring an inquiry
+ * - reasons: one human-readable entry per heuristic that matched
+ */
+export interface SpamScore {
+  score: number;
+  reasons: string[];
+  flagged: boolean;
+}
+
+/**
+ * Checks whether the honeypot field was filled in
+ */
+export function isHoneypotFilled(value: unknown): boolean {
+  return typeof value === 'string' ? value.trim().length > 0 : value !== undefined && value !== null;
+}
+
+/**
+ * Checks whether the form was submitted faster than a person could fill it in
+ *
+ * @param fillTime - Milliseconds the form was open, as sent by ContactForm
+ * @returns false when no fill time was sent
+ */
+export function isSubmittedTooFast(fillTime: unknown): boolean {
+  if (fillTime === undefined || fillTime === null) {
+    return false;
+  }
+  return typeof fillTime !== 'number' || !Number.isFinite(fillTime) || fillTime < MIN_FILL_TIME_MS;
+}
+
+/**
+ * Checks whether the submission was sent without a fill time, which
+ * ContactForm always includes
+ */
+export function isFillTimeMissing(fillTime: unknown): boolean {
+  return fillTime === undefined || fillTime === null;
+}
+
+/**
+ * Escapes a string for use inside a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Scores an inquiry's content for signs of spam
+ *
+ * - Links in the subject or message: 1 point for one or two, 3 for more
+ * - A link in the name: 3 points
+ * - Each blocklisted word or phrase: 2 points
+ * - A subject in capitals: 1 point
+ *
+ * @param fields - Trimmed submission fields
+ * @returns The score, the matching heuristics and whether to flag the inquiry
+ */
+export function scoreInquiry(fields: ScoredFields): SpamScore {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const text = `${fields.subject}\n${fields.message}`;
+  const links = text.match(LINK_PATTERN)?.length ?? 0;
+
+  if (links > 2) {
+    score += 3;
+    reasons.push(`Contains ${links} links`);
+  } else if (links > 0) {
+    score += 1;
+    reasons.push(links === 1 ? 'Contains a link' : 'Contains 2 links');
+  }
+
+  if (new RegExp(LINK_PATTERN.source, 'i').test(fields.name)) {
+    score += 3;
+    reasons.push('Name contains a link');
+  }
+
+  const lowerText = text.toLowerCase();
+  SPAM_BLOCKLIST.forEach((term) => {
+    if (new RegExp(`\\b${escapeRegExp(term)}\\b`).test(lowerText)) {
+      score += 2;
+      reasons.push(`Mentions "${term}"`);
+    }
+  });
+
+  const letters = fields.subject.replace(/[^a-z]/gi, '');
+  if (letters.length >= 8 && letters === letters.toUpperCase()) {
+    score += 1;
+    reasons.push('Subject is in capitals');
+  }
+
+  return { score, reasons, flagged: score >= SPAM_FLAG_THRESHOLD };
+}
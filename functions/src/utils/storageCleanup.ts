@@ -0,0 +1,395 @@
+/**
+ * Storage Cleanup
+ *
+ * Keeps Firebase Storage in step with the projects using it. Run daily by
+ * the `cleanUpStorage` scheduled function (see ../index.ts), and without
+ * changing anything as the dry-run report admins can request (see
+ * ../api/media.ts).
+ *
+ * Storage objects are grouped into uploads: the variants of an upload made
+ * through the admin API (`<folder>/<timestamp>-<name>/<variant>.<format>`)
+ * form one upload, and any other object (e.g. the older
+ * `projects/temp/thumbnail_<timestamp>.png`) is an upload of its own. Each run:
+ * - Moves temp uploads (under `temp/` or `projects/temp/`) that a project
+ *   uses to `projects/<projectId>/`, rewriting the URLs in every project
+ *   using them and in their media library entry
+ * - Deletes uploads that no project (including trashed ones) and not the
+ *   profile uses, once unchanged for CLEANUP_MIN_AGE_HOURS, so forms still
+ *   being filled in keep their images. Media library entries outside the
+ *   temp folders are kept until deleted from the library, so unused images
+ *   stay available for reuse.
+ *
+ * At most CLEANUP_BATCH_LIMIT moves and deletions are applied per run; the
+ * rest are picked up the next day. Each one is recorded in the audit log.
+ * Project revisions are not rewritten, so restoring a revision from before
+ * a move or deletion can bring back links to images that are gone.
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore and Storage access
+ * - ./auditLog for recording moves and deletions
+ * - ./media for the media library entries
+ * - ./galleryImages for reading gallery images
+ */
+
+import * as admin from 'firebase-admin';
+import { addAuditEntry, AuditContext, recordAuditEntry } from './auditLog';
+import { MEDIA_COLLECTION } from './media';
+import { galleryImageUrls, normalizeGalleryImages } from './galleryImages';
+
+/**
+ * Hours an unused upload is kept after its last change
+ */
+export const CLEANUP_MIN_AGE_HOURS = 24;
+
+/**
+ * Moves and deletions applied per run, each
+ */
+export const CLEANUP_BATCH_LIMIT = 200;
+
+/**
+ * Storage folders the cleanup looks after
+ */
+const STORAGE_FOLDERS = ['projects', 'profile', 'temp'];
+
+/**
+ * Folders holding uploads for projects that had not been saved yet
+ */
+const TEMP_PREFIXES = ['temp/', 'projects/temp/'];
+
+/**
+ * A file of an upload made through the admin API (see ./images)
+ */
+const VARIANT_FILE = /^(.+\/\d+-[a-z0-9-]+)\/(?:thumb|card|full)\.(?:webp|avif)$/;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type Bucket = ReturnType<ReturnType<typeof admin.storage>['bucket']>;
+
+/**
+ * A temp upload to move under the project using it
+ */
+export interface PlannedMove {
+  from: string;
+  to: string;
+  files: number;
+  projects: string[];
+  mediaId: string | null;
+}
+
+/**
+ * An unused upload to delete
+ */
+export interface PlannedDeletion {
+  path: string;
+  files: number;
+  size: number;
+  updatedAt: string;
+  mediaId: string | null;
+}
+
+/**
+ * What a cleanup run did, or would do in a dry run
+ */
+export interface StorageCleanupReport {
+  dryRun: boolean;
+  cutoff: string;
+  uploads: number;
+  moves: PlannedMove[];
+  deletions: PlannedDeletion[];
+  remaining: { moves: number; deletions: number };
+}
+
+/**
+ * Storage objects of one upload
+ */
+interface Upload {
+  path: string;
+  files: string[];
+  size: number;
+  updated: number;
+}
+
+/**
+ * Public URL of a Storage object, as returned by the upload endpoint
+ */
+export function publicStorageUrl(bucketName: string, path: string): string {
+  return `https://storage.googleapis.com/${bucketName}/${path}`;
+}
+
+/**
+ * Storage path of a public or Firebase download URL of the bucket
+ *
+ * @returns The object path, or null for URLs of other hosts or buckets
+ */
+export function storagePathFromUrl(url: unknown, bucketName: string): string | null {
+  if (typeof url !== 'string') {
+    return null;
+  }
+
+  try {
+    const { hostname, pathname } = new URL(url);
+    const publicPrefix = `/${bucketName}/`;
+    const downloadPrefix = `/v0/b/${bucketName}/o/`;
+
+    if (hostname === 'storage.googleapis.com' && pathname.startsWith(publicPrefix)) {
+      return decodeURIComponent(pathname.slice(publicPrefix.length));
+    }
+    if (hostname === 'firebasestorage.googleapis.com' && pathname.startsWith(downloadPrefix)) {
+      return decodeURIComponent(pathname.slice(downloadPrefix.length));
+    }
+  } catch {
+    // Not a URL
+  }
+  return null;
+}
+
+/**
+ * Path of the upload a Storage object belongs to
+ */
+export function uploadPathOf(filePath: string): string {
+  return filePath.match(VARIANT_FILE)?.[1] ?? filePath;
+}
+
+/**
+ * Checks whether an upload is in a temp folder
+ */
+export function isTempPath(path: string): boolean {
+  return TEMP_PREFIXES.some(prefix => path.startsWith(prefix));
+}
+
+/**
+ * Where a temp upload used by a project belongs
+ */
+export function projectPathFor(tempPath: string, projectId: string): string {
+  const prefix = TEMP_PREFIXES.find(candidate => tempPath.startsWith(candidate)) || '';
+  return `projects/${projectId}/${tempPath.slice(prefix.length)}`;
+}
+
+/**
+ * Lists the bucket's objects grouped into uploads, keyed by upload path
+ */
+async function listUploads(bucket: Bucket): Promise<Map<string, Upload>> {
+  const listings = await Promise.all(
+    STORAGE_FOLDERS.map(folder => bucket.getFiles({ prefix: `${folder}/` }))
+  );
+
+  const uploads = new Map<string, Upload>();
+  listings.flatMap(([files]) => files).forEach((file) => {
+    const path = uploadPathOf(file.name);
+    const upload = uploads.get(path) || { path, files: [], size: 0, updated: 0 };
+
+    upload.files.push(file.name);
+    upload.size += Number(file.metadata.size) || 0;
+    upload.updated = Math.max(upload.updated, Date.parse(String(file.metadata.updated)) || 0);
+    uploads.set(path, upload);
+  });
+
+  return uploads;
+}
+
+/**
+ * Replaces moved image URLs in a project's image fields
+ *
+ * @returns The changed fields, or null when the project uses none of them
+ */
+function rewriteProjectImages(
+  data: admin.firestore.DocumentData,
+  urls: Map<string, string>
+): Record<string, unknown> | null {
+  const rewrite = (url: unknown) => (typeof url === 'string' && urls.get(url)) || url;
+  const updates: Record<string, unknown> = {};
+
+  if (urls.has(data.thumbnail)) {
+    updates.thumbnail = rewrite(data.thumbnail);
+  }
+  // Galleries still stored as plain URLs are saved as entries
+  const images = normalizeGalleryImages(data.images);
+  if (images.some(image => urls.has(image.url))) {
+    updates.images = images.map(image => ({ ...image, url: rewrite(image.url) }));
+  }
+  if (Array.isArray(data.imageMetadata) && data.imageMetadata.some((entry: { url: string }) => urls.has(entry.url))) {
+    updates.imageMetadata = data.imageMetadata.map((entry: { url: string }) => ({ ...entry, url: rewrite(entry.url) }));
+  }
+
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+/**
+ * Moves temp uploads used by projects and deletes unused uploads
+ *
+ * @param db - Firestore instance
+ * @param bucket - Storage bucket holding the uploads
+ * @param context - Audit context of the run
+ * @param options - dryRun to only report what would change; now, injectable for tests
+ * @returns What was (or would be) moved and deleted
+ */
+export async function runStorageCleanup(
+  db: admin.firestore.Firestore,
+  bucket: Bucket,
+  context: AuditContext,
+  { dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}
+): Promise<StorageCleanupReport> {
+  const cutoff = now.getTime() - CLEANUP_MIN_AGE_HOURS * HOUR_MS;
+
+  const [uploads, projectsSnapshot, profileDoc, mediaSnapshot] = await Promise.all([
+    listUploads(bucket),
+    db.collection('projects').get(),
+    db.collection('profile').doc('main').get(),
+    db.collection(MEDIA_COLLECTION).get(),
+  ]);
+
+  // Which projects use each upload, by any of its files' URLs
+  const users = new Map<string, Set<string>>();
+  projectsSnapshot.docs.forEach((doc) => {
+    [doc.get('thumbnail'), ...galleryImageUrls(doc.get('images'))].forEach((url) => {
+      const path = storagePathFromUrl(url, bucket.name);
+      if (path) {
+        const uploadPath = uploadPathOf(path);
+        users.set(uploadPath, (users.get(uploadPath) || new Set()).add(doc.id));
+      }
+    });
+  });
+
+  const profilePaths = new Set(
+    [profileDoc.get('avatar'), profileDoc.get('resumeUrl')]
+      .map(url => storagePathFromUrl(url, bucket.name))
+      .filter((path): path is string => path !== null)
+      .map(uploadPathOf)
+  );
+
+  const mediaByPath = new Map(
+    mediaSnapshot.docs.map(doc => [doc.get('path') as string, doc] as const)
+  );
+
+  const moves: PlannedMove[] = [];
+  const deletions: PlannedDeletion[] = [];
+
+  Array.from(uploads.values())
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .forEach((upload) => {
+      const projects = Array.from(users.get(upload.path) || []).sort();
+      const media = mediaByPath.get(upload.path);
+
+      if (projects.length > 0) {
+        if (isTempPath(upload.path)) {
+          moves.push({
+            from: upload.path,
+            to: projectPathFor(upload.path, projects[0]),
+            files: upload.files.length,
+            projects,
+            mediaId: media?.id ?? null,
+          });
+        }
+        return;
+      }
+
+      const inLibrary = !!media && !isTempPath(upload.path);
+      const referenced = (media?.get('references') || []).length > 0;
+      if (profilePaths.has(upload.path) || inLibrary || referenced || upload.updated > cutoff) {
+        return;
+      }
+
+      deletions.push({
+        path: upload.path,
+        files: upload.files.length,
+        size: upload.size,
+        updatedAt: new Date(upload.updated).toISOString(),
+        mediaId: media?.id ?? null,
+      });
+    });
+
+  const report: StorageCleanupReport = {
+    dryRun,
+    cutoff: new Date(cutoff).toISOString(),
+    uploads: uploads.size,
+    moves: moves.slice(0, CLEANUP_BATCH_LIMIT),
+    deletions: deletions.slice(0, CLEANUP_BATCH_LIMIT),
+    remaining: {
+      moves: Math.max(0, moves.length - CLEANUP_BATCH_LIMIT),
+      deletions: Math.max(0, deletions.length - CLEANUP_BATCH_LIMIT),
+    },
+  };
+
+  if (dryRun) {
+    return report;
+  }
+
+  // Project data as rewritten so far, since one project can use several moved uploads
+  const projectData = new Map(projectsSnapshot.docs.map(doc => [doc.id, doc.data()]));
+
+  for (const move of report.moves) {
+    const upload = uploads.get(move.from) as Upload;
+    const media = mediaByPath.get(move.from);
+    const renamed = new Map(upload.files.map(file => [file, `${move.to}${file.slice(move.from.length)}`]));
+
+    // Copy first, so the old URLs keep working until every project uses the new ones
+    for (const [from, to] of renamed) {
+      const [copy] = await bucket.file(from).copy(bucket.file(to));
+      await copy.makePublic();
+    }
+
+    const projects = projectsSnapshot.docs.filter(doc => move.projects.includes(doc.id));
+    const urls = new Map<string, string>();
+    projects.forEach((doc) => {
+      const data = projectData.get(doc.id) || {};
+      [data.thumbnail, ...galleryImageUrls(data.images)].forEach((url) => {
+        const path = storagePathFromUrl(url, bucket.name);
+        const to = path && renamed.get(path);
+        if (to) {
+          urls.set(url, publicStorageUrl(bucket.name, to));
+        }
+      });
+    });
+
+    const batch = db.batch();
+    projects.forEach((doc) => {
+      const data = projectData.get(doc.id) || {};
+      const updates = rewriteProjectImages(data, urls);
+      if (updates) {
+        batch.update(doc.ref, updates);
+        projectData.set(doc.id, { ...data, ...updates });
+      }
+    });
+    if (media) {
+      const mediaPath = storagePathFromUrl(media.get('url'), bucket.name);
+      const movedMediaPath = mediaPath && renamed.get(mediaPath);
+      batch.update(media.ref, {
+        path: move.to,
+        folder: 'projects',
+        files: Array.from(renamed.values()).sort(),
+        url: movedMediaPath ? publicStorageUrl(bucket.name, movedMediaPath) : media.get('url'),
+      });
+    }
+    addAuditEntry(
+      batch,
+      context,
+      'image.move',
+      { type: 'image', id: media?.id ?? move.from },
+      { path: move.from },
+      { path: move.to, projects: move.projects }
+    );
+    await batch.commit();
+
+    await Promise.all(upload.files.map(file => bucket.file(file).delete({ ignoreNotFound: true })));
+  }
+
+  for (const deletion of report.deletions) {
+    const upload = uploads.get(deletion.path) as Upload;
+    const media = mediaByPath.get(deletion.path);
+
+    await Promise.all(upload.files.map(file => bucket.file(file).delete({ ignoreNotFound: true })));
+
+    const target = { type: 'image' as const, id: media?.id ?? deletion.path };
+    const before = { path: deletion.path, files: upload.files, size: deletion.size };
+    if (media) {
+      const batch = db.batch();
+      batch.delete(media.ref);
+      addAuditEntry(batch, context, 'image.purge', target, before, null);
+      await batch.commit();
+    } else {
+      await recordAuditEntry(db, context, 'image.purge', target, before, null);
+    }
+  }
+
+  return report;
+}
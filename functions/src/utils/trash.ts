@@ -0,0 +1,109 @@
+/**
+ * Trash
+ *
+ * Soft delete helpers shared by the admin handlers and the scheduled purge.
+ * Deleting a project or inquiry sets `deletedAt` and `deletedBy` instead of
+ * removing the document. Live documents store `deletedAt: null`, which is
+ * what public and admin queries filter on (see firestore.indexes.json).
+ *
+ * Trashed documents are removed for good, including subcollections such as
+ * project revisions, when purged from the Trash view or by the scheduled
+ * purge once they are older than TRASH_RETENTION_DAYS. Inquiries are purged
+ * through ./privacy, so none of the sender's data stays in the audit log.
+ *
+ * Dependencies:
+ * - firebase-admin for Firestore access and server timestamps
+ * - ./auditLog for recording scheduled purges
+ * - ./media for releasing purged projects' media
+ * - ./privacy for purging inquiries
+ */
+
+import * as admin from 'firebase-admin';
+import { recordAuditEntry, SCHEDULER_AUDIT_CONTEXT } from './auditLog';
+import { removeMediaReferences } from './media';
+import { eraseInquiry } from './privacy';
+
+/**
+ * Days an item stays in the trash before the scheduled purge removes it
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Collections that support soft delete
+ */
+export const TRASH_COLLECTIONS = ['projects', 'inquiries'] as const;
+
+export type TrashCollection = (typeof TRASH_COLLECTIONS)[number];
+
+/**
+ * Checks whether a document has been moved to the trash
+ */
+export function isTrashed(doc: admin.firestore.DocumentSnapshot): boolean {
+  return !!doc.get('deletedAt');
+}
+
+/**
+ * Fields that move a document to the trash
+ */
+export function trashFields(actor: admin.auth.DecodedIdToken | undefined) {
+  return {
+    deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+    deletedBy: actor?.email ?? actor?.uid ?? null,
+  };
+}
+
+/**
+ * Fields that take a document back out of the trash
+ */
+export function restoreFields() {
+  return {
+    deletedAt: null,
+    deletedBy: null,
+  };
+}
+
+/**
+ * Date after which a trashed item is purged
+ */
+export function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Permanently deletes trashed items older than the retention period
+ * Each purge is recorded in the audit log; inquiry purges without the inquiry.
+ *
+ * @param db - Firestore instance
+ * @param now - Current time, injectable for tests
+ * @returns Number of purged documents per collection
+ */
+export async function purgeExpiredTrash(
+  db: admin.firestore.Firestore,
+  now: Date = new Date()
+): Promise<Record<TrashCollection, number>> {
+  const cutoff = admin.firestore.Timestamp.fromMillis(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+  const purged = { projects: 0, inquiries: 0 };
+
+  for (const collection of TRASH_COLLECTIONS) {
+    // Live documents have deletedAt: null, which a timestamp comparison never matches
+    const snapshot = await db.collection(collection).where('deletedAt', '<', cutoff).get();
+
+    // recursiveDelete also removes subcollections such as projects/{id}/revisions
+    await Promise.all(
+      snapshot.docs.map(async (doc) => {
+        if (collection === 'inquiries') {
+          await eraseInquiry(db, doc, SCHEDULER_AUDIT_CONTEXT, 'inquiry.purge');
+          return;
+        }
+        await db.recursiveDelete(doc.ref);
+        await removeMediaReferences(db, doc.id, doc.data());
+        await recordAuditEntry(db, SCHEDULER_AUDIT_CONTEXT, 'project.purge', { type: 'project', id: doc.id }, doc.data(), null);
+      })
+    );
+    purged[collection] = snapshot.size;
+  }
+
+  return purged;
+}
@@ -146,7 +146,14 @@ const inquiries = [];
 
 // GET /api/v1/projects
 app.get('/api/v1/projects', (req, res) => {
-  res.json({ projects: mockProjects });
+  res.json({
+    data: mockProjects,
+    total: mockProjects.length,
+    page: 1,
+    pageSize: mockProjects.length,
+    hasMore: false,
+    nextCursor: null
+  });
 });
 
 // GET /api/v1/projects/:id
@@ -25,10 +25,19 @@ import type { Project } from '../../types';
 const projectArbitrary = fc.record({
   id: fc.uuid(),
   title: fc.string({ minLength: 1, maxLength: 100 }),
+  slug: fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+)*$/),
   description: fc.string({ minLength: 1, maxLength: 200 }),
   fullDescription: fc.string({ minLength: 10, maxLength: 1000 }),
   thumbnail: fc.webUrl(),
-  images: fc.array(fc.webUrl(), { maxLength: 5 }),
+  images: fc.array(
+    fc.record({
+      url: fc.webUrl(),
+      alt: fc.string({ maxLength: 100 }),
+      caption: fc.string({ maxLength: 100 }),
+      order: fc.nat({ max: 4 }),
+    }),
+    { maxLength: 5 }
+  ),
   technologies: fc.array(fc.string({ minLength: 1, maxLength: 20 }), { minLength: 1, maxLength: 10 }),
   category: fc.constantFrom('Web Development', 'Mobile App', 'Data Science', 'DevOps', 'Design'),
   liveUrl: fc.option(fc.webUrl(), { nil: undefined }),
@@ -47,7 +56,7 @@ const projectArbitrary = fc.record({
 function filterPublishedProjects(allProjects: Project[]): Project[] {
   return allProjects
     .filter(project => project.published === true)
-    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    .sort((a, b) => a.order - b.order || b.createdAt.getTime() - a.createdAt.getTime());
 }
 
 describe('Firestore Data Access Layer - Property-Based Tests', () => {
@@ -109,11 +118,16 @@ describe('Firestore Data Access Layer - Property-Based Tests', () => {
               expect(returnedIds).not.toContain(unpublishedId);
             });
             
-            // Property 4: Results should be ordered by createdAt descending
-            // Verifies the ordering requirement from the design
+            // Property 4: Results should be ordered by display order ascending,
+            // with createdAt descending breaking ties between equal orders
             for (let i = 0; i < filteredProjects.length - 1; i++) {
-              expect(filteredProjects[i].createdAt.getTime())
-                .toBeGreaterThanOrEqual(filteredProjects[i + 1].createdAt.getTime());
+              const current = filteredProjects[i];
+              const next = filteredProjects[i + 1];
+              expect(current.order).toBeLessThanOrEqual(next.order);
+              if (current.order === next.order) {
+                expect(current.createdAt.getTime())
+                  .toBeGreaterThanOrEqual(next.createdAt.getTime());
+              }
             }
           }
         ),
@@ -0,0 +1,111 @@
+/**
+ * Tests for the Firestore Data Access Layer
+ *
+ * fetchProjectById runs against an in-memory Firestore that applies the
+ * projects read rule for an anonymous reader: queries must filter on
+ * `published == true` and `deletedAt == null`, and reading a document by
+ * ID is denied unless it exists, is published and is not in the trash.
+ */
+
+import { fetchProjectById } from '../firestore';
+
+interface MockConstraint {
+  type: 'where' | 'limit';
+  field?: string;
+  op?: string;
+  value?: unknown;
+}
+
+const DOCUMENT_ID = '__name__';
+
+const mockProjects: Record<string, Record<string, unknown>> = {
+  'project-1': {
+    title: 'Project One',
+    slug: 'project-one',
+    slugHistory: ['first-project'],
+    published: true,
+    deletedAt: null,
+  },
+  'draft-1': { title: 'Draft', slug: 'draft', slugHistory: [], published: false, deletedAt: null },
+  'trashed-1': { title: 'Trashed', slug: 'trashed', slugHistory: [], published: true, deletedAt: new Date() },
+};
+
+/**
+ * Error thrown by the SDK when the security rules deny a read
+ */
+function permissionDenied() {
+  return Object.assign(new Error('Missing or insufficient permissions.'), { code: 'permission-denied' });
+}
+
+/**
+ * Whether a project is readable by anyone under firestore.rules
+ */
+function isPublic(data: Record<string, unknown> | undefined) {
+  return !!data && data.published === true && data.deletedAt == null;
+}
+
+jest.mock('../firebase', () => ({ db: {} }));
+
+jest.mock('firebase/firestore', () => ({
+  Timestamp: class {},
+  collection: jest.fn((_db: unknown, name: string) => ({ name })),
+  doc: jest.fn((_db: unknown, name: string, id: string) => ({ name, id })),
+  documentId: jest.fn(() => DOCUMENT_ID),
+  where: jest.fn((field: string, op: string, value: unknown) => ({ type: 'where', field, op, value })),
+  limit: jest.fn((value: number) => ({ type: 'limit', value })),
+  query: jest.fn((_collection: unknown, ...constraints: MockConstraint[]) => ({ constraints })),
+  getDoc: jest.fn(async ({ id }: { id: string }) => {
+    if (!isPublic(mockProjects[id])) {
+      throw permissionDenied();
+    }
+    return { id, exists: () => true, data: () => mockProjects[id] };
+  }),
+  getDocs: jest.fn(async ({ constraints }: { constraints: MockConstraint[] }) => {
+    const filters = constraints.filter(constraint => constraint.type === 'where');
+    const provesPublic =
+      filters.some(f => f.field === 'published' && f.op === '==' && f.value === true) &&
+      filters.some(f => f.field === 'deletedAt' && f.op === '==' && f.value === null);
+    if (!provesPublic) {
+      throw permissionDenied();
+    }
+
+    const docs = Object.entries(mockProjects)
+      .filter(([id, data]) =>
+        filters.every(({ field, op, value }) => {
+          const actual = field === DOCUMENT_ID ? id : data[field as string];
+          return op === 'array-contains' ? Array.isArray(actual) && actual.includes(value) : actual === value;
+        })
+      )
+      .map(([id, data]) => ({ id, data: () => data }));
+    return { empty: docs.length === 0, docs };
+  }),
+}));
+
+describe('fetchProjectById', () => {
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  it('should find published projects by document ID, slug and previous slug for anonymous readers', async () => {
+    const byId = await fetchProjectById('project-1');
+    const bySlug = await fetchProjectById('project-one');
+    const byPreviousSlug = await fetchProjectById('first-project');
+
+    expect(byId).toMatchObject({ id: 'project-1', slug: 'project-one' });
+    expect(bySlug).toMatchObject({ id: 'project-1', slug: 'project-one' });
+    expect(byPreviousSlug).toMatchObject({ id: 'project-1', slug: 'project-one' });
+  });
+
+  it('should return null for unknown, draft and trashed projects', async () => {
+    await expect(fetchProjectById('missing')).resolves.toBeNull();
+    await expect(fetchProjectById('draft-1')).resolves.toBeNull();
+    await expect(fetchProjectById('draft')).resolves.toBeNull();
+    await expect(fetchProjectById('trashed')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for the Draft Preview helpers
+ *
+ * fetchProjectPreview must only fetch from the configured API or site URL,
+ * never from a host taken from the request, and must refuse to preview when
+ * neither is configured.
+ */
+
+const originalEnv = process.env;
+const originalFetch = global.fetch;
+
+/**
+ * Loads the preview helpers with the given environment, since lib/api.ts
+ * reads NEXT_PUBLIC_API_URL when it is imported
+ */
+function loadPreview(env: Record<string, string | undefined>): typeof import('../preview') {
+  process.env = { ...originalEnv, NEXT_PUBLIC_API_URL: undefined, SITE_URL: undefined, ...env };
+  let preview!: typeof import('../preview');
+  jest.isolateModules(() => {
+    preview = jest.requireActual('../preview');
+  });
+  return preview;
+}
+
+/**
+ * Response returned by the mocked fetch for a previewed project
+ */
+function projectResponse() {
+  return {
+    ok: true,
+    json: async () => ({
+      project: {
+        id: 'draft-1',
+        title: 'Draft',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z',
+      },
+    }),
+  };
+}
+
+describe('fetchProjectPreview', () => {
+  let fetchMock: jest.Mock;
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async () => projectResponse());
+    global.fetch = fetchMock as unknown as typeof fetch;
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    global.fetch = originalFetch;
+    consoleError.mockRestore();
+  });
+
+  it('should fetch drafts from NEXT_PUBLIC_API_URL', async () => {
+    const { fetchProjectPreview } = loadPreview({ NEXT_PUBLIC_API_URL: 'https://functions.example.com/' });
+
+    const project = await fetchProjectPreview('draft-1', 'signed-token');
+
+    expect(String(fetchMock.mock.calls[0][0])).toBe('https://functions.example.com/api/v1/projects/draft-1?preview=signed-token');
+    expect(fetchMock.mock.calls[0][1]).toEqual({ cache: 'no-store' });
+    expect(project).toMatchObject({ id: 'draft-1', createdAt: new Date('2024-01-01T00:00:00.000Z') });
+  });
+
+  it('should resolve same-origin API URLs against SITE_URL', async () => {
+    const { fetchProjectPreview } = loadPreview({ SITE_URL: 'https://example.com' });
+
+    await fetchProjectPreview('draft/1', 'signed-token');
+
+    expect(String(fetchMock.mock.calls[0][0])).toBe('https://example.com/api/v1/projects/draft%2F1?preview=signed-token');
+    expect(fetchMock.mock.calls[0][1]).toEqual({ cache: 'no-store' });
+  });
+
+  it('should refuse to preview when no API or site URL is configured', async () => {
+    const { fetchProjectPreview } = loadPreview({});
+
+    await expect(fetchProjectPreview('draft-1', 'signed-token')).resolves.toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should not preview projects the API refuses', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 403 });
+    const { fetchProjectPreview } = loadPreview({ SITE_URL: 'https://example.com' });
+
+    await expect(fetchProjectPreview('draft-1', 'expired-token')).resolves.toBeNull();
+  });
+});
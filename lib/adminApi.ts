@@ -0,0 +1,802 @@
+/**
+ * Admin API Client
+ *
+ * This module provides typed functions for calling the authenticated admin
+ * endpoints served by Firebase Functions. Every request carries the signed-in
+ * user's Firebase ID token as a Bearer token so the functions' `requireAuth`
+ * middleware can verify it.
+ *
+ * Key responsibilities:
+ * - Resolve admin route URLs under /api/v1 (see ./api)
+ * - Attach the current user's ID token to every request
+ * - Surface API error messages as thrown Errors
+ * - Convert ISO date strings in responses to JavaScript Dates
+ *
+ * Dependencies:
+ * - Firebase Auth for the current user's ID token
+ * - Shared types from the types module
+ */
+
+import { auth } from './firebase';
+import { apiUrl } from './api';
+import type {
+  AuditAction,
+  AuditLogEntry,
+  AuditTargetType,
+  DashboardStats,
+  Inquiry,
+  InquiryMessage,
+  InquiryReplyInput,
+  InquiryType,
+  MediaAsset,
+  PaginatedResponse,
+  PreviewLink,
+  Profile,
+  ProfileInput,
+  ProjectInput,
+  ProjectRevision,
+  ProjectWarnings,
+  ReplyTemplate,
+  ReplyTemplateInput,
+  StorageCleanupReport,
+  TrashContents,
+  TrashEntry,
+  TrashItemType,
+  TrashedInquiry,
+  TrashedProject,
+  UploadedDocument,
+  UploadedImage,
+} from '../types';
+
+/**
+ * Days deleted items stay in the trash before the scheduled purge removes
+ * them (TRASH_RETENTION_DAYS in functions/src/utils/trash.ts)
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Sends an authenticated request to an admin endpoint
+ *
+ * @param path - Route path relative to /api/v1 with optional query, e.g. `admin/inquiries/abc`
+ * @param init - Fetch options (method, body)
+ * @returns Promise resolving to the parsed JSON response body
+ * @throws Error with the API's error message if the request fails
+ */
+async function adminRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const user = auth?.currentUser;
+
+  if (!user) {
+    throw new Error('You must be signed in to perform this action.');
+  }
+
+  const token = await user.getIdToken();
+
+  const response = await fetch(apiUrl(path), {
+    ...init,
+    headers: {
+      // FormData bodies need the browser to set the multipart boundary itself
+      ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+      Authorization: `Bearer ${token}`,
+      ...init.headers,
+    },
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(result.error || `Request failed with status ${response.status}`);
+  }
+
+  return result as T;
+}
+
+/**
+ * Inquiry shape returned by the admin API (dates serialized as ISO strings)
+ */
+type SerializedInquiry = Omit<Inquiry, 'timestamp' | 'anonymisedAt'> & {
+  timestamp: string;
+  anonymisedAt: string | null;
+};
+
+/**
+ * Converts a serialized inquiry from the API into an Inquiry
+ */
+function toInquiry(data: SerializedInquiry): Inquiry {
+  return {
+    ...data,
+    timestamp: new Date(data.timestamp),
+    anonymisedAt: data.anonymisedAt ? new Date(data.anonymisedAt) : null,
+  };
+}
+
+/**
+ * Query options for listing inquiries in the admin inbox
+ */
+export interface InquiryListParams {
+  page?: number;
+  pageSize?: number;
+  read?: boolean;
+  replied?: boolean;
+  type?: InquiryType;
+}
+
+/**
+ * Fetches a page of inquiries, newest first
+ *
+ * @param params - Pagination, read/replied and type filters
+ * @returns Promise resolving to a paginated list of inquiries
+ */
+export async function fetchInquiries(
+  params: InquiryListParams = {}
+): Promise<PaginatedResponse<Inquiry>> {
+  const searchParams = new URLSearchParams();
+
+  if (params.page !== undefined) searchParams.set('page', String(params.page));
+  if (params.pageSize !== undefined) searchParams.set('pageSize', String(params.pageSize));
+  if (params.read !== undefined) searchParams.set('read', String(params.read));
+  if (params.replied !== undefined) searchParams.set('replied', String(params.replied));
+  if (params.type) searchParams.set('type', params.type);
+
+  const query = searchParams.toString();
+  const result = await adminRequest<PaginatedResponse<SerializedInquiry>>(
+    `admin/inquiries${query ? `?${query}` : ''}`
+  );
+
+  return {
+    ...result,
+    data: result.data.map(toInquiry),
+  };
+}
+
+/**
+ * Fetches a single inquiry by its document ID
+ *
+ * @param inquiryId - The Firestore document ID of the inquiry
+ * @returns Promise resolving to the Inquiry
+ */
+export async function fetchInquiry(inquiryId: string): Promise<Inquiry> {
+  const result = await adminRequest<{ inquiry: SerializedInquiry }>(
+    `admin/inquiries/${encodeURIComponent(inquiryId)}`
+  );
+  return toInquiry(result.inquiry);
+}
+
+/**
+ * Updates the read/replied flags of an inquiry
+ *
+ * @param inquiryId - The Firestore document ID of the inquiry
+ * @param flags - Flags to change; omitted flags are left untouched
+ * @returns Promise resolving to the updated Inquiry
+ */
+export async function updateInquiryFlags(
+  inquiryId: string,
+  flags: Partial<Pick<Inquiry, 'read' | 'replied' | 'flagged'>>
+): Promise<Inquiry> {
+  const result = await adminRequest<{ inquiry: SerializedInquiry }>(
+    `admin/inquiries/${encodeURIComponent(inquiryId)}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(flags),
+    }
+  );
+  return toInquiry(result.inquiry);
+}
+
+/**
+ * Moves an inquiry (e.g. spam) to the trash
+ *
+ * @param inquiryId - The Firestore document ID of the inquiry
+ */
+export async function deleteInquiry(inquiryId: string): Promise<void> {
+  await adminRequest<{ message: string }>(`admin/inquiries/${encodeURIComponent(inquiryId)}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Thread message shape returned by the admin API (dates serialized as ISO strings)
+ */
+type SerializedInquiryMessage = Omit<InquiryMessage, 'createdAt'> & { createdAt: string };
+
+/**
+ * Converts a serialized thread message from the API
+ */
+function toInquiryMessage(data: SerializedInquiryMessage): InquiryMessage {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+  };
+}
+
+/**
+ * Fetches the replies sent for an inquiry, oldest first
+ *
+ * @param inquiryId - The Firestore document ID of the inquiry
+ * @returns Promise resolving to the thread, without the inquiry itself
+ */
+export async function fetchInquiryMessages(inquiryId: string): Promise<InquiryMessage[]> {
+  const result = await adminRequest<{ data: SerializedInquiryMessage[] }>(
+    `admin/inquiries/${encodeURIComponent(inquiryId)}/messages`
+  );
+  return result.data.map(toInquiryMessage);
+}
+
+/**
+ * Emails a reply to the sender of an inquiry and marks it as replied
+ *
+ * @param inquiryId - The Firestore document ID of the inquiry
+ * @param reply - Reply subject and body
+ * @returns Promise resolving to the stored reply and the updated Inquiry
+ * @throws Error if email is not configured or the reply could not be sent
+ */
+export async function sendInquiryReply(
+  inquiryId: string,
+  reply: InquiryReplyInput
+): Promise<{ reply: InquiryMessage; inquiry: Inquiry }> {
+  const result = await adminRequest<{ reply: SerializedInquiryMessage; inquiry: SerializedInquiry }>(
+    `admin/inquiries/${encodeURIComponent(inquiryId)}/messages`,
+    {
+      method: 'POST',
+      body: JSON.stringify(reply),
+    }
+  );
+  return { reply: toInquiryMessage(result.reply), inquiry: toInquiry(result.inquiry) };
+}
+
+/**
+ * Reply template shape returned by the admin API (dates serialized as ISO strings)
+ */
+type SerializedReplyTemplate = Omit<ReplyTemplate, 'createdAt' | 'updatedAt'> & {
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+/**
+ * Converts a serialized reply template from the API
+ */
+function toReplyTemplate(data: SerializedReplyTemplate): ReplyTemplate {
+  return {
+    ...data,
+    createdAt: data.createdAt ? new Date(data.createdAt) : null,
+    updatedAt: data.updatedAt ? new Date(data.updatedAt) : null,
+  };
+}
+
+/**
+ * Fetches the saved reply templates, ordered by name
+ */
+export async function fetchReplyTemplates(): Promise<ReplyTemplate[]> {
+  const result = await adminRequest<{ data: SerializedReplyTemplate[] }>('admin/reply-templates');
+  return result.data.map(toReplyTemplate);
+}
+
+/**
+ * Saves a new reply template
+ *
+ * @param template - Template name, subject and body
+ * @returns Promise resolving to the created template
+ */
+export async function createReplyTemplate(template: ReplyTemplateInput): Promise<ReplyTemplate> {
+  const result = await adminRequest<{ template: SerializedReplyTemplate }>('admin/reply-templates', {
+    method: 'POST',
+    body: JSON.stringify(template),
+  });
+  return toReplyTemplate(result.template);
+}
+
+/**
+ * Updates a reply template
+ *
+ * @param templateId - The Firestore document ID of the template
+ * @param template - Fields to change
+ * @returns Promise resolving to the updated template
+ */
+export async function updateReplyTemplate(
+  templateId: string,
+  template: Partial<ReplyTemplateInput>
+): Promise<ReplyTemplate> {
+  const result = await adminRequest<{ template: SerializedReplyTemplate }>(
+    `admin/reply-templates/${encodeURIComponent(templateId)}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(template),
+    }
+  );
+  return toReplyTemplate(result.template);
+}
+
+/**
+ * Deletes a reply template
+ *
+ * @param templateId - The Firestore document ID of the template
+ */
+export async function deleteReplyTemplate(templateId: string): Promise<void> {
+  await adminRequest<{ message: string }>(`admin/reply-templates/${encodeURIComponent(templateId)}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Creates a project
+ *
+ * The backend validates the fields, generates a unique slug from the title
+ * and records the first revision.
+ *
+ * @param project - Project fields from the admin form
+ * @returns Promise resolving to the new project's ID and slug, with warnings
+ *   about problems that did not stop the save (e.g. missing alt text)
+ */
+export async function createProject(
+  project: ProjectInput
+): Promise<{ id: string; slug: string; warnings?: ProjectWarnings }> {
+  const result = await adminRequest<{ id: string; slug: string; message: string; warnings?: ProjectWarnings }>(
+    'admin/projects',
+    {
+      method: 'POST',
+      body: JSON.stringify(project),
+    }
+  );
+  return { id: result.id, slug: result.slug, warnings: result.warnings };
+}
+
+/**
+ * Updates a project, recording the changed fields as a revision
+ *
+ * @param projectId - The Firestore document ID of the project
+ * @param project - Fields to change; omitted fields are left untouched
+ * @returns Promise resolving to warnings about problems that did not stop the save
+ */
+export async function updateProject(
+  projectId: string,
+  project: Partial<ProjectInput>
+): Promise<{ warnings?: ProjectWarnings }> {
+  const result = await adminRequest<{ message: string; warnings?: ProjectWarnings }>(
+    `admin/projects/${encodeURIComponent(projectId)}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify(project),
+    }
+  );
+  return { warnings: result.warnings };
+}
+
+/**
+ * Moves a project to the trash
+ *
+ * The project is hidden everywhere but the Trash page, where it can be
+ * restored until it is purged.
+ *
+ * @param projectId - The Firestore document ID of the project
+ */
+export async function deleteProject(projectId: string): Promise<void> {
+  await adminRequest<{ message: string }>(`admin/projects/${encodeURIComponent(projectId)}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Creates a preview link for a project
+ *
+ * The link shows the project on its public detail page even while it is a
+ * draft, and expires after a day.
+ *
+ * @param projectId - The Firestore document ID of the project
+ * @returns Promise resolving to the preview link and its expiry time
+ */
+export async function createPreviewLink(projectId: string): Promise<PreviewLink> {
+  const result = await adminRequest<Omit<PreviewLink, 'expiresAt'> & { expiresAt: string }>(
+    `admin/projects/${encodeURIComponent(projectId)}/preview`,
+    { method: 'POST' }
+  );
+
+  return { ...result, expiresAt: new Date(result.expiresAt) };
+}
+
+/**
+ * Revision shape returned by the admin API (dates serialized as ISO strings)
+ */
+type SerializedRevision = Omit<ProjectRevision, 'createdAt'> & { createdAt: string };
+
+/**
+ * Fetches a project's revision history, newest first
+ *
+ * @param projectId - The Firestore document ID of the project (may be deleted)
+ * @returns Promise resolving to the project's revisions
+ */
+export async function fetchProjectRevisions(projectId: string): Promise<ProjectRevision[]> {
+  const result = await adminRequest<{ data: SerializedRevision[] }>(
+    `admin/projects/${encodeURIComponent(projectId)}/revisions`
+  );
+
+  return result.data.map(revision => ({
+    ...revision,
+    createdAt: new Date(revision.createdAt),
+  }));
+}
+
+/**
+ * Restores a project to the version stored in a revision
+ *
+ * Restoring a revision of a deleted project recreates the project.
+ *
+ * @param projectId - The Firestore document ID of the project
+ * @param revisionId - The revision to restore
+ * @returns Promise resolving to the API's confirmation message
+ */
+export async function restoreProjectRevision(projectId: string, revisionId: string): Promise<string> {
+  const result = await adminRequest<{ message: string; revisionId: string }>(
+    `admin/projects/${encodeURIComponent(projectId)}/revisions/${encodeURIComponent(revisionId)}/restore`,
+    { method: 'POST' }
+  );
+  return result.message;
+}
+
+/**
+ * Trash entry shape returned by the admin API (dates serialized as ISO strings)
+ */
+type SerializedTrashEntry<T extends TrashEntry> = Omit<T, 'deletedAt' | 'purgeAt'> & {
+  deletedAt: string;
+  purgeAt: string;
+};
+
+/**
+ * Converts a serialized trash entry from the API
+ */
+function toTrashEntry<T extends TrashEntry>(entry: SerializedTrashEntry<T>): T {
+  return {
+    ...entry,
+    deletedAt: new Date(entry.deletedAt),
+    purgeAt: new Date(entry.purgeAt),
+  } as T;
+}
+
+/**
+ * Fetches the projects and inquiries in the trash
+ *
+ * @returns Promise resolving to trashed items, most recently deleted first
+ */
+export async function fetchTrash(): Promise<TrashContents> {
+  const result = await adminRequest<{
+    projects: SerializedTrashEntry<TrashedProject>[];
+    inquiries: SerializedTrashEntry<TrashedInquiry>[];
+  }>('admin/trash');
+
+  return {
+    projects: result.projects.map(project => toTrashEntry<TrashedProject>(project)),
+    inquiries: result.inquiries.map(inquiry => toTrashEntry<TrashedInquiry>(inquiry)),
+  };
+}
+
+/**
+ * Takes a project or inquiry back out of the trash
+ *
+ * @param type - Collection the item belongs to
+ * @param id - The Firestore document ID of the item
+ */
+export async function restoreFromTrash(type: TrashItemType, id: string): Promise<void> {
+  await adminRequest<{ message: string }>(
+    `admin/trash/${type}/${encodeURIComponent(id)}/restore`,
+    { method: 'POST' }
+  );
+}
+
+/**
+ * Permanently deletes a project (with its revision history) or inquiry from the trash
+ *
+ * @param type - Collection the item belongs to
+ * @param id - The Firestore document ID of the item
+ */
+export async function purgeFromTrash(type: TrashItemType, id: string): Promise<void> {
+  await adminRequest<{ message: string }>(`admin/trash/${type}/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Persists a new manual ordering for projects
+ *
+ * Each project's `order` becomes its index in the array. The backend applies
+ * all updates in a single batch, so either every position changes or none do.
+ *
+ * @param projectIds - Project IDs in the desired display order
+ */
+export async function reorderProjects(projectIds: string[]): Promise<void> {
+  await adminRequest<{ message: string }>('admin/projects/reorder', {
+    method: 'PUT',
+    body: JSON.stringify({ projectIds }),
+  });
+}
+
+/**
+ * Saves the portfolio owner's profile
+ *
+ * The backend validates every field and stamps `updatedAt`. Validation
+ * failures are thrown as an Error carrying the API message.
+ *
+ * @param profile - Complete profile data from the admin editor
+ * @returns Promise resolving to the saved Profile
+ */
+export async function updateProfile(profile: ProfileInput): Promise<Profile> {
+  const result = await adminRequest<{ profile: Omit<Profile, 'updatedAt'> & { updatedAt: string } }>(
+    'admin/profile',
+    {
+      method: 'PUT',
+      body: JSON.stringify(profile),
+    }
+  );
+
+  return {
+    ...result.profile,
+    updatedAt: new Date(result.profile.updatedAt),
+  };
+}
+
+/**
+ * Storage folders the upload endpoint accepts
+ * - projects: images of existing projects
+ * - temp: images of projects that have not been saved yet
+ * - profile: profile images
+ */
+export type UploadFolder = 'projects' | 'temp' | 'profile';
+
+/**
+ * Image types the upload endpoint accepts
+ */
+export const UPLOAD_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/**
+ * Uploads an image to Firebase Storage through the admin API
+ *
+ * The file is sent as multipart/form-data. The API checks its type from its
+ * contents (JPEG, PNG or WebP, up to 5MB), stores it as a resized WebP and
+ * records the upload in the audit log.
+ *
+ * @param file - Image selected by the user
+ * @param folder - Storage folder to upload into
+ * @returns Promise resolving to the stored URL and its metadata
+ */
+export async function uploadImage(file: File, folder: UploadFolder = 'projects'): Promise<UploadedImage> {
+  const body = new FormData();
+  body.append('folder', folder);
+  body.append('file', file, file.name);
+
+  const result = await adminRequest<UploadedImage & { message: string }>('admin/upload', {
+    method: 'POST',
+    body,
+  });
+
+  return {
+    id: result.id,
+    url: result.url,
+    width: result.width,
+    height: result.height,
+    color: result.color,
+    placeholder: result.placeholder,
+  };
+}
+
+/**
+ * Uploads the profile's resume PDF to Firebase Storage through the admin API
+ *
+ * The file is sent as multipart/form-data. The API checks it is a PDF from
+ * its contents (up to 5MB), stores it in the profile folder, indexes it in
+ * the media library and records the upload in the audit log. Owner role only.
+ *
+ * @param file - PDF selected by the user
+ * @returns Promise resolving to the media library entry ID and the PDF's URL
+ */
+export async function uploadDocument(file: File): Promise<UploadedDocument> {
+  const body = new FormData();
+  body.append('file', file, file.name);
+
+  const result = await adminRequest<UploadedDocument & { message: string }>('admin/upload/document', {
+    method: 'POST',
+    body,
+  });
+
+  return { id: result.id, url: result.url };
+}
+
+/**
+ * Fetches aggregate project and inquiry statistics for the dashboard
+ *
+ * @returns Promise resolving to the dashboard statistics
+ */
+export async function fetchDashboardStats(): Promise<DashboardStats> {
+  type SerializedStats = Omit<DashboardStats, 'inquiries' | 'generatedAt'> & {
+    inquiries: Omit<DashboardStats['inquiries'], 'perWeek'> & {
+      perWeek: { weekStart: string; count: number }[];
+    };
+    generatedAt: string;
+  };
+
+  const result = await adminRequest<SerializedStats>('admin/stats');
+
+  return {
+    projects: result.projects,
+    inquiries: {
+      ...result.inquiries,
+      perWeek: result.inquiries.perWeek.map(week => ({
+        weekStart: new Date(week.weekStart),
+        count: week.count,
+      })),
+    },
+    generatedAt: new Date(result.generatedAt),
+  };
+}
+
+/**
+ * Query options for browsing the audit log
+ * Filters can be combined; actor matches the admin's email exactly.
+ */
+export interface AuditLogParams {
+  page?: number;
+  pageSize?: number;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  actor?: string;
+}
+
+/**
+ * Fetches a page of audit log entries, newest first (owner role only)
+ *
+ * @param params - Pagination and filters
+ * @returns Promise resolving to a paginated list of audit log entries
+ */
+export async function fetchAuditLog(
+  params: AuditLogParams = {}
+): Promise<PaginatedResponse<AuditLogEntry>> {
+  const searchParams = new URLSearchParams();
+
+  if (params.page !== undefined) searchParams.set('page', String(params.page));
+  if (params.pageSize !== undefined) searchParams.set('pageSize', String(params.pageSize));
+  if (params.action) searchParams.set('action', params.action);
+  if (params.targetType) searchParams.set('targetType', params.targetType);
+  if (params.targetId) searchParams.set('targetId', params.targetId);
+  if (params.actor) searchParams.set('actor', params.actor);
+
+  const query = searchParams.toString();
+  const result = await adminRequest<PaginatedResponse<Omit<AuditLogEntry, 'createdAt'> & { createdAt: string }>>(
+    `admin/audit-log${query ? `?${query}` : ''}`
+  );
+
+  return {
+    ...result,
+    data: result.data.map(entry => ({
+      ...entry,
+      createdAt: new Date(entry.createdAt),
+    })),
+  };
+}
+
+/**
+ * Everything stored about an inquiry sender, as exported for a data subject
+ * request. Inquiries and replies are kept as raw JSON (dates as ISO strings)
+ * since the export is downloaded rather than displayed.
+ */
+export interface SenderDataExport {
+  email: string;
+  exportedAt: string;
+  inquiries: Record<string, unknown>[];
+}
+
+/**
+ * Exports every inquiry and reply stored for a sender email (owner role only)
+ *
+ * @param email - Sender email address
+ * @returns Promise resolving to the export
+ */
+export async function exportSenderData(email: string): Promise<SenderDataExport> {
+  return adminRequest<SenderDataExport>('admin/privacy/export', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+}
+
+/**
+ * Permanently deletes every inquiry and reply stored for a sender email,
+ * including trashed inquiries (owner role only)
+ *
+ * @param email - Sender email address
+ * @returns Promise resolving to the number of inquiries deleted
+ */
+export async function eraseSenderData(email: string): Promise<number> {
+  const result = await adminRequest<{ deleted: number }>('admin/privacy/erase', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+  return result.deleted;
+}
+
+/**
+ * Media library entry as returned by the admin API (dates serialized as ISO strings)
+ */
+type SerializedMediaAsset = Omit<MediaAsset, 'createdAt'> & { createdAt: string | null };
+
+/**
+ * Converts a serialized media library entry into a MediaAsset
+ */
+function toMediaAsset(data: SerializedMediaAsset): MediaAsset {
+  return {
+    ...data,
+    createdAt: data.createdAt ? new Date(data.createdAt) : null,
+  };
+}
+
+/**
+ * Query options for browsing the media library
+ */
+export interface MediaListParams {
+  page?: number;
+  pageSize?: number;
+  q?: string;
+  type?: 'image' | 'document';
+  unused?: boolean;
+}
+
+/**
+ * Fetches a page of the media library, newest first
+ *
+ * @param params - Pagination, search term, type and unused filters
+ * @returns Promise resolving to a paginated list of media
+ */
+export async function fetchMedia(params: MediaListParams = {}): Promise<PaginatedResponse<MediaAsset>> {
+  const searchParams = new URLSearchParams();
+
+  if (params.page !== undefined) searchParams.set('page', String(params.page));
+  if (params.pageSize !== undefined) searchParams.set('pageSize', String(params.pageSize));
+  if (params.q) searchParams.set('q', params.q);
+  if (params.type) searchParams.set('type', params.type);
+  if (params.unused !== undefined) searchParams.set('unused', String(params.unused));
+
+  const query = searchParams.toString();
+  const result = await adminRequest<PaginatedResponse<SerializedMediaAsset>>(
+    `admin/media${query ? `?${query}` : ''}`
+  );
+
+  return {
+    ...result,
+    data: result.data.map(toMediaAsset),
+  };
+}
+
+/**
+ * Updates the alt text of a media library entry
+ *
+ * @param mediaId - The Firestore document ID of the entry
+ * @param alt - New alt text (empty to clear)
+ * @returns Promise resolving to the updated entry
+ */
+export async function updateMediaAlt(mediaId: string, alt: string): Promise<MediaAsset> {
+  const result = await adminRequest<{ media: SerializedMediaAsset }>(
+    `admin/media/${encodeURIComponent(mediaId)}`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({ alt }),
+    }
+  );
+  return toMediaAsset(result.media);
+}
+
+/**
+ * Permanently deletes an unused media library entry and its files
+ * Fails while any project, including one in the trash, still uses it.
+ *
+ * @param mediaId - The Firestore document ID of the entry
+ */
+export async function deleteMedia(mediaId: string): Promise<void> {
+  await adminRequest<{ message: string }>(`admin/media/${encodeURIComponent(mediaId)}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Fetches what the scheduled Storage cleanup would move and delete if it ran
+ * now, without changing anything (owner role)
+ *
+ * @returns Promise resolving to the dry-run report
+ */
+export async function fetchStorageCleanupReport(): Promise<StorageCleanupReport> {
+  return adminRequest<StorageCleanupReport>('admin/media/cleanup');
+}
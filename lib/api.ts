@@ -0,0 +1,29 @@
+/**
+ * API URL Configuration
+ *
+ * Resolves URLs for the versioned HTTP API served by the `api` Cloud Function.
+ *
+ * NEXT_PUBLIC_API_URL points at the Functions host, e.g.
+ * - https://us-central1-<project-id>.cloudfunctions.net in production
+ * - http://localhost:5001/<project-id>/us-central1 for the emulator
+ *
+ * When it is not set, requests go to the same origin, where Firebase Hosting
+ * rewrites /api/v1/** to the function.
+ */
+
+const API_HOST = process.env.NEXT_PUBLIC_API_URL || '';
+
+/**
+ * Base URL of the v1 API, without a trailing slash
+ */
+export const API_BASE_URL = `${API_HOST.replace(/\/$/, '')}/api/v1`;
+
+/**
+ * Builds the full URL for an API path
+ *
+ * @param path - Path relative to /api/v1, e.g. `contact` or `admin/inquiries/abc`
+ * @returns Absolute (or same-origin) URL for the request
+ */
+export function apiUrl(path: string): string {
+  return `${API_BASE_URL}/${path.replace(/^\//, '')}`;
+}
@@ -2,13 +2,14 @@
  * Firestore Data Access Layer
  * 
  * This module provides typed functions for interacting with Firestore collections.
- * It handles data fetching, creation, and type conversions between Firestore
+ * It handles data fetching and type conversions between Firestore
  * documents and application types.
  * 
  * Key responsibilities:
  * - Query projects collection with filtering and ordering
+ * - Paginate project listings with opaque cursors
+ * - Resolve projects by ID, current slug or previous slug
  * - Fetch profile information
- * - Create inquiry records
  * - Convert Firestore Timestamps to JavaScript Dates
  */
 
@@ -20,12 +21,46 @@ import {
   getDocs,
   getDoc,
   doc,
-  addDoc,
   Timestamp,
-  serverTimestamp,
+  limit,
+  startAfter,
+  documentId,
+  getCountFromServer,
+  QueryConstraint,
+  DocumentData,
 } from 'firebase/firestore';
 import { db } from './firebase';
-import type { Project, Profile, ContactFormData } from '../types';
+import { normalizeGalleryImages } from './images';
+import type {
+  Project,
+  Profile,
+  PaginatedResponse,
+  ProjectQueryOptions,
+  ProjectSort,
+} from '../types';
+
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Firestore ordering for each project sort
+ * Every combination of filters and sort has an index in firestore.indexes.json
+ */
+const PROJECT_SORTS: Record<ProjectSort, { field: string; direction: 'asc' | 'desc' }> = {
+  order: { field: 'order', direction: 'asc' },
+  createdAt: { field: 'createdAt', direction: 'desc' },
+  title: { field: 'title', direction: 'asc' },
+};
+
+/**
+ * Decoded pagination cursor, matching the format issued by GET /api/v1/projects
+ */
+interface ProjectCursor {
+  sort: ProjectSort;
+  page: number;
+  value: string | number;
+  id: string;
+}
 
 /**
  * Checks if Firebase is properly configured
@@ -54,11 +89,76 @@ function convertTimestamp(timestamp: any): Date {
   return new Date(timestamp);
 }
 
+/**
+ * Maps a project document's data to a Project
+ */
+function toProject(id: string, data: DocumentData): Project {
+  return {
+    id,
+    title: data.title,
+    slug: data.slug || id,
+    description: data.description,
+    fullDescription: data.fullDescription,
+    thumbnail: data.thumbnail,
+    images: normalizeGalleryImages(data.images),
+    imageMetadata: data.imageMetadata || [],
+    technologies: data.technologies || [],
+    category: data.category,
+    liveUrl: data.liveUrl,
+    githubUrl: data.githubUrl,
+    featured: data.featured || false,
+    published: data.published,
+    order: data.order || 0,
+    createdAt: convertTimestamp(data.createdAt),
+    updatedAt: convertTimestamp(data.updatedAt),
+  } as Project;
+}
+
+/**
+ * Encodes a cursor as URL-safe base64 JSON
+ * Works in the browser and in Node, and handles non-Latin-1 titles
+ */
+function encodeCursor(cursor: ProjectCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor, returning null if it is malformed or was issued for another sort
+ */
+function decodeCursor(encoded: string, sort: ProjectSort): ProjectCursor | null {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    const cursor = JSON.parse(new TextDecoder().decode(bytes));
+    const valueType = sort === 'title' ? 'string' : 'number';
+
+    if (
+      cursor?.sort !== sort ||
+      !Number.isInteger(cursor.page) ||
+      cursor.page < 1 ||
+      typeof cursor.value !== valueType ||
+      typeof cursor.id !== 'string'
+    ) {
+      return null;
+    }
+
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Fetches all published projects from Firestore
  * 
  * Queries the projects collection filtering for published=true
- * and orders results by creation date (newest first).
+ * (leaving out projects in the trash) and orders results by the admin-controlled `order` field, with
+ * newer projects first when two share the same position.
  * 
  * @returns Promise resolving to array of published Project objects
  * @throws Error if Firestore query fails
@@ -73,31 +173,14 @@ export async function fetchAllProjects(): Promise<Project[]> {
     const q = query(
       projectsRef,
       where('published', '==', true),
+      where('deletedAt', '==', null),
+      orderBy('order', 'asc'),
       orderBy('createdAt', 'desc')
     );
 
     const querySnapshot = await getDocs(q);
     
-    const projects: Project[] = querySnapshot.docs.map((doc) => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        title: data.title,
-        description: data.description,
-        fullDescription: data.fullDescription,
-        thumbnail: data.thumbnail,
-        images: data.images || [],
-        technologies: data.technologies || [],
-        category: data.category,
-        liveUrl: data.liveUrl,
-        githubUrl: data.githubUrl,
-        featured: data.featured || false,
-        published: data.published,
-        order: data.order || 0,
-        createdAt: convertTimestamp(data.createdAt),
-        updatedAt: convertTimestamp(data.updatedAt),
-      } as Project;
-    });
+    const projects: Project[] = querySnapshot.docs.map((doc) => toProject(doc.id, doc.data()));
 
     return projects;
   } catch (error) {
@@ -107,52 +190,149 @@ export async function fetchAllProjects(): Promise<Project[]> {
 }
 
 /**
- * Fetches a single project by its document ID
+ * Fetches one page of published projects with optional filters and sort
  * 
- * Retrieves a specific project from Firestore. Returns null if the
- * project doesn't exist or is not published.
- * 
- * @param projectId - The Firestore document ID of the project
- * @returns Promise resolving to Project object or null if not found
- * @throws Error if Firestore query fails
+ * Mirrors GET /api/v1/projects: results are filtered by category,
+ * technology and featured flag, sorted by display order, creation date or
+ * title, and paginated with an opaque cursor returned as `nextCursor`.
  * 
- * Requirements: 2.3, 6.2
+ * @param options - Page size, cursor, filters and sort (default: order)
+ * @returns Promise resolving to a page of published projects
+ * @throws Error if the cursor is invalid or the Firestore query fails
  */
-export async function fetchProjectById(projectId: string): Promise<Project | null> {
+export async function fetchProjects(
+  options: ProjectQueryOptions = {}
+): Promise<PaginatedResponse<Project>> {
+  const sort = options.sort ?? 'order';
+  const pageSize = Math.min(Math.max(options.pageSize ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const cursor = options.cursor ? decodeCursor(options.cursor, sort) : undefined;
+
+  if (cursor === null) {
+    throw new Error('Invalid cursor');
+  }
+
   try {
     checkFirebaseConfig();
-    
-    const projectRef = doc(db, 'projects', projectId);
-    const projectDoc = await getDoc(projectRef);
 
-    if (!projectDoc.exists()) {
-      return null;
+    // Equality and array-contains filters precede the orderBy (see firestore.indexes.json)
+    const filters: QueryConstraint[] = [
+      where('published', '==', true),
+      where('deletedAt', '==', null),
+    ];
+
+    if (options.category) {
+      filters.push(where('category', '==', options.category));
+    }
+    if (options.technology) {
+      filters.push(where('technologies', 'array-contains', options.technology));
+    }
+    if (options.featured !== undefined) {
+      filters.push(where('featured', '==', options.featured));
     }
 
-    const data = projectDoc.data();
-    
-    // Return null if project is not published
-    if (!data.published) {
-      return null;
+    const projectsRef = collection(db, 'projects');
+    const countSnapshot = await getCountFromServer(query(projectsRef, ...filters));
+    const total = countSnapshot.data().count;
+
+    // Document ID breaks ties so cursors stay stable when sort values repeat
+    const { field, direction } = PROJECT_SORTS[sort];
+    const constraints: QueryConstraint[] = [
+      ...filters,
+      orderBy(field, direction),
+      orderBy(documentId(), direction),
+    ];
+
+    if (cursor) {
+      const value =
+        sort === 'createdAt' ? Timestamp.fromMillis(cursor.value as number) : cursor.value;
+      constraints.push(startAfter(value, cursor.id));
+    }
+
+    // Fetch one extra document to learn whether another page exists
+    constraints.push(limit(pageSize + 1));
+
+    const querySnapshot = await getDocs(query(projectsRef, ...constraints));
+    const docs = querySnapshot.docs.slice(0, pageSize);
+    const hasMore = querySnapshot.docs.length > pageSize;
+    const page = cursor ? cursor.page + 1 : 1;
+
+    let nextCursor: string | null = null;
+    if (hasMore) {
+      const last = docs[docs.length - 1];
+      const raw = last.get(field);
+      nextCursor = encodeCursor({
+        sort,
+        page,
+        value: raw instanceof Timestamp ? raw.toMillis() : raw,
+        id: last.id,
+      });
     }
 
     return {
-      id: projectDoc.id,
-      title: data.title,
-      description: data.description,
-      fullDescription: data.fullDescription,
-      thumbnail: data.thumbnail,
-      images: data.images || [],
-      technologies: data.technologies || [],
-      category: data.category,
-      liveUrl: data.liveUrl,
-      githubUrl: data.githubUrl,
-      featured: data.featured || false,
-      published: data.published,
-      order: data.order || 0,
-      createdAt: convertTimestamp(data.createdAt),
-      updatedAt: convertTimestamp(data.updatedAt),
-    } as Project;
+      data: docs.map(doc => toProject(doc.id, doc.data())),
+      total,
+      page,
+      pageSize,
+      hasMore,
+      nextCursor,
+    };
+  } catch (error) {
+    console.error('Error fetching projects page:', error);
+    throw new Error('Failed to fetch projects');
+  }
+}
+
+/**
+ * Finds the first published, non-trashed project whose document ID, slug or
+ * previous slug matches the value
+ *
+ * The published and trash filters are part of the query so the security
+ * rules allow it for anonymous readers; reading a document by ID is denied
+ * to them when it does not exist or is a draft.
+ */
+async function findPublishedProject(
+  field: 'id' | 'slug' | 'slugHistory',
+  value: string
+): Promise<Project | null> {
+  const match =
+    field === 'id'
+      ? where(documentId(), '==', value)
+      : where(field, field === 'slugHistory' ? 'array-contains' : '==', value);
+  const q = query(
+    collection(db, 'projects'),
+    where('published', '==', true),
+    where('deletedAt', '==', null),
+    match,
+    limit(1)
+  );
+  const snapshot = await getDocs(q);
+
+  return snapshot.empty ? null : toProject(snapshot.docs[0].id, snapshot.docs[0].data());
+}
+
+/**
+ * Fetches a single project by its document ID or slug
+ * 
+ * Looks the project up by document ID, then by current slug, then by
+ * previous slugs so renamed projects can still be found. Callers compare
+ * the returned `slug` with the one requested to decide whether to redirect.
+ * Returns null if the project doesn't exist, is not published or is in the trash.
+ * 
+ * @param idOrSlug - The Firestore document ID or a current or previous slug
+ * @returns Promise resolving to Project object or null if not found
+ * @throws Error if Firestore query fails
+ * 
+ * Requirements: 2.3, 6.2
+ */
+export async function fetchProjectById(idOrSlug: string): Promise<Project | null> {
+  try {
+    checkFirebaseConfig();
+
+    return (
+      (await findPublishedProject('id', idOrSlug)) ??
+      (await findPublishedProject('slug', idOrSlug)) ??
+      (await findPublishedProject('slugHistory', idOrSlug))
+    );
   } catch (error) {
     console.error('Error fetching project by ID:', error);
     throw new Error('Failed to fetch project');
@@ -203,45 +383,3 @@ export async function fetchProfile(): Promise<Profile> {
     throw new Error('Failed to fetch profile');
   }
 }
-
-/**
- * Creates a new inquiry in the Firestore inquiries collection
- * 
- * Stores contact form submissions with timestamp and metadata.
- * The inquiry is marked as unread and unreplied by default.
- * 
- * @param formData - Contact form data (name, email, subject, message)
- * @param ip - Client IP address for rate limiting
- * @returns Promise resolving to the created inquiry's document ID
- * @throws Error if document creation fails
- * 
- * Requirements: 4.2, 4.8
- */
-export async function createInquiry(
-  formData: ContactFormData,
-  ip: string
-): Promise<string> {
-  try {
-    checkFirebaseConfig();
-    
-    const inquiriesRef = collection(db, 'inquiries');
-    
-    const inquiryData = {
-      name: formData.name,
-      email: formData.email,
-      subject: formData.subject,
-      message: formData.message,
-      timestamp: serverTimestamp(),
-      ip: ip,
-      read: false,
-      replied: false,
-    };
-
-    const docRef = await addDoc(inquiriesRef, inquiryData);
-    
-    return docRef.id;
-  } catch (error) {
-    console.error('Error creating inquiry:', error);
-    throw new Error('Failed to create inquiry');
-  }
-}
@@ -7,9 +7,11 @@
  * Key exports:
  * - useCachedProjects: Fetch and cache projects with SWR
  * - useProfile: Fetch and cache profile data with SWR
- * - useAuth: Manage Firebase Authentication state
+ * - useAuth: Manage Firebase Authentication state and the admin role
+ * - useAdminRole: Read the signed-in admin's role inside AdminLayout
  */
 
 export { useCachedProjects } from './useCachedProjects';
 export { useProfile } from './useProfile';
 export { useAuth } from './useAuth';
+export { useAdminRole, AdminRoleContext } from './useAdminRole';
@@ -0,0 +1,49 @@
+/**
+ * Custom hook for the signed-in admin's role
+ *
+ * AdminLayout provides the role of the signed-in user to everything it
+ * renders, so admin components can hide actions the user may not take. The
+ * API and security rules enforce the same roles; hiding an action is only a
+ * convenience.
+ *
+ * Requirements: 11.4
+ */
+
+import { createContext, useContext } from 'react';
+import { hasRole } from '../roles';
+import type { AdminRole } from '../../types';
+
+/**
+ * Role of the signed-in admin, provided by AdminLayout
+ */
+export const AdminRoleContext = createContext<AdminRole | null>(null);
+
+/**
+ * Hook return type
+ */
+interface UseAdminRoleReturn {
+  role: AdminRole | null;
+  can: (minimum: AdminRole) => boolean;
+}
+
+/**
+ * Reads the signed-in admin's role
+ *
+ * @returns Object containing:
+ *   - role: The user's role (null outside AdminLayout or without a role)
+ *   - can: Function checking whether the role is at least the given one
+ *
+ * @example
+ * ```tsx
+ * const { can } = useAdminRole();
+ * return can('editor') ? <button onClick={handleDelete}>Delete</button> : null;
+ * ```
+ */
+export function useAdminRole(): UseAdminRoleReturn {
+  const role = useContext(AdminRoleContext);
+
+  return {
+    role,
+    can: (minimum: AdminRole) => hasRole(role, minimum),
+  };
+}
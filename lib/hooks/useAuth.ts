@@ -10,6 +10,7 @@
  * - Login/logout functions with error handling
  * - Automatic token refresh
  * - Loading state management during auth operations
+ * - Admin role from the ID token's `role` custom claim
  * 
  * Requirements: 11.4
  */
@@ -22,12 +23,15 @@ import {
   User,
 } from 'firebase/auth';
 import { auth } from '../firebase';
+import { toAdminRole } from '../roles';
+import type { AdminRole } from '../../types';
 
 /**
  * Authentication state interface
  */
 interface AuthState {
   user: User | null;
+  role: AdminRole | null;
   loading: boolean;
   error: string | null;
 }
@@ -52,6 +56,7 @@ interface UseAuthReturn extends AuthState {
  * 
  * @returns Object containing:
  *   - user: Current authenticated user (null if not authenticated)
+ *   - role: The user's admin role (null if signed out or without a role)
  *   - loading: Boolean indicating if auth state is being determined
  *   - error: Error message from login/logout operations (null if no error)
  *   - login: Function to authenticate with email/password
@@ -87,6 +92,7 @@ interface UseAuthReturn extends AuthState {
 export function useAuth(): UseAuthReturn {
   const [authState, setAuthState] = useState<AuthState>({
     user: null,
+    role: null,
     loading: true,
     error: null,
   });
@@ -95,9 +101,21 @@ export function useAuth(): UseAuthReturn {
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(
       auth,
-      (user) => {
+      async (user) => {
+        let role: AdminRole | null = null;
+
+        if (user) {
+          try {
+            const tokenResult = await user.getIdTokenResult();
+            role = toAdminRole(tokenResult.claims.role);
+          } catch (error) {
+            console.error('Error reading admin role:', error);
+          }
+        }
+
         setAuthState({
           user,
+          role,
           loading: false,
           error: null,
         });
@@ -106,6 +124,7 @@ export function useAuth(): UseAuthReturn {
         console.error('Auth state change error:', error);
         setAuthState({
           user: null,
+          role: null,
           loading: false,
           error: error.message,
         });
@@ -200,6 +219,7 @@ export function useAuth(): UseAuthReturn {
 
   return {
     user: authState.user,
+    role: authState.role,
     loading: authState.loading,
     error: authState.error,
     login,
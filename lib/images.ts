@@ -0,0 +1,98 @@
+/**
+ * Project Images
+ *
+ * Helpers for rendering project thumbnails and gallery images with
+ * next/image. Images in Firebase Storage go through the Next.js image
+ * optimizer, which serves resized AVIF/WebP copies through a srcset; any
+ * other URL is shown as is. Uploaded images also carry metadata (size,
+ * dominant colour, blurred placeholder) on the project, matched by URL.
+ */
+
+import type { GalleryImage, ImageMetadata, MediaAsset, Project } from '../types';
+
+/**
+ * Hosts allowed in next.config.js `images.remotePatterns`
+ */
+export const STORAGE_IMAGE_HOSTS = ['storage.googleapis.com', 'firebasestorage.googleapis.com'];
+
+/**
+ * Checks whether the Next.js image optimizer will accept a URL
+ *
+ * @param url - Image URL
+ */
+export function isOptimizableImage(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' && STORAGE_IMAGE_HOSTS.includes(hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a project's stored `images` field as gallery entries
+ * Older projects store plain URLs, read as entries without alt text or
+ * caption. Entries are sorted by `order` and numbered from 0, as the admin
+ * API stores them (see functions/src/utils/galleryImages.ts).
+ *
+ * @param value - Stored `images` field
+ * @returns Gallery entries in display order
+ */
+export function normalizeGalleryImages(value: unknown): GalleryImage[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .map((entry: any, index): GalleryImage | null => {
+      if (typeof entry === 'string') {
+        return { url: entry, alt: '', caption: '', order: index };
+      }
+      if (entry && typeof entry === 'object' && typeof entry.url === 'string') {
+        return {
+          url: entry.url,
+          alt: typeof entry.alt === 'string' ? entry.alt : '',
+          caption: typeof entry.caption === 'string' ? entry.caption : '',
+          order: Number.isInteger(entry.order) ? entry.order : index,
+        };
+      }
+      return null;
+    })
+    .filter((image): image is GalleryImage => image !== null && image.url.length > 0)
+    .map((image, index) => ({ image, index }))
+    .sort((a, b) => a.image.order - b.image.order || a.index - b.index)
+    .map(({ image }, order) => ({ ...image, order }));
+}
+
+/**
+ * Finds the stored metadata of one of a project's images
+ *
+ * @param project - Project holding the image
+ * @param url - Thumbnail or gallery image URL
+ * @returns The metadata, or undefined for images uploaded without it
+ */
+export function findImageMetadata(
+  project: Pick<Project, 'imageMetadata'>,
+  url: string
+): ImageMetadata | undefined {
+  return project.imageMetadata?.find(entry => entry.url === url);
+}
+
+/**
+ * Image metadata of a media library entry, when its upload recorded all of it
+ *
+ * @param asset - Media library entry
+ * @returns The metadata to store on a project that uses the image
+ */
+export function mediaImageMetadata(asset: MediaAsset): ImageMetadata | undefined {
+  if (asset.width === null || asset.height === null || asset.color === null || asset.placeholder === null) {
+    return undefined;
+  }
+  return {
+    url: asset.url,
+    width: asset.width,
+    height: asset.height,
+    color: asset.color,
+    placeholder: asset.placeholder,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Draft Preview
+ *
+ * Server-side helpers for rendering unpublished projects on their public
+ * detail page. Admins create preview links from the project list; a link is
+ * /projects/<id>?preview=<token>, where the token is signed and expires
+ * (see functions/src/utils/previewToken.ts).
+ *
+ * Drafts are not readable through the Firestore client SDK, so previews are
+ * loaded from the public API, which verifies the token before returning the
+ * project. Only call these helpers from server components.
+ *
+ * The API is reached at NEXT_PUBLIC_API_URL, or on the site itself at the
+ * server-only SITE_URL. The request's Host headers are never used: they can
+ * be forged to make the server fetch, and render, another host's response.
+ * With neither set, previews are refused.
+ *
+ * Dependencies:
+ * - ./api for API URLs
+ */
+
+import { apiUrl } from './api';
+import type { Project } from '../types';
+
+/**
+ * Project shape returned by the API (dates serialized as ISO strings)
+ */
+type SerializedProject = Omit<Project, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Builds an absolute API URL from configuration only
+ * Same-origin API URLs, which fetch cannot use on the server, are resolved
+ * against SITE_URL.
+ *
+ * @returns The URL, or null if neither NEXT_PUBLIC_API_URL nor SITE_URL is set
+ */
+function serverApiUrl(path: string): URL | null {
+  const url = apiUrl(path);
+
+  if (/^https?:\/\//.test(url)) {
+    return new URL(url);
+  }
+  return process.env.SITE_URL ? new URL(url, process.env.SITE_URL) : null;
+}
+
+/**
+ * Fetches a project, published or not, using a preview token
+ *
+ * @param projectId - Document ID the preview link was created for
+ * @param token - Token from the `preview` query parameter
+ * @returns Promise resolving to the project, or null if the token is
+ *   invalid or expired, the project no longer exists or the API URL is not
+ *   configured
+ */
+export async function fetchProjectPreview(projectId: string, token: string): Promise<Project | null> {
+  const url = serverApiUrl(`projects/${encodeURIComponent(projectId)}`);
+
+  if (!url) {
+    console.error('Draft previews need NEXT_PUBLIC_API_URL or SITE_URL to be set');
+    return null;
+  }
+  url.searchParams.set('preview', token);
+
+  // Never cached: the token may expire or the draft may change at any time
+  const response = await fetch(url, { cache: 'no-store' });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const { project } = (await response.json()) as { project: SerializedProject };
+
+  return {
+    ...project,
+    createdAt: new Date(project.createdAt),
+    updatedAt: new Date(project.updatedAt),
+  };
+}
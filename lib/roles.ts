@@ -0,0 +1,39 @@
+/**
+ * Admin Roles
+ *
+ * Helpers for the admin role stored in the `role` custom claim of a user's
+ * Firebase ID token (set by scripts/create-admin-user.js). The admin API and
+ * the Firestore/Storage rules enforce roles; the admin UI uses these helpers
+ * to hide actions a user is not allowed to take.
+ *
+ * Dependencies:
+ * - Shared types from the types module
+ */
+
+import type { AdminRole } from '../types';
+
+/**
+ * Admin roles, ordered from least to most privileged
+ * (ROLES in functions/src/middleware/auth.ts)
+ */
+export const ADMIN_ROLES: readonly AdminRole[] = ['viewer', 'editor', 'owner'];
+
+/**
+ * Reads an admin role from a custom claim value
+ *
+ * @param claim - Value of the `role` claim, if any
+ * @returns The role, or null when the claim is missing or unrecognised
+ */
+export function toAdminRole(claim: unknown): AdminRole | null {
+  return ADMIN_ROLES.includes(claim as AdminRole) ? (claim as AdminRole) : null;
+}
+
+/**
+ * Whether a role grants at least the access of another
+ *
+ * @param role - The user's role (null for users without one)
+ * @param minimum - Least privileged role required
+ */
+export function hasRole(role: AdminRole | null, minimum: AdminRole): boolean {
+  return role !== null && ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(minimum);
+}
@@ -2,23 +2,62 @@
  * Validation Utilities
  * 
  * This module provides validation functions for user input data.
- * It includes email format validation, form field validation, and
- * rate limiting checks for contact form submissions.
+ * It includes email format validation and form field validation for
+ * contact form submissions. Rate limiting is enforced by the API (see
+ * functions/src/middleware/rateLimit.ts).
  * 
  * Key responsibilities:
  * - Validate email addresses using regex patterns
- * - Validate required form fields (name, email, subject, message)
- * - Check rate limiting for inquiry submissions
+ * - Validate required form fields (name, email, subject, message, type)
+ * - Validate the optional company, budget and timeline details
  * - Return structured validation error objects
  * 
+ * The inquiry types and their detail fields mirror
+ * functions/src/utils/inquiryTypes.ts, which the API validates against.
+ * 
  * Dependencies:
- * - Firestore for rate limiting queries
- * - ContactFormData type from types module
+ * - ContactFormData and inquiry types from types module
+ */
+
+import type { ContactFormData, InquiryDetailField, InquiryType } from '../types';
+
+/**
+ * Inquiry types in the order they are offered
  */
+export const INQUIRY_TYPES: InquiryType[] = ['job', 'freelance', 'speaking', 'other'];
 
-import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
-import { db } from './firebase';
-import type { ContactFormData } from '../types';
+export const INQUIRY_TYPE_LABELS: Record<InquiryType, string> = {
+  job: 'Job opportunity',
+  freelance: 'Freelance project',
+  speaking: 'Speaking engagement',
+  other: 'Other',
+};
+
+/**
+ * Optional detail fields shown for each inquiry type
+ */
+export const INQUIRY_TYPE_FIELDS: Record<InquiryType, InquiryDetailField[]> = {
+  job: ['company', 'timeline'],
+  freelance: ['company', 'budget', 'timeline'],
+  speaking: ['company', 'budget', 'timeline'],
+  other: [],
+};
+
+/**
+ * Maximum lengths of the optional detail fields
+ */
+export const INQUIRY_DETAIL_MAX_LENGTHS: Record<InquiryDetailField, number> = {
+  company: 100,
+  budget: 50,
+  timeline: 100,
+};
+
+/**
+ * Checks whether a value is one of INQUIRY_TYPES
+ */
+export function isInquiryType(value: unknown): value is InquiryType {
+  return (INQUIRY_TYPES as unknown[]).includes(value);
+}
 
 /**
  * Validates email address format using regex
@@ -50,6 +89,10 @@ export interface ValidationErrors {
   email?: string;
   subject?: string;
   message?: string;
+  type?: string;
+  company?: string;
+  budget?: string;
+  timeline?: string;
 }
 
 /**
@@ -64,6 +107,9 @@ export interface ValidationErrors {
  * - Email: Required, must match valid email format
  * - Subject: Required, non-empty after trimming
  * - Message: Required, non-empty after trimming
+ * - Type: Required, one of INQUIRY_TYPES
+ * - Company, budget, timeline: Optional, within INQUIRY_DETAIL_MAX_LENGTHS;
+ *   ignored for types that do not ask for them
  * 
  * @param formData - Contact form data to validate
  * @returns Object with field-specific error messages, empty object if all valid
@@ -95,6 +141,19 @@ export function validateContactForm(formData: ContactFormData): ValidationErrors
     errors.message = 'Please enter a message';
   }
 
+  // Validate inquiry type and the details it asks for
+  if (!isInquiryType(formData.type)) {
+    errors.type = 'Please choose what your inquiry is about';
+  } else {
+    INQUIRY_TYPE_FIELDS[formData.type].forEach(field => {
+      const value = formData[field];
+      const maxLength = INQUIRY_DETAIL_MAX_LENGTHS[field];
+      if (value && value.trim().length > maxLength) {
+        errors[field] = `Please use at most ${maxLength} characters`;
+      }
+    });
+  }
+
   return errors;
 }
 
@@ -107,58 +166,3 @@ export function validateContactForm(formData: ContactFormData): ValidationErrors
 export function hasValidationErrors(errors: ValidationErrors): boolean {
   return Object.keys(errors).length > 0;
 }
-
-/**
- * Checks rate limiting for inquiry submissions by IP address
- * 
- * Queries Firestore to count recent submissions from the given IP address
- * within the last hour. This prevents spam by limiting submissions to 3
- * per hour per IP address.
- * 
- * Implementation note: Uses Firestore query with timestamp filter to count
- * recent submissions. This approach stays within free-tier limits while
- * providing effective rate limiting.
- * 
- * @param ip - Client IP address to check
- * @returns Promise resolving to count of recent submissions (last hour)
- * @throws Error if Firestore query fails
- * 
- * Requirements: 4.7
- */
-export async function checkRateLimit(ip: string): Promise<number> {
-  try {
-    // Calculate timestamp for one hour ago
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    const oneHourAgoTimestamp = Timestamp.fromDate(oneHourAgo);
-
-    // Query inquiries from this IP in the last hour
-    const inquiriesRef = collection(db, 'inquiries');
-    const q = query(
-      inquiriesRef,
-      where('ip', '==', ip),
-      where('timestamp', '>', oneHourAgoTimestamp)
-    );
-
-    const querySnapshot = await getDocs(q);
-    
-    return querySnapshot.size;
-  } catch (error) {
-    console.error('Error checking rate limit:', error);
-    throw new Error('Failed to check rate limit');
-  }
-}
-
-/**
- * Checks if an IP address has exceeded the rate limit
- * 
- * Rate limit: Maximum 3 submissions per hour per IP address
- * 
- * @param ip - Client IP address to check
- * @returns Promise resolving to true if rate limit exceeded, false otherwise
- * 
- * Requirements: 4.7
- */
-export async function isRateLimitExceeded(ip: string): Promise<boolean> {
-  const recentSubmissions = await checkRateLimit(ip);
-  return recentSubmissions >= 3;
-}
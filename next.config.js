@@ -6,7 +6,8 @@
  * Key configurations:
  * - React Strict Mode for development warnings
  * - Standalone output mode for optimized Docker builds
- * - Next.js Image Optimization enabled (Cloud Run handles optimization)
+ * - Next.js Image Optimization enabled (Cloud Run handles optimization) for
+ *   project images in Firebase Storage, served as AVIF or WebP
  * - Cache headers for static assets
  * - Trailing slash enabled for Firebase Hosting compatibility
  * 
@@ -14,13 +15,34 @@
  * and don't require external domain configuration.
  */
 
+/**
+ * Firebase Storage hosts: storage.googleapis.com for images uploaded through
+ * the admin API, firebasestorage.googleapis.com for SDK download URLs.
+ * Mirrored in lib/images.ts, which serves other hosts unoptimized.
+ */
+const STORAGE_IMAGE_HOSTS = ['storage.googleapis.com', 'firebasestorage.googleapis.com'];
+
+/**
+ * Limits optimization to the project's own bucket when it is known at build time
+ */
+const storageBucket = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+const storagePathnames = {
+  'storage.googleapis.com': storageBucket ? `/${storageBucket}/**` : '/**',
+  'firebasestorage.googleapis.com': storageBucket ? `/v0/b/${storageBucket}/o/**` : '/**',
+};
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
   output: 'standalone', // Optimized for Docker deployment
   images: {
     // Next.js Image Optimization enabled for Cloud Run
-    domains: [], // Add external image domains if needed
+    formats: ['image/avif', 'image/webp'],
+    remotePatterns: STORAGE_IMAGE_HOSTS.map((hostname) => ({
+      protocol: 'https',
+      hostname,
+      pathname: storagePathnames[hostname],
+    })),
   },
   trailingSlash: true, // Maintain Firebase Hosting compatibility
   async headers() {
@@ -68,9 +68,24 @@ The project follows a modern JAMstack architecture with Next.js handling the fro
 • Modular code structure for maintainability`,
   thumbnail: 'https://images.unsplash.com/photo-1460925895917-afdab827c52f?w=800&h=600&fit=crop',
   images: [
-    'https://images.unsplash.com/photo-1460925895917-afdab827c52f?w=1200&h=800&fit=crop',
-    'https://images.unsplash.com/photo-1498050108023-c5249f4df085?w=1200&h=800&fit=crop',
-    'https://images.unsplash.com/photo-1547658719-da2b51169166?w=1200&h=800&fit=crop'
+    {
+      url: 'https://images.unsplash.com/photo-1460925895917-afdab827c52f?w=1200&h=800&fit=crop',
+      alt: 'Laptop showing analytics charts',
+      caption: '',
+      order: 0
+    },
+    {
+      url: 'https://images.unsplash.com/photo-1498050108023-c5249f4df085?w=1200&h=800&fit=crop',
+      alt: 'Laptop showing source code',
+      caption: '',
+      order: 1
+    },
+    {
+      url: 'https://images.unsplash.com/photo-1547658719-da2b51169166?w=1200&h=800&fit=crop',
+      alt: 'Web development workspace',
+      caption: '',
+      order: 2
+    }
   ],
   technologies: [
     'Next.js 14',
@@ -96,6 +111,7 @@ The project follows a modern JAMstack architecture with Next.js handling the fro
   featured: true,
   published: true,
   order: 0,
+  deletedAt: null,
   createdAt: admin.firestore.FieldValue.serverTimestamp(),
   updatedAt: admin.firestore.FieldValue.serverTimestamp()
 };
@@ -0,0 +1,79 @@
+/**
+ * Soft Delete Backfill Script
+ *
+ * Public and admin queries only return documents with `deletedAt == null`,
+ * and Firestore equality filters never match documents missing the field.
+ * This script sets `deletedAt: null` on every project and inquiry created
+ * before soft delete existed so they stay visible.
+ *
+ * Safe to run more than once: documents that already have the field
+ * (including trashed ones) are left untouched.
+ *
+ * Usage:
+ *   node scripts/backfill-deleted-at.js
+ *
+ * Note: Requires serviceAccountKey.json in project root
+ */
+
+const admin = require('../functions/node_modules/firebase-admin');
+
+// Initialize Firebase Admin SDK with service account
+if (!admin.apps.length) {
+  try {
+    const serviceAccount = require('../serviceAccountKey.json');
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount),
+    });
+    console.log('✓ Firebase Admin initialized with service account');
+  } catch (error) {
+    console.error('❌ Error loading service account key:', error.message);
+    console.error('Make sure serviceAccountKey.json exists in project root');
+    process.exit(1);
+  }
+}
+
+const db = admin.firestore();
+
+/**
+ * Firestore allows at most 500 writes in a single batch
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * Adds `deletedAt: null` to every document in a collection that lacks it
+ */
+async function backfillCollection(name) {
+  console.log(`Backfilling ${name}...`);
+
+  const snapshot = await db.collection(name).get();
+  const missing = snapshot.docs.filter(doc => !Object.prototype.hasOwnProperty.call(doc.data(), 'deletedAt'));
+
+  for (let start = 0; start < missing.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+    missing.slice(start, start + BATCH_SIZE).forEach(doc => {
+      batch.update(doc.ref, { deletedAt: null });
+    });
+    await batch.commit();
+  }
+
+  console.log(`✓ ${missing.length} of ${snapshot.size} ${name} updated`);
+}
+
+/**
+ * Main backfill function
+ */
+async function backfill() {
+  try {
+    await backfillCollection('projects');
+    await backfillCollection('inquiries');
+
+    console.log('\n✓ Backfill completed successfully!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling deletedAt:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill script
+backfill();
@@ -0,0 +1,124 @@
+/**
+ * Backfill Image Metadata Script
+ *
+ * Projects now store, in `imageMetadata`, the dimensions, dominant colour
+ * and blurred placeholder of their thumbnail and gallery images, which the
+ * upload endpoint returns for new uploads. This script downloads the images
+ * of existing projects that have no metadata yet and computes it the same
+ * way as processImage in functions/src/utils/images.ts.
+ *
+ * Safe to run more than once: images that already have metadata are
+ * skipped, and images that cannot be downloaded or decoded are reported and
+ * left without it (they still render, just without a placeholder).
+ *
+ * Usage:
+ *   node scripts/backfill-image-metadata.js
+ *
+ * Note: Requires serviceAccountKey.json in project root and Node 18+ (fetch)
+ */
+
+const admin = require('../functions/node_modules/firebase-admin');
+const sharp = require('../functions/node_modules/sharp');
+
+// Initialize Firebase Admin SDK with service account
+if (!admin.apps.length) {
+  try {
+    const serviceAccount = require('../serviceAccountKey.json');
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount),
+    });
+    console.log('✓ Firebase Admin initialized with service account');
+  } catch (error) {
+    console.error('❌ Error loading service account key:', error.message);
+    console.error('Make sure serviceAccountKey.json exists in project root');
+    process.exit(1);
+  }
+}
+
+const db = admin.firestore();
+
+/**
+ * Width of the blurred placeholder, as in functions/src/utils/images.ts
+ */
+const PLACEHOLDER_WIDTH = 16;
+
+/**
+ * Downloads an image and computes its metadata
+ */
+async function describeImage(url) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const source = sharp(Buffer.from(await response.arrayBuffer())).rotate();
+  const metadata = await source.metadata();
+  // Orientations 5-8 turn the image by 90 degrees, swapping width and height
+  const turned = (metadata.orientation || 1) >= 5;
+
+  const { dominant } = await source.clone().stats();
+  const placeholder = await source.clone()
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .blur()
+    .webp({ quality: 20 })
+    .toBuffer();
+
+  return {
+    url,
+    width: turned ? metadata.height : metadata.width,
+    height: turned ? metadata.width : metadata.height,
+    color: `#${[dominant.r, dominant.g, dominant.b].map(c => c.toString(16).padStart(2, '0')).join('')}`,
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+  };
+}
+
+/**
+ * Main backfill function
+ */
+async function backfill() {
+  try {
+    const snapshot = await db.collection('projects').get();
+    let updated = 0;
+    let failed = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const existing = data.imageMetadata || [];
+      const known = new Set(existing.map(entry => entry.url));
+      // Gallery entries, or plain URLs for projects saved before entries existed
+      const gallery = (data.images || []).map(image => (typeof image === 'string' ? image : image && image.url));
+      const missing = [data.thumbnail, ...gallery]
+        .filter(url => url && !known.has(url));
+
+      if (missing.length === 0) {
+        continue;
+      }
+
+      const added = [];
+      for (const url of new Set(missing)) {
+        try {
+          added.push(await describeImage(url));
+        } catch (error) {
+          failed++;
+          console.warn(`⚠️  ${doc.id}: could not read ${url} (${error.message})`);
+        }
+      }
+
+      if (added.length > 0) {
+        await doc.ref.update({ imageMetadata: [...existing, ...added] });
+        updated++;
+        console.log(`✓ ${doc.id}: ${added.length} image(s) described`);
+      }
+    }
+
+    console.log(`✓ ${updated} of ${snapshot.size} projects updated, ${failed} image(s) skipped`);
+    console.log('\n✓ Backfill completed successfully!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling image metadata:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill script
+backfill();
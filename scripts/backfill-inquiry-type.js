@@ -0,0 +1,70 @@
+/**
+ * Inquiry Type Backfill Script
+ *
+ * The admin inbox filters inquiries with `type == <type>`, and Firestore
+ * equality filters never match documents missing the field. This script
+ * sets `type: "other"` on every inquiry sent before the contact form asked
+ * for a type, so they show up under the "Other" filter.
+ *
+ * Safe to run more than once: inquiries that already have a type are left
+ * untouched.
+ *
+ * Usage:
+ *   node scripts/backfill-inquiry-type.js
+ *
+ * Note: Requires serviceAccountKey.json in project root
+ */
+
+const admin = require('../functions/node_modules/firebase-admin');
+
+// Initialize Firebase Admin SDK with service account
+if (!admin.apps.length) {
+  try {
+    const serviceAccount = require('../serviceAccountKey.json');
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount),
+    });
+    console.log('✓ Firebase Admin initialized with service account');
+  } catch (error) {
+    console.error('❌ Error loading service account key:', error.message);
+    console.error('Make sure serviceAccountKey.json exists in project root');
+    process.exit(1);
+  }
+}
+
+const db = admin.firestore();
+
+/**
+ * Firestore allows at most 500 writes in a single batch
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * Main backfill function
+ */
+async function backfill() {
+  try {
+    console.log('Backfilling inquiries...');
+
+    const snapshot = await db.collection('inquiries').get();
+    const missing = snapshot.docs.filter(doc => !doc.data().type);
+
+    for (let start = 0; start < missing.length; start += BATCH_SIZE) {
+      const batch = db.batch();
+      missing.slice(start, start + BATCH_SIZE).forEach(doc => {
+        batch.update(doc.ref, { type: 'other' });
+      });
+      await batch.commit();
+    }
+
+    console.log(`✓ ${missing.length} of ${snapshot.size} inquiries updated`);
+    console.log('\n✓ Backfill completed successfully!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error backfilling inquiry types:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backfill script
+backfill();
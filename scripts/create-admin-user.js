@@ -4,6 +4,15 @@
  * This script creates a test admin user for local development and testing.
  * It works with both Firebase Emulator and production Firebase.
  * 
+ * The user gets an admin role as the `role` custom claim, which the admin API
+ * and the Firestore/Storage rules check:
+ *   - owner:  full access, including the profile and deleting items forever
+ *   - editor: manage projects and inquiries, restore from the trash
+ *   - viewer: read-only access to the admin area
+ * Running the script again for an existing user updates their password and role.
+ * Signed-in users pick up a new role when their ID token refreshes (within an
+ * hour) or when they sign in again.
+ * 
  * Usage:
  *   node scripts/create-admin-user.js
  * 
@@ -11,8 +20,11 @@
  *   Email: admin@test.com
  *   Password: admin123456
  * 
+ *   Role: owner
+ * 
  * You can customize credentials by setting environment variables:
  *   ADMIN_EMAIL=your@email.com ADMIN_PASSWORD=yourpassword node scripts/create-admin-user.js
+ *   ADMIN_EMAIL=editor@email.com ADMIN_ROLE=editor node scripts/create-admin-user.js
  */
 
 const admin = require('../functions/node_modules/firebase-admin');
@@ -20,6 +32,15 @@ const admin = require('../functions/node_modules/firebase-admin');
 // Default admin credentials
 const ADMIN_EMAIL = process.env.ADMIN_EMAIL || 'admin@test.com';
 const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'admin123456';
+const ADMIN_ROLE = process.env.ADMIN_ROLE || 'owner';
+
+// Roles understood by the admin API (ROLES in functions/src/middleware/auth.ts)
+const ROLES = ['viewer', 'editor', 'owner'];
+
+if (!ROLES.includes(ADMIN_ROLE)) {
+  console.error(`❌ Error: ADMIN_ROLE must be one of: ${ROLES.join(', ')}`);
+  process.exit(1);
+}
 
 // Check if running with emulator
 const USE_EMULATOR = process.env.FIREBASE_AUTH_EMULATOR_HOST || process.env.USE_EMULATOR === 'true';
@@ -64,6 +85,7 @@ async function createAdminUser() {
     console.log('\n📝 Creating admin user...');
     console.log(`   Email: ${ADMIN_EMAIL}`);
     console.log(`   Password: ${ADMIN_PASSWORD}`);
+    console.log(`   Role: ${ADMIN_ROLE}`);
     
     // Check if user already exists
     let userExists = false;
@@ -77,12 +99,15 @@ async function createAdminUser() {
       }
     }
     
+    let uid;
+    
     if (userExists) {
       console.log('\n🔄 Updating existing user password...');
       const user = await admin.auth().getUserByEmail(ADMIN_EMAIL);
       await admin.auth().updateUser(user.uid, {
         password: ADMIN_PASSWORD,
       });
+      uid = user.uid;
       console.log('✅ Password updated successfully!');
     } else {
       // Create new user
@@ -93,13 +118,19 @@ async function createAdminUser() {
         disabled: false,
       });
       
+      uid = userRecord.uid;
       console.log('\n✅ Admin user created successfully!');
       console.log(`   UID: ${userRecord.uid}`);
     }
     
+    // Replaces any existing claims, so the role is the only one set
+    await admin.auth().setCustomUserClaims(uid, { role: ADMIN_ROLE });
+    console.log(`✅ Role set to ${ADMIN_ROLE}`);
+    
     console.log('\n🎉 You can now log in with these credentials:');
     console.log(`   Email: ${ADMIN_EMAIL}`);
     console.log(`   Password: ${ADMIN_PASSWORD}`);
+    console.log(`   Role: ${ADMIN_ROLE}`);
     console.log('\n📍 Login URL: http://localhost:3000/admin/login');
     
   } catch (error) {
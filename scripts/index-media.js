@@ -0,0 +1,179 @@
+/**
+ * Index Media Script
+ *
+ * The upload endpoint now indexes every upload in the `media` collection,
+ * which the admin Media Library browses. This script adds entries for the
+ * project images uploaded before that, under the `projects/` and `temp/`
+ * Storage folders, and fills in which projects use each of them.
+ *
+ * Uploads stored as variants (`<folder>/<timestamp>-<name>/<variant>.<format>`)
+ * become one entry for the whole folder, with the full-size WebP as its URL.
+ * Older single-file uploads (e.g. `projects/temp/thumbnail_<timestamp>.png`)
+ * become one entry each.
+ *
+ * Projects may link an image by its public URL or, for uploads made with
+ * the Firebase client SDK, by its download URL; both are matched by their
+ * Storage path, and an entry keeps the URL its projects use.
+ *
+ * Safe to run more than once: uploads that already have an entry are
+ * skipped. Dimensions, colour and placeholder are left empty for indexed
+ * files; run scripts/backfill-image-metadata.js for the projects using them.
+ *
+ * Usage:
+ *   node scripts/index-media.js
+ *
+ * Note: Requires serviceAccountKey.json in project root. Set STORAGE_BUCKET
+ * when the bucket is not <project-id>.appspot.com.
+ */
+
+const admin = require('../functions/node_modules/firebase-admin');
+
+// Initialize Firebase Admin SDK with service account
+if (!admin.apps.length) {
+  try {
+    const serviceAccount = require('../serviceAccountKey.json');
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount),
+      storageBucket: process.env.STORAGE_BUCKET || `${serviceAccount.project_id}.appspot.com`,
+    });
+    console.log('✓ Firebase Admin initialized with service account');
+  } catch (error) {
+    console.error('❌ Error loading service account key:', error.message);
+    console.error('Make sure serviceAccountKey.json exists in project root');
+    process.exit(1);
+  }
+}
+
+const db = admin.firestore();
+const bucket = admin.storage().bucket();
+
+/**
+ * Folders holding project uploads
+ */
+const FOLDERS = ['projects', 'temp'];
+
+/**
+ * Files of an upload stored as variants, as in functions/src/utils/images.ts
+ */
+const VARIANT_FILE = /^([a-z]+)\/(\d+-[a-z0-9-]+)\/(thumb|card|full)\.(webp|avif)$/;
+
+/**
+ * Storage path of a public or download URL of the bucket (null for other URLs)
+ */
+function storagePath(url) {
+  try {
+    const { hostname, pathname } = new URL(url);
+    if (hostname === 'storage.googleapis.com' && pathname.startsWith(`/${bucket.name}/`)) {
+      return decodeURIComponent(pathname.slice(bucket.name.length + 2));
+    }
+    if (hostname === 'firebasestorage.googleapis.com' && pathname.startsWith(`/v0/b/${bucket.name}/o/`)) {
+      return decodeURIComponent(pathname.slice(`/v0/b/${bucket.name}/o/`.length));
+    }
+  } catch {
+    // Not a URL
+  }
+  return null;
+}
+
+/**
+ * Groups Storage files into uploads keyed by their media `path`
+ */
+function groupUploads(files) {
+  const uploads = new Map();
+
+  for (const file of files) {
+    const match = file.name.match(VARIANT_FILE);
+    const path = match ? `${match[1]}/${match[2]}` : file.name;
+    const upload = uploads.get(path) || {
+      path,
+      folder: file.name.split('/')[0],
+      name: match ? match[2].replace(/^\d+-/, '') : file.name.split('/').pop(),
+      files: [],
+      size: 0,
+      contentType: file.metadata.contentType || 'application/octet-stream',
+      createdAt: new Date(file.metadata.timeCreated),
+    };
+
+    upload.files.push(file.name);
+    upload.size += Number(file.metadata.size) || 0;
+    uploads.set(path, upload);
+  }
+
+  return uploads;
+}
+
+/**
+ * Main indexing function
+ */
+async function indexMedia() {
+  try {
+    const publicUrl = (path) => `https://storage.googleapis.com/${bucket.name}/${path}`;
+
+    const files = (await Promise.all(
+      FOLDERS.map(folder => bucket.getFiles({ prefix: `${folder}/` }).then(([found]) => found))
+    )).flat();
+    const uploads = groupUploads(files);
+
+    const existing = await db.collection('media').get();
+    const indexed = new Set(existing.docs.map(doc => doc.get('path')));
+
+    // Which projects use each Storage file, and by which URL, including projects in the trash
+    const projects = await db.collection('projects').get();
+    const references = new Map();
+    const linkedUrls = new Map();
+    projects.docs.forEach(doc => {
+      const data = doc.data();
+      // Gallery entries, or plain URLs for projects saved before entries existed
+      const gallery = (data.images || []).map(image => (typeof image === 'string' ? image : image && image.url));
+      new Set([data.thumbnail, ...gallery]).forEach(url => {
+        const path = url && storagePath(url);
+        if (path) {
+          references.set(path, [...(references.get(path) || []), doc.id]);
+          linkedUrls.set(path, url);
+        }
+      });
+    });
+
+    let added = 0;
+    for (const upload of uploads.values()) {
+      if (indexed.has(upload.path)) {
+        continue;
+      }
+
+      const isVariants = upload.files.some(name => VARIANT_FILE.test(name));
+      const filePath = isVariants ? `${upload.path}/full.webp` : upload.path;
+      const url = linkedUrls.get(filePath) || publicUrl(filePath);
+      const usedBy = references.get(filePath) || [];
+
+      await db.collection('media').add({
+        path: upload.path,
+        folder: upload.folder,
+        files: upload.files.sort(),
+        url,
+        name: upload.name,
+        contentType: upload.contentType,
+        size: upload.size,
+        width: null,
+        height: null,
+        color: null,
+        placeholder: null,
+        alt: '',
+        references: usedBy,
+        createdAt: admin.firestore.Timestamp.fromDate(upload.createdAt),
+        createdBy: null,
+      });
+      added++;
+      console.log(`✓ ${upload.path}: ${upload.files.length} file(s), used by ${usedBy.length} project(s)`);
+    }
+
+    console.log(`✓ ${added} of ${uploads.size} uploads indexed`);
+    console.log('\n✓ Indexing completed successfully!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error indexing media:', error);
+    process.exit(1);
+  }
+}
+
+// Run the indexing script
+indexMedia();
@@ -0,0 +1,105 @@
+/**
+ * Inquiry Privacy Migration Script
+ *
+ * Inquiries used to store the sender's raw IP address in `ip`. This script
+ * replaces it with the salted hash in `ipHash` (or drops it when
+ * IP_HASH_SALT is unset), matching what the contact endpoint now stores.
+ * It also sets `anonymisedAt: null` on every inquiry, since the retention
+ * run only finds inquiries with that field (Firestore equality filters
+ * never match documents missing it).
+ *
+ * Safe to run more than once: inquiries without `ip` that already have
+ * `anonymisedAt` are left untouched.
+ *
+ * Usage:
+ *   IP_HASH_SALT=<same salt as functions/.env> node scripts/migrate-inquiry-privacy.js
+ *
+ * Note: Requires serviceAccountKey.json in project root
+ */
+
+const crypto = require('crypto');
+const admin = require('../functions/node_modules/firebase-admin');
+
+// Initialize Firebase Admin SDK with service account
+if (!admin.apps.length) {
+  try {
+    const serviceAccount = require('../serviceAccountKey.json');
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount),
+    });
+    console.log('✓ Firebase Admin initialized with service account');
+  } catch (error) {
+    console.error('❌ Error loading service account key:', error.message);
+    console.error('Make sure serviceAccountKey.json exists in project root');
+    process.exit(1);
+  }
+}
+
+const db = admin.firestore();
+
+/**
+ * Firestore allows at most 500 writes in a single batch
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * Hashes an IP like hashIp in functions/src/utils/privacy.ts
+ */
+function hashIp(ip) {
+  const salt = process.env.IP_HASH_SALT;
+  if (!salt || !ip || ip === 'unknown') {
+    return null;
+  }
+  return crypto.createHmac('sha256', salt).update(ip).digest('hex');
+}
+
+/**
+ * Builds the update for an inquiry, or null when it is already migrated
+ */
+function migrationUpdate(data) {
+  const update = {};
+
+  if (Object.prototype.hasOwnProperty.call(data, 'ip')) {
+    update.ip = admin.firestore.FieldValue.delete();
+    update.ipHash = hashIp(data.ip);
+  }
+  if (!Object.prototype.hasOwnProperty.call(data, 'anonymisedAt')) {
+    update.anonymisedAt = null;
+  }
+
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+/**
+ * Main migration function
+ */
+async function migrate() {
+  try {
+    if (!process.env.IP_HASH_SALT) {
+      console.warn('⚠️  IP_HASH_SALT is not set: stored IPs will be removed without keeping a hash');
+    }
+
+    const snapshot = await db.collection('inquiries').get();
+    const updates = snapshot.docs
+      .map(doc => ({ ref: doc.ref, update: migrationUpdate(doc.data()) }))
+      .filter(({ update }) => update !== null);
+
+    for (let start = 0; start < updates.length; start += BATCH_SIZE) {
+      const batch = db.batch();
+      updates.slice(start, start + BATCH_SIZE).forEach(({ ref, update }) => {
+        batch.update(ref, update);
+      });
+      await batch.commit();
+    }
+
+    console.log(`✓ ${updates.length} of ${snapshot.size} inquiries updated`);
+    console.log('\n✓ Migration completed successfully!');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error migrating inquiries:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration script
+migrate();
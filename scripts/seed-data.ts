@@ -76,6 +76,7 @@ async function seedProjects(projects: any[]): Promise<void> {
     const projectRef = db.collection('projects').doc();
     const projectWithTimestamps = {
       ...project,
+      deletedAt: null,
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     };
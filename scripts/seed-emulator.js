@@ -66,6 +66,7 @@ async function seedProjects(projects) {
     const projectRef = db.collection('projects').doc();
     const projectWithTimestamps = {
       ...project,
+      deletedAt: null,
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     };
@@ -138,6 +138,7 @@ async function updateTestProject(timestamp) {
     featured: false,
     published: true,
     order: 999,
+    deletedAt: null,
     createdAt: now,
     updatedAt: now,
     testTimestamp: timestamp,
@@ -64,8 +64,18 @@ function verifyFirestoreRules() {
       required: true
     },
     {
-      name: 'Projects write rule (auth required)',
-      test: () => rulesContent.match(/allow create, update, delete:.*request\.auth != null/),
+      name: 'Projects read rule (trash hidden)',
+      test: () => rulesContent.includes("resource.data.get('deletedAt', null) == null"),
+      required: true
+    },
+    {
+      name: 'Role helper defined (custom claim)',
+      test: () => rulesContent.includes('function hasRole(minimum)') && rulesContent.includes('request.auth.token.role'),
+      required: true
+    },
+    {
+      name: 'Projects write rule (admin API only)',
+      test: () => rulesContent.match(/projects\/\{projectId\}[\s\S]*?allow create, update, delete: if false/),
       required: true
     },
     {
@@ -74,13 +84,33 @@ function verifyFirestoreRules() {
       required: true
     },
     {
-      name: 'Inquiries read rule (auth required)',
-      test: () => rulesContent.match(/inquiries[\s\S]*?allow read:.*request\.auth != null/),
+      name: 'Inquiries read rule (viewer role required)',
+      test: () => rulesContent.match(/inquiries[\s\S]*?allow read:.*hasRole\('viewer'\)/),
+      required: true
+    },
+    {
+      name: 'Inquiries create rule (contact endpoint only)',
+      test: () => rulesContent.match(/inquiries\/\{inquiryId\}[\s\S]*?allow create: if false/),
+      required: true
+    },
+    {
+      name: 'Inquiries update/delete rule (admin API only)',
+      test: () => rulesContent.match(/inquiries\/\{inquiryId\}[\s\S]*?allow update, delete: if false/),
+      required: true
+    },
+    {
+      name: 'Inquiry messages rule (viewer read, admin API writes)',
+      test: () => rulesContent.match(/messages\/\{messageId\}[\s\S]*?allow read:.*hasRole\('viewer'\)[\s\S]*?allow write: if false/),
       required: true
     },
     {
-      name: 'Inquiries create rule (public)',
-      test: () => rulesContent.match(/inquiries[\s\S]*?allow create:.*true/),
+      name: 'Reply templates rule (viewer read, admin API writes)',
+      test: () => rulesContent.match(/replyTemplates\/\{templateId\}[\s\S]*?allow read:.*hasRole\('viewer'\)[\s\S]*?allow write: if false/),
+      required: true
+    },
+    {
+      name: 'Media library rule (viewer read, admin API writes)',
+      test: () => rulesContent.match(/media\/\{mediaId\}[\s\S]*?allow read:.*hasRole\('viewer'\)[\s\S]*?allow write: if false/),
       required: true
     },
     {
@@ -94,8 +124,28 @@ function verifyFirestoreRules() {
       required: true
     },
     {
-      name: 'Profile write rule (auth required)',
-      test: () => rulesContent.match(/profile\/main[\s\S]*?allow write:.*request\.auth != null/),
+      name: 'Profile write rule (admin API only)',
+      test: () => rulesContent.match(/profile\/main[\s\S]*?allow write: if false/),
+      required: true
+    },
+    {
+      name: 'Rate limit buckets rule (no client access)',
+      test: () => rulesContent.match(/rateLimits\/\{bucketId\}[\s\S]*?allow read, write: if false/),
+      required: true
+    },
+    {
+      name: 'Audit log collection defined',
+      test: () => rulesContent.includes('match /auditLog/{entryId}'),
+      required: true
+    },
+    {
+      name: 'Audit log read rule (owner role required)',
+      test: () => rulesContent.match(/auditLog[\s\S]*?allow read:.*hasRole\('owner'\)/),
+      required: true
+    },
+    {
+      name: 'Audit log write rule (no client writes)',
+      test: () => rulesContent.match(/auditLog[\s\S]*?allow write: if false/),
       required: true
     }
   ];
@@ -126,9 +176,12 @@ function verifyFirestoreRules() {
   
   log('✅ All security rules checks passed!', 'green');
   log('\n📝 Summary:', 'yellow');
-  log('  - Projects: Public read for published, auth required for write', 'reset');
-  log('  - Inquiries: Auth required for read, public create, auth for update/delete', 'reset');
-  log('  - Profile: Public read, auth required for write', 'reset');
+  log('  - Projects: Public read for published (not trashed), viewer role for all, writes through the admin API only', 'reset');
+  log('  - Inquiries: Viewer role required for read, created by the contact endpoint, update/delete through the admin API only', 'reset');
+  log('  - Inquiry messages, reply templates and media: Viewer role required for read, writes through the admin API only', 'reset');
+  log('  - Profile: Public read, writes through the admin API only', 'reset');
+  log('  - Rate limit buckets: No client access', 'reset');
+  log('  - Audit log: Owner role required for read, no client writes', 'reset');
   log('\n✨ Security rules are properly configured!\n', 'green');
 }
 
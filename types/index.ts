@@ -5,10 +5,12 @@
 export interface Project {
   id: string;
   title: string;
+  slug: string;              // URL slug, unique across current and previous slugs
   description: string;
   fullDescription: string;
   thumbnail: string;
-  images: string[];
+  images: GalleryImage[];     // Gallery in display order
+  imageMetadata?: ImageMetadata[]; // Dimensions and placeholders of uploaded images, matched by URL
   technologies: string[];
   category: string;
   liveUrl?: string;
@@ -16,20 +18,120 @@ export interface Project {
   featured: boolean;
   published: boolean;
   order: number;
+  publishAt?: Date | null;   // Draft is published automatically at this time
+  unpublishAt?: Date | null; // Project is unpublished automatically at this time
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * One image of a project's gallery
+ * Projects saved before entries existed store plain URLs, which are read as
+ * entries without alt text or caption.
+ */
+export interface GalleryImage {
+  url: string;
+  alt: string;     // Empty when not set yet
+  caption: string; // Shown under the image, empty for none
+  order: number;   // Position in the gallery, from 0
+}
+
+/**
+ * Problems the admin API reports about a saved project without rejecting it
+ */
+export interface ProjectWarnings {
+  images?: string; // Gallery images without alt text
+}
+
+/**
+ * Dimensions, dominant colour and blurred placeholder of an uploaded image,
+ * returned by the upload endpoint and stored on the project
+ */
+export interface ImageMetadata {
+  url: string;
+  width: number;
+  height: number;
+  color: string;       // Dominant colour as #rrggbb
+  placeholder: string; // Blurred LQIP as a data: URL
+}
+
 export interface Inquiry {
   id: string;
   name: string;
   email: string;
   subject: string;
   message: string;
+  type: InquiryType;        // 'other' for inquiries sent before types existed
+  company: string | null;   // Details only kept for the types that ask for them
+  budget: string | null;
+  timeline: string | null;
   timestamp: Date;
-  ip: string;
+  ipHash: string | null;  // Salted hash of the client IP; null without IP_HASH_SALT or once anonymised
   read: boolean;
   replied: boolean;
+  flagged: boolean;       // Content looked like spam; kept for review rather than rejected
+  spamReasons: string[];  // Heuristics that matched, e.g. 'Contains 3 links'
+  notifications: InquiryNotifications | null;  // Null until the notification emails have been processed
+  anonymisedAt: Date | null;  // Set when the retention policy cleared the sender's personal data
+}
+
+/**
+ * A reply in an inquiry's thread (inquiries/{id}/messages), sent from the admin UI
+ */
+export interface InquiryMessage {
+  id: string;
+  direction: 'outbound';
+  to: string;
+  subject: string;
+  body: string;
+  sentBy: { uid: string | null; email: string | null };
+  transport: string | null;  // Mail transport that sent it
+  messageId: string | null;  // Provider message ID, when reported
+  createdAt: Date;
+}
+
+/**
+ * Input for sending a reply; the subject defaults to "Re: <inquiry subject>"
+ */
+export interface InquiryReplyInput {
+  subject?: string;
+  body: string;
+}
+
+/**
+ * Saved reply for common responses (replyTemplates collection)
+ * subject and body may contain {{name}} and {{subject}} placeholders.
+ */
+export interface ReplyTemplate {
+  id: string;
+  name: string;
+  subject: string;  // Empty to keep the default "Re: ..." subject
+  body: string;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export type ReplyTemplateInput = Pick<ReplyTemplate, 'name' | 'subject' | 'body'>;
+
+/**
+ * Outcome of a notification email about an inquiry
+ */
+export type EmailDeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+export interface EmailDelivery {
+  status: EmailDeliveryStatus;
+  transport: string | null;   // 'smtp', 'api' or 'memory'
+  messageId: string | null;
+  error: string | null;       // Why the email failed or was skipped
+  at: string | null;          // ISO 8601
+}
+
+/**
+ * Emails sent when an inquiry arrives
+ */
+export interface InquiryNotifications {
+  owner: EmailDelivery;
+  acknowledgement: EmailDelivery;
 }
 
 export interface Profile {
@@ -47,11 +149,86 @@ export interface Profile {
   updatedAt: Date;
 }
 
+/**
+ * Result of an image upload: the stored WebP URL with its metadata
+ */
+export interface UploadedImage extends ImageMetadata {
+  id: string; // Media library entry
+}
+
+/**
+ * Result of a document (resume PDF) upload
+ */
+export interface UploadedDocument {
+  id: string;  // Media library entry
+  url: string;
+}
+
+/**
+ * An uploaded image or resume PDF indexed in the media library (media collection)
+ */
+export interface MediaAsset {
+  id: string;
+  path: string;                 // Storage folder of the upload
+  folder: string;               // Upload folder: projects, temp or profile
+  url: string;                  // Full-size WebP URL, as stored on projects
+  name: string;                 // File name slug
+  contentType: string;          // Type of the original upload (application/pdf for documents)
+  size: number;                 // Bytes stored across all files
+  width: number | null;
+  height: number | null;
+  color: string | null;
+  placeholder: string | null;
+  alt: string;
+  references: string[];         // IDs of the projects using the image, including trashed ones
+  createdAt: Date | null;
+  createdBy: string | null;
+}
+
+/**
+ * Dry-run report of the scheduled Storage cleanup
+ * (see functions/src/utils/storageCleanup.ts)
+ */
+export interface StorageCleanupReport {
+  dryRun: boolean;
+  cutoff: string;               // Unused uploads last changed before this are deleted
+  uploads: number;              // Uploads found in Storage
+  moves: {
+    from: string;               // Temp upload path
+    to: string;                 // Path under projects/<projectId>/
+    files: number;
+    projects: string[];         // IDs of the projects using it
+    mediaId: string | null;
+  }[];
+  deletions: {
+    path: string;
+    files: number;
+    size: number;               // Bytes across all files
+    updatedAt: string;
+    mediaId: string | null;
+  }[];
+  remaining: { moves: number; deletions: number }; // Left for later runs
+}
+
+/**
+ * What an inquiry is about, chosen on the contact form
+ */
+export type InquiryType = 'job' | 'freelance' | 'speaking' | 'other';
+
+/**
+ * Optional details asked for some inquiry types (see INQUIRY_TYPE_FIELDS in lib/validation)
+ */
+export type InquiryDetailField = 'company' | 'budget' | 'timeline';
+
 export interface ContactFormData {
   name: string;
   email: string;
   subject: string;
   message: string;
+  type: InquiryType;
+  company?: string;
+  budget?: string;
+  timeline?: string;
 }
 
 export interface APIResponse<T> {
@@ -106,6 +283,164 @@ export interface PaginatedResponse<T> {
   page: number;
   pageSize: number;
   hasMore: boolean;
+  /** Opaque cursor for the next page on cursor-paginated endpoints; null on the last page */
+  nextCursor?: string | null;
+}
+
+/**
+ * Sort options for project listings
+ * order and title sort ascending, createdAt sorts newest first
+ */
+export type ProjectSort = 'order' | 'createdAt' | 'title';
+
+/**
+ * Pagination, filter and sort options for project listings
+ */
+export interface ProjectQueryOptions {
+  pageSize?: number;
+  cursor?: string;
+  category?: string;
+  technology?: string;
+  featured?: boolean;
+  sort?: ProjectSort;
+}
+
+/**
+ * Kinds of change recorded in a project's revision history
+ */
+export type ProjectRevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+/**
+ * One entry in a project's revision history (projects/{id}/revisions)
+ */
+export interface ProjectRevision {
+  id: string;
+  action: ProjectRevisionAction;
+  actor: { uid: string | null; email: string | null };
+  changes: Record<string, { before: unknown; after: unknown }>;  // Only fields that changed
+  snapshot: Record<string, unknown> | null;  // Project after the change; as deleted for deletes
+  restoredFrom?: string;     // Revision ID, for restores
+  createdAt: Date;
+}
+
+/**
+ * Admin role from the `role` custom claim, least to most privileged:
+ * viewer (read-only), editor (manage content), owner (everything)
+ */
+export type AdminRole = 'viewer' | 'editor' | 'owner';
+
+/**
+ * Signed, expiring link for previewing a project before it is published
+ * - url: site path, /projects/<id>?preview=<token>
+ */
+export interface PreviewLink {
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * Collections whose deleted documents are kept in the admin trash
+ */
+export type TrashItemType = 'projects' | 'inquiries';
+
+/**
+ * Fields shared by every item in the admin trash
+ */
+export interface TrashEntry {
+  id: string;
+  deletedAt: Date;
+  deletedBy: string | null;  // Email of the admin who deleted it
+  purgeAt: Date;             // When the scheduled purge removes it for good
+}
+
+export interface TrashedProject extends TrashEntry {
+  title: string;
+  slug: string;
+}
+
+export interface TrashedInquiry extends TrashEntry {
+  name: string;
+  email: string;
+  subject: string;
+}
+
+/**
+ * Contents of the admin trash, most recently deleted first
+ */
+export interface TrashContents {
+  projects: TrashedProject[];
+  inquiries: TrashedInquiry[];
+}
+
+/**
+ * Kinds of document an audit log entry can be about
+ */
+export type AuditTargetType = 'project' | 'inquiry' | 'profile' | 'image' | 'document' | 'replyTemplate';
+
+/**
+ * Changes recorded in the admin audit log, as `<target type>.<verb>`
+ */
+export type AuditAction =
+  | 'project.create'
+  | 'project.update'
+  | 'project.delete'
+  | 'project.restore'
+  | 'project.purge'
+  | 'project.reorder'
+  | 'project.preview'
+  | 'inquiry.update'
+  | 'inquiry.delete'
+  | 'inquiry.restore'
+  | 'inquiry.purge'
+  | 'inquiry.reply'
+  | 'inquiry.anonymise'
+  | 'inquiry.erase'
+  | 'inquiry.export'
+  | 'profile.update'
+  | 'image.upload'
+  | 'image.update'
+  | 'image.delete'
+  | 'image.move'
+  | 'image.purge'
+  | 'document.upload'
+  | 'document.delete'
+  | 'replyTemplate.create'
+  | 'replyTemplate.update'
+  | 'replyTemplate.delete';
+
+/**
+ * One entry in the append-only admin audit log (auditLog collection)
+ */
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  actor: { uid: string | null; email: string | null };  // uid 'scheduler' for scheduled changes
+  target: { type: AuditTargetType; id: string | null };  // null ID for bulk changes such as reorders
+  before: Record<string, unknown> | null;  // null for creates
+  after: Record<string, unknown> | null;   // null for permanent deletes
+  ip: string | null;                       // null for scheduled changes
+  redacted: boolean;                       // before/after cleared when the inquiry was anonymised or erased
+  createdAt: Date;
+}
+
+/**
+ * Aggregate statistics shown on the admin dashboard
+ */
+export interface DashboardStats {
+  projects: {
+    total: number;
+    published: number;
+    draft: number;
+    featured: number;
+  };
+  inquiries: {
+    total: number;
+    unread: number;
+    unreplied: number;
+    perWeek: { weekStart: Date; count: number }[];  // Oldest week first
+  };
+  generatedAt: Date;
 }
 
 /**
@@ -120,8 +455,11 @@ export type PartialExcept<T, K extends keyof T> = Partial<T> & Pick<T, K>;
 
 /**
  * Utility type for project creation (omits auto-generated fields)
+ * The slug is generated from the title when omitted.
  */
-export type ProjectInput = Omit<Project, 'id' | 'createdAt' | 'updatedAt'>;
+export type ProjectInput = Omit<Project, 'id' | 'slug' | 'createdAt' | 'updatedAt'> & {
+  slug?: string;
+};
 
 /**
  * Utility type for project updates (all fields optional except id)
@@ -133,6 +471,11 @@ export type ProjectUpdate = PartialExcept<Project, 'id'>;
  */
 export type InquiryInput = Omit<Inquiry, 'id' | 'timestamp' | 'read' | 'replied'>;
 
+/**
+ * Utility type for profile updates from the admin editor (omits auto-generated fields)
+ */
+export type ProfileInput = Omit<Profile, 'updatedAt'>;
+
 /**
  * Work experience entry for profile
  */